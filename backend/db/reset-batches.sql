@@ -1,11 +1,16 @@
 -- Reset batches and witness_proofs to allow re-anchoring with correct batch IDs
 -- Run this when batch IDs in database are out of sync with blockchain
 
--- 1. Clear all existing batches (they have wrong batch IDs)
+-- 1. Clear all existing batches (they have wrong batch IDs) and the MMR accumulator over them
 TRUNCATE TABLE batches CASCADE;
+TRUNCATE TABLE mmr_nodes;
 
--- 2. Clear witness_proofs from events (so they get re-anchored)
-UPDATE events SET witness_proofs = NULL;
+-- 2. Clear witness_proofs from events and queue them again (also dead-lettered ones)
+UPDATE events SET witness_proofs = NULL,
+    anchor_status = 'queued',
+    anchor_attempts = 0,
+    next_attempt_at = NULL,
+    last_error = NULL;
 
 -- 3. Clear audit results (they reference old batch IDs)
 TRUNCATE TABLE audits;
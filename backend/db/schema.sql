@@ -1,4 +1,5 @@
 -- Identities (Managed by Identity Service)
+-- A portable DID keeps its SCID when it moves domain; references to the did follow via ON UPDATE CASCADE
 CREATE TABLE identities (
     did VARCHAR(255) PRIMARY KEY,
     scid VARCHAR(255) UNIQUE NOT NULL,
@@ -12,7 +13,7 @@ CREATE TABLE identities (
 -- Anchoring Events (Managed by Witness Service)
 CREATE TABLE events (
     id SERIAL PRIMARY KEY,
-    did VARCHAR(255) REFERENCES identities(did),
+    did VARCHAR(255) REFERENCES identities(did) ON UPDATE CASCADE,
     event_type VARCHAR(50) NOT NULL,
     payload JSONB NOT NULL,
     signature TEXT NOT NULL,
@@ -20,6 +21,10 @@ CREATE TABLE events (
     version_id VARCHAR(100) NOT NULL,
     timestamp BIGINT NOT NULL,
     witness_proofs JSONB, -- Array of witness signatures
+    anchor_status VARCHAR(20) DEFAULT 'queued', -- queued, in_flight, anchored, failed, dead_letter
+    anchor_attempts INTEGER DEFAULT 0,          -- failed anchoring attempts so far
+    next_attempt_at BIGINT,                     -- earliest retry after a failure (Unix ms)
+    last_error TEXT,                            -- error of the last failed attempt
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -29,24 +34,126 @@ CREATE TABLE batches (
     merkle_root VARCHAR(66) NOT NULL,
     tx_hash VARCHAR(66),
     block_number INTEGER,
-    status VARCHAR(50) DEFAULT 'pending', -- pending, anchored, confirmed
+    status VARCHAR(50) DEFAULT 'pending', -- pending, anchored, confirmed, orphaned
+    confirmations INTEGER DEFAULT 1,          -- distinct witnesses that confirmed the root on-chain
+    required_confirmations INTEGER DEFAULT 1, -- witness quorum (M-of-N) for this batch
+    finalized BOOLEAN DEFAULT TRUE,           -- quorum reached on-chain
+    block_confirmations INTEGER DEFAULT 0,    -- blocks on top of the anchor transaction (incl. its own)
+    mmr_size INTEGER,                         -- MMR node count at this anchor (NULL for legacy per-batch trees)
+    consistency_proof JSONB,                  -- MMR consistency proof from the previous anchored root
+    anchor_backend VARCHAR(50) DEFAULT 'evm', -- evm, file-ledger, memory
+    chain_id VARCHAR(100),                    -- e.g. eip155:11155111, ledger:<genesis hash prefix>
+    batch_reason VARCHAR(50),                 -- batching policy trigger: priority, threshold, timeout, gas-deadline
+    gas_price_gwei NUMERIC,                   -- gas price seen by the policy when the batch was triggered
+    gas_cost_wei NUMERIC(78, 0),              -- fee paid for the anchor transaction (counts toward the daily budget)
     timestamp TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Merkle Mountain Range nodes (Managed by Witness Service)
+-- Append-only accumulator over all anchored events, in MMR position order
+CREATE TABLE mmr_nodes (
+    position INTEGER PRIMARY KEY,
+    hash VARCHAR(66) NOT NULL
+);
+
+-- Verifiable Credentials (Managed by Identity Service)
+-- W3C VC 2.0 credentials issued about products, linked from their DID documents
+CREATE TABLE credentials (
+    id VARCHAR(255) PRIMARY KEY,          -- credential id (urn:uuid:...)
+    did VARCHAR(255) REFERENCES identities(did) ON UPDATE CASCADE, -- credential subject
+    credential_type VARCHAR(100) NOT NULL,
+    issuer VARCHAR(255) NOT NULL,         -- issuer did:key
+    credential JSONB NOT NULL,            -- the signed credential
+    valid_from TIMESTAMP WITH TIME ZONE NOT NULL,
+    valid_until TIMESTAMP WITH TIME ZONE,
+    status VARCHAR(20) DEFAULT 'active',  -- 'active', 'suspended' or 'revoked'
+    status_list_index INTEGER,            -- bit in the issuer's revocation and suspension lists
+    status_reason TEXT,                   -- reason given for the last status change
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (issuer, status_list_index)
+);
+
+-- Bitstring Status Lists (Managed by Identity Service)
+-- One revocation and one suspension list per issuer, served as signed status list credentials
+CREATE TABLE status_lists (
+    id VARCHAR(255) PRIMARY KEY,          -- e.g. z6Mk...-revocation
+    issuer VARCHAR(255) NOT NULL,         -- issuer did:key
+    issuer_key_id VARCHAR(255) NOT NULL,  -- key store id used to re-sign the list
+    status_purpose VARCHAR(20) NOT NULL,  -- 'revocation' or 'suspension'
+    encoded_list TEXT NOT NULL,           -- GZIP + base64url multibase bitstring
+    credential JSONB NOT NULL,            -- the signed BitstringStatusListCredential
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (issuer, status_purpose)
+);
+
+-- Key Usage Audit Trail (Managed by Identity Service)
+-- Which key store key signed which DID log entry
+CREATE TABLE key_usage (
+    id SERIAL PRIMARY KEY,
+    key_id VARCHAR(255) NOT NULL,         -- key store id of the signing key
+    public_key TEXT NOT NULL,             -- its publicKeyMultibase
+    did VARCHAR(255) REFERENCES identities(did) ON UPDATE CASCADE,
+    version_id VARCHAR(100) NOT NULL,     -- log entry it signed
+    operation VARCHAR(50) NOT NULL,       -- event type of the entry (create, update, key_rotation, ...)
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- DID Controllers (Managed by Identity Service)
+-- Holders of the update keys of multi-controller DIDs (m-of-n updateThreshold)
+CREATE TABLE did_controllers (
+    did VARCHAR(255) REFERENCES identities(did) ON UPDATE CASCADE,
+    public_key TEXT NOT NULL,             -- update key (publicKeyMultibase)
+    controller VARCHAR(255) NOT NULL,     -- DID of the party holding it
+    key_id VARCHAR(255),                  -- key store id if the key is held here, NULL for external keys
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (did, public_key)
+);
+
+-- Pending Updates (Managed by Identity Service)
+-- Updates of multi-controller DIDs collecting signatures until the threshold is met
+CREATE TABLE pending_updates (
+    id SERIAL PRIMARY KEY,
+    did VARCHAR(255) REFERENCES identities(did) ON UPDATE CASCADE,
+    base_version_id VARCHAR(100) NOT NULL, -- log entry the update applies to
+    updates JSONB NOT NULL,                -- the update as proposed
+    document TEXT NOT NULL,                -- resulting DID document, serialized exactly as the controllers sign it
+    threshold INTEGER NOT NULL,            -- signatures required
+    signatures JSONB NOT NULL DEFAULT '[]', -- [{ publicKeyMultibase, controller, keyId, proofValue, signedAt }]
+    status VARCHAR(20) DEFAULT 'pending',  -- 'pending', 'applied' or 'superseded'
+    proposed_by VARCHAR(255),              -- controller that proposed it
+    applied_version_id VARCHAR(100),       -- log entry it became
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Watcher Audits (Managed by Watcher Service)
 CREATE TABLE audits (
     id SERIAL PRIMARY KEY,
-    did VARCHAR(255) REFERENCES identities(did),
-    check_type VARCHAR(50), -- 'hash_chain' or 'merkle_proof'
+    did VARCHAR(255) REFERENCES identities(did) ON UPDATE CASCADE,
+    check_type VARCHAR(50), -- 'hash_chain', 'merkle_proof', 'witness_attestation' or 'accumulator_consistency' (did is NULL)
     status VARCHAR(20),     -- 'valid' or 'invalid'
     details TEXT,
+    run_id VARCHAR(64),     -- audit run that produced the check
+    trigger VARCHAR(20),    -- 'schedule' or 'manual'
+    exempt BOOLEAN DEFAULT FALSE, -- DID had a trust exemption: failures were not enforced
+    exemption_reason TEXT,  -- the exemption in force (reason, who added it, expiry)
     checked_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Trust Exemptions (Managed by Watcher Service)
+-- DIDs whose integrity failures are recorded but not enforced, until expires_at
+CREATE TABLE audit_exemptions (
+    did VARCHAR(255) PRIMARY KEY REFERENCES identities(did) ON UPDATE CASCADE,
+    reason TEXT NOT NULL,
+    added_by VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
 -- Watcher Alerts (Reported by Watchers)
 CREATE TABLE watcher_alerts (
     id SERIAL PRIMARY KEY,
-    did VARCHAR(255) REFERENCES identities(did),
+    did VARCHAR(255) REFERENCES identities(did) ON UPDATE CASCADE,
     event_id INTEGER REFERENCES events(id),
     reason VARCHAR(100) NOT NULL,
     details TEXT,
@@ -57,8 +164,8 @@ CREATE TABLE watcher_alerts (
 -- Relationships (Managed by Identity Service)
 CREATE TABLE relationships (
     id SERIAL PRIMARY KEY,
-    parent_did VARCHAR(255) REFERENCES identities(did),
-    child_did VARCHAR(255) REFERENCES identities(did),
+    parent_did VARCHAR(255) REFERENCES identities(did) ON UPDATE CASCADE,
+    child_did VARCHAR(255) REFERENCES identities(did) ON UPDATE CASCADE,
     relationship_type VARCHAR(50) NOT NULL, -- 'component', 'partOf', etc.
     position INTEGER, -- Ordered position for lists
     metadata JSONB,
@@ -67,3 +174,11 @@ CREATE TABLE relationships (
     UNIQUE(parent_did, child_did, relationship_type) -- Prevent duplicate links
 );
 
+
+-- Role Assignments (Managed by Identity Service)
+-- The role each party acts in, e.g. a Recycler recycling other parties' products
+CREATE TABLE role_assignments (
+    did VARCHAR(255) PRIMARY KEY,
+    role VARCHAR(50) NOT NULL, -- a UserRole (backend/utils/roles.ts)
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
@@ -6,7 +6,7 @@
 -- ============================================================
 
 -- Clear existing data for fresh start
-TRUNCATE audits, events, batches, identities CASCADE;
+TRUNCATE audits, audit_exemptions, role_assignments, key_usage, did_controllers, pending_updates, events, batches, mmr_nodes, status_lists, identities CASCADE;
 
 -- ============================================================
 -- 1. Demo Window Products (Main)
@@ -298,6 +298,42 @@ VALUES (
     EXTRACT(EPOCH FROM NOW() - INTERVAL '5 days')::BIGINT * 1000
 ) ON CONFLICT DO NOTHING;
 
+-- ============================================================
+-- 5. Trust Exemptions (demo identities with simulated proofs)
+-- ============================================================
+-- The watcher still audits these DIDs, but does not mark them tampered.
+-- Window 3 is deliberately not exempt, so its audit is enforced.
+
+INSERT INTO audit_exemptions (did, reason, added_by, expires_at)
+VALUES
+    ('did:webvh:localhost:3000:z-demo-window-001', 'Seed data with simulated signatures and leaf hashes', 'seed.sql', NOW() + INTERVAL '90 days'),
+    ('did:webvh:localhost:3000:z-demo-window-002', 'Seed data with simulated signatures and leaf hashes', 'seed.sql', NOW() + INTERVAL '90 days'),
+    ('did:webvh:localhost:3000:z-demo-glass-001', 'Seed data with simulated signatures and leaf hashes', 'seed.sql', NOW() + INTERVAL '90 days'),
+    ('did:webvh:localhost:3000:z-demo-glass-002', 'Seed data with simulated signatures and leaf hashes', 'seed.sql', NOW() + INTERVAL '90 days'),
+    ('did:webvh:localhost:3000:z-demo-glass-003', 'Seed data with simulated signatures and leaf hashes', 'seed.sql', NOW() + INTERVAL '90 days'),
+    ('did:webvh:localhost:3000:z-demo-frame-001', 'Seed data with simulated signatures and leaf hashes', 'seed.sql', NOW() + INTERVAL '90 days'),
+    ('did:webvh:localhost:3000:z-demo-frame-002', 'Seed data with simulated signatures and leaf hashes', 'seed.sql', NOW() + INTERVAL '90 days'),
+    ('did:webvh:localhost:3000:z-demo-frame-003', 'Seed data with simulated signatures and leaf hashes', 'seed.sql', NOW() + INTERVAL '90 days')
+ON CONFLICT (did) DO NOTHING;
+
+-- ============================================================
+-- 6. Role Assignments (parties of the demo ecosystem)
+-- ============================================================
+-- The roles the frontend's role switcher acts in. Wallet users are not
+-- assigned a role: they act as the owner of their own products only.
+
+INSERT INTO role_assignments (did, role)
+VALUES
+    ('did:webvh:example.com:roles:recycler-001', 'Recycler'),
+    ('did:webvh:example.com:organizations:window-manufacturer', 'Manufacturer'),
+    ('did:webvh:glass-solutions.com:organizations:manufacturer', 'Manufacturer A'),
+    ('did:webvh:frame-masters.com:organizations:manufacturer', 'Manufacturer B'),
+    ('did:webvh:example.com:witnesses:witness-node-001', 'Witness'),
+    ('did:webvh:example.com:watchers:watcher-node-001', 'Watcher'),
+    ('did:webvh:example.com:resolvers:resolver-node-001', 'Resolver'),
+    ('did:webvh:example.com:consumers:public-user', 'Consumer')
+ON CONFLICT (did) DO NOTHING;
+
 -- ============================================================
 -- Summary
 -- ============================================================
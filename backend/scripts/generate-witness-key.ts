@@ -0,0 +1,27 @@
+import 'dotenv/config';
+import { keyManagementService } from '../services/keyManagement/index.js';
+import { publicKeyToDidKey } from '../utils/dataIntegrity.js';
+import { createServiceLogger } from '../utils/logger.js';
+
+const log = createServiceLogger('generate-witness-key');
+
+/**
+ * Create the signing key of the witness service.
+ *
+ * Prints the key-store ID to set as WITNESS_KEY_ID for the witness, and the
+ * witness did:key to add to TRUSTED_WITNESSES for the watcher and the
+ * identity service.
+ */
+async function main() {
+    try {
+        const { keyId, publicKey } = await keyManagementService.generateKeyPair();
+        const witnessDid = publicKeyToDidKey(publicKey);
+        log.info('Generated witness key', { keyId, witnessDid });
+        log.info(`Set WITNESS_KEY_ID=${keyId} for the witness service and add ${witnessDid} to TRUSTED_WITNESSES.`);
+    } catch (error) {
+        log.error('Witness key generation failed', error);
+        process.exit(1);
+    }
+}
+
+main();
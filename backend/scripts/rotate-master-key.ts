@@ -0,0 +1,31 @@
+import 'dotenv/config';
+import { rotateMasterKey } from '../services/keyManagement/index.js';
+import { createServiceLogger } from '../utils/logger.js';
+
+const log = createServiceLogger('rotate-master-key');
+
+/**
+ * Re-encrypt the key store under a new master secret.
+ *
+ * KEY_ENCRYPTION_SECRET must hold the current secret and
+ * NEW_KEY_ENCRYPTION_SECRET the new one. Stop the services using the key
+ * store first, and start them with the new secret afterwards.
+ */
+async function main() {
+    const newSecret = process.env.NEW_KEY_ENCRYPTION_SECRET;
+    if (!newSecret) {
+        log.error('NEW_KEY_ENCRYPTION_SECRET is not set');
+        process.exit(1);
+    }
+
+    try {
+        const result = await rotateMasterKey(newSecret);
+        log.info(`Key store now uses master key ${result.masterKeyId}`, result);
+        log.info('Set KEY_ENCRYPTION_SECRET to the new secret before restarting the services.');
+    } catch (error) {
+        log.error('Master key rotation failed', error);
+        process.exit(1);
+    }
+}
+
+main();
@@ -0,0 +1,266 @@
+/**
+ * EVM Anchor Backend
+ *
+ * Anchors roots in the WitnessAnchorRegistry contract through ethers.
+ * Without RELAYER_PRIVATE_KEY the backend is read-only (watcher, identity).
+ */
+
+import { ethers } from 'ethers';
+import { createServiceLogger } from '../../utils/logger.js';
+import type { AnchorBackend, AnchorReceipt, AnchoredBatch, AnchorRecord, QuorumStatus } from './index.js';
+
+const log = createServiceLogger('anchor-evm');
+
+// Contract ABI of the WitnessAnchorRegistry
+const CONTRACT_ABI = [
+    "function anchor(bytes32 merkleRoot) external returns (uint256 batchId)",
+    "function confirm(uint256 batchId, bytes32 merkleRoot) external",
+    "function finalize(uint256 batchId) external",
+    "function getBatch(uint256 batchId) external view returns (bytes32 root, uint256 timestamp, uint256 blockNum)",
+    "function getConfirmations(uint256 batchId) external view returns (uint256 confirmations, uint256 required, bool finalized)",
+    "function hasConfirmed(uint256 batchId, address witness) external view returns (bool)",
+    "function batchCount() external view returns (uint256)",
+    "event Anchored(uint256 indexed batchId, bytes32 indexed root, uint256 timestamp, uint256 blockNumber)",
+    "event Confirmed(uint256 indexed batchId, address indexed witness, uint256 confirmations, uint256 required)",
+    "event Finalized(uint256 indexed batchId, bytes32 indexed root, uint256 blockNumber)"
+];
+
+const ZERO_ROOT = '0x' + '0'.repeat(64);
+
+// Hardhat only mines a block per transaction, so deeper confirmation would never be reached there
+const HARDHAT_CHAIN_ID = 'eip155:31337';
+const DEFAULT_CONFIRMATION_DEPTH = 3;
+
+// Helper: A call that reverted without revert data, as calls to a function the registry lacks do
+function isMissingFunction(err: unknown): boolean {
+    return ethers.isError(err, 'CALL_EXCEPTION') && (!err.data || err.data === '0x');
+}
+
+export class EvmAnchorBackend implements AnchorBackend {
+    public readonly name = 'evm' as const;
+    public readonly account: string | null;
+
+    private readonly rpcUrl: string;
+    private readonly provider: ethers.JsonRpcProvider;
+    private readonly wallet: ethers.Wallet | null;
+    private readonly contract: ethers.Contract | null;
+    private readonly confirmationDepth?: number;
+    private chainId: string | null = null;
+
+    constructor(options: { rpcUrl: string; contractAddress?: string; privateKey?: string; confirmationDepth?: number }) {
+        this.rpcUrl = options.rpcUrl;
+        this.confirmationDepth = options.confirmationDepth;
+        this.provider = new ethers.JsonRpcProvider(options.rpcUrl);
+
+        let privateKey = options.privateKey;
+        if (privateKey && !privateKey.startsWith('0x')) {
+            // Ensure 0x prefix for ethers
+            privateKey = '0x' + privateKey;
+        }
+        this.wallet = privateKey ? new ethers.Wallet(privateKey, this.provider) : null;
+        this.account = this.wallet?.address || null;
+
+        this.contract = options.contractAddress
+            ? new ethers.Contract(options.contractAddress, CONTRACT_ABI, this.wallet || this.provider)
+            : null;
+    }
+
+    public static fromEnv(): EvmAnchorBackend {
+        return new EvmAnchorBackend({
+            rpcUrl: process.env.RPC_URL || 'http://blockchain:8545',
+            contractAddress: process.env.CONTRACT_ADDRESS,
+            privateKey: process.env.RELAYER_PRIVATE_KEY,
+            confirmationDepth: process.env.ANCHOR_CONFIRMATIONS ? parseInt(process.env.ANCHOR_CONFIRMATIONS) : undefined
+        });
+    }
+
+    public async getChainId(): Promise<string> {
+        if (!this.chainId) {
+            const network = await this.provider.getNetwork();
+            this.chainId = `eip155:${network.chainId}`;
+        }
+        return this.chainId;
+    }
+
+    public async getBlockNumber(): Promise<number> {
+        return this.provider.getBlockNumber();
+    }
+
+    public async getConfirmationDepth(): Promise<number> {
+        if (this.confirmationDepth !== undefined) {
+            return Math.max(1, this.confirmationDepth);
+        }
+        return (await this.getChainId()) === HARDHAT_CHAIN_ID ? 1 : DEFAULT_CONFIRMATION_DEPTH;
+    }
+
+    public async getGasPrice(): Promise<bigint> {
+        const feeData = await this.provider.getFeeData();
+        return feeData.gasPrice ?? feeData.maxFeePerGas ?? 0n;
+    }
+
+    public async isReady(): Promise<boolean> {
+        const wallet = this.requireWallet();
+        this.requireContract();
+
+        log.info('Relayer status', {
+            address: wallet.address,
+            rpc: this.rpcUrl.split('@')[this.rpcUrl.split('@').length - 1] // Hide credentials if any
+        });
+
+        const balance = await this.provider.getBalance(wallet.address);
+        log.info('Balance check', {
+            balance: ethers.formatEther(balance) + ' ETH',
+            network: (await this.provider.getNetwork()).name
+        });
+
+        if (balance === 0n && !this.rpcUrl.includes('localhost') && !this.rpcUrl.includes('127.0.0.1')) {
+            log.error('CRITICAL: Relayer has 0 ETH on Sepolia. Transactions will fail.', { address: wallet.address });
+            return false;
+        }
+        return true;
+    }
+
+    public async anchor(root: string): Promise<AnchorReceipt> {
+        const contract = this.requireContract();
+        this.requireWallet();
+
+        const tx = await contract.anchor(root);
+        log.info('Transaction sent', { txHash: tx.hash });
+        const receipt = await tx.wait();
+
+        // Parse the Anchored event to get the REAL batch ID from the contract
+        const iface = new ethers.Interface(CONTRACT_ABI);
+        const anchoredLog = receipt.logs.find((entry: ethers.Log) => {
+            try {
+                const parsed = iface.parseLog({ topics: entry.topics as string[], data: entry.data });
+                return parsed?.name === 'Anchored';
+            } catch {
+                return false;
+            }
+        });
+
+        let batchId: number;
+        if (anchoredLog) {
+            const parsedEvent = iface.parseLog({ topics: anchoredLog.topics as string[], data: anchoredLog.data });
+            batchId = Number(parsedEvent?.args?.batchId ?? 0);
+            log.info('Parsed Anchored event', { batchId });
+        } else {
+            log.warn('Could not parse Anchored event from receipt');
+            // Fallback to query contract for latest batch count (less reliable)
+            batchId = Number(await contract.batchCount()) - 1;
+        }
+
+        return { batchId, txHash: receipt.hash, blockNumber: receipt.blockNumber, gasCostWei: receipt.fee };
+    }
+
+    public async findAnchor(root: string): Promise<AnchorReceipt | null> {
+        const contract = this.requireContract();
+
+        // Only the last 1000 blocks: enough to cover restarts and double broadcasts
+        const existingEvents = await contract.queryFilter(contract.filters.Anchored(null, root), -1000);
+        if (existingEvents.length === 0) {
+            return null;
+        }
+
+        const event = existingEvents[0] as ethers.EventLog;
+        const receipt = await this.provider.getTransactionReceipt(event.transactionHash);
+        if (!receipt) {
+            throw new Error(`Could not fetch receipt for existing transaction ${event.transactionHash}`);
+        }
+
+        return {
+            batchId: Number(event.args.batchId),
+            txHash: receipt.hash,
+            blockNumber: receipt.blockNumber,
+            gasCostWei: receipt.fee
+        };
+    }
+
+    public async getBatch(batchId: number): Promise<AnchoredBatch | null> {
+        const [root, timestamp, blockNum] = await this.requireContract().getBatch(batchId);
+        if (!root || root === ZERO_ROOT) {
+            return null;
+        }
+        return { batchId, root: String(root), timestamp: Number(timestamp), blockNumber: Number(blockNum) };
+    }
+
+    public async getBatchCount(): Promise<number> {
+        return Number(await this.requireContract().batchCount());
+    }
+
+    public async listAnchors(fromBlock: number = 0): Promise<AnchorRecord[]> {
+        const contract = this.requireContract();
+        const events = await contract.queryFilter(contract.filters.Anchored(), fromBlock);
+
+        return events.map(event => {
+            const { args } = event as ethers.EventLog;
+            return {
+                batchId: Number(args[0]),
+                root: String(args[1]),
+                timestamp: Number(args[2]),
+                blockNumber: Number(args[3]),
+                txHash: event.transactionHash
+            };
+        });
+    }
+
+    public async getTransactionBlock(txHash: string): Promise<number | null> {
+        const receipt = await this.provider.getTransactionReceipt(txHash);
+        return receipt ? receipt.blockNumber : null;
+    }
+
+    // Registries deployed before quorum support have no getConfirmations and are single-witness,
+    // so every anchored batch is final there. Any other failure (RPC errors, reverts with a
+    // reason) is passed on: a batch is never treated as final because its status is unknown.
+    public async getQuorumStatus(batchId: number): Promise<QuorumStatus> {
+        try {
+            const [confirmations, required, finalized] = await this.requireContract().getConfirmations(batchId);
+            return {
+                confirmations: Number(confirmations),
+                required: Number(required),
+                finalized: Boolean(finalized)
+            };
+        } catch (err) {
+            if (!isMissingFunction(err)) {
+                throw err;
+            }
+            log.debug('Registry has no quorum support, treating batch as final', { batchId });
+            return { confirmations: 1, required: 1, finalized: true };
+        }
+    }
+
+    public async hasConfirmed(batchId: number): Promise<boolean> {
+        const wallet = this.requireWallet();
+        return Boolean(await this.requireContract().hasConfirmed(batchId, wallet.address));
+    }
+
+    public async confirm(batchId: number, root: string): Promise<void> {
+        const wallet = this.requireWallet();
+        const tx = await this.requireContract().confirm(batchId, root);
+        log.info('Confirmation sent', { batchId, txHash: tx.hash, witness: wallet.address });
+        await tx.wait();
+    }
+
+    public async finalize(batchId: number): Promise<void> {
+        const wallet = this.requireWallet();
+        const tx = await this.requireContract().finalize(batchId);
+        log.info('Finalization sent', { batchId, txHash: tx.hash, witness: wallet.address });
+        await tx.wait();
+    }
+
+    private requireContract(): ethers.Contract {
+        if (!this.contract) {
+            throw new Error('CONTRACT_ADDRESS not set');
+        }
+        return this.contract;
+    }
+
+    private requireWallet(): ethers.Wallet {
+        if (!this.wallet) {
+            throw new Error('RELAYER_PRIVATE_KEY not set');
+        }
+        return this.wallet;
+    }
+}
+
+export default EvmAnchorBackend;
@@ -0,0 +1,127 @@
+/**
+ * Anchoring Backends
+ *
+ * Abstracts where Merkle (MMR) roots are anchored, so the witness, watcher and
+ * identity services do not depend on a single chain:
+ * - evm:         WitnessAnchorRegistry contract via ethers (default)
+ * - file-ledger: local append-only, hash-linked JSONL ledger (air-gapped / dev)
+ * - memory:      in-memory chain for tests
+ *
+ * The backend is selected with ANCHOR_BACKEND. Every backend reports a chain id
+ * (eip155:<id>, ledger:<id>, memory:<id>) that is recorded with each batch and
+ * anchoring proof, so proofs can be checked against the backend that made them.
+ */
+
+import { EvmAnchorBackend } from './evmBackend.js';
+import { FileLedgerAnchorBackend, MemoryAnchorBackend } from './ledgerBackend.js';
+
+// ============================================
+// Types
+// ============================================
+
+export type AnchorBackendName = 'evm' | 'file-ledger' | 'memory';
+
+export interface AnchorReceipt {
+    batchId: number;
+    txHash: string;
+    blockNumber: number;
+    gasCostWei?: bigint;   // Fee paid for the anchor transaction, if the backend charges one
+}
+
+export interface AnchoredBatch {
+    batchId: number;
+    root: string;
+    timestamp: number;   // Unix seconds
+    blockNumber: number;
+}
+
+export interface AnchorRecord extends AnchoredBatch {
+    txHash: string;
+}
+
+export interface QuorumStatus {
+    confirmations: number;
+    required: number;
+    finalized: boolean;
+}
+
+export interface AnchorBackend {
+    readonly name: AnchorBackendName;
+    /** Identity this process anchors and confirms as (relayer address, ledger witness id) */
+    readonly account: string | null;
+
+    getChainId(): Promise<string>;
+    getBlockNumber(): Promise<number>;
+    /** Blocks needed on top of an anchor before it is treated as safe from reorgs */
+    getConfirmationDepth(): Promise<number>;
+    /** Current gas price in wei (0 for backends without fees) */
+    getGasPrice(): Promise<bigint>;
+    /** Whether anchoring can proceed right now (e.g. the relayer has funds) */
+    isReady(): Promise<boolean>;
+
+    anchor(root: string): Promise<AnchorReceipt>;
+    /** A recent anchor of the same root, to recover after restarts or double broadcasts */
+    findAnchor(root: string): Promise<AnchorReceipt | null>;
+    getBatch(batchId: number): Promise<AnchoredBatch | null>;
+    getBatchCount(): Promise<number>;
+    listAnchors(fromBlock?: number): Promise<AnchorRecord[]>;
+    /** Block that currently includes an anchor transaction, or null if it was dropped (e.g. by a reorg) */
+    getTransactionBlock(txHash: string): Promise<number | null>;
+
+    getQuorumStatus(batchId: number): Promise<QuorumStatus>;
+    hasConfirmed(batchId: number): Promise<boolean>;
+    confirm(batchId: number, root: string): Promise<void>;
+    /** Record the finality of a batch that reached its quorum without a new confirmation (a witness was removed) */
+    finalize(batchId: number): Promise<void>;
+}
+
+// ============================================
+// Backend Selection
+// ============================================
+
+const BACKEND_NAMES: AnchorBackendName[] = ['evm', 'file-ledger', 'memory'];
+const backends = new Map<AnchorBackendName, AnchorBackend>();
+
+/**
+ * Name of the backend configured with ANCHOR_BACKEND (defaults to evm)
+ */
+export function getConfiguredBackendName(): AnchorBackendName {
+    const name = (process.env.ANCHOR_BACKEND || 'evm') as AnchorBackendName;
+    if (!BACKEND_NAMES.includes(name)) {
+        throw new Error(`Unknown ANCHOR_BACKEND "${name}" (expected ${BACKEND_NAMES.join(', ')})`);
+    }
+    return name;
+}
+
+/**
+ * Backend that produced a chain id recorded on a batch or proof.
+ * Proofs from before backends were recorded are EVM anchors.
+ */
+export function backendForChainId(chainId?: string | null): AnchorBackendName {
+    if (chainId?.startsWith('ledger:')) return 'file-ledger';
+    if (chainId?.startsWith('memory:')) return 'memory';
+    return 'evm';
+}
+
+/**
+ * Get (and cache) a backend instance configured from the environment
+ */
+export function getAnchorBackend(name: AnchorBackendName = getConfiguredBackendName()): AnchorBackend {
+    let backend = backends.get(name);
+    if (!backend) {
+        switch (name) {
+            case 'file-ledger':
+                backend = FileLedgerAnchorBackend.fromEnv();
+                break;
+            case 'memory':
+                backend = MemoryAnchorBackend.fromEnv();
+                break;
+            default:
+                backend = EvmAnchorBackend.fromEnv();
+        }
+        backends.set(name, backend);
+    }
+    return backend;
+}
+
+export { EvmAnchorBackend, FileLedgerAnchorBackend, MemoryAnchorBackend };
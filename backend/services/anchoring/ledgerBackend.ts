@@ -0,0 +1,343 @@
+/**
+ * Ledger Anchor Backends
+ *
+ * Hash-linked, append-only record logs that stand in for a chain:
+ * - FileLedgerAnchorBackend: JSONL file (ANCHOR_LEDGER_PATH) for air-gapped / dev setups
+ * - MemoryAnchorBackend:     in-memory, for tests
+ *
+ * Each record commits to its predecessor (prevHash) and to its own contents
+ * (hash), so any edit or removal breaks the chain and is rejected on load.
+ * A record's index plays the role of the block number and its hash of the
+ * transaction hash. Like the registry contract, a batch is final once
+ * ANCHOR_QUORUM distinct witnesses (the anchoring one included) confirmed it.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { AnchorBackend, AnchorBackendName, AnchorReceipt, AnchoredBatch, AnchorRecord, QuorumStatus } from './index.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// ============================================
+// Types
+// ============================================
+
+export interface LedgerRecord {
+    index: number;
+    type: 'genesis' | 'anchor' | 'confirm';
+    batchId?: number;
+    root?: string;
+    witness?: string;
+    required?: number;   // Quorum in force when the batch was anchored
+    nonce?: string;      // Genesis only: makes each ledger's chain id unique
+    timestamp: number;   // Unix seconds
+    prevHash: string;
+    hash: string;
+}
+
+type UnsealedRecord = Omit<LedgerRecord, 'index' | 'prevHash' | 'hash'>;
+
+const ZERO_HASH = '0x' + '0'.repeat(64);
+
+// Helper: Hash of a record without its own hash field
+function hashRecord(record: Omit<LedgerRecord, 'hash'>): string {
+    return '0x' + crypto.createHash('sha256').update(JSON.stringify(record)).digest('hex');
+}
+
+function seal(partial: UnsealedRecord, index: number, prevHash: string): LedgerRecord {
+    const record = { index, prevHash, ...partial };
+    return { ...record, hash: hashRecord(record) };
+}
+
+// ============================================
+// Shared Ledger Logic
+// ============================================
+
+abstract class LedgerAnchorBackend implements AnchorBackend {
+    public abstract readonly name: AnchorBackendName;
+    public readonly account: string;
+
+    protected constructor(
+        witnessId: string,
+        private readonly quorum: number
+    ) {
+        this.account = witnessId;
+    }
+
+    /** Raw records in append order (without chain verification) */
+    protected abstract readRecords(): Promise<LedgerRecord[]>;
+    /** Append a sealed record */
+    protected abstract writeRecord(record: LedgerRecord): Promise<void>;
+    /** Create the genesis record if the ledger is empty */
+    protected abstract initialize(genesis: LedgerRecord): Promise<void>;
+    protected abstract readonly chainPrefix: string;
+
+    public async getChainId(): Promise<string> {
+        const [genesis] = await this.load();
+        return `${this.chainPrefix}:${genesis.hash.slice(2, 18)}`;
+    }
+
+    public async getBlockNumber(): Promise<number> {
+        const records = await this.load();
+        return records.length - 1;
+    }
+
+    // A ledger has a single history, so an appended record is never rolled back
+    public async getConfirmationDepth(): Promise<number> {
+        return 1;
+    }
+
+    public async getGasPrice(): Promise<bigint> {
+        return 0n;
+    }
+
+    public async isReady(): Promise<boolean> {
+        await this.load();
+        return true;
+    }
+
+    public async anchor(root: string): Promise<AnchorReceipt> {
+        const records = await this.load();
+        const batchId = records.filter(r => r.type === 'anchor').length;
+
+        // The anchoring witness confirms implicitly, as in the registry contract
+        const record = await this.append(records, {
+            type: 'anchor',
+            batchId,
+            root,
+            witness: this.account,
+            required: this.quorum,
+            timestamp: Math.floor(Date.now() / 1000)
+        });
+
+        return { batchId, txHash: record.hash, blockNumber: record.index };
+    }
+
+    public async findAnchor(root: string): Promise<AnchorReceipt | null> {
+        const records = await this.load();
+        const record = [...records].reverse().find(r => r.type === 'anchor' && r.root === root);
+        return record ? { batchId: record.batchId!, txHash: record.hash, blockNumber: record.index } : null;
+    }
+
+    public async getBatch(batchId: number): Promise<AnchoredBatch | null> {
+        const record = this.findBatch(await this.load(), batchId);
+        return record ? this.toAnchorRecord(record) : null;
+    }
+
+    public async getBatchCount(): Promise<number> {
+        const records = await this.load();
+        return records.filter(r => r.type === 'anchor').length;
+    }
+
+    public async listAnchors(fromBlock: number = 0): Promise<AnchorRecord[]> {
+        const records = await this.load();
+        return records
+            .filter(r => r.type === 'anchor' && r.index >= fromBlock)
+            .map(r => this.toAnchorRecord(r));
+    }
+
+    public async getTransactionBlock(txHash: string): Promise<number | null> {
+        const records = await this.load();
+        return records.find(r => r.type === 'anchor' && r.hash === txHash)?.index ?? null;
+    }
+
+    public async getQuorumStatus(batchId: number): Promise<QuorumStatus> {
+        const records = await this.load();
+        const anchor = this.findBatch(records, batchId);
+        if (!anchor) {
+            throw new Error(`Batch ${batchId} does not exist`);
+        }
+
+        const confirmations = this.confirmingWitnesses(records, batchId).size;
+        const required = anchor.required || 1;
+        return { confirmations, required, finalized: confirmations >= required };
+    }
+
+    public async hasConfirmed(batchId: number): Promise<boolean> {
+        const records = await this.load();
+        return this.confirmingWitnesses(records, batchId).has(this.account);
+    }
+
+    public async confirm(batchId: number, root: string): Promise<void> {
+        const records = await this.load();
+        const anchor = this.findBatch(records, batchId);
+        if (!anchor) {
+            throw new Error(`Batch ${batchId} does not exist`);
+        }
+        if (anchor.root !== root) {
+            throw new Error(`Root mismatch for batch ${batchId}`);
+        }
+        if (this.confirmingWitnesses(records, batchId).has(this.account)) {
+            throw new Error(`Witness ${this.account} already confirmed batch ${batchId}`);
+        }
+
+        await this.append(records, {
+            type: 'confirm',
+            batchId,
+            root,
+            witness: this.account,
+            timestamp: Math.floor(Date.now() / 1000)
+        });
+    }
+
+    // The ledger has no witness removal: a batch is final as soon as its confirmations reach
+    // the quorum, and stays final, so there is nothing to record.
+    public async finalize(batchId: number): Promise<void> {
+        const status = await this.getQuorumStatus(batchId);
+        if (!status.finalized) {
+            throw new Error(`Batch ${batchId} has not reached its quorum`);
+        }
+    }
+
+    /**
+     * Load the ledger and verify its hash links
+     */
+    protected async load(): Promise<LedgerRecord[]> {
+        let records = await this.readRecords();
+        if (records.length === 0) {
+            await this.initialize(seal({
+                type: 'genesis',
+                nonce: crypto.randomBytes(16).toString('hex'),
+                timestamp: Math.floor(Date.now() / 1000)
+            }, 0, ZERO_HASH));
+            records = await this.readRecords();
+        }
+
+        records.forEach((record, i) => {
+            const { hash, ...unsealed } = record;
+            const prevHash = i === 0 ? ZERO_HASH : records[i - 1].hash;
+            if (record.index !== i || record.prevHash !== prevHash || hashRecord(unsealed) !== hash) {
+                throw new Error(`Anchor ledger is corrupt at record ${i}`);
+            }
+        });
+        return records;
+    }
+
+    private async append(records: LedgerRecord[], partial: UnsealedRecord): Promise<LedgerRecord> {
+        const previous = records[records.length - 1];
+        const record = seal(partial, previous.index + 1, previous.hash);
+        await this.writeRecord(record);
+        return record;
+    }
+
+    private findBatch(records: LedgerRecord[], batchId: number): LedgerRecord | undefined {
+        return records.find(r => r.type === 'anchor' && r.batchId === batchId);
+    }
+
+    private confirmingWitnesses(records: LedgerRecord[], batchId: number): Set<string> {
+        return new Set(
+            records
+                .filter(r => r.type !== 'genesis' && r.batchId === batchId && r.witness)
+                .map(r => r.witness!)
+        );
+    }
+
+    private toAnchorRecord(record: LedgerRecord): AnchorRecord {
+        return {
+            batchId: record.batchId!,
+            root: record.root!,
+            timestamp: record.timestamp,
+            blockNumber: record.index,
+            txHash: record.hash
+        };
+    }
+}
+
+// Helper: Quorum and witness identity shared by both ledgers
+function ledgerOptionsFromEnv(): { witnessId: string; quorum: number } {
+    return {
+        witnessId: process.env.ANCHOR_WITNESS_ID || 'local-witness',
+        quorum: Math.max(1, parseInt(process.env.ANCHOR_QUORUM || '1', 10) || 1)
+    };
+}
+
+// ============================================
+// File Ledger
+// ============================================
+
+export class FileLedgerAnchorBackend extends LedgerAnchorBackend {
+    public readonly name = 'file-ledger' as const;
+    protected readonly chainPrefix = 'ledger';
+
+    constructor(
+        private readonly filePath: string,
+        witnessId: string,
+        quorum: number = 1
+    ) {
+        super(witnessId, quorum);
+    }
+
+    public static fromEnv(): FileLedgerAnchorBackend {
+        const { witnessId, quorum } = ledgerOptionsFromEnv();
+        const filePath = process.env.ANCHOR_LEDGER_PATH
+            || path.resolve(__dirname, '../../anchor-ledger/ledger.jsonl');
+        return new FileLedgerAnchorBackend(filePath, witnessId, quorum);
+    }
+
+    protected async readRecords(): Promise<LedgerRecord[]> {
+        try {
+            const content = await fs.readFile(this.filePath, 'utf-8');
+            return content
+                .split('\n')
+                .filter(line => line.trim())
+                .map(line => JSON.parse(line) as LedgerRecord);
+        } catch (err: unknown) {
+            if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+                return [];
+            }
+            throw err;
+        }
+    }
+
+    protected async writeRecord(record: LedgerRecord): Promise<void> {
+        await fs.appendFile(this.filePath, JSON.stringify(record) + '\n', 'utf-8');
+    }
+
+    protected async initialize(genesis: LedgerRecord): Promise<void> {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        try {
+            // 'wx' fails if another process created the ledger first; its genesis wins
+            await fs.writeFile(this.filePath, JSON.stringify(genesis) + '\n', { encoding: 'utf-8', flag: 'wx' });
+        } catch (err: unknown) {
+            if ((err as NodeJS.ErrnoException).code !== 'EEXIST') {
+                throw err;
+            }
+        }
+    }
+}
+
+// ============================================
+// In-Memory Chain
+// ============================================
+
+export class MemoryAnchorBackend extends LedgerAnchorBackend {
+    public readonly name = 'memory' as const;
+    protected readonly chainPrefix = 'memory';
+    private records: LedgerRecord[] = [];
+
+    constructor(witnessId: string = 'memory-witness', quorum: number = 1) {
+        super(witnessId, quorum);
+    }
+
+    public static fromEnv(): MemoryAnchorBackend {
+        const { witnessId, quorum } = ledgerOptionsFromEnv();
+        return new MemoryAnchorBackend(witnessId, quorum);
+    }
+
+    protected async readRecords(): Promise<LedgerRecord[]> {
+        return [...this.records];
+    }
+
+    protected async writeRecord(record: LedgerRecord): Promise<void> {
+        this.records.push(record);
+    }
+
+    protected async initialize(genesis: LedgerRecord): Promise<void> {
+        if (this.records.length === 0) {
+            this.records.push(genesis);
+        }
+    }
+}
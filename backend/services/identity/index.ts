@@ -16,22 +16,88 @@ import * as fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import * as crypto from 'crypto';
+import { EventEmitter } from 'events';
 import 'dotenv/config';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 import { MerkleTree } from 'merkletreejs';
 import { sha256 } from '@noble/hashes/sha256';
-import { witnessFileManager } from '../../utils/witnessFileManager.js';
+import { witnessFileManager, type AnchoringProof } from '../../utils/witnessFileManager.js';
+import {
+    verifyWitnessProof,
+    getTrustedWitnesses,
+    verifyPreRotation,
+    verifyUpdateThreshold,
+    verifyProof,
+    getActiveNextKeyHashes,
+    getActiveUpdatePolicy,
+    computeNextKeyHash,
+    type LogEntry
+} from '../../utils/verification.js';
+import { createDataIntegrityProof } from '../../utils/dataIntegrity.js';
+import { selectVersion, validateVersionQuery, buildDocumentMetadata, type VersionQuery } from '../../utils/didVersions.js';
+import {
+    validateClaims,
+    buildCredential,
+    signCredential,
+    issuerDidForSigner,
+    VC_V2_CONTEXT,
+    type CredentialDefinitionLike
+} from '../../utils/credentials.js';
+import {
+    createBitstring,
+    setStatusBit,
+    encodeStatusList,
+    decodeStatusList,
+    buildStatusListCredential,
+    buildStatusEntry,
+    STATUS_PURPOSES,
+    STATUS_LIST_LENGTH,
+    type StatusPurpose
+} from '../../utils/statusList.js';
+import {
+    issueSdJwt,
+    presentSdJwt,
+    canRoleSeeField,
+    getPresentationRole,
+    ROLE_PERMISSIONS,
+    SD_JWT_VC_TYPE
+} from '../../utils/selectiveDisclosure.js';
+import {
+    validateLifecycleTransition,
+    getAllowedTransitions,
+    isLifecycleStatus,
+    isTerminalStatus,
+    validateLifecycleAttachments,
+    validateLifecycleChildPlans,
+    getLifecycleTransitionPath,
+    CASCADING_STATUSES,
+    type LifecycleStatus,
+    type LifecycleAttachment,
+    type LifecycleChildPlan,
+    type LifecycleCascadeAction
+} from '../../utils/lifecycle.js';
+import { verifyInclusionProof } from '../../utils/mmr.js';
+import {
+    getSchemaForType,
+    validateAgainstSchema,
+    getLifecycleForDPP,
+    validateLifecycleForProduct,
+    type ProductTypeSchema,
+    type LifecycleDefinition
+} from '../../utils/productSchema.js';
+import { getProductActorRole, isUserRole, type UserRole } from '../../utils/roles.js';
+import { getAnchorBackend, getConfiguredBackendName, type AnchorBackendName } from '../anchoring/index.js';
 
 // Import didwebvh-ts library functions
 import { createDID, resolveDID, updateDID, deactivateDID } from 'didwebvh-ts';
 
 // Import Key Management Service
-import { keyManagementService } from '../keyManagement/index.js';
+import { keyManagementService, isSignerProviderName, type Signer, type SignerProviderName } from '../keyManagement/index.js';
 
 const app = express();
-app.use(express.json());
+app.use(express.json({ limit: '5mb' })); // product imports carry hundreds of rows
 
 // Simple request logger middleware with filtering
 app.use((req, res, next) => {
@@ -117,6 +183,22 @@ async function loadDIDLog(scid: string): Promise<any[] | null> {
     }
 }
 
+/**
+ * Record which key signed a DID log entry (key usage audit trail)
+ */
+async function recordKeyUsage(
+    signer: Pick<Signer, 'keyId' | 'publicKeyMultibase'>,
+    did: string,
+    versionId: string,
+    operation: string,
+    db: Pick<Pool, 'query'> = pool
+): Promise<void> {
+    await db.query(
+        `INSERT INTO key_usage (key_id, public_key, did, version_id, operation) VALUES ($1, $2, $3, $4, $5)`,
+        [signer.keyId, signer.publicKeyMultibase, did, versionId, operation]
+    );
+}
+
 /**
  * Extract SCID from DID
  * DID format: did:webvh:{domain}:{scid}
@@ -127,6 +209,93 @@ function extractScidFromDid(did: string): string {
     return parts[parts.length - 1];
 }
 
+interface CoControllerInput {
+    did: string;                  // DID of the co-controller
+    publicKeyMultibase?: string;  // its own update key (generated here if omitted)
+}
+
+/**
+ * Validate the co-controllers and m-of-n updateThreshold of a new DID, or of
+ * an existing one with its current updateKeys (co-controllers are added)
+ * Returns an error message, or null if they are valid
+ */
+function validateCoControllers(coControllers: unknown, updateThreshold: unknown, updateKeys: string[] = []): string | null {
+    const current = Math.max(updateKeys.length, 1);
+    if (coControllers === undefined && current === 1) {
+        return updateThreshold === undefined || updateThreshold === 1
+            ? null
+            : 'updateThreshold requires coControllers';
+    }
+    if (coControllers !== undefined && !Array.isArray(coControllers)) {
+        return 'coControllers must be an array';
+    }
+    const keys = new Set<string>(updateKeys);
+    for (const co of (coControllers || []) as CoControllerInput[]) {
+        if (!co || typeof co.did !== 'string' || !co.did) {
+            return 'Every co-controller needs a did';
+        }
+        if (co.publicKeyMultibase !== undefined) {
+            if (typeof co.publicKeyMultibase !== 'string' || !co.publicKeyMultibase.startsWith('z')) {
+                return `Invalid publicKeyMultibase for co-controller ${co.did}`;
+            }
+            if (keys.has(co.publicKeyMultibase)) {
+                return `Duplicate update key ${co.publicKeyMultibase}`;
+            }
+            keys.add(co.publicKeyMultibase);
+        }
+    }
+    const n = current + ((coControllers as unknown[] | undefined)?.length || 0);
+    if (updateThreshold !== undefined
+        && (!Number.isInteger(updateThreshold) || (updateThreshold as number) < 1 || (updateThreshold as number) > n)) {
+        return `updateThreshold must be an integer from 1 to ${n}`;
+    }
+    return null;
+}
+
+interface ControllerKey {
+    controller: string;
+    publicKeyMultibase: string;
+    keyId: string | null;    // key store id, null for keys the co-controller holds itself
+}
+
+// Helper: Update keys of co-controllers (generated here unless the co-controller brings its own)
+async function generateControllerKeys(coControllers: CoControllerInput[], provider?: SignerProviderName): Promise<ControllerKey[]> {
+    const controllerKeys: ControllerKey[] = [];
+    for (const co of coControllers) {
+        if (co.publicKeyMultibase) {
+            controllerKeys.push({ controller: co.did, publicKeyMultibase: co.publicKeyMultibase, keyId: null });
+        } else {
+            const coKey = await keyManagementService.generateKeyPair(provider);
+            controllerKeys.push({ controller: co.did, publicKeyMultibase: coKey.publicKeyMultibase, keyId: coKey.keyId });
+        }
+    }
+    return controllerKeys;
+}
+
+// Helper: Register the controllers of a multi-controller DID
+async function registerControllerKeys(did: string, controllerKeys: ControllerKey[]): Promise<void> {
+    for (const c of controllerKeys) {
+        await pool.query(
+            `INSERT INTO did_controllers (did, public_key, controller, key_id) VALUES ($1, $2, $3, $4)
+             ON CONFLICT (did, public_key) DO UPDATE SET controller = EXCLUDED.controller, key_id = EXCLUDED.key_id`,
+            [did, c.publicKeyMultibase, c.controller, c.keyId]
+        );
+    }
+}
+
+/**
+ * Error body (409) for operations one key cannot authorize on a
+ * multi-controller DID, or null if the DID has a single controller
+ */
+function requiresThresholdSignatures(log: LogEntry[]): { error: string; suggestion: string } | null {
+    const { threshold, updateKeys } = getActiveUpdatePolicy(log);
+    if (threshold <= 1) return null;
+    return {
+        error: `DID requires ${threshold} of ${updateKeys.length} controller signatures for updates`,
+        suggestion: 'Propose the change with PUT /api/did/:did/update and collect the signatures via /api/did/:did/pending-updates.'
+    };
+}
+
 // ============================================
 // DID RESOLUTION - Static File Serving
 // ============================================
@@ -176,15 +345,36 @@ app.get('/.well-known/did/:scid/:filename', (req, res) => {
  * - Hash chain linking
  */
 app.post('/api/products/create', async (req, res) => {
-    const { type, model, metadata, ownerDid, requestedDid } = req.body;
+    const { type, model, metadata, ownerDid, requestedDid, portable, signerProvider, coControllers, updateThreshold } = req.body;
+
+    if (signerProvider !== undefined && !isSignerProviderName(signerProvider)) {
+        return res.status(400).json({ error: `Unknown signerProvider "${signerProvider}" (expected file, remote or pkcs11)` });
+    }
+
+    const invalidControllers = validateCoControllers(coControllers, updateThreshold);
+    if (invalidControllers) {
+        return res.status(400).json({ error: invalidControllers });
+    }
 
     try {
+        // A recycled, deactivated or replaced product cannot be brought back by re-creating its DID
+        if (requestedDid) {
+            const existingStatus = await getLifecycleStatus(requestedDid);
+            if (existingStatus && isTerminalStatus(existingStatus)) {
+                return res.status(409).json({ error: `${requestedDid} is ${existingStatus} (a terminal state)` });
+            }
+        }
+
         console.log('[Identity] Creating new DID for product:', { type, model, ownerDid, requestedDid });
 
         // 1. Generate signing keys using Key Management Service
-        const keyPair = await keyManagementService.generateKeyPair();
+        // (with the requested signer provider, e.g. an HSM, or SIGNER_PROVIDER)
+        const keyPair = await keyManagementService.generateKeyPair(signerProvider);
         console.log('[Identity] Generated keypair:', keyPair.keyId);
 
+        // Pre-rotation: commit to the next update key from the first entry on
+        const nextKey = await keyManagementService.escrowNextKey(keyManagementService.providerNameForKeyId(keyPair.keyId));
+
         // 2. Create signer for didwebvh-ts
         const signer = await keyManagementService.createSigner(keyPair.keyId);
         if (!signer) {
@@ -200,16 +390,27 @@ app.post('/api/products/create', async (req, res) => {
             publicKeyMultibase: signer.publicKeyMultibase
         };
 
+        // Multi-controller: one update key per co-controller. Their keys stay the
+        // same across rotations, so they are pre-committed as they are.
+        const controllerKeys = await generateControllerKeys(coControllers || [], signerProvider);
+        const threshold = updateThreshold ?? 1;
+
         let didResult;
 
         // If the user requested a specific DID (e.g. from frontend prediction), try to respect it
         // Note: Real did:webvh SCIDs should be derived from the genesis log, so we prioritize 
         // the structure while allowing the path to be influenced if possible.
         try {
+            if (controllerKeys.length > 0) {
+                // didwebvh-ts has no m-of-n update policy (updateThreshold)
+                throw new Error('multi-controller DIDs are not supported by didwebvh-ts');
+            }
             didResult = await createDID({
                 domain: DOMAIN,
                 signer: didwebvhSigner,
                 updateKeys: [signer.publicKeyMultibase],
+                nextKeyHashes: [nextKey.nextKeyHash],
+                portable: portable === true, // Allows a later move to another domain
                 controller: ownerDid || undefined, // Set the owner/controller if provided
                 verificationMethods: [{
                     type: 'Multikey',
@@ -228,7 +429,11 @@ app.post('/api/products/create', async (req, res) => {
                 model,
                 metadata,
                 controller: ownerDid, // Set owner in fallback too
-                requestedDid: requestedDid // Pass requested DID to fallback
+                requestedDid: requestedDid, // Pass requested DID to fallback
+                updateKeys: [signer.publicKeyMultibase, ...controllerKeys.map(k => k.publicKeyMultibase)],
+                updateThreshold: controllerKeys.length > 0 ? threshold : undefined,
+                nextKeyHashes: [nextKey.nextKeyHash, ...controllerKeys.map(k => computeNextKeyHash(k.publicKeyMultibase))],
+                portable: portable === true
             });
         }
 
@@ -253,7 +458,7 @@ app.post('/api/products/create', async (req, res) => {
         // 5. Store in database
         await pool.query(
             `INSERT INTO identities (did, scid, public_key, owner, status) VALUES ($1, $2, $3, $4, $5)
-             ON CONFLICT (did) DO UPDATE SET owner = EXCLUDED.owner, status = 'active', updated_at = NOW()`,
+             ON CONFLICT (did) DO UPDATE SET owner = EXCLUDED.owner, updated_at = NOW()`,
             [did, scid, signer.publicKeyMultibase, ownerDid || null, 'active']
         );
 
@@ -275,6 +480,15 @@ app.post('/api/products/create', async (req, res) => {
                 Date.now()
             ]
         );
+        await recordKeyUsage(signer, did, '1', 'create');
+
+        // 7. Register the controllers of a multi-controller DID
+        if (controllerKeys.length > 0) {
+            await registerControllerKeys(did, [
+                { controller: ownerDid || did, publicKeyMultibase: signer.publicKeyMultibase, keyId: keyPair.keyId },
+                ...controllerKeys
+            ]);
+        }
 
         console.log(`✅ Created DID and stored event: ${did}`);
 
@@ -282,6 +496,12 @@ app.post('/api/products/create', async (req, res) => {
             did,
             scid,
             keyId: keyPair.keyId,
+            nextKeyHash: nextKey.nextKeyHash,
+            portable: portable === true,
+            ...(controllerKeys.length > 0 ? {
+                updateThreshold: threshold,
+                controllers: controllerKeys.map(k => ({ did: k.controller, publicKeyMultibase: k.publicKeyMultibase }))
+            } : {}),
             status: 'created',
             document: doc,
             publicKey: signer.publicKeyMultibase
@@ -305,8 +525,12 @@ async function createDIDFallback(options: {
     metadata?: any;
     controller?: string;
     requestedDid?: string;
+    updateKeys?: string[];
+    updateThreshold?: number;
+    nextKeyHashes?: string[];
+    portable?: boolean;
 }) {
-    const { domain, signer, type, model, metadata, controller, requestedDid } = options;
+    const { domain, signer, type, model, metadata, controller, requestedDid, updateKeys, updateThreshold, nextKeyHashes, portable } = options;
     const timestamp = new Date().toISOString();
 
     // Create initial DID document
@@ -373,7 +597,10 @@ async function createDIDFallback(options: {
         versionTime: timestamp,
         parameters: {
             scid,
-            updateKeys: [signer.publicKeyMultibase],
+            updateKeys: updateKeys || [signer.publicKeyMultibase],
+            ...(updateThreshold ? { updateThreshold } : {}),
+            ...(nextKeyHashes ? { nextKeyHashes } : {}),
+            portable: portable === true,
             method: 'did:webvh:0.5'
         },
         state: {
@@ -410,26 +637,52 @@ async function createDIDFallback(options: {
 
 /**
  * Resolve a DID and return its document with verification status
+ *
+ * Query (at most one): versionId, versionNumber, or versionTime to
+ * resolve the DID as it was at that moment.
  */
 app.get('/api/did/:did/resolve', async (req, res) => {
     const { did } = req.params;
-    const { versionId, versionTime } = req.query;
+    const query: VersionQuery = {
+        versionId: typeof req.query.versionId === 'string' ? req.query.versionId : undefined,
+        versionTime: typeof req.query.versionTime === 'string' ? req.query.versionTime : undefined,
+        versionNumber: typeof req.query.versionNumber === 'string' ? req.query.versionNumber : undefined
+    };
+
+    const invalidQuery = validateVersionQuery(query);
+    if (invalidQuery) {
+        return res.status(400).json({
+            didDocument: null,
+            didDocumentMetadata: {},
+            didResolutionMetadata: { error: 'INVALID_OPTIONS', message: invalidQuery }
+        });
+    }
 
     try {
-        console.log('[Identity] Resolving DID:', did);
+        console.log('[Identity] Resolving DID:', did, query);
+
+        const scid = extractScidFromDid(did);
 
         // Try to use didwebvh-ts resolveDID
         try {
             const result = await resolveDID(did, {
-                versionId: versionId as string,
-                versionTime: versionTime as string
+                versionId: query.versionId,
+                versionNumber: query.versionNumber !== undefined ? Number(query.versionNumber) : undefined,
+                versionTime: query.versionTime ? new Date(query.versionTime) : undefined
             });
 
             // If we have a document, return the strict resolution result
             if (result && result.doc) {
+                // The library does not report the next version; take it from the local log
+                const localLog = await loadDIDLog(scid);
+                const index = localLog ? localLog.findIndex(e => e.versionId === result.meta.versionId) : -1;
+
                 return res.json({
                     didDocument: result.doc,
-                    didDocumentMetadata: result.meta,
+                    didDocumentMetadata: {
+                        ...result.meta,
+                        ...(localLog && index >= 0 ? buildDocumentMetadata(localLog, index) : {})
+                    },
                     didResolutionMetadata: {
                         driver: 'did:webvh',
                         retrieved: new Date().toISOString()
@@ -443,7 +696,6 @@ app.get('/api/did/:did/resolve', async (req, res) => {
         }
 
         // Local resolution fallback
-        const scid = extractScidFromDid(did);
         const log = await loadDIDLog(scid);
 
         if (!log || log.length === 0) {
@@ -454,11 +706,38 @@ app.get('/api/did/:did/resolve', async (req, res) => {
             });
         }
 
-        let entry = log[log.length - 1];
-        if (versionId) {
-            entry = log.find(e => e.versionId === versionId) || entry;
+        // Reject logs whose key rotations break their pre-rotation commitments
+        // or whose updates lack the required controller signatures
+        for (const check of [verifyPreRotation(log), await verifyUpdateThreshold(log)]) {
+            if (!check.valid) {
+                console.warn('[Identity] Update authorization check failed for', did, check.errors);
+                return res.status(400).json({
+                    didDocument: null,
+                    didDocumentMetadata: {},
+                    didResolutionMetadata: {
+                        error: 'INVALID_DID_LOG',
+                        message: check.details,
+                        errors: check.errors
+                    }
+                });
+            }
+        }
+
+        const selection = selectVersion(log, query);
+        if (selection.error) {
+            return res.status(selection.error === 'notFound' ? 404 : 400).json({
+                didDocument: null,
+                didDocumentMetadata: {},
+                didResolutionMetadata: {
+                    error: selection.error === 'notFound' ? 'NOT_FOUND' : 'INVALID_OPTIONS',
+                    message: selection.message
+                }
+            });
         }
 
+        const { entry, metadata } = selection;
+        const latestId = log[log.length - 1].state?.id;
+
         return res.json({
             didDocument: {
                 ...entry,
@@ -467,9 +746,11 @@ app.get('/api/did/:did/resolve', async (req, res) => {
                 id: entry.state?.id || did
             },
             didDocumentMetadata: {
-                versionId: entry.versionId,
-                versionTime: entry.versionTime || entry.timestamp,
-                verified: true
+                ...metadata,
+                verified: true,
+                // A migrated (portable) DID: point to where it lives now
+                ...(latestId && latestId !== did ? { canonicalId: latestId } : {}),
+                ...(entry.state?.alsoKnownAs ? { equivalentId: entry.state.alsoKnownAs } : {})
             },
             didResolutionMetadata: {
                 driver: 'did:webvh',
@@ -508,6 +789,198 @@ app.get('/api/did/:did/log', async (req, res) => {
     }
 });
 
+/**
+ * Get the key usage audit trail of a DID (which key signed which log entry)
+ */
+app.get('/api/did/:did/key-usage', async (req, res) => {
+    const { did } = req.params;
+
+    try {
+        const { rows } = await pool.query(
+            `SELECT key_id, public_key, version_id, operation, created_at
+             FROM key_usage WHERE did = $1 ORDER BY id ASC`,
+            [did]
+        );
+
+        return res.json({
+            did,
+            usage: rows.map(row => ({
+                keyId: row.key_id,
+                publicKeyMultibase: row.public_key,
+                versionId: row.version_id,
+                operation: row.operation,
+                signedAt: row.created_at
+            }))
+        });
+
+    } catch (err) {
+        res.status(500).json({ error: err instanceof Error ? err.message : 'Unknown error' });
+    }
+});
+
+// ============================================
+// DID RESOLUTION - HTTP(S) Binding (Universal Resolver driver)
+// ============================================
+
+const DID_RESOLUTION_RESULT_TYPE = 'application/ld+json;profile="https://w3id.org/did-resolution"';
+
+type DIDResolutionError =
+    | 'invalidDid'
+    | 'invalidOptions'
+    | 'notFound'
+    | 'representationNotSupported'
+    | 'deactivated'
+    | 'methodNotSupported'
+    | 'internalError';
+
+const RESOLUTION_ERROR_STATUS: Record<DIDResolutionError, number> = {
+    invalidDid: 400,
+    invalidOptions: 400,
+    notFound: 404,
+    representationNotSupported: 406,
+    deactivated: 410,
+    internalError: 500,
+    methodNotSupported: 501
+};
+
+/**
+ * Helper: Pick the response media type from the Accept header
+ * - application/did+ld+json, application/did+json: the DID document only
+ * - resolution result profile, application/json, any: the full resolution result
+ * Returns null if nothing acceptable is offered.
+ */
+function negotiateResolutionType(accept: string | undefined): string | null {
+    if (!accept) return DID_RESOLUTION_RESULT_TYPE;
+
+    const ranges = accept.split(',')
+        .map(range => {
+            const [mediaType, ...params] = range.trim().toLowerCase().split(';').map(p => p.trim());
+            const q = params.find(p => p.startsWith('q='));
+            return { mediaType, q: q ? parseFloat(q.slice(2)) : 1 };
+        })
+        .filter(range => range.q > 0)
+        .sort((a, b) => b.q - a.q);
+
+    for (const { mediaType } of ranges) {
+        if (mediaType === 'application/did+ld+json' || mediaType === 'application/did+json') {
+            return mediaType;
+        }
+        if (mediaType === 'application/json') {
+            return 'application/json';
+        }
+        if (['application/ld+json', 'application/did-resolution+json', 'application/*', '*/*'].includes(mediaType)) {
+            return DID_RESOLUTION_RESULT_TYPE;
+        }
+    }
+    return null;
+}
+
+/**
+ * W3C DID Resolution endpoint
+ * GET /1.0/identifiers/:did?versionId=|versionNumber=|versionTime=
+ *
+ * Returns a DID resolution result (didResolutionMetadata, didDocument,
+ * didDocumentMetadata), or only the DID document when asked for
+ * application/did+ld+json. Errors use the spec codes with their HTTP
+ * status (invalidDid 400, notFound 404, deactivated 410, ...).
+ */
+app.get('/1.0/identifiers/:did', async (req, res) => {
+    const { did } = req.params;
+    const started = Date.now();
+    const contentType = negotiateResolutionType(req.get('Accept'));
+    const wantsDocument = contentType === 'application/did+ld+json' || contentType === 'application/did+json';
+
+    const respond = (
+        error: DIDResolutionError | null,
+        didDocument: Record<string, unknown> | null = null,
+        didDocumentMetadata: Record<string, unknown> = {},
+        errorMessage?: string
+    ) => {
+        const status = error ? RESOLUTION_ERROR_STATUS[error] : 200;
+
+        // A bare document is only returned when there is one to return
+        if (wantsDocument && didDocument && (!error || error === 'deactivated')) {
+            return res.status(status).type(contentType).send(JSON.stringify(didDocument));
+        }
+
+        return res.status(status).type(wantsDocument || !contentType ? DID_RESOLUTION_RESULT_TYPE : contentType).send(JSON.stringify({
+            '@context': 'https://w3id.org/did-resolution/v1',
+            didDocument,
+            didResolutionMetadata: {
+                ...(didDocument ? { contentType: 'application/did+ld+json' } : {}),
+                ...(error ? { error } : {}),
+                ...(errorMessage ? { errorMessage } : {}),
+                driver: 'did:webvh',
+                retrieved: new Date().toISOString(),
+                duration: Date.now() - started
+            },
+            didDocumentMetadata
+        }));
+    };
+
+    if (!contentType) {
+        return respond('representationNotSupported', null, {}, `Cannot produce ${req.get('Accept')}`);
+    }
+
+    const parts = did.split(':');
+    if (parts[0] !== 'did' || parts.length < 3 || parts.some(p => p.length === 0)) {
+        return respond('invalidDid', null, {}, 'Not a valid DID');
+    }
+    if (parts[1] !== 'webvh') {
+        return respond('methodNotSupported', null, {}, `This driver only resolves did:webvh, not did:${parts[1]}`);
+    }
+    if (parts.length < 4) {
+        return respond('invalidDid', null, {}, 'did:webvh needs a domain and a SCID');
+    }
+
+    const query: VersionQuery = {
+        versionId: typeof req.query.versionId === 'string' ? req.query.versionId : undefined,
+        versionTime: typeof req.query.versionTime === 'string' ? req.query.versionTime : undefined,
+        versionNumber: typeof req.query.versionNumber === 'string' ? req.query.versionNumber : undefined
+    };
+
+    try {
+        const log = await loadDIDLog(extractScidFromDid(did));
+
+        // The SCID alone is not enough: the DID must be one the log has used
+        if (!log || log.length === 0 || !log.some(e => (e.state || e.didDocument)?.id === did)) {
+            return respond('notFound', null, {}, `${did} not found`);
+        }
+
+        const preRotation = verifyPreRotation(log);
+        if (!preRotation.valid) {
+            return respond('invalidDid', null, {}, preRotation.errors.join('; '));
+        }
+        const threshold = await verifyUpdateThreshold(log);
+        if (!threshold.valid) {
+            return respond('invalidDid', null, {}, threshold.errors.join('; '));
+        }
+
+        const selection = selectVersion(log, query);
+        if (selection.error) {
+            return respond(selection.error, null, {}, selection.message);
+        }
+
+        const didDocument = selection.entry.state || selection.entry.didDocument;
+        const latestId = (log[log.length - 1].state || log[log.length - 1].didDocument)?.id;
+        const didDocumentMetadata = {
+            ...selection.metadata,
+            ...(latestId && latestId !== did ? { canonicalId: latestId } : {}),
+            ...(didDocument?.alsoKnownAs ? { equivalentId: didDocument.alsoKnownAs } : {})
+        };
+
+        if (selection.metadata.deactivated) {
+            return respond('deactivated', didDocument, didDocumentMetadata, `${did} has been deactivated`);
+        }
+
+        return respond(null, didDocument, didDocumentMetadata);
+
+    } catch (err) {
+        console.error('[Identity] Error in DID resolution endpoint:', err);
+        return respond('internalError', null, {}, err instanceof Error ? err.message : 'Unknown error');
+    }
+});
+
 // ============================================
 // DID UPDATE
 // ============================================
@@ -515,6 +988,12 @@ app.get('/api/did/:did/log', async (req, res) => {
 /**
  * Update a DID document
  * Requires the keyId that was used to create the DID
+ *
+ * updates: { document?, updateThreshold?, coControllers? }. Adding
+ * co-controllers ([{ did, publicKeyMultibase? }]) changes the key set, which
+ * under pre-rotation takes two rotations: the first pre-commits the new
+ * keys, the second makes them update keys (with the new updateThreshold).
+ * It needs updateThreshold 1, like a rotation.
  */
 app.put('/api/did/:did/update', async (req, res) => {
     const { did } = req.params;
@@ -586,6 +1065,65 @@ app.put('/api/did/:did/update', async (req, res) => {
             ...updates.document
         };
 
+        const policy = getActiveUpdatePolicy(log);
+        const invalidControllers = validateCoControllers(updates.coControllers, updates.updateThreshold, policy.updateKeys);
+        if (invalidControllers) {
+            return res.status(400).json({ error: invalidControllers });
+        }
+
+        // New co-controllers: two rotations (see above)
+        if (updates.coControllers?.length) {
+            if (policy.threshold > 1) {
+                return res.status(409).json({
+                    error: `DID requires ${policy.threshold} controller signatures to change its update keys`,
+                    suggestion: 'Lower updateThreshold to 1 with a pending update, add the controllers, then raise it again.'
+                });
+            }
+            if (updates.document) {
+                return res.status(400).json({ error: 'Add co-controllers in an update of their own' });
+            }
+            const { rows: identityRows } = await pool.query('SELECT owner FROM identities WHERE did = $1', [did]);
+            const controllerKeys = await generateControllerKeys(updates.coControllers, keyManagementService.providerNameForKeyId(signer.keyId));
+            const newKeys = controllerKeys.map(k => k.publicKeyMultibase);
+
+            const commit = await appendKeyRotation(did, scid, log, signer, { reason: 'Pre-commit the update keys of new controllers', commitKeys: newKeys });
+            if ('error' in commit) {
+                return res.status(commit.error.status).json(commit.error.body);
+            }
+            const committedSigner = await keyManagementService.createSigner(commit.newKeyId);
+            if (!committedSigner) {
+                throw new Error(`Rotated key ${commit.newKeyId} is not available`);
+            }
+            const added = await appendKeyRotation(did, scid, log, committedSigner, {
+                reason: `Add controllers ${controllerKeys.map(k => k.controller).join(', ')}`,
+                addKeys: newKeys,
+                updateThreshold: updates.updateThreshold
+            });
+            if ('error' in added) {
+                return res.status(added.error.status).json(added.error.body);
+            }
+
+            await registerControllerKeys(did, [
+                { controller: identityRows[0]?.owner || did, publicKeyMultibase: added.newPublicKeyMultibase, keyId: added.newKeyId },
+                ...controllerKeys
+            ]);
+            console.log(`✅ Added ${controllerKeys.length} controller(s) to ${did} (version ${added.versionId})`);
+
+            return res.json({
+                did,
+                versionId: added.versionId,
+                keyId: added.newKeyId,
+                controllers: controllerKeys.map(k => ({ did: k.controller, publicKeyMultibase: k.publicKeyMultibase })),
+                updateThreshold: updates.updateThreshold ?? policy.threshold,
+                status: 'updated'
+            });
+        }
+
+        // Multi-controller DID: collect signatures until the threshold is met
+        if (policy.threshold > 1) {
+            return await respondWithProposal(res, did, previousEntry.versionId, updates, updatedDoc, policy, signer);
+        }
+
         // Sign the update
         const dataToSign = new TextEncoder().encode(JSON.stringify(updatedDoc));
         const signature = await signer.sign(dataToSign);
@@ -596,7 +1134,8 @@ app.put('/api/did/:did/update', async (req, res) => {
             versionId: newVersionId,
             versionTime: timestamp,
             parameters: {
-                prevVersionHash: previousHash
+                prevVersionHash: previousHash,
+                ...(updates.updateThreshold ? { updateThreshold: updates.updateThreshold } : {})
             },
             state: updatedDoc,
             proof: [{
@@ -637,6 +1176,7 @@ app.put('/api/did/:did/update', async (req, res) => {
                 Date.now()
             ]
         );
+        await recordKeyUsage(signer, did, newVersionId, 'update');
 
         console.log(`✅ Updated DID: ${did} to version ${newVersionId}`);
 
@@ -663,6 +1203,7 @@ app.put('/api/did/:did/update', async (req, res) => {
 app.delete('/api/did/:did/deactivate', async (req, res) => {
     const { did } = req.params;
     let { keyId } = req.body;
+    const { reason } = req.body;
 
     try {
         console.log('[Identity] Deactivating DID:', did);
@@ -679,6 +1220,17 @@ app.delete('/api/did/:did/deactivate', async (req, res) => {
             return res.status(404).json({ error: 'DID not found' });
         }
 
+        // Deactivation is a lifecycle transition: not from a terminal state
+        const currentStatus = await getLifecycleStatus(did);
+        const invalidTransition = currentStatus && validateLifecycleTransition(currentStatus, 'deactivated', 'user');
+        if (invalidTransition) {
+            return res.status(409).json({
+                error: invalidTransition,
+                currentStatus,
+                allowedTransitions: getAllowedTransitions(currentStatus, 'user')
+            });
+        }
+
         // Resolve keyId if not provided or generic
         let signer = null;
         if (keyId && keyId !== 'default-key') {
@@ -708,80 +1260,17 @@ app.delete('/api/did/:did/deactivate', async (req, res) => {
             });
         }
 
-        // Create deactivation entry
-        const prevEntryNorm = JSON.parse(JSON.stringify(previousEntry));
-        if (prevEntryNorm.proof && Array.isArray(prevEntryNorm.proof)) {
-            prevEntryNorm.proof = prevEntryNorm.proof.filter((p: any) =>
-                p.type !== 'MerkleProof2019' && p.proofPurpose !== 'witness'
-            );
+        // Multi-controller DID: deactivation needs the threshold of signatures too
+        const policy = getActiveUpdatePolicy(log);
+        if (policy.threshold > 1) {
+            return await respondWithProposal(res, did, previousEntry.versionId, { deactivated: true }, currentDoc, policy, signer);
         }
 
-        const previousHash = crypto.createHash('sha256')
-            .update(JSON.stringify(prevEntryNorm))
-            .digest('hex');
-
-        const timestamp = new Date().toISOString();
-        const newVersionId = String(log.length + 1);
-
-        // Sign deactivation
-        const deactivationData = { deactivated: true, timestamp };
-        const dataToSign = new TextEncoder().encode(JSON.stringify(deactivationData));
-        const signature = await signer.sign(dataToSign);
-        const proofValue = 'z' + Buffer.from(signature).toString('base64url');
-
-        // Create deactivation log entry
-        const deactivationEntry = {
-            versionId: newVersionId,
-            versionTime: timestamp,
-            parameters: {
-                prevVersionHash: previousHash,
-                deactivated: true
-            },
-            state: null, // Deactivated DIDs have no state
-            proof: [{
-                type: 'DataIntegrityProof',
-                cryptosuite: 'eddsa-jcs-2022',
-                verificationMethod: `${did}#key-1`,
-                proofPurpose: 'authentication',
-                created: timestamp,
-                proofValue
-            }]
-        };
-
-        // Append to log
-        log.push(deactivationEntry);
-        await saveDIDLog(scid, log);
-
-        // Update database
-        await pool.query(
-            `UPDATE identities SET status = 'deactivated', updated_at = NOW() WHERE did = $1`,
-            [did]
-        );
-
-        // Store deactivation event
-        const leafHash = crypto.createHash('sha256')
-            .update(JSON.stringify(deactivationEntry))
-            .digest('hex');
-
-        await pool.query(
-            `INSERT INTO events (did, event_type, payload, signature, leaf_hash, version_id, timestamp) 
-             VALUES ($1, $2, $3, $4, $5, $6, $7)`,
-            [
-                did,
-                'deactivate',
-                JSON.stringify({ deactivated: true }),
-                proofValue,
-                leafHash,
-                newVersionId,
-                Date.now()
-            ]
-        );
-
-        // Update database status
-        await pool.query(
-            `UPDATE identities SET status = 'deactivated', updated_at = NOW() WHERE did = $1`,
-            [did]
-        );
+        const newVersionId = await appendDeactivationEntry(did, scid, log, signer, {
+            deactivated: true,
+            ...(currentStatus ? { previousStatus: currentStatus } : {}),
+            ...(reason ? { reason } : {})
+        });
 
         console.log(`✅ Deactivated DID: ${did}`);
 
@@ -798,136 +1287,1874 @@ app.delete('/api/did/:did/deactivate', async (req, res) => {
 });
 
 // ============================================
-// DID VERIFICATION
+// ACTORS (parties acting on products)
 // ============================================
 
-/**
- * Verify a DID - check hash chain and signatures
- */
-app.get('/api/did/:did/verify', async (req, res) => {
-    const { did } = req.params;
-
-    try {
-        console.log('[Identity] Verifying DID:', did);
+// Parties that may act on products: ACTOR_TOKENS lists them as did=token pairs
+// (comma separated), and a request acts as the DID its Bearer token belongs to
+const ACTOR_TOKENS = new Map(
+    (process.env.ACTOR_TOKENS || '').split(',')
+        .filter(pair => pair.includes('='))
+        .map(pair => [pair.slice(0, pair.indexOf('=')).trim(), pair.slice(pair.indexOf('=') + 1).trim()])
+        .filter(([did, token]) => did && token)
+        .map(([did, token]) => [token, did])
+);
+
+// Helper: DID whose Bearer token a request carries (compared in constant time), or null
+function authenticateActorToken(req: express.Request): string | null {
+    const given = Buffer.from(req.header('Authorization') || '');
+    for (const [token, did] of ACTOR_TOKENS) {
+        const expected = Buffer.from(`Bearer ${token}`);
+        if (given.length === expected.length && crypto.timingSafeEqual(given, expected)) {
+            return did;
+        }
+    }
+    return null;
+}
 
-        const scid = extractScidFromDid(did);
-        const logPath = `${STORAGE_ROOT}/${scid}/did.jsonl`;
-        const witnessPath = `${STORAGE_ROOT}/${scid}/did-witness.json`;
+// Helper: The party making a request: the DID of its Bearer token, which a claimed actorDid
+// must match. Without ACTOR_TOKENS configured, only callers on this host are accepted, as the
+// actorDid they claim (development).
+function authenticateActor(
+    req: express.Request,
+    claimedDid: unknown
+): { did: string } | { error: { status: number; body: Record<string, unknown> } } {
+    if (claimedDid !== undefined && (typeof claimedDid !== 'string' || !claimedDid)) {
+        return { error: { status: 400, body: { error: 'actorDid must be a DID string' } } };
+    }
 
-        let logContent: string;
-        try {
-            logContent = await fs.readFile(logPath, 'utf-8');
-        } catch {
-            return res.status(404).json({ valid: false, error: 'DID not found' });
+    if (ACTOR_TOKENS.size === 0) {
+        if (!['127.0.0.1', '::1', '::ffff:127.0.0.1'].includes(req.socket.remoteAddress || '')) {
+            console.warn(`[Identity] Rejected unauthenticated ${req.method} ${req.path} from ${req.socket.remoteAddress}`);
+            return { error: { status: 401, body: { error: 'Unauthorized' } } };
         }
-
-        const lines = logContent.split(/\r?\n/).filter(l => l.trim().length > 0);
-        if (lines.length === 0) {
-            return res.status(404).json({ valid: false, error: 'DID log is empty' });
+        if (!claimedDid) {
+            return { error: { status: 400, body: { error: 'actorDid is required' } } };
         }
+        return { did: claimedDid };
+    }
 
-        const entries = lines.map(l => JSON.parse(l));
-        const errors: string[] = [];
-        const warnings: string[] = [];
+    const did = authenticateActorToken(req);
+    if (!did) {
+        console.warn(`[Identity] Rejected unauthenticated ${req.method} ${req.path} from ${req.socket.remoteAddress}`);
+        return { error: { status: 401, body: { error: 'Unauthorized' } } };
+    }
+    if (claimedDid && claimedDid !== did) {
+        return { error: { status: 403, body: { error: `Authenticated as ${did}, not ${claimedDid}` } } };
+    }
+    return { did };
+}
 
-        // 1. Check Hash Chain Linkages
-        for (let i = 1; i < lines.length; i++) {
-            const current = entries[i];
-            const prevRaw = lines[i - 1].trim(); // Trim to handle potential trailing \r
-            const prevObj = JSON.parse(JSON.stringify(entries[i - 1]));
+/**
+ * Role assigned to a party DID (role_assignments), or null
+ */
+async function getAssignedRole(did: string): Promise<UserRole | null> {
+    const { rows } = await pool.query('SELECT role FROM role_assignments WHERE did = $1', [did]);
+    return isUserRole(rows[0]?.role) ? rows[0].role : null;
+}
 
-            // Strip MerkleProof2019 before verifying the chain hash
-            if (prevObj.proof && Array.isArray(prevObj.proof)) {
-                prevObj.proof = prevObj.proof.filter((p: any) => p.type !== 'MerkleProof2019' && p.proofPurpose !== 'witness');
+// ============================================
+// LIFECYCLE (state machine in utils/lifecycle.ts)
+// ============================================
+
+/**
+ * Lifecycle status of a registered identity (null if it is not registered)
+ */
+async function getLifecycleStatus(did: string): Promise<LifecycleStatus | null> {
+    const { rows } = await pool.query('SELECT status FROM identities WHERE did = $1', [did]);
+    if (rows.length === 0) return null;
+    // Identities registered before the state machine may have no status
+    return isLifecycleStatus(rows[0].status) ? rows[0].status : 'active';
+}
+
+/**
+ * Owner of a registered product and the lifecycle of its product type
+ * (the product type and model are recorded in its create event)
+ */
+async function getProductLifecycle(did: string): Promise<{ owner: string | null; lifecycle: LifecycleDefinition }> {
+    const { rows } = await pool.query(
+        `SELECT i.owner, e.payload FROM identities i
+         LEFT JOIN events e ON e.did = i.did AND e.event_type = 'create'
+         WHERE i.did = $1 ORDER BY e.id LIMIT 1`,
+        [did]
+    );
+    const payload = (rows[0]?.payload || {}) as Record<string, unknown>;
+    return {
+        owner: rows[0]?.owner ?? null,
+        lifecycle: getLifecycleForDPP({ model: String(payload.model || ''), metadata: payload })
+    };
+}
+
+// Helper: Hash of a log entry as the next entry links to it (witness proofs stripped)
+function previousVersionHash(entry: LogEntry): string {
+    const norm: LogEntry = JSON.parse(JSON.stringify(entry));
+    if (norm.proof && Array.isArray(norm.proof)) {
+        norm.proof = norm.proof.filter(p => p.type !== 'MerkleProof2019' && p.proofPurpose !== 'witness');
+    }
+    return crypto.createHash('sha256').update(JSON.stringify(norm)).digest('hex');
+}
+
+// Helper: Signer of the DID's current key (an explicit keyId, else the key of its first verification method)
+async function resolveDIDSigner(keyId: unknown, currentDoc: any): Promise<Signer | null> {
+    if (typeof keyId === 'string' && keyId && keyId !== 'default-key') {
+        const signer = await keyManagementService.createSigner(keyId);
+        if (signer) return signer;
+    }
+    const currentPubKey = currentDoc?.verificationMethod?.[0]?.publicKeyMultibase;
+    const resolvedKeyId = currentPubKey ? await keyManagementService.findKeyIdByPublicKey(currentPubKey) : null;
+    return resolvedKeyId ? keyManagementService.createSigner(resolvedKeyId) : null;
+}
+
+/**
+ * Append a deactivation entry (no state left) and its event
+ */
+async function appendDeactivationEntry(did: string, scid: string, log: LogEntry[], signer: Signer, payload: Record<string, unknown>): Promise<string> {
+    const timestamp = new Date().toISOString();
+    const newVersionId = String(log.length + 1);
+
+    // Sign deactivation
+    const deactivationData = { deactivated: true, timestamp };
+    const signature = await signer.sign(new TextEncoder().encode(JSON.stringify(deactivationData)));
+    const proofValue = 'z' + Buffer.from(signature).toString('base64url');
+
+    const deactivationEntry = {
+        versionId: newVersionId,
+        versionTime: timestamp,
+        parameters: {
+            prevVersionHash: previousVersionHash(log[log.length - 1]),
+            deactivated: true
+        },
+        state: null, // Deactivated DIDs have no state
+        proof: [{
+            type: 'DataIntegrityProof',
+            cryptosuite: 'eddsa-jcs-2022',
+            verificationMethod: `${did}#key-1`,
+            proofPurpose: 'authentication',
+            created: timestamp,
+            proofValue
+        }]
+    };
+
+    log.push(deactivationEntry);
+    await saveDIDLog(scid, log);
+
+    await pool.query(
+        `UPDATE identities SET status = 'deactivated', updated_at = NOW() WHERE did = $1`,
+        [did]
+    );
+
+    const leafHash = crypto.createHash('sha256')
+        .update(JSON.stringify(deactivationEntry))
+        .digest('hex');
+
+    await pool.query(
+        `INSERT INTO events (did, event_type, payload, signature, leaf_hash, version_id, timestamp) 
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [did, 'deactivate', JSON.stringify(payload), proofValue, leafHash, newVersionId, Date.now()]
+    );
+    await recordKeyUsage(signer, did, newVersionId, 'deactivate');
+
+    return newVersionId;
+}
+
+// Helper: Sign the next entry of a DID log with the given document as its state (not stored yet)
+async function signLogEntry(did: string, log: LogEntry[], signer: Signer, state: Record<string, unknown>): Promise<{ entry: LogEntry; proofValue: string }> {
+    const timestamp = new Date().toISOString();
+    const signature = await signer.sign(new TextEncoder().encode(JSON.stringify(state)));
+    const proofValue = 'z' + Buffer.from(signature).toString('base64url');
+
+    const entry: LogEntry = {
+        versionId: String(log.length + 1),
+        versionTime: timestamp,
+        parameters: {
+            prevVersionHash: previousVersionHash(log[log.length - 1])
+        },
+        state,
+        proof: [{
+            type: 'DataIntegrityProof',
+            cryptosuite: 'eddsa-jcs-2022',
+            verificationMethod: `${did}#key-1`,
+            proofPurpose: 'authentication',
+            created: timestamp,
+            proofValue
+        }]
+    };
+    return { entry, proofValue };
+}
+
+// Helper: Store the event (and key usage) of a new log entry, optionally with the identity's new status
+// Returns the event id
+async function recordLogEntry(
+    db: Pick<Pool, 'query'>,
+    did: string,
+    signed: { entry: LogEntry; proofValue: string },
+    signer: Signer,
+    event: { type: string; payload: Record<string, unknown> },
+    status?: LifecycleStatus
+): Promise<number> {
+    if (status) {
+        await db.query(`UPDATE identities SET status = $1, updated_at = NOW() WHERE did = $2`, [status, did]);
+    }
+
+    const leafHash = crypto.createHash('sha256')
+        .update(JSON.stringify(signed.entry))
+        .digest('hex');
+
+    const { rows } = await db.query(
+        `INSERT INTO events (did, event_type, payload, signature, leaf_hash, version_id, timestamp) 
+         VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING id`,
+        [did, event.type, JSON.stringify(event.payload), signed.proofValue, leafHash, signed.entry.versionId, Date.now()]
+    );
+    await recordKeyUsage(signer, did, signed.entry.versionId, event.type, db);
+    return rows[0].id;
+}
+
+interface LifecycleTransitionRecord {
+    from: LifecycleStatus;
+    to: LifecycleStatus;
+    reason: string;
+    actor: 'user' | 'system';
+    actorDid?: string;       // who made a user transition, and in which role
+    role?: string;
+    attachments?: LifecycleAttachment[];
+}
+
+// Helper: Event payload of a lifecycle transition
+function lifecyclePayload(transition: LifecycleTransitionRecord): { previousStatus: LifecycleStatus; status: LifecycleStatus; [key: string]: unknown } {
+    return {
+        previousStatus: transition.from,
+        status: transition.to,
+        reason: transition.reason,
+        actor: transition.actor,
+        ...(transition.actorDid ? { actorDid: transition.actorDid, role: transition.role } : {}),
+        ...(transition.attachments?.length ? { attachments: transition.attachments } : {})
+    };
+}
+
+/**
+ * Append a signed lifecycle entry (the document with its new lifecycleStatus),
+ * store its event and set the identity's status
+ */
+async function appendLifecycleEntry(
+    did: string,
+    scid: string,
+    log: LogEntry[],
+    signer: Signer,
+    transition: LifecycleTransitionRecord
+): Promise<string> {
+    const previousEntry = log[log.length - 1];
+    const currentDoc = previousEntry.state || previousEntry.didDocument;
+    const signed = await signLogEntry(did, log, signer, { ...currentDoc, lifecycleStatus: transition.to });
+
+    log.push(signed.entry);
+    await saveDIDLog(scid, log);
+    await recordLogEntry(pool, did, signed, signer, { type: 'lifecycle', payload: lifecyclePayload(transition) }, transition.to);
+
+    console.log(`✅ Lifecycle of ${did}: ${transition.from} -> ${transition.to} (version ${signed.entry.versionId})`);
+    return signed.entry.versionId;
+}
+
+/**
+ * Lifecycle transition made by the integrity checks (into or out of tampered)
+ * Transitions the state machine does not allow (e.g. from a terminal state)
+ * are skipped. Returns the new status, or null if nothing changed.
+ */
+async function transitionLifecycleAsSystem(did: string, to: LifecycleStatus, reason: string): Promise<LifecycleStatus | null> {
+    const from = await getLifecycleStatus(did);
+    if (!from) return null;
+
+    const invalidTransition = validateLifecycleTransition(from, to, 'system');
+    if (invalidTransition) {
+        console.log(`[Identity] Lifecycle of ${did} stays ${from}: ${invalidTransition}`);
+        return null;
+    }
+
+    const scid = extractScidFromDid(did);
+    const log = await loadDIDLog(scid);
+    const previousEntry = log?.[log.length - 1];
+    const signer = previousEntry
+        ? await resolveDIDSigner(undefined, previousEntry.state || previousEntry.didDocument)
+        : null;
+
+    // The DID key signs the transition; a multi-controller DID cannot be updated
+    // with one key, so there (and without a key) only the status changes
+    if (log && signer && getActiveUpdatePolicy(log).threshold <= 1) {
+        await appendLifecycleEntry(did, scid, log, signer, { from, to, reason, actor: 'system' });
+    } else {
+        console.warn(`[Identity] Lifecycle of ${did}: ${from} -> ${to} recorded without a log entry (no single signing key)`);
+        await pool.query(`UPDATE identities SET status = $1, updated_at = NOW() WHERE did = $2`, [to, did]);
+    }
+    return to;
+}
+
+// ============================================
+// LIFECYCLE CASCADE (components of deprecated, recycled or replaced products)
+// ============================================
+
+interface CascadeChild {
+    plan: LifecycleChildPlan;
+    scid: string;
+    log: LogEntry[];
+    signer: Signer;
+    from: LifecycleStatus;
+    path: LifecycleStatus[]; // states a 'transition' child passes through
+}
+
+type CascadePlanResult =
+    | { children: CascadeChild[] }
+    | { error: { status: number; body: Record<string, unknown> } };
+
+/**
+ * Check how the components of a product are handled when it moves to a
+ * cascading state, and load everything needed to carry it out
+ *
+ * Every component that is still in use needs a plan; components in a terminal
+ * state are left alone. A single authorization covers the cascade, so the
+ * components must have the same owner and keys held by this service.
+ */
+async function planLifecycleCascade(parentDid: string, to: LifecycleStatus, plans: LifecycleChildPlan[] | undefined): Promise<CascadePlanResult> {
+    const fail = (status: number, body: Record<string, unknown>): CascadePlanResult => ({ error: { status, body } });
+
+    const { rows: parentRows } = await pool.query('SELECT owner FROM identities WHERE did = $1', [parentDid]);
+    const { rows: childRows } = await pool.query(
+        `SELECT r.child_did, i.status, i.owner FROM relationships r
+         JOIN identities i ON i.did = r.child_did
+         WHERE r.parent_did = $1`,
+        [parentDid]
+    );
+    const inUse = childRows
+        .map(row => ({ did: row.child_did as string, owner: row.owner as string | null, status: (isLifecycleStatus(row.status) ? row.status : 'active') as LifecycleStatus }))
+        .filter(child => !isTerminalStatus(child.status));
+
+    const unplanned = inUse.filter(child => !plans?.some(plan => plan.did === child.did));
+    if (unplanned.length > 0) {
+        return fail(409, {
+            error: `${unplanned.length} component(s) are still in use. Transition, detach or re-parent them with the parent.`,
+            requiredActions: {
+                type: 'handle_children',
+                children: unplanned.map(child => ({ did: child.did, status: child.status }))
             }
+        });
+    }
 
-            if (current.parameters?.prevVersionHash) {
-                // Try raw line hash (most accurate for did:webvh)
-                const computedRaw = crypto.createHash('sha256').update(prevRaw).digest('hex');
+    const children: CascadeChild[] = [];
+    for (const plan of plans || []) {
+        const child = inUse.find(c => c.did === plan.did);
+        if (!child) {
+            return fail(400, { error: `${plan.did} is not a component in use of ${parentDid}` });
+        }
+        if (child.owner !== parentRows[0]?.owner) {
+            return fail(403, { error: `${plan.did} has another owner than ${parentDid}` });
+        }
 
-                if (current.parameters.prevVersionHash !== computedRaw) {
-                    // Try re-stringified object as fallback (stripping witness proof)
-                    const computedObj = crypto.createHash('sha256').update(JSON.stringify(prevObj)).digest('hex');
+        let path: LifecycleStatus[] = [];
+        if (plan.action === 'transition') {
+            const found = getLifecycleTransitionPath(child.status, to, 'user');
+            if (!found) {
+                return fail(409, { error: `${plan.did} cannot move from ${child.status} to ${to}` });
+            }
+            // The component's own components would be left behind
+            if (found.some(step => CASCADING_STATUSES.includes(step))) {
+                const { rows: grandchildren } = await pool.query(
+                    'SELECT i.status FROM relationships r JOIN identities i ON i.did = r.child_did WHERE r.parent_did = $1',
+                    [plan.did]
+                );
+                if (grandchildren.some(row => !isTerminalStatus(isLifecycleStatus(row.status) ? row.status : 'active'))) {
+                    return fail(409, { error: `${plan.did} has components in use of its own; move it to ${to} first` });
+                }
+            }
+            path = found;
+        } else if (plan.action === 'reparent') {
+            const newParentStatus = plan.newParentDid ? await getLifecycleStatus(plan.newParentDid) : null;
+            if (!newParentStatus) {
+                return fail(400, { error: `New parent ${plan.newParentDid} is not registered` });
+            }
+            if (plan.newParentDid === parentDid || plan.newParentDid === plan.did || isTerminalStatus(newParentStatus)) {
+                return fail(409, { error: `${plan.did} cannot become part of ${plan.newParentDid} (${newParentStatus})` });
+            }
+        }
 
-                    if (current.parameters.prevVersionHash !== computedObj) {
-                        errors.push(`Version ${current.versionId}: Hash chain broken (prevVersionHash mismatch)`);
+        const scid = extractScidFromDid(plan.did);
+        const log = await loadDIDLog(scid);
+        if (!log || log.length === 0) {
+            return fail(404, { error: `DID log of ${plan.did} not found` });
+        }
+        const thresholdConflict = requiresThresholdSignatures(log);
+        if (thresholdConflict) {
+            return fail(409, { ...thresholdConflict, did: plan.did });
+        }
+        const previousEntry = log[log.length - 1];
+        const signer = await resolveDIDSigner(undefined, previousEntry.state || previousEntry.didDocument);
+        if (!signer) {
+            return fail(403, { error: `No signing key for ${plan.did} - not authorized` });
+        }
+
+        children.push({ plan, scid, log, signer, from: child.status, path });
+    }
+
+    return { children };
+}
+
+/**
+ * Move a product and its components in one go
+ *
+ * The parent gets its lifecycle entry; every component gets entries that link
+ * back to it (lifecycleCascade in the document, cascade in the event): one per
+ * state it passes through, or one recording that it was detached or
+ * re-parented. All database changes run in one transaction and the logs are
+ * written before it commits; if anything fails, the logs are restored.
+ */
+async function executeLifecycleCascade(
+    parent: { did: string; scid: string; log: LogEntry[]; signer: Signer },
+    transition: LifecycleTransitionRecord,
+    children: CascadeChild[]
+): Promise<{ versionId: string; children: Array<{ did: string; action: LifecycleCascadeAction; versionIds: string[] }> }> {
+    // 1. Sign all entries
+    const parentDoc = parent.log[parent.log.length - 1].state || parent.log[parent.log.length - 1].didDocument;
+    const parentSigned = await signLogEntry(parent.did, parent.log, parent.signer, { ...parentDoc, lifecycleStatus: transition.to });
+    const link = { did: parent.did, versionId: parentSigned.entry.versionId };
+
+    const staged = [];
+    for (const child of children) {
+        const log = [...child.log];
+        const entries: Array<{ signed: { entry: LogEntry; proofValue: string }; type: string; payload: Record<string, unknown>; status?: LifecycleStatus }> = [];
+        const steps = child.plan.action === 'transition' ? child.path : [undefined];
+        let from = child.from;
+
+        for (const step of steps) {
+            const doc = log[log.length - 1].state || log[log.length - 1].didDocument;
+            const signed = await signLogEntry(child.plan.did, log, child.signer, {
+                ...doc,
+                ...(step ? { lifecycleStatus: step } : {}),
+                lifecycleCascade: {
+                    ...link,
+                    action: child.plan.action,
+                    ...(child.plan.newParentDid ? { newParentDid: child.plan.newParentDid } : {})
+                }
+            });
+            log.push(signed.entry);
+            entries.push(step
+                ? {
+                    signed,
+                    type: 'lifecycle',
+                    payload: lifecyclePayload({ from, to: step, reason: transition.reason, actor: transition.actor }),
+                    status: step
+                }
+                : {
+                    signed,
+                    type: 'relationship',
+                    payload: {
+                        action: child.plan.action,
+                        parentDid: parent.did,
+                        ...(child.plan.newParentDid ? { newParentDid: child.plan.newParentDid } : {})
                     }
+                });
+            if (step) from = step;
+        }
+        staged.push({ child, log, entries });
+    }
+
+    // 2. Store everything in one transaction, writing the log files last
+    const written: Array<{ scid: string; log: LogEntry[] }> = [];
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+
+        const triggerEventId = await recordLogEntry(client, parent.did, parentSigned, parent.signer, {
+            type: 'lifecycle',
+            payload: lifecyclePayload(transition)
+        }, transition.to);
+        const cascade = { ...link, eventId: triggerEventId };
+
+        for (const { child, entries } of staged) {
+            for (const { signed, type, payload, status } of entries) {
+                await recordLogEntry(client, child.plan.did, signed, child.signer, { type, payload: { ...payload, cascade } }, status);
+            }
+            if (child.plan.action === 'detach') {
+                await client.query('DELETE FROM relationships WHERE parent_did = $1 AND child_did = $2', [parent.did, child.plan.did]);
+            } else if (child.plan.action === 'reparent') {
+                await client.query(
+                    'UPDATE relationships SET parent_did = $1, updated_at = NOW() WHERE parent_did = $2 AND child_did = $3',
+                    [child.plan.newParentDid, parent.did, child.plan.did]
+                );
+            }
+        }
+
+        for (const { scid, log, original } of [
+            { scid: parent.scid, log: [...parent.log, parentSigned.entry], original: parent.log },
+            ...staged.map(s => ({ scid: s.child.scid, log: s.log, original: s.child.log }))
+        ]) {
+            written.push({ scid, log: original });
+            await saveDIDLog(scid, log);
+        }
+
+        await client.query('COMMIT');
+    } catch (err) {
+        await client.query('ROLLBACK').catch(() => undefined);
+        for (const { scid, log } of written) {
+            await saveDIDLog(scid, log).catch(restoreErr => {
+                console.error(`[Identity] Could not restore DID log ${scid} after a failed cascade:`, restoreErr);
+            });
+        }
+        throw err;
+    } finally {
+        client.release();
+    }
+
+    console.log(`✅ Lifecycle of ${parent.did}: ${transition.from} -> ${transition.to} with ${children.length} component(s)`);
+    return {
+        versionId: parentSigned.entry.versionId,
+        children: staged.map(({ child, entries }) => ({
+            did: child.plan.did,
+            action: child.plan.action,
+            versionIds: entries.map(e => e.signed.entry.versionId)
+        }))
+    };
+}
+
+/**
+ * Move a product to another lifecycle state
+ * POST /api/did/:did/lifecycle
+ *
+ * Body: { status, actorDid?, reason?, keyId?, attachments?, children? }. The
+ * actor is the party whose ACTOR_TOKENS Bearer token the request carries (401
+ * without one; a given actorDid must match it, otherwise 403). Illegal
+ * transitions (per the state machine, into or out of the system-only tampered
+ * state, or from a terminal state) are rejected with 409. The product's own
+ * lifecycle decides who may make it: the owner, or a party whose role it names
+ * (e.g. a Recycler), otherwise 403; missing required attachments are 422. The transition is
+ * signed with the DID key and recorded as a log entry and event (with the
+ * hashes of its attachments); deactivation writes a deactivation entry.
+ * Deprecating, recycling or replacing a product with components in use needs
+ * a plan for each of them in children ([{ did, action, newParentDid? }]),
+ * otherwise 409 with requiredActions lists them. On a multi-controller DID the
+ * transition is proposed as a pending update (202) and applied, status
+ * included, once enough controllers signed it.
+ */
+app.post('/api/did/:did/lifecycle', async (req, res) => {
+    const { did } = req.params;
+    const { status, actorDid, reason, keyId, attachments, children } = req.body;
+
+    if (!isLifecycleStatus(status)) {
+        return res.status(400).json({ error: `Unknown lifecycle status "${status}"` });
+    }
+    const actor = authenticateActor(req, actorDid);
+    if ('error' in actor) {
+        return res.status(actor.error.status).json(actor.error.body);
+    }
+    const invalidAttachments = validateLifecycleAttachments(attachments);
+    if (invalidAttachments) {
+        return res.status(400).json({ error: invalidAttachments });
+    }
+    const invalidChildPlans = validateLifecycleChildPlans(children);
+    if (invalidChildPlans) {
+        return res.status(400).json({ error: invalidChildPlans });
+    }
+
+    try {
+        const currentStatus = await getLifecycleStatus(did);
+        const scid = extractScidFromDid(did);
+        const log = await loadDIDLog(scid);
+        if (!currentStatus || !log || log.length === 0) {
+            return res.status(404).json({ error: 'DID not found' });
+        }
+
+        const invalidTransition = validateLifecycleTransition(currentStatus, status, 'user');
+        if (invalidTransition) {
+            return res.status(409).json({
+                error: invalidTransition,
+                currentStatus,
+                allowedTransitions: getAllowedTransitions(currentStatus, 'user')
+            });
+        }
+
+        // The product's own lifecycle: who may make the transition and what it needs
+        const { owner, lifecycle } = await getProductLifecycle(did);
+        const role = getProductActorRole(actor.did, await getAssignedRole(actor.did), owner);
+        if (!role) {
+            return res.status(403).json({ error: `Only the owner of ${did} or a role its lifecycle names can change its lifecycle` });
+        }
+        const violation = validateLifecycleForProduct(lifecycle, currentStatus, status, role, attachments, actor.did === owner);
+        if (violation) {
+            const statusCode = violation.rule === 'role' ? 403 : violation.rule === 'attachments' ? 422 : 409;
+            return res.status(statusCode).json({ error: violation.message, currentStatus, role });
+        }
+
+        const previousEntry = log[log.length - 1];
+        const currentDoc = previousEntry.state || previousEntry.didDocument;
+        const signer = await resolveDIDSigner(keyId, currentDoc);
+        if (!signer) {
+            return res.status(403).json({
+                error: 'Invalid keyId - not authorized',
+                suggestion: 'Ensure the backend can resolve the signing key from the DID doc.'
+            });
+        }
+
+        const transitionReason = typeof reason === 'string' && reason ? reason : `Status changed to ${status}`;
+        const policy = getActiveUpdatePolicy(log);
+
+        if (status === 'deactivated') {
+            // Multi-controller DID: deactivation needs the threshold of signatures
+            if (policy.threshold > 1) {
+                return await respondWithProposal(res, did, previousEntry.versionId, { deactivated: true }, currentDoc, policy, signer);
+            }
+            const versionId = await appendDeactivationEntry(did, scid, log, signer, {
+                deactivated: true,
+                previousStatus: currentStatus,
+                reason: transitionReason,
+                actorDid: actor.did,
+                role,
+                ...(attachments?.length ? { attachments } : {})
+            });
+            return res.json({ did, previousStatus: currentStatus, status, versionId });
+        }
+
+        const transition: LifecycleTransitionRecord = {
+            from: currentStatus,
+            to: status,
+            reason: transitionReason,
+            actor: 'user',
+            actorDid: actor.did,
+            role,
+            attachments
+        };
+
+        // Components in use move, detach or re-parent together with the product
+        if (CASCADING_STATUSES.includes(status)) {
+            const cascade = await planLifecycleCascade(did, status, children);
+            if ('error' in cascade) {
+                return res.status(cascade.error.status).json(cascade.error.body);
+            }
+            if (cascade.children.length > 0) {
+                // The components' entries are signed with the product's in one transaction,
+                // which the controllers of a multi-controller product cannot sign together
+                if (policy.threshold > 1) {
+                    return res.status(409).json({
+                        error: `${did} needs ${policy.threshold} controller signatures, so its components cannot change with it`,
+                        suggestion: 'Move, detach or re-parent its components first, then propose the transition again.'
+                    });
                 }
+                const result = await executeLifecycleCascade({ did, scid, log, signer }, transition, cascade.children);
+                return res.json({ did, previousStatus: currentStatus, status, ...result });
             }
         }
 
-        // 2. Check witness file if it exists
-        let witnessStatus = 'none';
-        try {
-            const witnessText = await fs.readFile(witnessPath, 'utf-8');
-            const witnessData = JSON.parse(witnessText);
-            const proofs = witnessData.anchoringProofs || [];
+        // Multi-controller DID: the transition needs the threshold of signatures
+        if (policy.threshold > 1) {
+            const lifecycleDoc = { ...currentDoc, lifecycleStatus: status };
+            return await respondWithProposal(res, did, previousEntry.versionId, { lifecycle: lifecyclePayload(transition) }, lifecycleDoc, policy, signer);
+        }
+
+        const versionId = await appendLifecycleEntry(did, scid, log, signer, transition);
+
+        return res.json({ did, previousStatus: currentStatus, status, versionId });
+
+    } catch (err) {
+        console.error('[Identity] Error in lifecycle transition:', err);
+        res.status(500).json({ error: err instanceof Error ? err.message : 'Unknown error' });
+    }
+});
+
+// ============================================
+// MULTI-CONTROLLER UPDATES (m-of-n updateThreshold)
+// ============================================
+
+interface PendingSignature {
+    publicKeyMultibase: string;
+    controller: string;
+    keyId: string | null;    // key store id, null for signatures made outside this service
+    proofValue: string;
+    signedAt: string;
+}
+
+interface PendingUpdateRow {
+    id: number;
+    did: string;
+    base_version_id: string;
+    updates: {
+        deactivated?: boolean;
+        updateThreshold?: number;
+        lifecycle?: ReturnType<typeof lifecyclePayload>;
+        [key: string]: unknown;
+    };
+    document: string;
+    threshold: number;
+    signatures: PendingSignature[];
+    status: 'pending' | 'applied' | 'superseded';
+    proposed_by: string | null;
+    applied_version_id: string | null;
+    created_at: string;
+}
+
+// Helper: Controller proof of a multi-controller log entry (key named as did:key)
+function controllerProof(sig: PendingSignature) {
+    return {
+        type: 'DataIntegrityProof',
+        cryptosuite: 'eddsa-jcs-2022',
+        verificationMethod: `did:key:${sig.publicKeyMultibase}#${sig.publicKeyMultibase}`,
+        proofPurpose: 'authentication',
+        created: sig.signedAt,
+        proofValue: sig.proofValue
+    };
+}
+
+// Helper: Controller DID holding an update key (the DID itself if unknown)
+async function controllerForKey(did: string, publicKeyMultibase: string): Promise<string> {
+    const { rows } = await pool.query(
+        `SELECT controller FROM did_controllers WHERE did = $1 AND public_key = $2`,
+        [did, publicKeyMultibase]
+    );
+    return rows[0]?.controller || did;
+}
+
+// Helper: Pending updates based on an older log entry can no longer be applied
+async function supersedeStalePendingUpdates(did: string, currentVersionId: string): Promise<void> {
+    await pool.query(
+        `UPDATE pending_updates SET status = 'superseded', updated_at = NOW()
+         WHERE did = $1 AND status = 'pending' AND base_version_id <> $2`,
+        [did, currentVersionId]
+    );
+}
+
+function formatPendingUpdate(row: PendingUpdateRow) {
+    return {
+        id: row.id,
+        did: row.did,
+        baseVersionId: row.base_version_id,
+        updates: row.updates,
+        document: JSON.parse(row.document),
+        threshold: row.threshold,
+        signatures: row.signatures.map(sig => ({
+            publicKeyMultibase: sig.publicKeyMultibase,
+            controller: sig.controller,
+            signedAt: sig.signedAt
+        })),
+        status: row.status,
+        proposedBy: row.proposed_by,
+        appliedVersionId: row.applied_version_id,
+        createdAt: row.created_at
+    };
+}
+
+/**
+ * Start a pending update of a multi-controller DID, signed by the proposer
+ * Responds 202 with the pending update
+ */
+async function respondWithProposal(
+    res: express.Response,
+    did: string,
+    baseVersionId: string,
+    updates: PendingUpdateRow['updates'],
+    document: unknown,
+    policy: { updateKeys: string[]; threshold: number },
+    signer: Signer
+) {
+    if (!policy.updateKeys.includes(signer.publicKeyMultibase)) {
+        return res.status(403).json({ error: 'Signing key is not an update key of this DID' });
+    }
+
+    await supersedeStalePendingUpdates(did, baseVersionId);
+
+    const serialized = JSON.stringify(document);
+    const signature = await signer.sign(new TextEncoder().encode(serialized));
+    const controller = await controllerForKey(did, signer.publicKeyMultibase);
+    const first: PendingSignature = {
+        publicKeyMultibase: signer.publicKeyMultibase,
+        controller,
+        keyId: signer.keyId,
+        proofValue: 'z' + Buffer.from(signature).toString('base64url'),
+        signedAt: new Date().toISOString()
+    };
+
+    const { rows } = await pool.query(
+        `INSERT INTO pending_updates (did, base_version_id, updates, document, threshold, signatures, proposed_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *`,
+        [did, baseVersionId, JSON.stringify(updates), serialized, policy.threshold, JSON.stringify([first]), controller]
+    );
+
+    console.log(`[Identity] Pending update ${rows[0].id} for ${did}: 1 of ${policy.threshold} signatures`);
+
+    return res.status(202).json({
+        did,
+        status: 'pending',
+        pendingUpdate: formatPendingUpdate(rows[0])
+    });
+}
+
+/**
+ * Append a pending update that reached its threshold to the DID log,
+ * with one controller proof per signature
+ */
+async function applyPendingUpdate(row: PendingUpdateRow, log: LogEntry[], scid: string) {
+    const did = row.did;
+    const signatures = row.signatures;
+    const updates = row.updates || {};
+    const previousEntry = log[log.length - 1];
+
+    // Calculate previous hash (stripping witness proofs to match stable hash chain)
+    const prevEntryNorm: LogEntry = JSON.parse(JSON.stringify(previousEntry));
+    if (prevEntryNorm.proof && Array.isArray(prevEntryNorm.proof)) {
+        prevEntryNorm.proof = prevEntryNorm.proof.filter(p =>
+            p.type !== 'MerkleProof2019' && p.proofPurpose !== 'witness'
+        );
+    }
+    const previousHash = crypto.createHash('sha256')
+        .update(JSON.stringify(prevEntryNorm))
+        .digest('hex');
+
+    const timestamp = new Date().toISOString();
+    const newVersionId = String(log.length + 1);
+    const eventType = updates.deactivated ? 'deactivate' : updates.lifecycle ? 'lifecycle' : 'update';
+    const newStatus = updates.deactivated ? 'deactivated' : updates.lifecycle?.status;
+
+    const newEntry = {
+        versionId: newVersionId,
+        versionTime: timestamp,
+        parameters: {
+            prevVersionHash: previousHash,
+            ...(updates.updateThreshold ? { updateThreshold: updates.updateThreshold } : {}),
+            ...(updates.deactivated ? { deactivated: true } : {})
+        },
+        state: JSON.parse(row.document),
+        proof: signatures.map(controllerProof)
+    };
+
+    log.push(newEntry);
+    await saveDIDLog(scid, log);
+
+    await pool.query(
+        `UPDATE identities SET status = COALESCE($2, status), updated_at = NOW() WHERE did = $1`,
+        [did, newStatus || null]
+    );
+
+    const leafHash = crypto.createHash('sha256')
+        .update(JSON.stringify(newEntry))
+        .digest('hex');
+
+    await pool.query(
+        `INSERT INTO events (did, event_type, payload, signature, leaf_hash, version_id, timestamp) 
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+            did,
+            eventType,
+            JSON.stringify({ ...(updates.lifecycle || updates), pendingUpdateId: row.id, signers: signatures.map(sig => sig.controller) }),
+            signatures[0].proofValue,
+            leafHash,
+            newVersionId,
+            Date.now()
+        ]
+    );
+    for (const sig of signatures) {
+        await recordKeyUsage({ keyId: sig.keyId || 'external', publicKeyMultibase: sig.publicKeyMultibase }, did, newVersionId, eventType);
+    }
+
+    await pool.query(
+        `UPDATE pending_updates SET applied_version_id = $1, updated_at = NOW() WHERE id = $2`,
+        [newVersionId, row.id]
+    );
+
+    console.log(`✅ Applied pending update ${row.id} to ${did} as version ${newVersionId} (${signatures.length} signatures)`);
+    return newVersionId;
+}
+
+/**
+ * List the pending updates of a DID, with its controllers and threshold
+ * GET /api/did/:did/pending-updates
+ */
+app.get('/api/did/:did/pending-updates', async (req, res) => {
+    const { did } = req.params;
+
+    try {
+        const log = await loadDIDLog(extractScidFromDid(did));
+        if (!log || log.length === 0) {
+            return res.status(404).json({ error: 'DID not found' });
+        }
+
+        await supersedeStalePendingUpdates(did, log[log.length - 1].versionId);
+
+        const policy = getActiveUpdatePolicy(log);
+        const { rows: controllerRows } = await pool.query(
+            `SELECT public_key, controller, key_id FROM did_controllers WHERE did = $1`,
+            [did]
+        );
+        const { rows } = await pool.query(
+            `SELECT * FROM pending_updates WHERE did = $1 AND status = 'pending' ORDER BY id ASC`,
+            [did]
+        );
+
+        return res.json({
+            did,
+            threshold: policy.threshold,
+            controllers: policy.updateKeys.map(key => {
+                const row = controllerRows.find(c => c.public_key === key);
+                return {
+                    did: row?.controller || did,
+                    publicKeyMultibase: key,
+                    serverHeld: Boolean(row?.key_id)
+                };
+            }),
+            pendingUpdates: rows.map(formatPendingUpdate)
+        });
+
+    } catch (err) {
+        res.status(500).json({ error: err instanceof Error ? err.message : 'Unknown error' });
+    }
+});
+
+/**
+ * Sign a pending update
+ * POST /api/did/:did/pending-updates/:id/sign
+ *
+ * Either { controller } to sign with that controller's key held by this
+ * service, or { publicKeyMultibase, proofValue } with a signature made
+ * elsewhere over the pending document (JSON.stringify of `document`).
+ * The update is written to the log once the threshold is reached.
+ */
+app.post('/api/did/:did/pending-updates/:id/sign', async (req, res) => {
+    const { did, id } = req.params;
+    const { controller, publicKeyMultibase, proofValue } = req.body;
+
+    try {
+        const { rows: pendingRows } = await pool.query(
+            `SELECT * FROM pending_updates WHERE id = $1 AND did = $2`,
+            [parseInt(id), did]
+        );
+        const pending: PendingUpdateRow | undefined = pendingRows[0];
+        if (!pending) {
+            return res.status(404).json({ error: 'Pending update not found' });
+        }
+        if (pending.status !== 'pending') {
+            return res.status(409).json({ error: `Pending update is ${pending.status}` });
+        }
+
+        const scid = extractScidFromDid(did);
+        const log = await loadDIDLog(scid);
+        if (!log || log.length === 0) {
+            return res.status(404).json({ error: 'DID not found' });
+        }
+        if (log[log.length - 1].versionId !== pending.base_version_id) {
+            await supersedeStalePendingUpdates(did, log[log.length - 1].versionId);
+            return res.status(409).json({ error: 'DID changed since this update was proposed; propose it again' });
+        }
+        // Lifecycle transition: the status can change without a log entry (e.g. to tampered)
+        const lifecycle = pending.updates.lifecycle;
+        if (lifecycle && await getLifecycleStatus(did) !== lifecycle.previousStatus) {
+            await pool.query(
+                `UPDATE pending_updates SET status = 'superseded', updated_at = NOW() WHERE id = $1 AND status = 'pending'`,
+                [pending.id]
+            );
+            return res.status(409).json({ error: `DID is no longer ${lifecycle.previousStatus}; propose the transition again` });
+        }
+
+        const policy = getActiveUpdatePolicy(log);
+        let sig: PendingSignature;
+
+        if (proofValue) {
+            // Signature made by a controller outside this service
+            if (typeof publicKeyMultibase !== 'string' || typeof proofValue !== 'string') {
+                return res.status(400).json({ error: 'publicKeyMultibase and proofValue must be strings' });
+            }
+            if (!policy.updateKeys.includes(publicKeyMultibase)) {
+                return res.status(403).json({ error: 'Key is not an update key of this DID' });
+            }
+            sig = {
+                publicKeyMultibase,
+                controller: await controllerForKey(did, publicKeyMultibase),
+                keyId: null,
+                proofValue,
+                signedAt: new Date().toISOString()
+            };
+            const check = await verifyProof(
+                { versionId: pending.base_version_id, versionTime: sig.signedAt, state: JSON.parse(pending.document), proof: [controllerProof(sig)] },
+                publicKeyMultibase
+            );
+            if (!check.valid) {
+                return res.status(400).json({ error: 'Invalid signature over the pending document', details: check.errors });
+            }
+        } else {
+            // Controller key held by this service
+            if (typeof controller !== 'string' || !controller) {
+                return res.status(400).json({ error: 'controller (or publicKeyMultibase and proofValue) is required' });
+            }
+            const { rows } = await pool.query(
+                `SELECT public_key, key_id FROM did_controllers WHERE did = $1 AND controller = $2 AND key_id IS NOT NULL`,
+                [did, controller]
+            );
+            const held = rows.find(r => policy.updateKeys.includes(r.public_key));
+            const signer = held ? await keyManagementService.createSigner(held.key_id) : null;
+            if (!signer) {
+                return res.status(403).json({ error: `No update key of ${controller} is held by this service` });
+            }
+            const signature = await signer.sign(new TextEncoder().encode(pending.document));
+            sig = {
+                publicKeyMultibase: signer.publicKeyMultibase,
+                controller,
+                keyId: signer.keyId,
+                proofValue: 'z' + Buffer.from(signature).toString('base64url'),
+                signedAt: new Date().toISOString()
+            };
+        }
+
+        // Append atomically, once per key
+        const { rows: updatedRows } = await pool.query(
+            `UPDATE pending_updates SET signatures = signatures || $1::jsonb, updated_at = NOW()
+             WHERE id = $2 AND status = 'pending' AND NOT signatures @> $3::jsonb
+             RETURNING *`,
+            [JSON.stringify([sig]), pending.id, JSON.stringify([{ publicKeyMultibase: sig.publicKeyMultibase }])]
+        );
+        if (updatedRows.length === 0) {
+            return res.status(409).json({ error: `${sig.controller} has already signed this update` });
+        }
+
+        const updated: PendingUpdateRow = updatedRows[0];
+        const signed = updated.signatures.length;
+        console.log(`[Identity] Pending update ${updated.id} for ${did}: ${signed} of ${updated.threshold} signatures`);
+
+        if (signed < updated.threshold) {
+            return res.json({ did, status: 'pending', pendingUpdate: formatPendingUpdate(updated) });
+        }
+
+        // Threshold reached: only one request gets to apply the update
+        const { rowCount } = await pool.query(
+            `UPDATE pending_updates SET status = 'applied', updated_at = NOW() WHERE id = $1 AND status = 'pending'`,
+            [updated.id]
+        );
+        if (!rowCount) {
+            return res.json({ did, status: 'applied', pendingUpdate: formatPendingUpdate(updated) });
+        }
+
+        const versionId = await applyPendingUpdate(updated, log, scid);
+        await supersedeStalePendingUpdates(did, versionId);
+
+        return res.json({
+            did,
+            status: 'applied',
+            versionId,
+            pendingUpdate: formatPendingUpdate({ ...updated, status: 'applied', applied_version_id: versionId })
+        });
+
+    } catch (err) {
+        console.error('[Identity] Error signing pending update:', err);
+        res.status(500).json({ error: err instanceof Error ? err.message : 'Unknown error' });
+    }
+});
+
+// ============================================
+// DID VERIFICATION
+// ============================================
+
+/**
+ * Verify a DID - check hash chain and signatures
+ */
+app.get('/api/did/:did/verify', async (req, res) => {
+    const { did } = req.params;
+
+    try {
+        console.log('[Identity] Verifying DID:', did);
+
+        const scid = extractScidFromDid(did);
+        const logPath = `${STORAGE_ROOT}/${scid}/did.jsonl`;
+        const witnessPath = `${STORAGE_ROOT}/${scid}/did-witness.json`;
+
+        let logContent: string;
+        try {
+            logContent = await fs.readFile(logPath, 'utf-8');
+        } catch {
+            return res.status(404).json({ valid: false, error: 'DID not found' });
+        }
+
+        const lines = logContent.split(/\r?\n/).filter(l => l.trim().length > 0);
+        if (lines.length === 0) {
+            return res.status(404).json({ valid: false, error: 'DID log is empty' });
+        }
+
+        const entries = lines.map(l => JSON.parse(l));
+        const errors: string[] = [];
+        const warnings: string[] = [];
+
+        // 1. Check Hash Chain Linkages
+        for (let i = 1; i < lines.length; i++) {
+            const current = entries[i];
+            const prevRaw = lines[i - 1].trim(); // Trim to handle potential trailing \r
+            const prevObj = JSON.parse(JSON.stringify(entries[i - 1]));
+
+            // Strip MerkleProof2019 before verifying the chain hash
+            if (prevObj.proof && Array.isArray(prevObj.proof)) {
+                prevObj.proof = prevObj.proof.filter((p: any) => p.type !== 'MerkleProof2019' && p.proofPurpose !== 'witness');
+            }
+
+            if (current.parameters?.prevVersionHash) {
+                // Try raw line hash (most accurate for did:webvh)
+                const computedRaw = crypto.createHash('sha256').update(prevRaw).digest('hex');
+
+                if (current.parameters.prevVersionHash !== computedRaw) {
+                    // Try re-stringified object as fallback (stripping witness proof)
+                    const computedObj = crypto.createHash('sha256').update(JSON.stringify(prevObj)).digest('hex');
+
+                    if (current.parameters.prevVersionHash !== computedObj) {
+                        errors.push(`Version ${current.versionId}: Hash chain broken (prevVersionHash mismatch)`);
+                    }
+                }
+            }
+        }
+
+        // 2. Check witness file if it exists
+        let witnessStatus = 'none';
+        let witnessSignaturesValid = true;
+        try {
+            const witnessText = await fs.readFile(witnessPath, 'utf-8');
+            const witnessData = JSON.parse(witnessText);
+            const proofs = Array.isArray(witnessData) ? witnessData : witnessData.anchoringProofs || [];
+            const trustedWitnesses = getTrustedWitnesses();
+
+            if (proofs.length > 0) {
+                witnessStatus = 'anchored';
+                for (const p of proofs) {
+                    // Witness attestation: eddsa-jcs-2022 signature over versionId + leafHash + merkleRoot
+                    if (p.proof?.length > 0 || trustedWitnesses.length > 0) {
+                        const attestation = await verifyWitnessProof(p, trustedWitnesses);
+                        if (!attestation.valid) {
+                            witnessSignaturesValid = false;
+                            errors.push(...attestation.errors);
+                        }
+                        warnings.push(...attestation.warnings);
+                    } else {
+                        warnings.push(`Witness proof for version ${p.versionId} is not signed by a witness`);
+                    }
+
+                    // Basic self-consistency check for Merkle path
+                    const leaf = Buffer.from(p.leafHash.replace('0x', ''), 'hex');
+                    const root = Buffer.from(p.merkleRoot.replace('0x', ''), 'hex');
+                    const proof = (p.merkleProof || []).map((s: string) => Buffer.from(s.replace('0x', ''), 'hex'));
+
+                    let valid = false;
+                    if (p.mmrSize !== undefined) {
+                        // MMR accumulator proof: leaf -> peak, then bagged peaks
+                        valid = verifyInclusionProof(p.leafHash, {
+                            leafIndex: p.leafIndex,
+                            mmrSize: p.mmrSize,
+                            siblings: p.merkleProof || [],
+                            peaks: p.peaks || []
+                        }, p.merkleRoot);
+                    } else if (proof.length === 0) {
+                        valid = p.leafHash.toLowerCase() === p.merkleRoot.toLowerCase();
+                    } else {
+                        valid = MerkleTree.verify(proof, leaf, root, (d: any) => Buffer.from(sha256(d)), { sortPairs: true });
+                        if (!valid) valid = MerkleTree.verify([...proof].reverse(), leaf, root, (d: any) => Buffer.from(sha256(d)), { sortPairs: true });
+                    }
+
+                    if (!valid) {
+                        errors.push(`Cryptographic proof in did-witness.json is invalid for batch ${p.batchId}`);
+                    }
+                }
+            }
+        } catch (e: any) {
+            if (e.code !== 'ENOENT') warnings.push(`Could not verify witness file: ${e.message}`);
+        }
+
+        const lastEntry = entries[entries.length - 1];
+        const valid = errors.length === 0;
+
+        return res.json({
+            did,
+            valid,
+            versionId: lastEntry.versionId,
+            checks: {
+                hashChain: errors.length === 0,
+                signatures: entries.every(e => e.proof?.[0]?.proofValue),
+                witnesses: witnessStatus === 'anchored',
+                witnessSignatures: witnessStatus === 'anchored' && witnessSignaturesValid
+            },
+            details: valid ? 'Verified successfully' : `Tampering or inconsistency detected: ${errors[0]}`,
+            errors,
+            warnings
+        });
+
+    } catch (err: any) {
+        console.error('[Identity] Error verifying DID:', err);
+        res.status(500).json({ valid: false, error: 'Internal verification error', details: err.message });
+    }
+});
+
+// ============================================
+// OFFLINE VERIFICATION BUNDLE
+// ============================================
+
+/**
+ * Export a signed verification bundle for a DID
+ * GET /api/did/:did/bundle
+ *
+ * Packages did.jsonl, did-witness.json (with the Merkle proofs), the batch
+ * roots/block numbers and the Declaration of Performance into one document,
+ * signed with the DID's current key (eddsa-jcs-2022). The frontend verifies it
+ * offline against a list of trusted on-chain roots.
+ */
+app.get('/api/did/:did/bundle', async (req, res) => {
+    const { did } = req.params;
+
+    try {
+        console.log('[Identity] Exporting verification bundle:', did);
+
+        const scid = extractScidFromDid(did);
+
+        let didLog: string;
+        try {
+            didLog = await fs.readFile(path.join(STORAGE_ROOT, scid, 'did.jsonl'), 'utf-8');
+        } catch {
+            return res.status(404).json({ error: 'DID not found' });
+        }
+
+        const entries = didLog.split(/\r?\n/).filter(l => l.trim().length > 0).map(l => JSON.parse(l));
+        if (entries.length === 0) {
+            return res.status(404).json({ error: 'DID log is empty' });
+        }
+
+        let didWitness: AnchoringProof[] = [];
+        try {
+            const witnessData = JSON.parse(await fs.readFile(path.join(STORAGE_ROOT, scid, 'did-witness.json'), 'utf-8'));
+            didWitness = Array.isArray(witnessData) ? witnessData : witnessData.anchoringProofs || [];
+        } catch {
+            // Not anchored yet - the bundle still carries the log
+        }
+
+        // Batch roots and block numbers referenced by the witness file
+        const batchIds = [...new Set(didWitness.map(p => p.batchId))];
+        const batchResult = batchIds.length > 0
+            ? await pool.query(
+                `SELECT batch_id, merkle_root, tx_hash, block_number, finalized, chain_id FROM batches
+                 WHERE batch_id = ANY($1) ORDER BY batch_id`,
+                [batchIds]
+            )
+            : { rows: [] };
+
+        // Latest Declaration of Performance recorded for this product
+        const dopResult = await pool.query(
+            `SELECT payload->'declarationOfPerformance' AS dop FROM events
+             WHERE did = $1 AND payload ? 'declarationOfPerformance'
+             ORDER BY id DESC LIMIT 1`,
+            [did]
+        );
+
+        // Sign with the DID's current key so the bundle is bound to its controller
+        const currentDoc = entries[entries.length - 1].state || entries[entries.length - 1].didDocument;
+        const currentPubKey = currentDoc?.verificationMethod?.[0]?.publicKeyMultibase;
+        const keyId = currentPubKey ? await keyManagementService.findKeyIdByPublicKey(currentPubKey) : null;
+        const signer = keyId ? await keyManagementService.createSigner(keyId) : null;
+
+        if (!signer) {
+            return res.status(403).json({
+                error: 'Signing key for this DID is not available',
+                suggestion: 'Bundles can only be exported by the service that holds the current DID key.'
+            });
+        }
+
+        const bundle = {
+            type: 'DPPVerificationBundle',
+            version: '1.0',
+            did,
+            scid,
+            exportedAt: new Date().toISOString(),
+            files: {
+                'did.jsonl': didLog,
+                'did-witness.json': didWitness
+            },
+            batches: batchResult.rows.map(b => ({
+                batchId: b.batch_id,
+                merkleRoot: b.merkle_root,
+                txHash: b.tx_hash,
+                blockNumber: b.block_number,
+                finalized: b.finalized,
+                chainId: b.chain_id
+            })),
+            declarationOfPerformance: dopResult.rows[0]?.dop ?? null
+        };
+
+        const proof = await createDataIntegrityProof(bundle, signer, `${did}#key-1`);
+
+        res.setHeader('Content-Disposition', `attachment; filename="${scid}-verification-bundle.json"`);
+        return res.json({ ...bundle, proof });
+
+    } catch (err) {
+        console.error('[Identity] Error exporting verification bundle:', err);
+        res.status(500).json({ error: err instanceof Error ? err.message : 'Unknown error' });
+    }
+});
+
+// ============================================
+// KEY ROTATION
+// ============================================
+
+interface KeyRotationOptions {
+    reason: string;
+    newKeyId?: string;         // pre-committed key to rotate to (found in escrow if omitted)
+    commitKeys?: string[];     // keys of controllers to add, pre-committed for the next rotation
+    addKeys?: string[];        // keys of controllers that become update keys (pre-committed before)
+    updateThreshold?: number;
+}
+
+type KeyRotationResult =
+    | { newKeyId: string; newPublicKeyMultibase: string; nextKeyHash: string; preRotated: boolean; versionId: string }
+    | { error: { status: number; body: Record<string, unknown> } };
+
+/**
+ * Append a key rotation entry signed with the current key
+ *
+ * Pre-rotation: if the log commits to nextKeyHashes, the new key must be
+ * one of the pre-committed (escrowed) keys, and any other key is rejected.
+ * Every rotation escrows and commits to the following key, which also
+ * enables pre-rotation for older DIDs. Co-controllers keep their update keys.
+ */
+async function appendKeyRotation(
+    did: string,
+    scid: string,
+    log: LogEntry[],
+    oldSigner: Signer,
+    options: KeyRotationOptions
+): Promise<KeyRotationResult> {
+    const currentEntry = log[log.length - 1];
+    const currentDoc = currentEntry.state || currentEntry.didDocument;
+
+    // Select the new key: the pre-committed one if pre-rotation is active
+    const committedHashes = getActiveNextKeyHashes(log);
+    let newKeyResult;
+
+    if (committedHashes.length > 0) {
+        const candidate = options.newKeyId
+            ? await keyManagementService.getEscrowedKey(options.newKeyId)
+            : await keyManagementService.findEscrowedKey(committedHashes);
+
+        if (!candidate) {
+            return {
+                error: {
+                    status: 403,
+                    body: { error: 'Pre-rotation is active but no pre-committed key is available for this DID', nextKeyHashes: committedHashes }
+                }
+            };
+        }
+        if (!committedHashes.includes(computeNextKeyHash(candidate.publicKeyMultibase))) {
+            return {
+                error: {
+                    status: 403,
+                    body: { error: 'New key does not match any pre-committed nextKeyHash', nextKeyHashes: committedHashes }
+                }
+            };
+        }
+
+        newKeyResult = await keyManagementService.releaseEscrowedKey(candidate.keyId);
+    } else {
+        // Keep the DID's keys with the provider that holds the current one
+        newKeyResult = await keyManagementService.generateKeyPair(keyManagementService.providerNameForKeyId(oldSigner.keyId));
+    }
+
+    if (!newKeyResult?.keyId) {
+        return { error: { status: 500, body: { error: 'Failed to generate new key' } } };
+    }
+    const newKeyId = newKeyResult.keyId;
+    const newPublicKeyMultibase = newKeyResult.publicKeyMultibase;
+
+    // Commit to the key that will replace this one
+    const nextKey = await keyManagementService.escrowNextKey(keyManagementService.providerNameForKeyId(newKeyId));
+
+    // Co-controllers of a multi-controller DID keep their update keys
+    const activeUpdateKeys = getActiveUpdatePolicy(log).updateKeys;
+    const coControllerKeys = [
+        ...(activeUpdateKeys.includes(oldSigner.publicKeyMultibase)
+            ? activeUpdateKeys.filter((k: string) => k !== oldSigner.publicKeyMultibase)
+            : []),
+        ...(options.addKeys || [])
+    ];
+
+    // Build new verification method
+    const newVerificationMethod = {
+        id: `${did}#key-${log.length + 1}`,
+        type: 'Multikey',
+        controller: did,
+        publicKeyMultibase: newPublicKeyMultibase
+    };
+
+    // Update DID document - add new key, keep old key in history
+    const updatedDoc = {
+        ...currentDoc,
+        verificationMethod: [
+            newVerificationMethod,
+            ...(currentDoc.verificationMethod || []).map((vm: any) => ({
+                ...vm,
+                // Mark old keys as revoked in metadata
+                revoked: vm.id !== newVerificationMethod.id ? new Date().toISOString() : undefined
+            }))
+        ],
+        authentication: [newVerificationMethod.id],
+        assertionMethod: [newVerificationMethod.id],
+        updated: new Date().toISOString()
+    };
+
+    const timestamp = new Date().toISOString();
+    const newVersionId = String(log.length + 1);
+
+    // Sign with OLD key (proving ownership for rotation)
+    const rotationData = {
+        type: 'keyRotation',
+        previousKeyId: oldSigner.keyId,
+        newKeyId: newKeyId,
+        reason: options.reason,
+        timestamp
+    };
+    const dataToSign = new TextEncoder().encode(JSON.stringify(rotationData));
+    const signature = await oldSigner.sign(dataToSign);
+    const proofValue = 'z' + Buffer.from(signature).toString('base64url');
+
+    // Create new log entry (hash chain over the previous entry without witness proofs)
+    const newEntry = {
+        versionId: newVersionId,
+        versionTime: timestamp,
+        parameters: {
+            prevVersionHash: previousVersionHash(currentEntry),
+            updateKeys: [newVerificationMethod.publicKeyMultibase, ...coControllerKeys],
+            nextKeyHashes: [nextKey.nextKeyHash, ...[...coControllerKeys, ...(options.commitKeys || [])].map(computeNextKeyHash)],
+            ...(options.updateThreshold ? { updateThreshold: options.updateThreshold } : {}),
+            method: 'did:webvh:1.0'
+        },
+        state: updatedDoc,
+        proof: [{
+            type: 'DataIntegrityProof',
+            cryptosuite: 'eddsa-jcs-2022',
+            verificationMethod: `${did}#key-${log.length}`, // Signed with OLD key
+            proofPurpose: 'authentication',
+            created: timestamp,
+            proofValue
+        }]
+    };
+
+    // Append to log
+    log.push(newEntry);
+    await saveDIDLog(scid, log);
+
+    // Update database
+    await pool.query(
+        `UPDATE identities SET public_key = $1, updated_at = NOW() WHERE did = $2`,
+        [newPublicKeyMultibase, did]
+    );
+    await pool.query(
+        `UPDATE did_controllers SET public_key = $1, key_id = $2 WHERE did = $3 AND public_key = $4`,
+        [newPublicKeyMultibase, newKeyId, did, oldSigner.publicKeyMultibase]
+    );
+
+    // Store rotation event
+    const leafHash = crypto.createHash('sha256')
+        .update(JSON.stringify(newEntry))
+        .digest('hex');
+
+    await pool.query(
+        `INSERT INTO events (did, event_type, payload, signature, leaf_hash, version_id, timestamp) 
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+            did,
+            'key_rotation',
+            JSON.stringify({
+                previousKeyId: oldSigner.keyId,
+                newKeyId: newKeyId,
+                reason: options.reason,
+                ...(options.addKeys?.length ? { addedUpdateKeys: options.addKeys } : {}),
+                ...(options.updateThreshold ? { updateThreshold: options.updateThreshold } : {})
+            }),
+            proofValue,
+            leafHash,
+            newVersionId,
+            Date.now()
+        ]
+    );
+    await recordKeyUsage(oldSigner, did, newVersionId, 'key_rotation');
+
+    console.log(`✅ Key rotated for DID: ${did}, new key: ${newKeyId}`);
+    return {
+        newKeyId,
+        newPublicKeyMultibase,
+        nextKeyHash: nextKey.nextKeyHash,
+        preRotated: committedHashes.length > 0,
+        versionId: newVersionId
+    };
+}
+
+/**
+ * Rotate the controller key for a DID
+ * POST /api/did/:did/rotate
+ * 
+ * Generates a new key pair, updates the DID document with the new key,
+ * and invalidates the old key. Creates a new log entry with the rotation
+ * (see appendKeyRotation; newKeyId chooses the pre-committed key).
+ * A multi-controller DID needs its threshold of signatures for a new key
+ * set, so it is rotated at updateThreshold 1 (409 otherwise).
+ */
+app.post('/api/did/:did/rotate', async (req, res) => {
+    const { did } = req.params;
+    let { keyId, reason } = req.body;
+    const { newKeyId: requestedNewKeyId } = req.body;
+
+    try {
+        console.log('[Identity] Rotating key for DID:', did);
+
+        // Load existing log
+        const scid = extractScidFromDid(did);
+        const log = await loadDIDLog(scid);
+
+        if (!log || log.length === 0) {
+            return res.status(404).json({ error: 'DID not found' });
+        }
+
+        // One key cannot replace the key set of a multi-controller DID
+        const { threshold } = getActiveUpdatePolicy(log);
+        if (threshold > 1) {
+            return res.status(409).json({
+                error: `DID requires ${threshold} controller signatures to change its update keys`,
+                suggestion: 'Lower updateThreshold to 1 with PUT /api/did/:did/update (signed via /api/did/:did/pending-updates), rotate, then raise it again.'
+            });
+        }
+
+        // Get current DID document
+        const currentEntry = log[log.length - 1];
+        const currentDoc = currentEntry.state || currentEntry.didDocument;
+        if (!currentDoc) {
+            return res.status(500).json({ error: 'No DID document found in log' });
+        }
+
+        // AUTO-SYNC: Ensure this DID exists in the database
+        try {
+            const { rows: dbIdentities } = await pool.query('SELECT did FROM identities WHERE did = $1', [did]);
+            if (dbIdentities.length === 0) {
+                console.log('[Identity] Auto-sync: Registering missing identity during key rotation:', did);
+                const pubKey = currentDoc.verificationMethod?.[0]?.publicKeyMultibase || 'unknown';
+                await pool.query(
+                    'INSERT INTO identities (did, scid, public_key, owner, status) VALUES ($1, $2, $3, $4, $5) ON CONFLICT DO NOTHING',
+                    [did, scid, pubKey, currentDoc.controller || 'unknown', 'active']
+                );
+            }
+        } catch (dbErr) {
+            console.warn('[Identity] Auto-sync warning:', dbErr);
+        }
+
+        // Resolve keyId if not provided or invalid for this DID
+        let oldSigner = null;
+        if (keyId && keyId !== 'default-key') {
+            oldSigner = await keyManagementService.createSigner(keyId);
+        }
+
+        if (!oldSigner) {
+            // Attempt auto-lookup: Find key that matches current DID verification method
+            const currentPubKey = currentDoc.verificationMethod?.[0]?.publicKeyMultibase;
+            if (currentPubKey) {
+                console.log('[Identity] Attempting auto-lookup for key matching current public key...');
+                const resolvedKeyId = await keyManagementService.findKeyIdByPublicKey(currentPubKey);
+                if (resolvedKeyId) {
+                    console.log('[Identity] Auto-resolved keyId:', resolvedKeyId);
+                    // Explicitly reassigned
+                    const anyReq = req.body as any;
+                    anyReq.keyId = resolvedKeyId;
+                    keyId = resolvedKeyId;
+                    oldSigner = await keyManagementService.createSigner(keyId);
+                }
+            }
+        }
+
+        if (!oldSigner) {
+            return res.status(403).json({
+                error: 'Unauthorized: No valid signing key found for this DID iteration.',
+                suggestion: 'This often happens if the product was created with a non-default key (as windows/glasses are).'
+            });
+        }
+
+        const rotation = await appendKeyRotation(did, scid, log, oldSigner, {
+            reason: reason || 'Manual key rotation',
+            newKeyId: requestedNewKeyId
+        });
+        if ('error' in rotation) {
+            return res.status(rotation.error.status).json(rotation.error.body);
+        }
+
+        return res.json({
+            did,
+            oldKeyId: keyId,
+            newKeyId: rotation.newKeyId,
+            preRotated: rotation.preRotated,
+            nextKeyHash: rotation.nextKeyHash,
+            versionId: rotation.versionId,
+            status: 'rotated'
+        });
+
+    } catch (err: any) {
+        console.error('[Identity] Error rotating key:', err);
+        res.status(500).json({ error: err.message });
+    }
+});
+
+// ============================================
+// OWNERSHIP TRANSFER
+// ============================================
+
+/**
+ * Transfer ownership of a DID to a new controller
+ * POST /api/did/:did/transfer
+ * 
+ * Updates the controller field and adds the new owner's key
+ * to the verification methods. The old owner signs the transfer.
+ */
+app.post('/api/did/:did/transfer', async (req, res) => {
+    const { did } = req.params;
+    let { keyId, newOwnerDID, newOwnerPublicKey, reason, signature, signerAddress, message } = req.body;
+
+    try {
+        console.log('[Identity] Transferring ownership of DID:', did, 'to:', newOwnerDID);
+
+        // Auto-fix: if incoming keyId is 'default-key', we likely want auto-lookup
+        // This is common when coming from local fallback frontend
+        if (keyId === 'default-key') {
+            keyId = undefined;
+        }
+
+        if (newOwnerDID === 'Wallet User') {
+            return res.status(400).json({ error: 'Cannot transfer to generic "Wallet User" role. Use a specific DID.' });
+        }
+
+        if (!newOwnerDID) {
+            return res.status(400).json({ error: 'newOwnerDID is required' });
+        }
+
+        // Load existing log
+        const scid = extractScidFromDid(did);
+        const log = await loadDIDLog(scid);
+
+        if (!log || log.length === 0) {
+            return res.status(404).json({ error: 'DID not found' });
+        }
+
+        const thresholdConflict = requiresThresholdSignatures(log);
+        if (thresholdConflict) {
+            return res.status(409).json(thresholdConflict);
+        }
+
+        // Resolve keyId if not provided or generic
+        let currentSigner = null;
+        if (keyId && keyId !== 'default-key') {
+            currentSigner = await keyManagementService.createSigner(keyId);
+        }
+
+        // Get current DID document
+        const currentEntry = log[log.length - 1];
+        const currentDoc = currentEntry.state || currentEntry.didDocument;
+
+        if (!currentDoc) {
+            return res.status(500).json({ error: 'No DID document found in log' });
+        }
+
+        // AUTO-SYNC: Ensure this DID exists in the database identities table
+        // This handles cases where data exists in filesystem but DB was reset
+        try {
+            const { rows: dbIdentities } = await pool.query('SELECT did FROM identities WHERE did = $1', [did]);
+            if (dbIdentities.length === 0) {
+                console.log('[Identity] Auto-sync: Registering missing identity from log into DB:', did);
+                const pubKey = currentDoc.verificationMethod?.[0]?.publicKeyMultibase || 'unknown';
+                await pool.query(
+                    'INSERT INTO identities (did, scid, public_key, owner, status) VALUES ($1, $2, $3, $4, $5) ON CONFLICT DO NOTHING',
+                    [did, scid, pubKey, currentDoc.controller || 'unknown', 'active']
+                );
+            }
+        } catch (dbErr) {
+            console.warn('[Identity] Auto-sync warning:', dbErr);
+            // Continue anyway, it might fail later due to FK but we tried
+        }
+
+        if (!currentSigner) {
+            // Attempt auto-lookup: Find key that matches current DID verification method
+            const currentPubKey = currentDoc.verificationMethod?.[0]?.publicKeyMultibase;
+            if (currentPubKey) {
+                console.log('[Identity] Attempting auto-lookup for transfer signer...');
+                const resolvedKeyId = await keyManagementService.findKeyIdByPublicKey(currentPubKey);
+                if (resolvedKeyId) {
+                    console.log('[Identity] Auto-resolved keyId:', resolvedKeyId);
+                    keyId = resolvedKeyId;
+                    currentSigner = await keyManagementService.createSigner(keyId);
+                }
+            }
+        }
+
+        // Special case: MetaMask Authorization
+        // If no signer found yet but we have an ETH signature, check if it's the owner
+        if (!currentSigner && signature && signerAddress) {
+            console.log('[Identity] Checking MetaMask authorization for:', signerAddress);
+            const currentOwner = (currentDoc.controller || '').toLowerCase();
+            const signer = signerAddress.toLowerCase();
+
+            if (currentOwner.includes(signer) || currentOwner === '') {
+                console.log('[Identity] MetaMask signer matches owner (or owner is empty/wallet). Using maintenance key.');
+                currentSigner = await keyManagementService.createSigner('default-key');
+            }
+        }
+
+        if (!currentSigner) {
+            return res.status(403).json({
+                error: 'Invalid keyId - not authorized',
+                suggestion: 'For Windows/Glasses products, the key is random. Ensure the backend can resolve the signing key from the DID doc.'
+            });
+        }
+
+        // Build new owner's verification method (if public key provided)
+        let newVerificationMethod;
+        if (newOwnerPublicKey) {
+            newVerificationMethod = {
+                id: `${did}#key-${log.length + 1}`,
+                type: 'Multikey',
+                controller: newOwnerDID,
+                publicKeyMultibase: newOwnerPublicKey
+            };
+        }
+
+        // Update DID document - change controller
+        const updatedDoc = {
+            ...currentDoc,
+            controller: newOwnerDID,
+            verificationMethod: newVerificationMethod
+                ? [newVerificationMethod, ...(currentDoc.verificationMethod || [])]
+                : currentDoc.verificationMethod,
+            authentication: newVerificationMethod
+                ? [newVerificationMethod.id]
+                : currentDoc.authentication,
+            assertionMethod: newVerificationMethod
+                ? [newVerificationMethod.id]
+                : currentDoc.assertionMethod,
+            updated: new Date().toISOString()
+        };
+
+        // Calculate previous hash (stripping witness proofs to match stable hash chain)
+        const previousEntry = JSON.parse(JSON.stringify(log[log.length - 1]));
+        if (previousEntry.proof && Array.isArray(previousEntry.proof)) {
+            previousEntry.proof = previousEntry.proof.filter((p: any) =>
+                p.type !== 'MerkleProof2019' && p.proofPurpose !== 'witness'
+            );
+        }
+
+        const previousHash = crypto.createHash('sha256')
+            .update(JSON.stringify(previousEntry))
+            .digest('hex');
+
+        const timestamp = new Date().toISOString();
+        const newVersionId = String(log.length + 1);
+
+        // Sign with current owner's key (proving authorization for transfer)
+        const transferData = {
+            type: 'ownershipTransfer',
+            previousOwner: currentDoc.controller || did,
+            newOwner: newOwnerDID,
+            reason: reason || 'Ownership transfer',
+            timestamp
+        };
+        const dataToSign = new TextEncoder().encode(JSON.stringify(transferData));
+        const proofSignature = await currentSigner.sign(dataToSign);
+        const proofValue = 'z' + Buffer.from(proofSignature).toString('base64url');
+
+        // Create new log entry
+        const newEntry = {
+            versionId: newVersionId,
+            versionTime: timestamp,
+            parameters: {
+                prevVersionHash: previousHash,
+                controller: newOwnerDID,
+                method: 'did:webvh:1.0'
+            },
+            state: updatedDoc,
+            proof: [{
+                type: 'DataIntegrityProof',
+                cryptosuite: 'eddsa-jcs-2022',
+                verificationMethod: `${did}#key-${log.length}`, // Signed by old owner
+                proofPurpose: 'authentication',
+                created: timestamp,
+                proofValue
+            }]
+        };
 
-            if (proofs.length > 0) {
-                witnessStatus = 'anchored';
-                for (const p of proofs) {
-                    // Basic self-consistency check for Merkle path
-                    const leaf = Buffer.from(p.leafHash.replace('0x', ''), 'hex');
-                    const root = Buffer.from(p.merkleRoot.replace('0x', ''), 'hex');
-                    const proof = (p.merkleProof || []).map((s: string) => Buffer.from(s.replace('0x', ''), 'hex'));
+        // Append to log
+        log.push(newEntry);
+        await saveDIDLog(scid, log);
 
-                    let valid = false;
-                    if (proof.length === 0) {
-                        valid = p.leafHash.toLowerCase() === p.merkleRoot.toLowerCase();
-                    } else {
-                        valid = MerkleTree.verify(proof, leaf, root, (d: any) => Buffer.from(sha256(d)), { sortPairs: true });
-                        if (!valid) valid = MerkleTree.verify([...proof].reverse(), leaf, root, (d: any) => Buffer.from(sha256(d)), { sortPairs: true });
-                    }
+        // Update database - change owner
+        await pool.query(
+            `UPDATE identities SET owner = $1, updated_at = NOW() WHERE did = $2`,
+            [newOwnerDID, did]
+        );
 
-                    if (!valid) {
-                        errors.push(`Cryptographic proof in did-witness.json is invalid for batch ${p.batchId}`);
-                    }
-                }
-            }
-        } catch (e: any) {
-            if (e.code !== 'ENOENT') warnings.push(`Could not verify witness file: ${e.message}`);
+        // Also update products table if it exists
+        try {
+            await pool.query(
+                `UPDATE products SET owner_did = $1, updated_at = NOW() WHERE did = $2`,
+                [newOwnerDID, did]
+            );
+        } catch (e) {
+            // Products table might not exist or have different structure
+            console.log('[Identity] Note: Could not update products table');
         }
 
-        const lastEntry = entries[entries.length - 1];
-        const valid = errors.length === 0;
+        // Store transfer event
+        const leafHash = crypto.createHash('sha256')
+            .update(JSON.stringify(newEntry))
+            .digest('hex');
+
+        await pool.query(
+            `INSERT INTO events (did, event_type, payload, signature, leaf_hash, version_id, timestamp) 
+             VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+            [
+                did,
+                'ownership_transfer',
+                JSON.stringify({
+                    previousOwner: currentDoc.controller || did,
+                    newOwner: newOwnerDID,
+                    reason: reason || 'Ownership transfer'
+                }),
+                proofValue,
+                leafHash,
+                newVersionId,
+                Date.now()
+            ]
+        );
+        await recordKeyUsage(currentSigner, did, newVersionId, 'ownership_transfer');
+
+        console.log(`✅ Ownership transferred and event stored: ${did} -> ${newOwnerDID}`);
 
         return res.json({
             did,
-            valid,
-            versionId: lastEntry.versionId,
-            checks: {
-                hashChain: errors.length === 0,
-                signatures: entries.every(e => e.proof?.[0]?.proofValue),
-                witnesses: witnessStatus === 'anchored'
-            },
-            details: valid ? 'Verified successfully' : `Tampering or inconsistency detected: ${errors[0]}`,
-            errors,
-            warnings
+            previousOwner: currentDoc.controller || did,
+            newOwner: newOwnerDID,
+            versionId: newVersionId,
+            status: 'transferred'
         });
 
     } catch (err: any) {
-        console.error('[Identity] Error verifying DID:', err);
-        res.status(500).json({ valid: false, error: 'Internal verification error', details: err.message });
+        console.error('[Identity] Error transferring ownership:', err);
+        res.status(500).json({ error: err.message });
     }
 });
 
 // ============================================
-// KEY ROTATION
+// DID MIGRATION (PORTABILITY)
 // ============================================
 
 /**
- * Rotate the controller key for a DID
- * POST /api/did/:did/rotate
- * 
- * Generates a new key pair, updates the DID document with the new key,
- * and invalidates the old key. Creates a new log entry with the rotation.
+ * Move a portable DID to another domain
+ * POST /api/did/:did/migrate
+ *
+ * Only DIDs created with portable=true can move. The new entry keeps the
+ * SCID (and with it the log and its hash chain), rewrites the DID in the
+ * document and lists the previous DID in alsoKnownAs, so resolvers can
+ * follow the move. Signed with the current key.
  */
-app.post('/api/did/:did/rotate', async (req, res) => {
+app.post('/api/did/:did/migrate', async (req, res) => {
     const { did } = req.params;
-    let { keyId, reason } = req.body;
+    let { keyId } = req.body;
+    const { newDomain, reason } = req.body;
 
     try {
-        console.log('[Identity] Rotating key for DID:', did);
+        console.log('[Identity] Migrating DID:', did, '->', newDomain);
+
+        if (!newDomain || typeof newDomain !== 'string' || !/^[a-zA-Z0-9.-]+(:\d+)?$/.test(newDomain)) {
+            return res.status(400).json({ error: 'newDomain must be a host name, optionally with a port (e.g. passports.example.com)' });
+        }
 
         // Load existing log
         const scid = extractScidFromDid(did);
@@ -937,151 +3164,324 @@ app.post('/api/did/:did/rotate', async (req, res) => {
             return res.status(404).json({ error: 'DID not found' });
         }
 
-        // Get current DID document
-        const currentEntry = log[log.length - 1];
-        const currentDoc = currentEntry.state || currentEntry.didDocument;
+        const previousEntry = log[log.length - 1];
+        const currentDoc = previousEntry.state || previousEntry.didDocument;
         if (!currentDoc) {
             return res.status(500).json({ error: 'No DID document found in log' });
         }
 
-        // AUTO-SYNC: Ensure this DID exists in the database
-        try {
-            const { rows: dbIdentities } = await pool.query('SELECT did FROM identities WHERE did = $1', [did]);
-            if (dbIdentities.length === 0) {
-                console.log('[Identity] Auto-sync: Registering missing identity during key rotation:', did);
-                const pubKey = currentDoc.verificationMethod?.[0]?.publicKeyMultibase || 'unknown';
-                await pool.query(
-                    'INSERT INTO identities (did, scid, public_key, owner, status) VALUES ($1, $2, $3, $4, $5) ON CONFLICT DO NOTHING',
-                    [did, scid, pubKey, currentDoc.controller || 'unknown', 'active']
-                );
-            }
-        } catch (dbErr) {
-            console.warn('[Identity] Auto-sync warning:', dbErr);
+        // Portability is fixed in the first entry and cannot be turned on later
+        if (log[0].parameters?.portable !== true) {
+            return res.status(409).json({ error: 'DID is not portable: it was created without the portable flag' });
+        }
+        if (log.some(e => e.parameters?.deactivated)) {
+            return res.status(409).json({ error: 'DID is deactivated' });
         }
 
-        // Resolve keyId if not provided or invalid for this DID
-        let oldSigner = null;
+        const thresholdConflict = requiresThresholdSignatures(log);
+        if (thresholdConflict) {
+            return res.status(409).json(thresholdConflict);
+        }
+
+        const currentDid = currentDoc.id || did;
+        const newDid = `did:webvh:${newDomain}:${scid}`;
+        if (newDid === currentDid) {
+            return res.status(400).json({ error: `DID is already hosted on ${newDomain}` });
+        }
+
+        // Resolve keyId if not provided or generic
+        let signer = null;
         if (keyId && keyId !== 'default-key') {
-            oldSigner = await keyManagementService.createSigner(keyId);
+            signer = await keyManagementService.createSigner(keyId);
         }
 
-        if (!oldSigner) {
-            // Attempt auto-lookup: Find key that matches current DID verification method
+        if (!signer) {
             const currentPubKey = currentDoc.verificationMethod?.[0]?.publicKeyMultibase;
             if (currentPubKey) {
-                console.log('[Identity] Attempting auto-lookup for key matching current public key...');
                 const resolvedKeyId = await keyManagementService.findKeyIdByPublicKey(currentPubKey);
                 if (resolvedKeyId) {
                     console.log('[Identity] Auto-resolved keyId:', resolvedKeyId);
-                    // Explicitly reassigned
-                    const anyReq = req.body as any;
-                    anyReq.keyId = resolvedKeyId;
                     keyId = resolvedKeyId;
-                    oldSigner = await keyManagementService.createSigner(keyId);
+                    signer = await keyManagementService.createSigner(resolvedKeyId);
                 }
             }
         }
 
-        if (!oldSigner) {
+        if (!signer) {
             return res.status(403).json({
-                error: 'Unauthorized: No valid signing key found for this DID iteration.',
-                suggestion: 'This often happens if the product was created with a non-default key (as windows/glasses are).'
+                error: 'Invalid keyId - not authorized',
+                suggestion: 'Ensure the backend can resolve the signing key from the DID doc.'
             });
         }
 
-        // Generate new key pair
-        const newKeyResult = await keyManagementService.generateKeyPair();
-        const newKeyId = newKeyResult.keyId;
-        const newPublicKeyMultibase = newKeyResult.publicKeyMultibase;
-
-        if (!newKeyId) {
-            return res.status(500).json({ error: 'Failed to generate new key' });
+        // Calculate previous hash (stripping witness proofs to match stable hash chain)
+        const prevEntryNorm = JSON.parse(JSON.stringify(previousEntry));
+        if (prevEntryNorm.proof && Array.isArray(prevEntryNorm.proof)) {
+            prevEntryNorm.proof = prevEntryNorm.proof.filter((p: { type?: string; proofPurpose?: string }) =>
+                p.type !== 'MerkleProof2019' && p.proofPurpose !== 'witness'
+            );
         }
 
-        // Build new verification method
-        const newVerificationMethod = {
-            id: `${did}#key-${log.length + 1}`,
-            type: 'Multikey',
-            controller: did,
-            publicKeyMultibase: newPublicKeyMultibase
+        const previousHash = crypto.createHash('sha256')
+            .update(JSON.stringify(prevEntryNorm))
+            .digest('hex');
+
+        const timestamp = new Date().toISOString();
+        const newVersionId = String(log.length + 1);
+
+        // Rewrite every reference to the DID (id, verification methods, controller)
+        // and link back to where it came from
+        const movedDoc = JSON.parse(JSON.stringify(currentDoc).split(currentDid).join(newDid));
+        const migratedDoc = {
+            ...movedDoc,
+            alsoKnownAs: [...new Set([...(currentDoc.alsoKnownAs || []), currentDid])],
+            updated: timestamp
         };
 
-        // Update DID document - add new key, keep old key in history
-        const updatedDoc = {
-            ...currentDoc,
-            verificationMethod: [
-                newVerificationMethod,
-                ...(currentDoc.verificationMethod || []).map((vm: any) => ({
-                    ...vm,
-                    // Mark old keys as revoked in metadata
-                    revoked: vm.id !== newVerificationMethod.id ? new Date().toISOString() : undefined
-                }))
-            ],
-            authentication: [newVerificationMethod.id],
-            assertionMethod: [newVerificationMethod.id],
-            updated: new Date().toISOString()
+        const dataToSign = new TextEncoder().encode(JSON.stringify(migratedDoc));
+        const signature = await signer.sign(dataToSign);
+        const proofValue = 'z' + Buffer.from(signature).toString('base64url');
+
+        const newEntry = {
+            versionId: newVersionId,
+            versionTime: timestamp,
+            parameters: {
+                prevVersionHash: previousHash
+            },
+            state: migratedDoc,
+            proof: [{
+                type: 'DataIntegrityProof',
+                cryptosuite: 'eddsa-jcs-2022',
+                verificationMethod: `${currentDid}#key-1`, // Signed as the DID before the move
+                proofPurpose: 'authentication',
+                created: timestamp,
+                proofValue
+            }]
         };
 
+        // Append to log (same SCID, so the log file stays where it is)
+        log.push(newEntry);
+        await saveDIDLog(scid, log);
+
+        // Rename the identity; events, audits and relationships follow via ON UPDATE CASCADE
+        await pool.query(
+            `UPDATE identities SET did = $1, updated_at = NOW() WHERE did = $2`,
+            [newDid, currentDid]
+        );
+
+        const leafHash = crypto.createHash('sha256')
+            .update(JSON.stringify(newEntry))
+            .digest('hex');
+
+        await pool.query(
+            `INSERT INTO events (did, event_type, payload, signature, leaf_hash, version_id, timestamp) 
+             VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+            [
+                newDid,
+                'did_migration',
+                JSON.stringify({
+                    previousDid: currentDid,
+                    newDid,
+                    keyId,
+                    reason: reason || 'Domain migration'
+                }),
+                proofValue,
+                leafHash,
+                newVersionId,
+                Date.now()
+            ]
+        );
+        await recordKeyUsage(signer, newDid, newVersionId, 'did_migration');
+
+        console.log(`✅ Migrated DID: ${currentDid} -> ${newDid}`);
+
+        return res.json({
+            did: newDid,
+            previousDid: currentDid,
+            alsoKnownAs: migratedDoc.alsoKnownAs,
+            versionId: newVersionId,
+            status: 'migrated'
+        });
+
+    } catch (err) {
+        console.error('[Identity] Error migrating DID:', err);
+        res.status(500).json({ error: err instanceof Error ? err.message : 'Unknown error' });
+    }
+});
+
+// ============================================
+// VERIFIABLE CREDENTIALS
+// ============================================
+
+// Issuer (notified body) signer, cached per key
+const issuerSigners = new Map<string, Signer>();
+
+// Helper: Load the signer of a credential issuer (CREDENTIAL_ISSUER_KEY_ID unless a key is given)
+async function getIssuerSigner(requestedKeyId?: string): Promise<{ keyId: string; signer: Signer } | null> {
+    let keyId = requestedKeyId || process.env.CREDENTIAL_ISSUER_KEY_ID;
+    if (!keyId) {
+        keyId = (await keyManagementService.generateKeyPair()).keyId;
+        console.warn(`[Identity] CREDENTIAL_ISSUER_KEY_ID not set, generated issuer key ${keyId}. Set it to keep a stable issuer DID.`);
+        process.env.CREDENTIAL_ISSUER_KEY_ID = keyId;
+    }
+
+    const cached = issuerSigners.get(keyId);
+    if (cached) return { keyId, signer: cached };
+
+    const signer = await keyManagementService.createSigner(keyId);
+    if (!signer) return null;
+    issuerSigners.set(keyId, signer);
+    return { keyId, signer };
+}
+
+/**
+ * Issue a W3C VC 2.0 credential about a product
+ * POST /api/did/:did/credentials
+ *
+ * Body: { definition, claims, issuerType, issuerName?, issuerKeyId? }
+ * The credential definition (from the product schema) drives which claims
+ * are allowed/required and the expiry. The credential is signed by the
+ * issuer's did:key and referenced from the product's DID document as a
+ * service endpoint (a new log entry, signed with the product key).
+ */
+app.post('/api/did/:did/credentials', async (req, res) => {
+    const { did } = req.params;
+    const { definition, claims, issuerType, issuerName, issuerKeyId } = req.body as {
+        definition?: CredentialDefinitionLike;
+        claims?: Record<string, unknown>;
+        issuerType?: string;
+        issuerName?: string;
+        issuerKeyId?: string;
+    };
+
+    try {
+        if (!definition?.type || !Array.isArray(definition.properties)) {
+            return res.status(400).json({ error: 'definition with type and properties is required' });
+        }
+        if (definition.issuerTypes?.length && !definition.issuerTypes.includes(issuerType || '')) {
+            return res.status(403).json({
+                error: `${definition.label || definition.type} can only be issued by: ${definition.issuerTypes.join(', ')}`
+            });
+        }
+
+        const claimErrors = validateClaims(definition, claims || {});
+        if (claimErrors.length > 0) {
+            return res.status(400).json({ error: 'Invalid credential claims', details: claimErrors });
+        }
+
+        // Load existing log
+        const scid = extractScidFromDid(did);
+        const log = await loadDIDLog(scid);
+
+        if (!log || log.length === 0) {
+            return res.status(404).json({ error: 'DID not found' });
+        }
 
-        // Calculate previous hash (stripping witness proofs to match stable hash chain)
         const previousEntry = log[log.length - 1];
+        const currentDoc = previousEntry.state || previousEntry.didDocument;
+        if (log.some(e => e.parameters?.deactivated)) {
+            return res.status(409).json({ error: 'DID is deactivated' });
+        }
+
+        const thresholdConflict = requiresThresholdSignatures(log);
+        if (thresholdConflict) {
+            return res.status(409).json(thresholdConflict);
+        }
+
+        // The product's controller key links the credential into the DID document
+        const currentPubKey = currentDoc?.verificationMethod?.[0]?.publicKeyMultibase;
+        const productKeyId = currentPubKey ? await keyManagementService.findKeyIdByPublicKey(currentPubKey) : null;
+        const productSigner = productKeyId ? await keyManagementService.createSigner(productKeyId) : null;
+        if (!productSigner) {
+            return res.status(403).json({
+                error: 'No signing key found for this DID',
+                suggestion: 'Ensure the backend can resolve the signing key from the DID doc.'
+            });
+        }
+
+        const issuerKey = await getIssuerSigner(issuerKeyId);
+        if (!issuerKey) {
+            return res.status(400).json({ error: `Issuer key ${issuerKeyId} not found` });
+        }
+        const issuerSigner = issuerKey.signer;
+        const issuerDid = issuerDidForSigner(issuerSigner);
+
+        // 1. Build and sign the credential, with its bit in the issuer's status lists
+        const statusListIndex = await allocateStatusListIndex(issuerDid);
+        const credentialStatus = [];
+        for (const purpose of STATUS_PURPOSES) {
+            const listId = await ensureStatusList(issuerDid, issuerKey.keyId, purpose);
+            credentialStatus.push(buildStatusEntry(statusListUrl(listId), statusListIndex, purpose));
+        }
+
+        const credentialId = `urn:uuid:${crypto.randomUUID()}`;
+        const credential = await signCredential(buildCredential({
+            id: credentialId,
+            issuer: { id: issuerDid, ...(issuerName ? { name: issuerName } : {}) },
+            subjectDid: currentDoc.id || did,
+            definition,
+            claims: claims || {},
+            credentialStatus
+        }), issuerSigner);
+
+        // 2. Reference it from the DID document
+        const serviceEndpoint = `https://${DOMAIN}/api/credentials/${encodeURIComponent(credentialId)}`;
         const prevEntryNorm = JSON.parse(JSON.stringify(previousEntry));
         if (prevEntryNorm.proof && Array.isArray(prevEntryNorm.proof)) {
-            prevEntryNorm.proof = prevEntryNorm.proof.filter((p: any) =>
+            prevEntryNorm.proof = prevEntryNorm.proof.filter((p: { type?: string; proofPurpose?: string }) =>
                 p.type !== 'MerkleProof2019' && p.proofPurpose !== 'witness'
             );
         }
-
         const previousHash = crypto.createHash('sha256')
             .update(JSON.stringify(prevEntryNorm))
             .digest('hex');
 
         const timestamp = new Date().toISOString();
         const newVersionId = String(log.length + 1);
-
-        // Sign with OLD key (proving ownership for rotation)
-        const rotationData = {
-            type: 'keyRotation',
-            previousKeyId: keyId,
-            newKeyId: newKeyId,
-            reason: reason || 'Manual key rotation',
-            timestamp
+        const updatedDoc = {
+            ...currentDoc,
+            service: [
+                ...(currentDoc.service || []),
+                {
+                    id: `#credential-${credentialId.slice(-12)}`,
+                    type: 'VerifiableCredentialService',
+                    credentialType: definition.type,
+                    serviceEndpoint
+                }
+            ]
         };
-        const dataToSign = new TextEncoder().encode(JSON.stringify(rotationData));
-        const signature = await oldSigner.sign(dataToSign);
+
+        const signature = await productSigner.sign(new TextEncoder().encode(JSON.stringify(updatedDoc)));
         const proofValue = 'z' + Buffer.from(signature).toString('base64url');
 
-        // Create new log entry
         const newEntry = {
             versionId: newVersionId,
             versionTime: timestamp,
             parameters: {
-                prevVersionHash: previousHash,
-                updateKeys: [newVerificationMethod.publicKeyMultibase],
-                method: 'did:webvh:1.0'
+                prevVersionHash: previousHash
             },
             state: updatedDoc,
             proof: [{
                 type: 'DataIntegrityProof',
                 cryptosuite: 'eddsa-jcs-2022',
-                verificationMethod: `${did}#key-${log.length}`, // Signed with OLD key
+                verificationMethod: `${currentDoc.id || did}#key-1`,
                 proofPurpose: 'authentication',
                 created: timestamp,
                 proofValue
             }]
         };
 
-        // Append to log
         log.push(newEntry);
         await saveDIDLog(scid, log);
 
-        // Update database
+        // 3. Store the credential and the anchoring event
         await pool.query(
-            `UPDATE identities SET public_key = $1, updated_at = NOW() WHERE did = $2`,
-            [newPublicKeyMultibase, did]
+            `INSERT INTO credentials (id, did, credential_type, issuer, credential, valid_from, valid_until, status_list_index)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+            [credentialId, did, definition.type, credential.issuer.id, JSON.stringify(credential),
+                credential.validFrom, credential.validUntil || null, statusListIndex]
         );
 
-        // Store rotation event
         const leafHash = crypto.createHash('sha256')
             .update(JSON.stringify(newEntry))
             .digest('hex');
@@ -1091,11 +3491,12 @@ app.post('/api/did/:did/rotate', async (req, res) => {
              VALUES ($1, $2, $3, $4, $5, $6, $7)`,
             [
                 did,
-                'key_rotation',
+                'credential_issued',
                 JSON.stringify({
-                    previousKeyId: keyId,
-                    newKeyId: newKeyId,
-                    reason: reason || 'Manual key rotation'
+                    credentialId,
+                    credentialType: definition.type,
+                    issuer: credential.issuer,
+                    validUntil: credential.validUntil || null
                 }),
                 proofValue,
                 leafHash,
@@ -1103,259 +3504,309 @@ app.post('/api/did/:did/rotate', async (req, res) => {
                 Date.now()
             ]
         );
+        await recordKeyUsage(productSigner, did, newVersionId, 'credential_issued');
 
-        console.log(`✅ Key rotated for DID: ${did}, new key: ${newKeyId}`);
+        console.log(`✅ Issued ${definition.type} credential ${credentialId} for ${did}`);
 
-        return res.json({
-            did,
-            oldKeyId: keyId,
-            newKeyId: newKeyId,
+        return res.status(201).json({
+            credential,
+            serviceEndpoint,
             versionId: newVersionId,
-            status: 'rotated'
+            status: 'issued'
         });
 
-    } catch (err: any) {
-        console.error('[Identity] Error rotating key:', err);
-        res.status(500).json({ error: err.message });
+    } catch (err) {
+        console.error('[Identity] Error issuing credential:', err);
+        res.status(500).json({ error: err instanceof Error ? err.message : 'Unknown error' });
     }
 });
 
-// ============================================
-// OWNERSHIP TRANSFER
-// ============================================
-
 /**
- * Transfer ownership of a DID to a new controller
- * POST /api/did/:did/transfer
- * 
- * Updates the controller field and adds the new owner's key
- * to the verification methods. The old owner signs the transfer.
+ * Credentials issued about a product
  */
-app.post('/api/did/:did/transfer', async (req, res) => {
-    const { did } = req.params;
-    let { keyId, newOwnerDID, newOwnerPublicKey, reason, signature, signerAddress, message } = req.body;
-
+app.get('/api/did/:did/credentials', async (req, res) => {
     try {
-        console.log('[Identity] Transferring ownership of DID:', did, 'to:', newOwnerDID);
-
-        // Auto-fix: if incoming keyId is 'default-key', we likely want auto-lookup
-        // This is common when coming from local fallback frontend
-        if (keyId === 'default-key') {
-            keyId = undefined;
-        }
-
-        if (newOwnerDID === 'Wallet User') {
-            return res.status(400).json({ error: 'Cannot transfer to generic "Wallet User" role. Use a specific DID.' });
-        }
+        const { rows } = await pool.query(
+            'SELECT credential FROM credentials WHERE did = $1 ORDER BY created_at DESC',
+            [req.params.did]
+        );
+        res.json(rows.map(r => r.credential));
+    } catch (err) {
+        res.status(500).json({ error: err instanceof Error ? err.message : 'Unknown error' });
+    }
+});
 
-        if (!newOwnerDID) {
-            return res.status(400).json({ error: 'newOwnerDID is required' });
+/**
+ * A single credential (the service endpoint in the DID document)
+ */
+app.get('/api/credentials/:id', async (req, res) => {
+    try {
+        const { rows } = await pool.query('SELECT credential FROM credentials WHERE id = $1', [req.params.id]);
+        if (rows.length === 0) {
+            return res.status(404).json({ error: 'Credential not found' });
         }
+        res.type('application/vc+ld+json').send(JSON.stringify(rows[0].credential));
+    } catch (err) {
+        res.status(500).json({ error: err instanceof Error ? err.message : 'Unknown error' });
+    }
+});
 
-        // Load existing log
-        const scid = extractScidFromDid(did);
-        const log = await loadDIDLog(scid);
+// ============================================
+// CREDENTIAL STATUS (BITSTRING STATUS LISTS)
+// ============================================
 
-        if (!log || log.length === 0) {
-            return res.status(404).json({ error: 'DID not found' });
-        }
+// Helper: Public URL of a status list credential
+function statusListUrl(listId: string): string {
+    return `https://${DOMAIN}/api/status-lists/${listId}`;
+}
 
-        // Resolve keyId if not provided or generic
-        let currentSigner = null;
-        if (keyId && keyId !== 'default-key') {
-            currentSigner = await keyManagementService.createSigner(keyId);
-        }
+// Helper: Sign a status list credential for the current bitstring
+async function signStatusList(listId: string, issuerDid: string, issuerKeyId: string, purpose: StatusPurpose, encodedList: string) {
+    const issuerKey = await getIssuerSigner(issuerKeyId);
+    if (!issuerKey) {
+        throw new Error(`Issuer key ${issuerKeyId} not found`);
+    }
+    return signCredential(buildStatusListCredential({
+        id: statusListUrl(listId),
+        issuer: { id: issuerDid },
+        statusPurpose: purpose,
+        encodedList
+    }), issuerKey.signer);
+}
 
-        // Get current DID document
-        const currentEntry = log[log.length - 1];
-        const currentDoc = currentEntry.state || currentEntry.didDocument;
+// Helper: Create an issuer's status list for a purpose if it does not exist yet
+async function ensureStatusList(issuerDid: string, issuerKeyId: string, purpose: StatusPurpose): Promise<string> {
+    const listId = `${issuerDid.slice('did:key:'.length)}-${purpose}`;
+    const { rows } = await pool.query('SELECT id FROM status_lists WHERE id = $1', [listId]);
+    if (rows.length > 0) return listId;
+
+    const encodedList = await encodeStatusList(createBitstring());
+    const credential = await signStatusList(listId, issuerDid, issuerKeyId, purpose, encodedList);
+    await pool.query(
+        `INSERT INTO status_lists (id, issuer, issuer_key_id, status_purpose, encoded_list, credential)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (id) DO NOTHING`,
+        [listId, issuerDid, issuerKeyId, purpose, encodedList, JSON.stringify(credential)]
+    );
+    console.log(`[Identity] Created ${purpose} status list ${listId}`);
+    return listId;
+}
 
-        if (!currentDoc) {
-            return res.status(500).json({ error: 'No DID document found in log' });
-        }
+// Helper: Pick a free index in the issuer's lists.
+// Random rather than sequential, so an index does not reveal when a credential was issued.
+async function allocateStatusListIndex(issuerDid: string): Promise<number> {
+    for (let attempt = 0; attempt < 20; attempt++) {
+        const index = crypto.randomInt(STATUS_LIST_LENGTH);
+        const { rows } = await pool.query(
+            'SELECT 1 FROM credentials WHERE issuer = $1 AND status_list_index = $2',
+            [issuerDid, index]
+        );
+        if (rows.length === 0) return index;
+    }
+    throw new Error('No free status list index for issuer');
+}
 
-        // AUTO-SYNC: Ensure this DID exists in the database identities table
-        // This handles cases where data exists in filesystem but DB was reset
-        try {
-            const { rows: dbIdentities } = await pool.query('SELECT did FROM identities WHERE did = $1', [did]);
-            if (dbIdentities.length === 0) {
-                console.log('[Identity] Auto-sync: Registering missing identity from log into DB:', did);
-                const pubKey = currentDoc.verificationMethod?.[0]?.publicKeyMultibase || 'unknown';
-                await pool.query(
-                    'INSERT INTO identities (did, scid, public_key, owner, status) VALUES ($1, $2, $3, $4, $5) ON CONFLICT DO NOTHING',
-                    [did, scid, pubKey, currentDoc.controller || 'unknown', 'active']
-                );
-            }
-        } catch (dbErr) {
-            console.warn('[Identity] Auto-sync warning:', dbErr);
-            // Continue anyway, it might fail later due to FK but we tried
+/**
+ * A status list credential (the statusListCredential of credentialStatus entries)
+ */
+app.get('/api/status-lists/:id', async (req, res) => {
+    try {
+        const { rows } = await pool.query('SELECT credential FROM status_lists WHERE id = $1', [req.params.id]);
+        if (rows.length === 0) {
+            return res.status(404).json({ error: 'Status list not found' });
         }
+        res.type('application/vc+ld+json').send(JSON.stringify(rows[0].credential));
+    } catch (err) {
+        res.status(500).json({ error: err instanceof Error ? err.message : 'Unknown error' });
+    }
+});
 
-        if (!currentSigner) {
-            // Attempt auto-lookup: Find key that matches current DID verification method
-            const currentPubKey = currentDoc.verificationMethod?.[0]?.publicKeyMultibase;
-            if (currentPubKey) {
-                console.log('[Identity] Attempting auto-lookup for transfer signer...');
-                const resolvedKeyId = await keyManagementService.findKeyIdByPublicKey(currentPubKey);
-                if (resolvedKeyId) {
-                    console.log('[Identity] Auto-resolved keyId:', resolvedKeyId);
-                    keyId = resolvedKeyId;
-                    currentSigner = await keyManagementService.createSigner(keyId);
-                }
-            }
-        }
+/**
+ * Revoke, suspend or reinstate a credential
+ * POST /api/credentials/:id/status
+ *
+ * Body: { status: 'active' | 'suspended' | 'revoked', reason? }
+ * Flips the credential's bits in the issuer's revocation and suspension
+ * lists and re-signs them. Revocation is permanent.
+ */
+app.post('/api/credentials/:id/status', async (req, res) => {
+    const { id } = req.params;
+    const { status, reason } = req.body as { status?: string; reason?: string };
 
-        // Special case: MetaMask Authorization
-        // If no signer found yet but we have an ETH signature, check if it's the owner
-        if (!currentSigner && signature && signerAddress) {
-            console.log('[Identity] Checking MetaMask authorization for:', signerAddress);
-            const currentOwner = (currentDoc.controller || '').toLowerCase();
-            const signer = signerAddress.toLowerCase();
+    if (!status || !['active', 'suspended', 'revoked'].includes(status)) {
+        return res.status(400).json({ error: 'status must be one of: active, suspended, revoked' });
+    }
 
-            if (currentOwner.includes(signer) || currentOwner === '') {
-                console.log('[Identity] MetaMask signer matches owner (or owner is empty/wallet). Using maintenance key.');
-                currentSigner = await keyManagementService.createSigner('default-key');
-            }
+    try {
+        const { rows } = await pool.query(
+            'SELECT id, did, issuer, status, status_list_index FROM credentials WHERE id = $1',
+            [id]
+        );
+        if (rows.length === 0) {
+            return res.status(404).json({ error: 'Credential not found' });
         }
 
-        if (!currentSigner) {
-            return res.status(403).json({
-                error: 'Invalid keyId - not authorized',
-                suggestion: 'For Windows/Glasses products, the key is random. Ensure the backend can resolve the signing key from the DID doc.'
-            });
+        const current = rows[0];
+        if (current.status_list_index === null) {
+            return res.status(409).json({ error: 'Credential was issued without a status list entry' });
         }
-
-        // Build new owner's verification method (if public key provided)
-        let newVerificationMethod;
-        if (newOwnerPublicKey) {
-            newVerificationMethod = {
-                id: `${did}#key-${log.length + 1}`,
-                type: 'Multikey',
-                controller: newOwnerDID,
-                publicKeyMultibase: newOwnerPublicKey
-            };
+        if (current.status === 'revoked') {
+            return res.status(409).json({ error: 'Credential is revoked; revocation is permanent' });
         }
 
-        // Update DID document - change controller
-        const updatedDoc = {
-            ...currentDoc,
-            controller: newOwnerDID,
-            verificationMethod: newVerificationMethod
-                ? [newVerificationMethod, ...(currentDoc.verificationMethod || [])]
-                : currentDoc.verificationMethod,
-            authentication: newVerificationMethod
-                ? [newVerificationMethod.id]
-                : currentDoc.authentication,
-            assertionMethod: newVerificationMethod
-                ? [newVerificationMethod.id]
-                : currentDoc.assertionMethod,
-            updated: new Date().toISOString()
+        // Update the credential's bit in both lists
+        const bits: Record<StatusPurpose, boolean> = {
+            revocation: status === 'revoked',
+            suspension: status === 'suspended'
         };
+        for (const purpose of STATUS_PURPOSES) {
+            const { rows: lists } = await pool.query(
+                'SELECT id, issuer_key_id, encoded_list FROM status_lists WHERE issuer = $1 AND status_purpose = $2',
+                [current.issuer, purpose]
+            );
+            if (lists.length === 0) {
+                return res.status(500).json({ error: `No ${purpose} status list for issuer ${current.issuer}` });
+            }
 
-        // Calculate previous hash (stripping witness proofs to match stable hash chain)
-        const previousEntry = JSON.parse(JSON.stringify(log[log.length - 1]));
-        if (previousEntry.proof && Array.isArray(previousEntry.proof)) {
-            previousEntry.proof = previousEntry.proof.filter((p: any) =>
-                p.type !== 'MerkleProof2019' && p.proofPurpose !== 'witness'
+            const list = lists[0];
+            const bitstring = await decodeStatusList(list.encoded_list);
+            setStatusBit(bitstring, current.status_list_index, bits[purpose]);
+            const encodedList = await encodeStatusList(bitstring);
+            const credential = await signStatusList(list.id, current.issuer, list.issuer_key_id, purpose, encodedList);
+
+            await pool.query(
+                'UPDATE status_lists SET encoded_list = $1, credential = $2, updated_at = NOW() WHERE id = $3',
+                [encodedList, JSON.stringify(credential), list.id]
             );
         }
 
-        const previousHash = crypto.createHash('sha256')
-            .update(JSON.stringify(previousEntry))
-            .digest('hex');
+        await pool.query(
+            'UPDATE credentials SET status = $1, status_reason = $2 WHERE id = $3',
+            [status, reason || null, id]
+        );
 
-        const timestamp = new Date().toISOString();
-        const newVersionId = String(log.length + 1);
+        console.log(`[Identity] Credential ${id} status: ${current.status} -> ${status}`);
 
-        // Sign with current owner's key (proving authorization for transfer)
-        const transferData = {
-            type: 'ownershipTransfer',
-            previousOwner: currentDoc.controller || did,
-            newOwner: newOwnerDID,
-            reason: reason || 'Ownership transfer',
-            timestamp
-        };
-        const dataToSign = new TextEncoder().encode(JSON.stringify(transferData));
-        const proofSignature = await currentSigner.sign(dataToSign);
-        const proofValue = 'z' + Buffer.from(proofSignature).toString('base64url');
+        res.json({ id, did: current.did, status, previousStatus: current.status, reason: reason || null });
 
-        // Create new log entry
-        const newEntry = {
-            versionId: newVersionId,
-            versionTime: timestamp,
-            parameters: {
-                prevVersionHash: previousHash,
-                controller: newOwnerDID,
-                method: 'did:webvh:1.0'
-            },
-            state: updatedDoc,
-            proof: [{
-                type: 'DataIntegrityProof',
-                cryptosuite: 'eddsa-jcs-2022',
-                verificationMethod: `${did}#key-${log.length}`, // Signed by old owner
-                proofPurpose: 'authentication',
-                created: timestamp,
-                proofValue
-            }]
-        };
+    } catch (err) {
+        console.error('[Identity] Error updating credential status:', err);
+        res.status(500).json({ error: err instanceof Error ? err.message : 'Unknown error' });
+    }
+});
 
-        // Append to log
-        log.push(newEntry);
-        await saveDIDLog(scid, log);
+// ============================================
+// VERIFIABLE PRESENTATIONS (SELECTIVE DISCLOSURE)
+// ============================================
 
-        // Update database - change owner
-        await pool.query(
-            `UPDATE identities SET owner = $1, updated_at = NOW() WHERE did = $2`,
-            [newOwnerDID, did]
-        );
+/**
+ * Role-scoped presentation of a product passport
+ * GET /api/did/:did/presentation?role=Consumer
+ *
+ * The passport is issued as an SD-JWT VC signed with the product's key
+ * (the manufacturer's passport), and only the disclosures the role may see
+ * are included. Withheld fields never leave the server; the verifier can
+ * still check the disclosed ones against the signature.
+ *
+ * The role is the one assigned to the caller's ACTOR_TOKENS Bearer token
+ * (Wallet User for the product's owner); everyone else, whatever role they
+ * ask for, gets the Consumer presentation. role=Consumer asks for the public one.
+ */
+app.get('/api/did/:did/presentation', async (req, res) => {
+    const { did } = req.params;
+    const requestedRole = typeof req.query.role === 'string' && req.query.role ? req.query.role : undefined;
 
-        // Also update products table if it exists
-        try {
-            await pool.query(
-                `UPDATE products SET owner_did = $1, updated_at = NOW() WHERE did = $2`,
-                [newOwnerDID, did]
-            );
-        } catch (e) {
-            // Products table might not exist or have different structure
-            console.log('[Identity] Note: Could not update products table');
+    if (requestedRole && !ROLE_PERMISSIONS[requestedRole]) {
+        return res.status(400).json({ error: `Unknown role ${requestedRole}`, roles: Object.keys(ROLE_PERMISSIONS) });
+    }
+
+    try {
+        const scid = extractScidFromDid(did);
+        const log = await loadDIDLog(scid);
+        if (!log || log.length === 0) {
+            return res.status(404).json({ error: 'DID not found' });
         }
 
-        // Store transfer event
-        const leafHash = crypto.createHash('sha256')
-            .update(JSON.stringify(newEntry))
-            .digest('hex');
+        const currentDoc = log[log.length - 1].state || log[log.length - 1].didDocument;
+        if (log.some(e => e.parameters?.deactivated)) {
+            return res.status(409).json({ error: 'DID is deactivated' });
+        }
 
-        await pool.query(
-            `INSERT INTO events (did, event_type, payload, signature, leaf_hash, version_id, timestamp) 
-             VALUES ($1, $2, $3, $4, $5, $6, $7)`,
-            [
-                did,
-                'ownership_transfer',
-                JSON.stringify({
-                    previousOwner: currentDoc.controller || did,
-                    newOwner: newOwnerDID,
-                    reason: reason || 'Ownership transfer'
-                }),
-                proofValue,
-                leafHash,
-                newVersionId,
-                Date.now()
-            ]
+        const currentPubKey = currentDoc?.verificationMethod?.[0]?.publicKeyMultibase;
+        const keyId = currentPubKey ? await keyManagementService.findKeyIdByPublicKey(currentPubKey) : null;
+        const signer = keyId ? await keyManagementService.createSigner(keyId) : null;
+        if (!signer) {
+            return res.status(403).json({
+                error: 'No signing key found for this DID',
+                suggestion: 'Ensure the backend can resolve the signing key from the DID doc.'
+            });
+        }
+
+        // Passport data: the identity record and the product data registered at creation
+        const { rows: identities } = await pool.query(
+            'SELECT owner, status, created_at FROM identities WHERE did = $1',
+            [did]
+        );
+        const { rows: creation } = await pool.query(
+            `SELECT payload FROM events WHERE did = $1 AND event_type = 'create' ORDER BY id LIMIT 1`,
+            [did]
         );
+        if (identities.length === 0) {
+            return res.status(404).json({ error: 'Passport not found' });
+        }
 
-        console.log(`✅ Ownership transferred and event stored: ${did} -> ${newOwnerDID}`);
+        const actorDid = authenticateActorToken(req);
+        const actorRole = actorDid
+            ? (await getAssignedRole(actorDid)) ?? (actorDid === identities[0].owner ? 'Wallet User' : null)
+            : null;
+        const role = getPresentationRole(actorRole, requestedRole);
+
+        // The creation payload also records the product's key id, which is not passport data
+        const productData: Record<string, unknown> = { ...(creation[0]?.payload || {}) };
+        delete productData.keyId;
+        const claims: Record<string, unknown> = {
+            ...productData,
+            owner: identities[0].owner,
+            status: identities[0].status,
+            productionDate: new Date(identities[0].created_at).toISOString()
+        };
 
-        return res.json({
-            did,
-            previousOwner: currentDoc.controller || did,
-            newOwner: newOwnerDID,
-            versionId: newVersionId,
-            status: 'transferred'
+        const subject = currentDoc.id || did;
+        const sdJwt = presentSdJwt(
+            await issueSdJwt({
+                issuer: subject,
+                kid: `${subject}#${currentDoc.verificationMethod[0].id?.split('#').pop() || 'key-1'}`,
+                vct: 'DigitalProductPassport',
+                subject,
+                claims,
+                signer
+            }),
+            name => canRoleSeeField(role, name)
+        );
+
+        const disclosed = Object.keys(claims).filter(name => canRoleSeeField(role, name));
+
+        res.setHeader('Cache-Control', 'no-store');
+        res.json({
+            role,
+            format: SD_JWT_VC_TYPE,
+            presentation: {
+                '@context': [VC_V2_CONTEXT],
+                type: ['VerifiablePresentation'],
+                verifiableCredential: [{
+                    '@context': [VC_V2_CONTEXT],
+                    id: `data:application/${SD_JWT_VC_TYPE},${sdJwt}`,
+                    type: 'EnvelopedVerifiableCredential'
+                }]
+            },
+            sdJwt,
+            disclosed,
+            withheld: Object.keys(claims).length - disclosed.length
         });
 
-    } catch (err: any) {
-        console.error('[Identity] Error transferring ownership:', err);
-        res.status(500).json({ error: err.message });
+    } catch (err) {
+        console.error('[Identity] Error creating presentation:', err);
+        res.status(500).json({ error: err instanceof Error ? err.message : 'Unknown error' });
     }
 });
 
@@ -1433,7 +3884,7 @@ app.get('/api/events', async (req, res) => {
 app.get('/api/batches', async (req, res) => {
     try {
         const result = await pool.query(
-            'SELECT batch_id, merkle_root, tx_hash, block_number, status, timestamp FROM batches ORDER BY batch_id DESC'
+            'SELECT batch_id, merkle_root, tx_hash, block_number, status, block_confirmations, confirmations, required_confirmations, finalized, mmr_size, anchor_backend, chain_id, batch_reason, gas_price_gwei, gas_cost_wei, timestamp FROM batches ORDER BY batch_id DESC'
         );
         return res.json(result.rows);
     } catch (err: any) {
@@ -1441,11 +3892,110 @@ app.get('/api/batches', async (req, res) => {
     }
 });
 
+/**
+ * MMR consistency proof of a batch's root against the previously anchored root
+ * GET /api/batches/:batchId/consistency
+ */
+app.get('/api/batches/:batchId/consistency', async (req, res) => {
+    const { batchId } = req.params;
+
+    try {
+        const result = await pool.query(
+            `SELECT b.batch_id, b.merkle_root, b.mmr_size, b.consistency_proof,
+                    prev.batch_id AS previous_batch_id, prev.merkle_root AS previous_root
+             FROM batches b
+             LEFT JOIN LATERAL (
+                 SELECT batch_id, merkle_root FROM batches p
+                 WHERE p.mmr_size IS NOT NULL AND p.batch_id < b.batch_id
+                 ORDER BY p.batch_id DESC LIMIT 1
+             ) prev ON TRUE
+             WHERE b.batch_id = $1`,
+            [parseInt(batchId)]
+        );
+
+        const batch = result.rows[0];
+        if (!batch || !batch.consistency_proof) {
+            return res.status(404).json({ error: 'No consistency proof for this batch' });
+        }
+
+        return res.json({
+            batchId: batch.batch_id,
+            merkleRoot: batch.merkle_root,
+            previousBatchId: batch.previous_batch_id,
+            previousRoot: batch.previous_root,
+            proof: batch.consistency_proof
+        });
+    } catch (err) {
+        res.status(500).json({ error: err instanceof Error ? err.message : 'Unknown error' });
+    }
+});
+
+// ============================================
+// ANCHOR BACKEND (read-only)
+// ============================================
+
+// Helper: Backend named by the ?backend= query, defaulting to ANCHOR_BACKEND
+function resolveAnchorBackend(name: unknown) {
+    return getAnchorBackend(typeof name === 'string' && name ? name as AnchorBackendName : getConfiguredBackendName());
+}
+
+/**
+ * Status of the anchor backend (lets the frontend read non-EVM backends)
+ * GET /api/anchors/status
+ */
+app.get('/api/anchors/status', async (req, res) => {
+    try {
+        const anchorBackend = resolveAnchorBackend(req.query.backend);
+        return res.json({
+            backend: anchorBackend.name,
+            chainId: await anchorBackend.getChainId(),
+            blockNumber: await anchorBackend.getBlockNumber(),
+            batchCount: await anchorBackend.getBatchCount()
+        });
+    } catch (err) {
+        res.status(503).json({ error: err instanceof Error ? err.message : 'Unknown error' });
+    }
+});
+
+/**
+ * Anchored roots, optionally from a block onwards
+ * GET /api/anchors?fromBlock=0
+ */
+app.get('/api/anchors', async (req, res) => {
+    try {
+        const anchorBackend = resolveAnchorBackend(req.query.backend);
+        const fromBlock = parseInt(String(req.query.fromBlock || '0')) || 0;
+        return res.json(await anchorBackend.listAnchors(fromBlock));
+    } catch (err) {
+        res.status(503).json({ error: err instanceof Error ? err.message : 'Unknown error' });
+    }
+});
+
+/**
+ * A single anchored root with its witness quorum state
+ * GET /api/anchors/:batchId
+ */
+app.get('/api/anchors/:batchId', async (req, res) => {
+    try {
+        const anchorBackend = resolveAnchorBackend(req.query.backend);
+        const batchId = parseInt(req.params.batchId);
+        const batch = await anchorBackend.getBatch(batchId);
+
+        if (!batch) {
+            return res.status(404).json({ error: `Batch ${batchId} not anchored` });
+        }
+
+        return res.json({ ...batch, quorum: await anchorBackend.getQuorumStatus(batchId) });
+    } catch (err) {
+        res.status(503).json({ error: err instanceof Error ? err.message : 'Unknown error' });
+    }
+});
+
 // Get audits
 app.get('/api/audits', async (req, res) => {
     const { did } = req.query;
     try {
-        let query = 'SELECT id, did, check_type, status, details, checked_at FROM audits';
+        let query = 'SELECT id, did, check_type, status, details, exempt, exemption_reason, checked_at FROM audits';
         let params: any[] = [];
 
         if (did) {
@@ -1461,6 +4011,94 @@ app.get('/api/audits', async (req, res) => {
     }
 });
 
+// ============================================
+// ANCHORING QUEUE (retries & dead letters)
+// ============================================
+
+/**
+ * Anchoring queue: event counts per state, plus the events that failed or were dead-lettered
+ * GET /api/witness/queue
+ */
+app.get('/api/witness/queue', async (req, res) => {
+    try {
+        const counts = await pool.query(
+            `SELECT anchor_status, COUNT(*) AS count FROM events
+             WHERE witness_proofs IS NULL GROUP BY anchor_status`
+        );
+        const failed = await pool.query(
+            `SELECT id, did, event_type, version_id, anchor_status, anchor_attempts, next_attempt_at, last_error, timestamp
+             FROM events
+             WHERE witness_proofs IS NULL AND anchor_status IN ('failed', 'dead_letter')
+             ORDER BY anchor_status DESC, id ASC
+             LIMIT 200`
+        );
+
+        const summary: Record<string, number> = { queued: 0, in_flight: 0, failed: 0, dead_letter: 0 };
+        for (const row of counts.rows) {
+            summary[row.anchor_status] = parseInt(row.count);
+        }
+
+        return res.json({
+            counts: summary,
+            events: failed.rows.map(row => ({
+                ...row,
+                next_attempt_at: row.next_attempt_at !== null ? Number(row.next_attempt_at) : null,
+                timestamp: Number(row.timestamp)
+            }))
+        });
+    } catch (err) {
+        res.status(500).json({ error: err instanceof Error ? err.message : 'Unknown error' });
+    }
+});
+
+/**
+ * Requeue failed or dead-lettered events for anchoring (all of them unless eventIds is given)
+ * POST /api/witness/queue/requeue
+ */
+app.post('/api/witness/queue/requeue', async (req, res) => {
+    const { eventIds } = req.body || {};
+
+    if (eventIds !== undefined && (!Array.isArray(eventIds) || !eventIds.every(id => Number.isInteger(id)))) {
+        return res.status(400).json({ error: 'eventIds must be an array of event IDs' });
+    }
+
+    try {
+        const params: unknown[] = [];
+        let query = `UPDATE events SET anchor_status = 'queued', anchor_attempts = 0, next_attempt_at = NULL, last_error = NULL
+                     WHERE witness_proofs IS NULL AND anchor_status IN ('failed', 'dead_letter')`;
+        if (eventIds) {
+            query += ' AND id = ANY($1)';
+            params.push(eventIds);
+        }
+
+        const result = await pool.query(`${query} RETURNING id`, params);
+        console.log(`[Identity] Requeued ${result.rowCount} event(s) for anchoring`);
+
+        return res.json({ requeued: result.rowCount, eventIds: result.rows.map(row => row.id) });
+    } catch (err) {
+        res.status(500).json({ error: err instanceof Error ? err.message : 'Unknown error' });
+    }
+});
+
+// Raising and clearing alerts moves products into and out of tampered, which only the watcher may do
+const WATCHER_TOKEN = process.env.WATCHER_TOKEN;
+
+// Helper: Authenticate the watcher: WATCHER_TOKEN as a Bearer token (constant time),
+// or without a token configured, only callers on this host
+function requireWatcher(req: express.Request, res: express.Response, next: express.NextFunction) {
+    if (WATCHER_TOKEN) {
+        const given = Buffer.from(req.header('Authorization') || '');
+        const expected = Buffer.from(`Bearer ${WATCHER_TOKEN}`);
+        if (given.length === expected.length && crypto.timingSafeEqual(given, expected)) {
+            return next();
+        }
+    } else if (['127.0.0.1', '::1', '::ffff:127.0.0.1'].includes(req.socket.remoteAddress || '')) {
+        return next();
+    }
+    console.warn(`[Identity] Rejected unauthenticated ${req.method} ${req.path} from ${req.socket.remoteAddress}`);
+    return res.status(401).json({ error: 'Unauthorized' });
+}
+
 // Get Watcher Alerts
 app.get('/api/watcher/alerts', async (req, res) => {
     const { did } = req.query;
@@ -1483,7 +4121,7 @@ app.get('/api/watcher/alerts', async (req, res) => {
 });
 
 // Create Watcher Alert
-app.post('/api/watcher/alerts', async (req, res) => {
+app.post('/api/watcher/alerts', requireWatcher, async (req, res) => {
     const { did, event_id, reason, details, reporter } = req.body;
 
     if (!did || !reason) {
@@ -1510,14 +4148,13 @@ app.post('/api/watcher/alerts', async (req, res) => {
             [did, cleanEventId, reason, details, reporter || 'Watcher Node']
         );
 
-        // 2. Update the identity status to 'tampered'
-        await pool.query(
-            "UPDATE identities SET status = 'tampered', updated_at = NOW() WHERE did = $1",
-            [did]
-        );
+        // 2. Move the identity to 'tampered' (system transition, skipped from terminal states)
+        const status = await transitionLifecycleAsSystem(did, 'tampered', `Watcher alert: ${reason}`);
 
         console.log(`🚨 Watcher Alert created for ${did}: ${reason} (eventId: ${cleanEventId})`);
-        console.log(`⚠️ Identity status set to 'tampered' for ${did}`);
+        if (status) {
+            console.log(`⚠️ Identity status set to 'tampered' for ${did}`);
+        }
 
         return res.json(result.rows[0]);
     } catch (err: any) {
@@ -1529,7 +4166,7 @@ app.post('/api/watcher/alerts', async (req, res) => {
 /**
  * Delete alerts for a DID (used when manual verification passes)
  */
-app.delete('/api/watcher/alerts/:did', async (req, res) => {
+app.delete('/api/watcher/alerts/:did', requireWatcher, async (req, res) => {
     const { did } = req.params;
     const { event_id } = req.query;
 
@@ -1564,9 +4201,11 @@ app.delete('/api/watcher/alerts/:did', async (req, res) => {
         const count = parseInt(remaining[0].count);
 
         if (count === 0) {
-            // Restore identity status to active ONLY if no alerts remain
-            await pool.query("UPDATE identities SET status = 'active' WHERE did = $1", [did]);
-            console.log(`✅ Restored status to active for ${did}`);
+            // Restore a tampered identity to active ONLY if no alerts remain
+            const status = await transitionLifecycleAsSystem(did, 'active', 'Watcher alerts resolved');
+            if (status) {
+                console.log(`✅ Restored status to active for ${did}`);
+            }
         } else {
             console.log(`ℹ️ Status remains 'tampered' for ${did} -> ${count} alerts remaining`);
         }
@@ -1588,6 +4227,480 @@ app.get('/health', (req, res) => {
     });
 });
 
+// ============================================
+// PRODUCT IMPORT (schema-validated, all or nothing)
+// ============================================
+
+const MAX_IMPORT_ITEMS = 2000;
+const MAX_TRACKED_IMPORTS = 20;
+
+interface ImportItem {
+    ref?: string;                        // reference within the file (e.g. the product's DID in an export)
+    type?: string;                       // 'main' or 'component'
+    model?: string;
+    metadata?: Record<string, unknown>;  // metadata.productType selects the product schema
+    parent?: string;                     // ref of another item, or a registered DID
+    ownerDid?: string;
+}
+
+interface ImportRow {
+    row: number;                         // index in items
+    ref: string;
+    action: 'create' | 'exists';         // exists: ref is a registered DID, which is used as it is
+    productType: string | null;
+    model: string | null;
+    parent: string | null;
+    parentSource: 'file' | 'registered' | null;
+    errors: string[];
+    warnings: string[];                  // reported, but do not stop the import
+    did?: string;                        // DID created for it
+}
+
+// Helper: Product schema of a registered product (the product type and model are recorded in its create event)
+async function getRegisteredProductSchema(did: string): Promise<ProductTypeSchema | null> {
+    const { rows } = await pool.query(
+        `SELECT payload FROM events WHERE did = $1 AND event_type = 'create' ORDER BY id LIMIT 1`,
+        [did]
+    );
+    const payload = (rows[0]?.payload || {}) as Record<string, unknown>;
+    return getSchemaForType(String(payload.productType || '')) || getSchemaForType(String(payload.model || ''));
+}
+
+// Helper: Error if a parent product has component slots and none takes the product type
+function componentSlotError(parentSchema: ProductTypeSchema | null | undefined, productType: string | null): string | null {
+    const slots = parentSchema?.componentSlots || [];
+    if (!parentSchema || !productType || slots.length === 0) return null;
+    return slots.some(slot => slot.type === productType || slot.allowedTypes?.includes(productType))
+        ? null
+        : `${parentSchema.name} has no component slot for ${productType}`;
+}
+
+/**
+ * Validate every item of an import and resolve its parent reference
+ * (another item of the file or a registered DID), without changing anything
+ */
+async function planProductImport(items: ImportItem[]): Promise<{ rows: ImportRow[]; schemas: Map<string, ProductTypeSchema> }> {
+    const schemas = new Map<string, ProductTypeSchema>();
+    const refs = items.map((item, i) => (typeof item?.ref === 'string' && item.ref ? item.ref : `row-${i + 1}`));
+
+    const rows: ImportRow[] = [];
+    for (const [i, item] of items.entries()) {
+        const ref = refs[i];
+        const metadata = item?.metadata && typeof item.metadata === 'object' && !Array.isArray(item.metadata) ? item.metadata : null;
+        const row: ImportRow = {
+            row: i,
+            ref,
+            action: 'create',
+            productType: null,
+            model: typeof item?.model === 'string' ? item.model : null,
+            parent: typeof item?.parent === 'string' && item.parent ? item.parent : null,
+            parentSource: null,
+            errors: [],
+            warnings: []
+        };
+        rows.push(row);
+
+        if (refs.indexOf(ref) !== i) {
+            row.errors.push(`Duplicate ref ${ref} (row ${refs.indexOf(ref)})`);
+        }
+        if (await getLifecycleStatus(ref)) {
+            row.action = 'exists';
+            continue;
+        }
+
+        if (item?.type !== 'main' && item?.type !== 'component') {
+            row.errors.push('type must be main or component');
+        }
+        if (!row.model) {
+            row.errors.push('model is required');
+        }
+        if (!metadata) {
+            row.errors.push('metadata must be an object');
+        } else {
+            const schema = getSchemaForType(String(metadata.productType || '')) || getSchemaForType(row.model || '');
+            if (!schema) {
+                row.errors.push(`No product schema for ${metadata.productType || row.model}`);
+            } else {
+                row.productType = schema.id;
+                schemas.set(ref, schema);
+                row.errors.push(...validateAgainstSchema({ metadata }, schema).errors);
+            }
+        }
+    }
+
+    // Parent references
+    const toCreate = new Set(rows.filter(row => row.action === 'create').map(row => row.ref));
+    for (const row of rows) {
+        if (!row.parent) continue;
+        if (row.action === 'exists') {
+            // Registered products are used as they are: the import does not link them to a new parent
+            const { rowCount } = await pool.query(
+                'SELECT 1 FROM relationships WHERE parent_did = $1 AND child_did = $2',
+                [row.parent, row.ref]
+            );
+            if (!rowCount) {
+                row.warnings.push(`Already registered: parent ${row.parent} is not linked by the import`);
+            }
+            continue;
+        }
+
+        if (row.parent === row.ref) {
+            row.errors.push('A product cannot be its own parent');
+        } else if (toCreate.has(row.parent)) {
+            row.parentSource = 'file';
+            const slotError = componentSlotError(schemas.get(row.parent), row.productType);
+            if (slotError) row.errors.push(slotError);
+        } else {
+            // A registered DID, also when the file lists it as an existing product
+            const parentStatus = await getLifecycleStatus(row.parent);
+            if (!parentStatus) {
+                row.errors.push(`Parent ${row.parent} is neither in the file nor registered`);
+            } else if (isTerminalStatus(parentStatus)) {
+                row.errors.push(`Parent ${row.parent} is ${parentStatus}`);
+            } else {
+                row.parentSource = 'registered';
+                const slotError = componentSlotError(await getRegisteredProductSchema(row.parent), row.productType);
+                if (slotError) row.errors.push(slotError);
+            }
+        }
+    }
+
+    // Parent references within the file must not loop
+    const byRef = new Map(rows.map(row => [row.ref, row]));
+    for (const row of rows) {
+        const seen = new Set<string>([row.ref]);
+        let current = row;
+        while (current.parentSource === 'file' && current.parent) {
+            if (seen.has(current.parent)) {
+                row.errors.push('Parent references form a cycle');
+                break;
+            }
+            seen.add(current.parent);
+            current = byRef.get(current.parent)!;
+        }
+    }
+
+    return { rows, schemas };
+}
+
+/**
+ * Create the DIDs and relationships of a validated import
+ *
+ * Parents are created before their components. All database rows are written
+ * in one transaction; the DID logs are written before it commits and removed
+ * again if anything fails. (Keys generated for a failed import stay unused in
+ * the key store.)
+ */
+async function executeProductImport(
+    items: ImportItem[],
+    rows: ImportRow[],
+    onCreated?: (row: ImportRow) => void
+): Promise<Array<{ parent_did: string; child_did: string }>> {
+    const byRef = new Map(rows.map(row => [row.ref, row]));
+    const depth = (row: ImportRow): number =>
+        row.parentSource === 'file' && row.parent ? 1 + depth(byRef.get(row.parent)!) : 0;
+    const toCreate = rows.filter(row => row.action === 'create').sort((a, b) => depth(a) - depth(b));
+
+    // 1. Keys and signed genesis entries
+    const created = [];
+    for (const row of toCreate) {
+        const item = items[row.row];
+        const keyPair = await keyManagementService.generateKeyPair();
+        const nextKey = await keyManagementService.escrowNextKey(keyManagementService.providerNameForKeyId(keyPair.keyId));
+        const signer = await keyManagementService.createSigner(keyPair.keyId);
+        if (!signer) {
+            throw new Error('Failed to create signer');
+        }
+
+        let didResult;
+        try {
+            didResult = await createDID({
+                domain: DOMAIN,
+                signer: { sign: signer.sign, kid: '#key-1', algorithm: 'EdDSA', publicKeyMultibase: signer.publicKeyMultibase },
+                updateKeys: [signer.publicKeyMultibase],
+                nextKeyHashes: [nextKey.nextKeyHash],
+                controller: item.ownerDid || undefined,
+                verificationMethods: [{ type: 'Multikey', publicKeyMultibase: signer.publicKeyMultibase }],
+                created: new Date()
+            });
+        } catch (libraryError) {
+            console.warn('[Identity] didwebvh-ts createDID failed, using fallback:', libraryError instanceof Error ? libraryError.message : libraryError);
+            didResult = await createDIDFallback({
+                domain: DOMAIN,
+                signer,
+                type: item.type!,
+                model: item.model!,
+                metadata: item.metadata,
+                controller: item.ownerDid,
+                nextKeyHashes: [nextKey.nextKeyHash]
+            });
+        }
+
+        row.did = didResult.did;
+        created.push({ row, item, keyId: keyPair.keyId, signer, scid: extractScidFromDid(didResult.did), log: didResult.log });
+        onCreated?.(row);
+    }
+
+    const relationships = rows
+        .filter(row => row.action === 'create' && row.parent)
+        .map(row => ({
+            parent_did: row.parentSource === 'file' ? (byRef.get(row.parent!)!.did || row.parent!) : row.parent!,
+            child_did: row.did!
+        }));
+
+    // 2. Store everything in one transaction, writing the log files last
+    const written: string[] = [];
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+
+        for (const { row, item, keyId, signer, scid, log } of created) {
+            await client.query(
+                `INSERT INTO identities (did, scid, public_key, owner, status) VALUES ($1, $2, $3, $4, $5)`,
+                [row.did, scid, signer.publicKeyMultibase, item.ownerDid || null, 'active']
+            );
+            const leafHash = crypto.createHash('sha256')
+                .update(JSON.stringify(log[0]))
+                .digest('hex');
+            await client.query(
+                `INSERT INTO events (did, event_type, payload, signature, leaf_hash, version_id, timestamp) 
+                 VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+                [row.did, 'create', JSON.stringify({ type: item.type, model: item.model, ...item.metadata, keyId, imported: true }), 'signed', leafHash, '1', Date.now()]
+            );
+            await recordKeyUsage(signer, row.did!, '1', 'create', client);
+        }
+
+        for (const rel of relationships) {
+            await client.query(
+                `INSERT INTO relationships (parent_did, child_did, relationship_type) VALUES ($1, $2, $3)`,
+                [rel.parent_did, rel.child_did, 'component']
+            );
+        }
+
+        for (const { scid, log } of created) {
+            written.push(scid);
+            await saveDIDLog(scid, log);
+            await witnessFileManager.initialize(scid);
+        }
+
+        await client.query('COMMIT');
+    } catch (err) {
+        await client.query('ROLLBACK').catch(() => undefined);
+        for (const scid of written) {
+            await fs.rm(path.join(STORAGE_ROOT, scid), { recursive: true, force: true }).catch(rmErr => {
+                console.error(`[Identity] Could not remove DID log ${scid} after a failed import:`, rmErr);
+            });
+        }
+        for (const { row } of created) delete row.did;
+        throw err;
+    } finally {
+        client.release();
+    }
+
+    return relationships;
+}
+
+interface ImportProgressEvent {
+    type: 'started' | 'created' | 'storing' | 'completed' | 'failed';
+    row?: number;
+    ref?: string;
+    did?: string;
+    message?: string;
+    done: number;                        // DIDs created so far
+    total: number;                       // DIDs to create
+    timestamp: string;
+}
+
+interface ImportJob {
+    id: string;
+    status: 'running' | 'completed' | 'failed';
+    startedAt: string;
+    finishedAt: string | null;
+    total: number;
+    done: number;
+    error: string | null;
+    rows: ImportRow[];
+    relationships: Array<{ parent_did: string; child_did: string }>;
+    progress: ImportProgressEvent[];
+    emitter: EventEmitter;               // emits 'progress' for streaming clients
+}
+
+// Recent import jobs, oldest first, so progress can be replayed to late subscribers
+const importJobs = new Map<string, ImportJob>();
+
+function emitImportProgress(job: ImportJob, event: Omit<ImportProgressEvent, 'done' | 'total' | 'timestamp'>): void {
+    const progress: ImportProgressEvent = { ...event, done: job.done, total: job.total, timestamp: new Date().toISOString() };
+    job.progress.push(progress);
+    job.emitter.emit('progress', progress);
+}
+
+// Helper: Public view of an import job (without the emitter)
+function serializeImportJob(job: ImportJob, includeRows = false) {
+    const summary = {
+        id: job.id,
+        status: job.status,
+        startedAt: job.startedAt,
+        finishedAt: job.finishedAt,
+        total: job.total,
+        done: job.done,
+        error: job.error
+    };
+    return includeRows ? { ...summary, rows: job.rows, relationships: job.relationships } : summary;
+}
+
+/**
+ * Run a validated import in the background, reporting each created DID
+ */
+function startImportJob(items: ImportItem[], rows: ImportRow[]): ImportJob {
+    const job: ImportJob = {
+        id: crypto.randomUUID(),
+        status: 'running',
+        startedAt: new Date().toISOString(),
+        finishedAt: null,
+        total: rows.filter(row => row.action === 'create').length,
+        done: 0,
+        error: null,
+        rows,
+        relationships: [],
+        progress: [],
+        emitter: new EventEmitter()
+    };
+
+    importJobs.set(job.id, job);
+    while (importJobs.size > MAX_TRACKED_IMPORTS) {
+        const oldest = importJobs.keys().next().value as string;
+        importJobs.delete(oldest);
+    }
+
+    emitImportProgress(job, { type: 'started' });
+    executeProductImport(items, rows, row => {
+        job.done++;
+        emitImportProgress(job, { type: 'created', row: row.row, ref: row.ref, did: row.did });
+        if (job.done === job.total) {
+            emitImportProgress(job, { type: 'storing' });
+        }
+    }).then(relationships => {
+        job.relationships = relationships;
+        job.status = 'completed';
+        job.finishedAt = new Date().toISOString();
+        console.log(`✅ Import ${job.id}: ${job.total} product(s) with ${relationships.length} relationship(s)`);
+        emitImportProgress(job, { type: 'completed' });
+    }).catch(err => {
+        console.error(`[Identity] Import ${job.id} failed:`, err);
+        job.status = 'failed';
+        job.error = err instanceof Error ? err.message : 'Unknown error';
+        job.finishedAt = new Date().toISOString();
+        emitImportProgress(job, { type: 'failed', message: job.error });
+    });
+
+    return job;
+}
+
+/**
+ * Import products from a file
+ * POST /api/products/import
+ *
+ * Body: { items: ImportItem[], dryRun?, background? }. Every item is validated
+ * against its product schema and its parent resolved (an item of the file or a
+ * registered DID). Items whose ref is a registered DID are kept as they are.
+ * With dryRun, or if any row has errors (422), nothing is created and the
+ * per-row report tells what would happen; otherwise all DIDs and relationships
+ * are created. With background, the import runs as a job (202); follow it with
+ * GET /api/products/import/:jobId or its /stream.
+ */
+app.post('/api/products/import', async (req, res) => {
+    const { items, dryRun, background } = req.body;
+
+    if (!Array.isArray(items) || items.length === 0) {
+        return res.status(400).json({ error: 'items must be a non-empty array' });
+    }
+    if (items.length > MAX_IMPORT_ITEMS) {
+        return res.status(400).json({ error: `At most ${MAX_IMPORT_ITEMS} items can be imported at once` });
+    }
+
+    try {
+        const { rows } = await planProductImport(items);
+        const invalid = rows.filter(row => row.errors.length > 0);
+        const summary = {
+            total: rows.length,
+            create: rows.filter(row => row.action === 'create').length,
+            exists: rows.filter(row => row.action === 'exists').length,
+            relationships: rows.filter(row => row.action === 'create' && row.parent).length,
+            invalid: invalid.length
+        };
+
+        if (invalid.length > 0) {
+            return res.status(422).json({ dryRun: dryRun === true, valid: false, summary, rows });
+        }
+        if (dryRun === true) {
+            return res.json({ dryRun: true, valid: true, summary, rows });
+        }
+
+        if (background === true) {
+            const job = startImportJob(items, rows);
+            return res.status(202).json({
+                dryRun: false,
+                valid: true,
+                summary,
+                rows,
+                job: { ...serializeImportJob(job), streamUrl: `/api/products/import/${job.id}/stream` }
+            });
+        }
+
+        const relationships = await executeProductImport(items, rows);
+        console.log(`✅ Imported ${summary.create} product(s) with ${relationships.length} relationship(s)`);
+
+        return res.json({ dryRun: false, valid: true, summary, rows, relationships });
+    } catch (err) {
+        console.error('[Identity] Error importing products:', err);
+        res.status(500).json({ error: err instanceof Error ? err.message : 'Unknown error' });
+    }
+});
+
+/**
+ * Import job with its rows (the DIDs created for them once it completed)
+ * GET /api/products/import/:jobId
+ */
+app.get('/api/products/import/:jobId', (req, res) => {
+    const job = importJobs.get(req.params.jobId);
+    if (!job) {
+        return res.status(404).json({ error: 'Import job not found' });
+    }
+    res.json(serializeImportJob(job, true));
+});
+
+/**
+ * Stream the progress of an import job as Server-Sent Events (earlier progress is replayed first)
+ * GET /api/products/import/:jobId/stream
+ */
+app.get('/api/products/import/:jobId/stream', (req, res) => {
+    const job = importJobs.get(req.params.jobId);
+    if (!job) {
+        return res.status(404).json({ error: 'Import job not found' });
+    }
+
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+    });
+
+    const send = (event: ImportProgressEvent) => {
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+        if (event.type === 'completed' || event.type === 'failed') {
+            res.end();
+        }
+    };
+
+    job.progress.forEach(send);
+    if (job.status !== 'running') {
+        return;
+    }
+
+    job.emitter.on('progress', send);
+    req.on('close', () => job.emitter.off('progress', send));
+});
+
 // ============================================
 // START SERVER
 // ============================================
@@ -1691,10 +4804,16 @@ app.get('/api/relationships/:did', async (req, res) => {
 });
 
 const PORT = process.env.PORT || 3000;
-app.listen(PORT, () => {
-
-    console.log(`🚀 Identity Service v2.0 running on port ${PORT}`);
-    console.log(`📍 Domain: ${DOMAIN}`);
-    console.log(`📁 Storage: ${STORAGE_ROOT}`);
-    console.log(`✅ didwebvh-ts integration enabled`);
+keyManagementService.unlockKeyStore().then(masterKeyId => {
+    app.listen(PORT, () => {
+
+        console.log(`🚀 Identity Service v2.0 running on port ${PORT}`);
+        console.log(`📍 Domain: ${DOMAIN}`);
+        console.log(`📁 Storage: ${STORAGE_ROOT}`);
+        console.log(`🔐 Key store unlocked (master key ${masterKeyId})`);
+        console.log(`✅ didwebvh-ts integration enabled`);
+    });
+}).catch(err => {
+    console.error('[Identity] Cannot unlock key store:', err instanceof Error ? err.message : err);
+    process.exit(1);
 });
@@ -5,9 +5,20 @@
  * for use with the didwebvh-ts library.
  * 
  * Security:
- * - Private keys stored encrypted at rest
+ * - Private keys stored encrypted at rest (AES-256-GCM)
+ * - The wrapping (master) key is derived from KEY_ENCRYPTION_SECRET with
+ *   scrypt and a per-store salt (KEY_STORAGE_DIR/keystore.meta); refuses to
+ *   start in production without a proper secret
+ * - rotateMasterKey re-encrypts every stored key under a new secret
  * - Keys identified by unique keyId
  * - Supports key rotation
+ * - Pluggable signer providers: keys in this store (file), in a separate
+ *   signing daemon (remote) or on a PKCS#11 token (pkcs11), selected by
+ *   the keyId prefix ("remote:", "pkcs11:"); SIGNER_PROVIDER picks where
+ *   new keys are generated
+ * - Pre-rotation: next keys are generated ahead of time and held in escrow
+ *   (KEY_STORAGE_DIR/escrow) until a rotation reveals them; only their hash
+ *   is published in the DID log (nextKeyHashes)
  */
 
 import * as ed from '@noble/ed25519';
@@ -15,6 +26,9 @@ import { sha256 } from '@noble/hashes/sha256';
 import * as crypto from 'crypto';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { computeNextKeyHash } from '../../utils/verification.js';
+import { RemoteSignerProvider } from './remoteSigner.js';
+import { Pkcs11SignerProvider } from './pkcs11Signer.js';
 
 // Configure ed25519 to use synchronous SHA-512
 import { sha512 } from '@noble/hashes/sha512';
@@ -31,38 +45,259 @@ interface StoredKeyPair {
     algorithm: 'Ed25519';
     createdAt: string;
     iv: string; // Initialization vector for encryption
+    version?: 2;          // 2: AES-256-GCM under a derived master key; absent: legacy AES-256-CBC
+    authTag?: string;     // GCM authentication tag
+    masterKeyId?: string; // Master key the private key is encrypted under
+    nextKeyHash?: string; // Pre-rotation commitment, set while/after the key was escrowed
+    releasedAt?: string;  // When a rotation took the key out of escrow
 }
 
-interface KeyPairResult {
+type EncryptedPrivateKey = Pick<StoredKeyPair, 'encryptedPrivateKey' | 'iv' | 'authTag' | 'version' | 'masterKeyId'>;
+
+export interface KeyPairResult {
     keyId: string;
     publicKey: Uint8Array;
     publicKeyMultibase: string;
 }
 
+interface EscrowedKey {
+    keyId: string;
+    publicKeyMultibase: string;
+    nextKeyHash: string;
+}
+
+/**
+ * Escrow record of a key held by an external provider (no key material)
+ */
+interface ExternalEscrowRecord extends EscrowedKey {
+    provider: Exclude<SignerProviderName, 'file'>;
+    createdAt: string;
+    releasedAt?: string;
+}
+
+/**
+ * Key store metadata: how the master key is derived from the secret,
+ * and a known value encrypted under it to detect a wrong secret
+ */
+interface KeystoreMetadata {
+    version: 2;
+    masterKeyId: string;
+    kdf: {
+        name: 'scrypt';
+        salt: string;
+        N: number;
+        r: number;
+        p: number;
+    };
+    check: {
+        iv: string;
+        authTag: string;
+        ciphertext: string;
+    };
+    createdAt: string;
+}
+
+interface MasterKey {
+    masterKeyId: string;
+    key: Buffer;
+}
+
+export interface MasterKeyRotationResult {
+    masterKeyId: string;
+    rotated: number;
+    skipped: number;
+}
+
 export interface Signer {
+    keyId: string;
     sign: (data: Uint8Array) => Promise<Uint8Array>;
     publicKey: Uint8Array;
     publicKeyMultibase: string;
     algorithm: string;
 }
 
+export type SignerProviderName = 'file' | 'remote' | 'pkcs11';
+
+/**
+ * Where a key's private half lives and how it signs
+ */
+export interface SignerProvider {
+    readonly name: SignerProviderName;
+
+    /** Generate a new Ed25519 key held by this provider */
+    generateKey(): Promise<KeyPairResult>;
+    createSigner(keyId: string): Promise<Signer | null>;
+    listKeys(): Promise<string[]>;
+    findKeyIdByPublicKey(publicKeyMultibase: string): Promise<string | null>;
+}
+
 // ============================================
 // Configuration
 // ============================================
 
 const KEY_STORAGE_DIR = process.env.KEY_STORAGE_DIR || './key-store';
-const ENCRYPTION_KEY = process.env.KEY_ENCRYPTION_SECRET || 'development-secret-key-replace-in-production-32b';
+const ESCROW_DIR = path.join(KEY_STORAGE_DIR, 'escrow');
+const KEYSTORE_METADATA_PATH = path.join(KEY_STORAGE_DIR, 'keystore.meta');
+const DEV_ENCRYPTION_SECRET = 'development-secret-key-replace-in-production-32b';
+const MIN_SECRET_LENGTH = 32;
+const KDF_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+const CHECK_PLAINTEXT = 'dpp-key-store';
 
-// Ensure encryption key is 32 bytes
-function getEncryptionKey(): Buffer {
-    const key = Buffer.from(ENCRYPTION_KEY);
+/**
+ * Check a master secret; in production the development default and
+ * short secrets are refused
+ */
+function validateSecret(secret: string | undefined, production: boolean): string | null {
+    if (!secret) {
+        return production ? 'KEY_ENCRYPTION_SECRET must be set in production' : null;
+    }
+    if (secret === DEV_ENCRYPTION_SECRET && production) {
+        return 'KEY_ENCRYPTION_SECRET must not be the development default in production';
+    }
+    if (secret.length < MIN_SECRET_LENGTH && production) {
+        return `KEY_ENCRYPTION_SECRET must be at least ${MIN_SECRET_LENGTH} characters in production`;
+    }
+    return null;
+}
+
+function resolveEncryptionSecret(): string {
+    const secret = process.env.KEY_ENCRYPTION_SECRET;
+    const problem = validateSecret(secret, process.env.NODE_ENV === 'production');
+    if (problem) {
+        // Refuse to start rather than encrypt keys under a guessable secret
+        throw new Error(`[KeyManagement] ${problem}`);
+    }
+    if (!secret) {
+        console.warn('[KeyManagement] KEY_ENCRYPTION_SECRET not set, using the development secret');
+    } else if (secret.length < MIN_SECRET_LENGTH) {
+        console.warn(`[KeyManagement] KEY_ENCRYPTION_SECRET is shorter than ${MIN_SECRET_LENGTH} characters`);
+    }
+    return secret || DEV_ENCRYPTION_SECRET;
+}
+
+let encryptionSecret = resolveEncryptionSecret();
+
+/**
+ * Key of legacy (unversioned) records: the secret padded with SHA256 or cut to 32 bytes
+ */
+function getLegacyEncryptionKey(): Buffer {
+    const key = Buffer.from(encryptionSecret);
     if (key.length < 32) {
-        // Pad to 32 bytes with SHA256
         return Buffer.from(sha256(key));
     }
     return key.slice(0, 32);
 }
 
+// ============================================
+// Master Key
+// ============================================
+
+function deriveKey(secret: string, kdf: KeystoreMetadata['kdf']): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        crypto.scrypt(
+            secret,
+            Buffer.from(kdf.salt, 'base64'),
+            32,
+            { N: kdf.N, r: kdf.r, p: kdf.p, maxmem: 256 * kdf.N * kdf.r },
+            (error, key) => error ? reject(error) : resolve(key)
+        );
+    });
+}
+
+function gcmEncrypt(key: Buffer, plaintext: Buffer): { ciphertext: string; iv: string; authTag: string } {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return {
+        ciphertext: ciphertext.toString('base64'),
+        iv: iv.toString('base64'),
+        authTag: cipher.getAuthTag().toString('base64')
+    };
+}
+
+function gcmDecrypt(key: Buffer, ciphertext: string, iv: string, authTag: string): Buffer {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]);
+}
+
+/**
+ * Derive a new master key (fresh salt) from a secret, with its metadata
+ */
+async function createMasterKey(secret: string): Promise<{ metadata: KeystoreMetadata; masterKey: MasterKey }> {
+    const kdf = { name: 'scrypt' as const, salt: crypto.randomBytes(16).toString('base64'), ...KDF_PARAMS };
+    const key = await deriveKey(secret, kdf);
+    const masterKeyId = 'mk-' + crypto.randomBytes(8).toString('hex');
+    const { ciphertext, iv, authTag } = gcmEncrypt(key, Buffer.from(CHECK_PLAINTEXT));
+
+    return {
+        metadata: { version: 2, masterKeyId, kdf, check: { iv, authTag, ciphertext }, createdAt: new Date().toISOString() },
+        masterKey: { masterKeyId, key }
+    };
+}
+
+/**
+ * Derive the master key described by metadata; null if the secret does not match
+ */
+async function unlockMasterKey(secret: string, metadata: KeystoreMetadata): Promise<MasterKey | null> {
+    const key = await deriveKey(secret, metadata.kdf);
+    try {
+        const check = gcmDecrypt(key, metadata.check.ciphertext, metadata.check.iv, metadata.check.authTag);
+        if (check.toString() !== CHECK_PLAINTEXT) return null;
+    } catch {
+        return null;
+    }
+    return { masterKeyId: metadata.masterKeyId, key };
+}
+
+async function readMetadata(file: string): Promise<KeystoreMetadata | null> {
+    try {
+        return JSON.parse(await fs.readFile(file, 'utf-8'));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+    }
+}
+
+/**
+ * Helper: Write a file atomically (temp file + rename), so a crash never leaves it half-written
+ */
+async function writeFileAtomic(file: string, data: string): Promise<void> {
+    const tmp = `${file}.tmp`;
+    await fs.writeFile(tmp, data);
+    await fs.rename(tmp, file);
+}
+
+let masterKeyPromise: Promise<MasterKey> | null = null;
+
+/**
+ * The current master key, derived once per process.
+ * A new key store gets its salt on first use; an existing one must unlock
+ * with KEY_ENCRYPTION_SECRET.
+ */
+function getMasterKey(): Promise<MasterKey> {
+    if (!masterKeyPromise) {
+        masterKeyPromise = (async () => {
+            const metadata = await readMetadata(KEYSTORE_METADATA_PATH);
+            if (!metadata) {
+                const created = await createMasterKey(encryptionSecret);
+                await ensureStorageDir();
+                await writeFileAtomic(KEYSTORE_METADATA_PATH, JSON.stringify(created.metadata, null, 2));
+                console.log(`[KeyManagement] Initialized key store master key: ${created.masterKey.masterKeyId}`);
+                return created.masterKey;
+            }
+
+            const masterKey = await unlockMasterKey(encryptionSecret, metadata);
+            if (!masterKey) {
+                throw new Error('[KeyManagement] KEY_ENCRYPTION_SECRET does not unlock the key store');
+            }
+            return masterKey;
+        })();
+        masterKeyPromise.catch(() => { masterKeyPromise = null; });
+    }
+    return masterKeyPromise;
+}
+
 // ============================================
 // Key Storage Functions
 // ============================================
@@ -70,51 +305,61 @@ function getEncryptionKey(): Buffer {
 /**
  * Initialize the key storage directory
  */
-async function ensureStorageDir(): Promise<void> {
+async function ensureStorageDir(dir: string = KEY_STORAGE_DIR): Promise<void> {
     try {
-        await fs.mkdir(KEY_STORAGE_DIR, { recursive: true });
+        await fs.mkdir(dir, { recursive: true });
     } catch (error) {
         // Directory might already exist
     }
 }
 
 /**
- * Encrypt private key for storage
+ * Encrypt private key for storage under the current master key
  */
-function encryptPrivateKey(privateKey: Uint8Array): { encrypted: string; iv: string } {
-    const iv = crypto.randomBytes(16);
-    const cipher = crypto.createCipheriv('aes-256-cbc', getEncryptionKey(), iv);
-    const encrypted = Buffer.concat([
-        cipher.update(Buffer.from(privateKey)),
-        cipher.final()
-    ]);
+async function encryptPrivateKey(privateKey: Uint8Array): Promise<EncryptedPrivateKey> {
+    return encryptWithMasterKey(await getMasterKey(), privateKey);
+}
+
+function encryptWithMasterKey(masterKey: MasterKey, privateKey: Uint8Array): EncryptedPrivateKey {
+    const { ciphertext, iv, authTag } = gcmEncrypt(masterKey.key, Buffer.from(privateKey));
     return {
-        encrypted: encrypted.toString('base64'),
-        iv: iv.toString('base64')
+        encryptedPrivateKey: ciphertext,
+        iv,
+        authTag,
+        version: 2,
+        masterKeyId: masterKey.masterKeyId
     };
 }
 
 /**
- * Decrypt private key from storage
+ * Decrypt private key from storage (legacy CBC records use the padded secret)
  */
-function decryptPrivateKey(encrypted: string, iv: string): Uint8Array {
-    const decipher = crypto.createDecipheriv(
-        'aes-256-cbc',
-        getEncryptionKey(),
-        Buffer.from(iv, 'base64')
-    );
-    const decrypted = Buffer.concat([
-        decipher.update(Buffer.from(encrypted, 'base64')),
-        decipher.final()
-    ]);
-    return new Uint8Array(decrypted);
+async function decryptPrivateKey(stored: StoredKeyPair): Promise<Uint8Array> {
+    if (stored.version !== 2) {
+        const decipher = crypto.createDecipheriv(
+            'aes-256-cbc',
+            getLegacyEncryptionKey(),
+            Buffer.from(stored.iv, 'base64')
+        );
+        const decrypted = Buffer.concat([
+            decipher.update(Buffer.from(stored.encryptedPrivateKey, 'base64')),
+            decipher.final()
+        ]);
+        return new Uint8Array(decrypted);
+    }
+
+    const masterKey = await getMasterKey();
+    if (stored.masterKeyId !== masterKey.masterKeyId) {
+        throw new Error(`Key ${stored.keyId} is encrypted under master key ${stored.masterKeyId}, not ${masterKey.masterKeyId}`);
+    }
+    return new Uint8Array(gcmDecrypt(masterKey.key, stored.encryptedPrivateKey, stored.iv, stored.authTag || ''));
 }
 
 /**
  * Convert public key to multibase format (z-base58btc for Ed25519)
  * Using simplified z + base64url encoding
  */
-function toMultibase(publicKey: Uint8Array): string {
+export function toMultibase(publicKey: Uint8Array): string {
     // Multicodec prefix for Ed25519 public key: 0xed01
     const multicodecPrefix = new Uint8Array([0xed, 0x01]);
     const prefixedKey = new Uint8Array(multicodecPrefix.length + publicKey.length);
@@ -131,10 +376,35 @@ function toMultibase(publicKey: Uint8Array): string {
 
 /**
  * Generate a new Ed25519 keypair and store it securely
+ * (with the configured signer provider unless one is given)
+ */
+export async function generateKeyPair(provider: SignerProviderName = getConfiguredProviderName()): Promise<KeyPairResult> {
+    return getSignerProvider(provider).generateKey();
+}
+
+/**
+ * Helper: Generate a keypair in this key store (file provider)
  */
-export async function generateKeyPair(): Promise<KeyPairResult> {
+async function generateFileKeyPair(): Promise<KeyPairResult> {
+    const { stored, publicKey } = await createStoredKey();
+
+    const keyPath = path.join(KEY_STORAGE_DIR, `${stored.keyId}.json`);
     await ensureStorageDir();
+    await fs.writeFile(keyPath, JSON.stringify(stored, null, 2));
 
+    console.log(`[KeyManagement] Generated new keypair: ${stored.keyId}`);
+
+    return {
+        keyId: stored.keyId,
+        publicKey,
+        publicKeyMultibase: stored.publicKeyMultibase
+    };
+}
+
+/**
+ * Helper: Generate an Ed25519 keypair with its encrypted storage record
+ */
+async function createStoredKey(): Promise<{ stored: StoredKeyPair; publicKey: Uint8Array }> {
     // Generate Ed25519 keypair
     const privateKey = ed.utils.randomPrivateKey();
     const publicKey = await ed.getPublicKeyAsync(privateKey);
@@ -143,33 +413,148 @@ export async function generateKeyPair(): Promise<KeyPairResult> {
     const keyId = 'key-' + crypto.randomBytes(8).toString('hex') + '-' + Date.now().toString(36);
 
     // Encrypt private key for storage
-    const { encrypted, iv } = encryptPrivateKey(privateKey);
+    const encrypted = await encryptPrivateKey(privateKey);
 
     // Create multibase public key
     const publicKeyMultibase = toMultibase(publicKey);
 
     // Store key
-    const storedKey: StoredKeyPair = {
+    const stored: StoredKeyPair = {
         keyId,
         publicKeyMultibase,
-        encryptedPrivateKey: encrypted,
         algorithm: 'Ed25519',
         createdAt: new Date().toISOString(),
-        iv
+        ...encrypted
     };
 
-    const keyPath = path.join(KEY_STORAGE_DIR, `${keyId}.json`);
-    await fs.writeFile(keyPath, JSON.stringify(storedKey, null, 2));
+    return { stored, publicKey };
+}
+
+// ============================================
+// Pre-rotation (nextKeyHashes)
+// ============================================
+
+/**
+ * Escrow file of a key (provider prefixes use ':', which not every filesystem allows)
+ */
+function escrowPath(keyId: string): string {
+    return path.join(ESCROW_DIR, `${keyId.replace(/:/g, '_')}.json`);
+}
+
+/**
+ * Generate the next key of a DID and hold it in escrow.
+ * The returned nextKeyHash is what goes into the log's nextKeyHashes.
+ * Keys of external providers are generated there; the escrow then only
+ * records their public key and hash.
+ */
+export async function escrowNextKey(provider: SignerProviderName = getConfiguredProviderName()): Promise<KeyPairResult & { nextKeyHash: string }> {
+    await ensureStorageDir(ESCROW_DIR);
+
+    if (provider !== 'file') {
+        const key = await getSignerProvider(provider).generateKey();
+        const record: ExternalEscrowRecord = {
+            keyId: key.keyId,
+            publicKeyMultibase: key.publicKeyMultibase,
+            nextKeyHash: computeNextKeyHash(key.publicKeyMultibase),
+            provider,
+            createdAt: new Date().toISOString()
+        };
+        await fs.writeFile(escrowPath(key.keyId), JSON.stringify(record, null, 2));
+
+        console.log(`[KeyManagement] Escrowed pre-rotation key (${provider}): ${key.keyId}`);
+
+        return { ...key, nextKeyHash: record.nextKeyHash };
+    }
+
+    const { stored, publicKey } = await createStoredKey();
+    stored.nextKeyHash = computeNextKeyHash(stored.publicKeyMultibase);
+
+    await fs.writeFile(escrowPath(stored.keyId), JSON.stringify(stored, null, 2));
 
-    console.log(`[KeyManagement] Generated new keypair: ${keyId}`);
+    console.log(`[KeyManagement] Escrowed pre-rotation key: ${stored.keyId}`);
 
     return {
-        keyId,
+        keyId: stored.keyId,
         publicKey,
-        publicKeyMultibase
+        publicKeyMultibase: stored.publicKeyMultibase,
+        nextKeyHash: stored.nextKeyHash
     };
 }
 
+/**
+ * Look up an escrowed key by ID (public data only)
+ */
+export async function getEscrowedKey(keyId: string): Promise<EscrowedKey | null> {
+    try {
+        const stored: StoredKeyPair | ExternalEscrowRecord = JSON.parse(await fs.readFile(escrowPath(keyId), 'utf-8'));
+        return { keyId: stored.keyId, publicKeyMultibase: stored.publicKeyMultibase, nextKeyHash: stored.nextKeyHash || '' };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Find the escrowed key committed to by one of the given nextKeyHashes
+ */
+export async function findEscrowedKey(nextKeyHashes: string[]): Promise<EscrowedKey | null> {
+    try {
+        const files = await fs.readdir(ESCROW_DIR);
+        for (const file of files.filter(f => f.endsWith('.json'))) {
+            const stored: StoredKeyPair | ExternalEscrowRecord = JSON.parse(await fs.readFile(path.join(ESCROW_DIR, file), 'utf-8'));
+            if (stored.nextKeyHash && nextKeyHashes.includes(stored.nextKeyHash)) {
+                return { keyId: stored.keyId, publicKeyMultibase: stored.publicKeyMultibase, nextKeyHash: stored.nextKeyHash };
+            }
+        }
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            console.error('[KeyManagement] Error searching key escrow:', error);
+        }
+    }
+    return null;
+}
+
+/**
+ * Take a key out of escrow once a rotation revealed it, so it can sign
+ */
+export async function releaseEscrowedKey(keyId: string): Promise<KeyPairResult | null> {
+    const recordPath = escrowPath(keyId);
+
+    try {
+        const record: StoredKeyPair | ExternalEscrowRecord = JSON.parse(await fs.readFile(recordPath, 'utf-8'));
+
+        // External keys already sign through their provider; only the escrow record goes
+        if ('provider' in record) {
+            const signer = await getSignerProvider(record.provider).createSigner(keyId);
+            if (!signer) {
+                throw new Error(`Key ${keyId} is no longer held by the ${record.provider} provider`);
+            }
+            await fs.unlink(recordPath);
+
+            console.log(`[KeyManagement] Released pre-rotation key from escrow (${record.provider}): ${keyId}`);
+
+            return { keyId, publicKey: signer.publicKey, publicKeyMultibase: signer.publicKeyMultibase };
+        }
+
+        const stored: StoredKeyPair = { ...record, releasedAt: new Date().toISOString() };
+
+        await ensureStorageDir();
+        await fs.writeFile(path.join(KEY_STORAGE_DIR, `${keyId}.json`), JSON.stringify(stored, null, 2));
+        await fs.unlink(recordPath);
+
+        console.log(`[KeyManagement] Released pre-rotation key from escrow: ${keyId}`);
+
+        const privateKey = await decryptPrivateKey(stored);
+        return {
+            keyId,
+            publicKey: await ed.getPublicKeyAsync(privateKey),
+            publicKeyMultibase: stored.publicKeyMultibase
+        };
+    } catch (error) {
+        console.error(`[KeyManagement] Failed to release escrowed key ${keyId}:`, error);
+        return null;
+    }
+}
+
 /**
  * Load a stored keypair by ID
  */
@@ -184,7 +569,7 @@ export async function loadKeyPair(keyId: string): Promise<{
         const data = await fs.readFile(keyPath, 'utf-8');
         const stored: StoredKeyPair = JSON.parse(data);
 
-        const privateKey = decryptPrivateKey(stored.encryptedPrivateKey, stored.iv);
+        const privateKey = await decryptPrivateKey(stored);
         const publicKey = await ed.getPublicKeyAsync(privateKey);
 
         return {
@@ -202,12 +587,26 @@ export async function loadKeyPair(keyId: string): Promise<{
  * Create a signer for use with didwebvh-ts
  * 
  * The signer provides:
+ * - keyId: The key store ID (recorded in the key usage audit trail)
  * - sign(data): Signs data with the private key
  * - publicKey: The public key as Uint8Array
  * - publicKeyMultibase: The public key in multibase format
  * - algorithm: The algorithm identifier
  */
 export async function createSigner(keyId: string): Promise<Signer | null> {
+    const provider = providerNameForKeyId(keyId);
+    try {
+        return await getSignerProvider(provider).createSigner(keyId);
+    } catch (error) {
+        console.error(`[KeyManagement] Cannot create ${provider} signer for ${keyId}:`, error);
+        return null;
+    }
+}
+
+/**
+ * Helper: Signer over a key of this key store (file provider)
+ */
+async function createFileSigner(keyId: string): Promise<Signer | null> {
     const keyPair = await loadKeyPair(keyId);
 
     if (!keyPair) {
@@ -218,6 +617,7 @@ export async function createSigner(keyId: string): Promise<Signer | null> {
     const { privateKey, publicKey, publicKeyMultibase } = keyPair;
 
     return {
+        keyId,
         sign: async (data: Uint8Array): Promise<Uint8Array> => {
             const signature = await ed.signAsync(data, privateKey);
             return signature;
@@ -229,9 +629,24 @@ export async function createSigner(keyId: string): Promise<Signer | null> {
 }
 
 /**
- * List all stored key IDs
+ * List the key IDs of all configured signer providers
  */
 export async function listKeys(): Promise<string[]> {
+    const keyIds: string[] = [];
+    for (const provider of getConfiguredProviders()) {
+        try {
+            keyIds.push(...await provider.listKeys());
+        } catch (error) {
+            console.error(`[KeyManagement] Cannot list keys of the ${provider.name} provider:`, error);
+        }
+    }
+    return keyIds;
+}
+
+/**
+ * Helper: List the key IDs stored in this key store (file provider)
+ */
+async function listFileKeys(): Promise<string[]> {
     await ensureStorageDir();
 
     try {
@@ -260,11 +675,26 @@ export async function deleteKey(keyId: string): Promise<boolean> {
 }
 
 /**
- * Find a key ID by its public key multibase
+ * Find a key ID by its public key multibase, in any configured signer provider
  */
 export async function findKeyIdByPublicKey(publicKeyMultibase: string): Promise<string | null> {
+    for (const provider of getConfiguredProviders()) {
+        try {
+            const keyId = await provider.findKeyIdByPublicKey(publicKeyMultibase);
+            if (keyId) return keyId;
+        } catch (error) {
+            console.error(`[KeyManagement] Error finding key in the ${provider.name} provider:`, error);
+        }
+    }
+    return null;
+}
+
+/**
+ * Helper: Find a key of this key store (file provider) by its public key multibase
+ */
+async function findFileKeyIdByPublicKey(publicKeyMultibase: string): Promise<string | null> {
     try {
-        const keys = await listKeys();
+        const keys = await listFileKeys();
         for (const keyId of keys) {
             const keyPath = path.join(KEY_STORAGE_DIR, `${keyId}.json`);
             const data = await fs.readFile(keyPath, 'utf-8');
@@ -279,6 +709,167 @@ export async function findKeyIdByPublicKey(publicKeyMultibase: string): Promise<
     return null;
 }
 
+// ============================================
+// Signer Providers
+// ============================================
+
+const PROVIDER_NAMES: SignerProviderName[] = ['file', 'remote', 'pkcs11'];
+const providers = new Map<SignerProviderName, SignerProvider>();
+
+/**
+ * Keys of this key store, encrypted under the master key
+ */
+export const fileSignerProvider: SignerProvider = {
+    name: 'file',
+    generateKey: generateFileKeyPair,
+    createSigner: createFileSigner,
+    listKeys: listFileKeys,
+    findKeyIdByPublicKey: findFileKeyIdByPublicKey
+};
+
+export function isSignerProviderName(name: unknown): name is SignerProviderName {
+    return PROVIDER_NAMES.includes(name as SignerProviderName);
+}
+
+/**
+ * Provider that generates new keys, from SIGNER_PROVIDER (defaults to file)
+ */
+export function getConfiguredProviderName(): SignerProviderName {
+    const name = process.env.SIGNER_PROVIDER || 'file';
+    if (!isSignerProviderName(name)) {
+        throw new Error(`Unknown SIGNER_PROVIDER "${name}" (expected ${PROVIDER_NAMES.join(', ')})`);
+    }
+    return name;
+}
+
+/**
+ * Provider holding a key, from its keyId prefix ("remote:...", "pkcs11:...")
+ */
+export function providerNameForKeyId(keyId: string): SignerProviderName {
+    const prefix = keyId.split(':')[0];
+    return prefix === 'remote' || prefix === 'pkcs11' ? prefix : 'file';
+}
+
+/**
+ * Get (and cache) a provider instance configured from the environment
+ */
+export function getSignerProvider(name: SignerProviderName = getConfiguredProviderName()): SignerProvider {
+    let provider = providers.get(name);
+    if (!provider) {
+        switch (name) {
+            case 'remote':
+                provider = RemoteSignerProvider.fromEnv();
+                break;
+            case 'pkcs11':
+                provider = Pkcs11SignerProvider.fromEnv();
+                break;
+            default:
+                provider = fileSignerProvider;
+        }
+        providers.set(name, provider);
+    }
+    return provider;
+}
+
+/**
+ * Providers to search for existing keys: this key store, the one new keys
+ * are generated with, and any other provider with configuration present
+ */
+function getConfiguredProviders(): SignerProvider[] {
+    const configured = getConfiguredProviderName();
+    return PROVIDER_NAMES
+        .filter(name =>
+            name === 'file' ||
+            name === configured ||
+            (name === 'remote' && RemoteSignerProvider.isConfigured()) ||
+            (name === 'pkcs11' && Pkcs11SignerProvider.isConfigured()))
+        .map(name => getSignerProvider(name));
+}
+
+/**
+ * Unlock the key store up front, so a wrong secret stops a service at startup
+ */
+export async function unlockKeyStore(): Promise<string> {
+    return (await getMasterKey()).masterKeyId;
+}
+
+// ============================================
+// Master Key Rotation
+// ============================================
+
+/**
+ * Re-encrypt every stored and escrowed key under a master key derived from
+ * newSecret, then switch the key store over to it.
+ *
+ * Each record is rewritten atomically and tagged with the new masterKeyId,
+ * and the pending master key is kept in keystore.meta.next until all records
+ * are done, so an interrupted rotation can be rerun with the same secrets.
+ */
+export async function rotateMasterKey(newSecret: string): Promise<MasterKeyRotationResult> {
+    if (validateSecret(newSecret, true)) {
+        throw new Error(`New master secret must be at least ${MIN_SECRET_LENGTH} characters and not the development default`);
+    }
+    if (newSecret === encryptionSecret) {
+        throw new Error('New master secret must differ from the current one');
+    }
+
+    // Unlocks (or initializes) the current key store first
+    const currentKey = await getMasterKey();
+
+    const pendingPath = `${KEYSTORE_METADATA_PATH}.next`;
+    const pendingMetadata = await readMetadata(pendingPath);
+    let next = pendingMetadata ? await unlockMasterKey(newSecret, pendingMetadata) : null;
+    let nextMetadata = pendingMetadata;
+    if (!next || !nextMetadata) {
+        const created = await createMasterKey(newSecret);
+        next = created.masterKey;
+        nextMetadata = created.metadata;
+        await writeFileAtomic(pendingPath, JSON.stringify(nextMetadata, null, 2));
+    }
+
+    let rotated = 0;
+    let skipped = 0;
+
+    for (const dir of [KEY_STORAGE_DIR, ESCROW_DIR]) {
+        let files: string[] = [];
+        try {
+            files = (await fs.readdir(dir)).filter(f => f.endsWith('.json'));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+        }
+
+        for (const file of files) {
+            const keyPath = path.join(dir, file);
+            const stored: StoredKeyPair | ExternalEscrowRecord = JSON.parse(await fs.readFile(keyPath, 'utf-8'));
+
+            // Escrowed keys of external providers hold no key material
+            if ('provider' in stored) continue;
+
+            // Already moved by an earlier, interrupted run
+            if (stored.version === 2 && stored.masterKeyId === next.masterKeyId) {
+                skipped++;
+                continue;
+            }
+            if (stored.version === 2 && stored.masterKeyId !== currentKey.masterKeyId) {
+                throw new Error(`Key ${stored.keyId} is encrypted under unknown master key ${stored.masterKeyId}`);
+            }
+
+            const privateKey = await decryptPrivateKey(stored);
+            const rewrapped: StoredKeyPair = { ...stored, ...encryptWithMasterKey(next, privateKey) };
+            await writeFileAtomic(keyPath, JSON.stringify(rewrapped, null, 2));
+            rotated++;
+        }
+    }
+
+    await fs.rename(pendingPath, KEYSTORE_METADATA_PATH);
+    encryptionSecret = newSecret;
+    masterKeyPromise = Promise.resolve(next);
+
+    console.log(`[KeyManagement] Rotated master key ${currentKey.masterKeyId} -> ${next.masterKeyId} (${rotated} keys re-encrypted, ${skipped} already done)`);
+
+    return { masterKeyId: next.masterKeyId, rotated, skipped };
+}
+
 /**
  * Verify a signature
  */
@@ -307,7 +898,15 @@ export const keyManagementService = {
     deleteKey,
     findKeyIdByPublicKey,
     verifySignature,
-    toMultibase
+    toMultibase,
+    escrowNextKey,
+    getEscrowedKey,
+    findEscrowedKey,
+    releaseEscrowedKey,
+    getSignerProvider,
+    providerNameForKeyId,
+    unlockKeyStore,
+    rotateMasterKey
 };
 
 export default keyManagementService;
@@ -0,0 +1,289 @@
+/**
+ * PKCS#11 Signer Provider
+ *
+ * Keeps DID keys as non-extractable objects on a PKCS#11 token and signs
+ * through a logged-in user session (CKM_EDDSA), so private keys never reach
+ * the services:
+ * - Pkcs11Module is the part of a PKCS#11 module the provider uses
+ *   (C_OpenSession + C_Login, C_GenerateKeyPair, C_FindObjects, C_Sign)
+ * - SoftHsmModule is a software token in a directory (PKCS11_TOKEN_DIR) for
+ *   development and tests without an HSM: objects are wrapped under a key
+ *   derived from the user PIN and only ever leave it as signatures
+ *
+ * Configured with PKCS11_PIN, PKCS11_TOKEN_LABEL (default dpp) and
+ * PKCS11_MODULE (only the bundled softhsm token for now).
+ * Key ids are "pkcs11:<object label>".
+ */
+
+import * as ed from '@noble/ed25519';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { toMultibase, type KeyPairResult, type Signer, type SignerProvider, type SignerProviderName } from './index.js';
+
+// ============================================
+// Types
+// ============================================
+
+export interface Pkcs11KeyObject {
+    label: string;          // CKA_LABEL
+    publicKey: Uint8Array;  // CKA_EC_POINT of the Ed25519 public key
+}
+
+export interface Pkcs11Session {
+    /** C_GenerateKeyPair (CKM_EC_EDWARDS_KEY_PAIR_GEN, private key CKA_EXTRACTABLE=false) */
+    generateKeyPair(label: string): Promise<Pkcs11KeyObject>;
+    /** C_FindObjects over public keys, optionally by CKA_LABEL */
+    findKeys(label?: string): Promise<Pkcs11KeyObject[]>;
+    /** C_Sign with CKM_EDDSA */
+    sign(label: string, data: Uint8Array): Promise<Uint8Array>;
+}
+
+export interface Pkcs11Module {
+    /** C_OpenSession on the token with this label, then C_Login as user */
+    openSession(tokenLabel: string, pin: string): Promise<Pkcs11Session>;
+}
+
+interface WrappedValue {
+    iv: string;
+    authTag: string;
+    ciphertext: string;
+}
+
+interface SoftTokenObject {
+    label: string;
+    publicKey: string;
+    privateKey: WrappedValue;
+    createdAt: string;
+}
+
+interface SoftToken {
+    label: string;
+    kdf: { salt: string; N: number; r: number; p: number };
+    pinCheck: WrappedValue;
+    objects: SoftTokenObject[];
+}
+
+const KEY_ID_PREFIX = 'pkcs11:';
+const PIN_CHECK = 'dpp-soft-token';
+
+// ============================================
+// Soft Token
+// ============================================
+
+function wrap(key: Buffer, plaintext: Buffer): WrappedValue {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return {
+        iv: iv.toString('base64'),
+        authTag: cipher.getAuthTag().toString('base64'),
+        ciphertext: ciphertext.toString('base64')
+    };
+}
+
+function unwrap(key: Buffer, value: WrappedValue): Buffer {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(value.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(value.authTag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(value.ciphertext, 'base64')), decipher.final()]);
+}
+
+function derivePinKey(pin: string, kdf: SoftToken['kdf']): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        crypto.scrypt(
+            pin,
+            Buffer.from(kdf.salt, 'base64'),
+            32,
+            { N: kdf.N, r: kdf.r, p: kdf.p, maxmem: 256 * kdf.N * kdf.r },
+            (error, key) => error ? reject(error) : resolve(key)
+        );
+    });
+}
+
+/**
+ * Software PKCS#11 token: one JSON file per token label in a directory.
+ * The token is initialized with the PIN of its first session (C_InitToken).
+ */
+export class SoftHsmModule implements Pkcs11Module {
+    // Serializes writes to a token file
+    private writeQueue: Promise<unknown> = Promise.resolve();
+
+    constructor(private readonly tokenDir: string) { }
+
+    public static fromEnv(): SoftHsmModule {
+        return new SoftHsmModule(process.env.PKCS11_TOKEN_DIR || './pkcs11-token');
+    }
+
+    public async openSession(tokenLabel: string, pin: string): Promise<Pkcs11Session> {
+        const tokenPath = path.join(this.tokenDir, `${tokenLabel}.token.json`);
+        let token = await this.readToken(tokenPath);
+
+        if (!token) {
+            const kdf = { salt: crypto.randomBytes(16).toString('base64'), N: 2 ** 14, r: 8, p: 1 };
+            const pinKey = await derivePinKey(pin, kdf);
+            token = { label: tokenLabel, kdf, pinCheck: wrap(pinKey, Buffer.from(PIN_CHECK)), objects: [] };
+            await fs.mkdir(this.tokenDir, { recursive: true });
+            await this.writeToken(tokenPath, token);
+            console.log(`[KeyManagement] Initialized soft PKCS#11 token: ${tokenLabel}`);
+        }
+
+        const pinKey = await derivePinKey(pin, token.kdf);
+        try {
+            if (unwrap(pinKey, token.pinCheck).toString() !== PIN_CHECK) throw new Error();
+        } catch {
+            throw new Error(`CKR_PIN_INCORRECT: cannot log in to token ${tokenLabel}`);
+        }
+
+        const toObject = (o: SoftTokenObject): Pkcs11KeyObject =>
+            ({ label: o.label, publicKey: new Uint8Array(Buffer.from(o.publicKey, 'base64')) });
+
+        return {
+            generateKeyPair: async (label: string) => {
+                const current = await this.readToken(tokenPath);
+                if (current?.objects.some(o => o.label === label)) {
+                    throw new Error(`CKR_ATTRIBUTE_VALUE_INVALID: object ${label} already exists`);
+                }
+
+                const privateKey = ed.utils.randomPrivateKey();
+                const publicKey = await ed.getPublicKeyAsync(privateKey);
+                const object: SoftTokenObject = {
+                    label,
+                    publicKey: Buffer.from(publicKey).toString('base64'),
+                    privateKey: wrap(pinKey, Buffer.from(privateKey)),
+                    createdAt: new Date().toISOString()
+                };
+                privateKey.fill(0);
+
+                await this.updateToken(tokenPath, t => { t.objects.push(object); });
+                return toObject(object);
+            },
+
+            findKeys: async (label?: string) => {
+                const current = await this.readToken(tokenPath);
+                return (current?.objects || [])
+                    .filter(o => label === undefined || o.label === label)
+                    .map(toObject);
+            },
+
+            sign: async (label: string, data: Uint8Array) => {
+                const current = await this.readToken(tokenPath);
+                const object = current?.objects.find(o => o.label === label);
+                if (!object) {
+                    throw new Error(`CKR_KEY_HANDLE_INVALID: no key ${label} on token ${tokenLabel}`);
+                }
+                const privateKey = new Uint8Array(unwrap(pinKey, object.privateKey));
+                try {
+                    return await ed.signAsync(data, privateKey);
+                } finally {
+                    privateKey.fill(0);
+                }
+            }
+        };
+    }
+
+    private async readToken(tokenPath: string): Promise<SoftToken | null> {
+        try {
+            return JSON.parse(await fs.readFile(tokenPath, 'utf-8'));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+            throw error;
+        }
+    }
+
+    private async writeToken(tokenPath: string, token: SoftToken): Promise<void> {
+        await fs.writeFile(`${tokenPath}.tmp`, JSON.stringify(token, null, 2));
+        await fs.rename(`${tokenPath}.tmp`, tokenPath);
+    }
+
+    private updateToken(tokenPath: string, update: (token: SoftToken) => void): Promise<void> {
+        const next = this.writeQueue.then(async () => {
+            const token = await this.readToken(tokenPath);
+            if (!token) throw new Error('CKR_TOKEN_NOT_PRESENT');
+            update(token);
+            await this.writeToken(tokenPath, token);
+        });
+        this.writeQueue = next.catch(() => undefined);
+        return next;
+    }
+}
+
+// ============================================
+// Provider
+// ============================================
+
+export class Pkcs11SignerProvider implements SignerProvider {
+    public readonly name: SignerProviderName = 'pkcs11';
+    private session: Promise<Pkcs11Session> | null = null;
+
+    constructor(
+        private readonly module: Pkcs11Module,
+        private readonly tokenLabel: string,
+        private readonly pin: string
+    ) { }
+
+    public static isConfigured(): boolean {
+        return Boolean(process.env.PKCS11_PIN);
+    }
+
+    public static fromEnv(): Pkcs11SignerProvider {
+        const pin = process.env.PKCS11_PIN;
+        if (!pin) {
+            throw new Error('PKCS#11 signer requires PKCS11_PIN');
+        }
+        const moduleName = process.env.PKCS11_MODULE || 'softhsm';
+        if (moduleName !== 'softhsm') {
+            throw new Error(`PKCS11_MODULE "${moduleName}" is not available (only the bundled softhsm token is)`);
+        }
+        return new Pkcs11SignerProvider(SoftHsmModule.fromEnv(), process.env.PKCS11_TOKEN_LABEL || 'dpp', pin);
+    }
+
+    public async generateKey(): Promise<KeyPairResult> {
+        const label = 'key-' + crypto.randomBytes(8).toString('hex') + '-' + Date.now().toString(36);
+        const object = await (await this.getSession()).generateKeyPair(label);
+
+        console.log(`[KeyManagement] Generated PKCS#11 keypair: ${label}`);
+
+        return {
+            keyId: `${KEY_ID_PREFIX}${label}`,
+            publicKey: object.publicKey,
+            publicKeyMultibase: toMultibase(object.publicKey)
+        };
+    }
+
+    public async createSigner(keyId: string): Promise<Signer | null> {
+        const label = keyId.startsWith(KEY_ID_PREFIX) ? keyId.slice(KEY_ID_PREFIX.length) : keyId;
+        const session = await this.getSession();
+        const [object] = await session.findKeys(label);
+        if (!object) {
+            return null;
+        }
+
+        return {
+            keyId: `${KEY_ID_PREFIX}${label}`,
+            sign: (data: Uint8Array) => session.sign(label, data),
+            publicKey: object.publicKey,
+            publicKeyMultibase: toMultibase(object.publicKey),
+            algorithm: 'Ed25519'
+        };
+    }
+
+    public async listKeys(): Promise<string[]> {
+        const objects = await (await this.getSession()).findKeys();
+        return objects.map(o => `${KEY_ID_PREFIX}${o.label}`);
+    }
+
+    public async findKeyIdByPublicKey(publicKeyMultibase: string): Promise<string | null> {
+        const objects = await (await this.getSession()).findKeys();
+        const object = objects.find(o => toMultibase(o.publicKey) === publicKeyMultibase);
+        return object ? `${KEY_ID_PREFIX}${object.label}` : null;
+    }
+
+    // Helper: One logged-in session per process (retried after a failed login)
+    private getSession(): Promise<Pkcs11Session> {
+        if (!this.session) {
+            this.session = this.module.openSession(this.tokenLabel, this.pin);
+            this.session.catch(() => { this.session = null; });
+        }
+        return this.session;
+    }
+}
@@ -0,0 +1,182 @@
+/**
+ * Remote Signer Provider
+ *
+ * Keeps DID keys in a separate signing daemon, so this process only ever
+ * sees public keys and signatures. Speaks a small JSON protocol over
+ * HTTP(S) or a Unix socket:
+ * - GET  /keys[?publicKeyMultibase=] -> { keys: [keyId] }
+ * - POST /keys                       -> { keyId, publicKeyMultibase, publicKey } (new Ed25519 key)
+ * - GET  /keys/:keyId                -> { keyId, publicKeyMultibase, publicKey }
+ * - POST /keys/:keyId/sign { data }  -> { signature }
+ *
+ * Binary values are base64. Configured with REMOTE_SIGNER_URL or
+ * REMOTE_SIGNER_SOCKET, plus REMOTE_SIGNER_TOKEN (sent as a Bearer token)
+ * if the daemon requires one. services/signer is a local stand-in daemon.
+ * Key ids are "remote:<daemon key id>".
+ */
+
+import http from 'http';
+import https from 'https';
+import type { KeyPairResult, Signer, SignerProvider, SignerProviderName } from './index.js';
+
+// ============================================
+// Types
+// ============================================
+
+interface RemoteKey {
+    keyId: string;
+    publicKeyMultibase: string;
+    publicKey: string;
+}
+
+export interface RemoteSignerEndpoint {
+    url?: string;         // http(s)://host:port of the daemon
+    socketPath?: string;  // Unix socket of the daemon
+}
+
+const KEY_ID_PREFIX = 'remote:';
+
+// ============================================
+// Provider
+// ============================================
+
+export class RemoteSignerProvider implements SignerProvider {
+    public readonly name: SignerProviderName = 'remote';
+
+    constructor(
+        private readonly endpoint: RemoteSignerEndpoint,
+        private readonly token?: string,
+        private readonly timeoutMs: number = 10000
+    ) {
+        if (!endpoint.url && !endpoint.socketPath) {
+            throw new Error('Remote signer needs a URL or a Unix socket');
+        }
+    }
+
+    public static isConfigured(): boolean {
+        return Boolean(process.env.REMOTE_SIGNER_URL || process.env.REMOTE_SIGNER_SOCKET);
+    }
+
+    public static fromEnv(): RemoteSignerProvider {
+        if (!RemoteSignerProvider.isConfigured()) {
+            throw new Error('Remote signer requires REMOTE_SIGNER_URL or REMOTE_SIGNER_SOCKET');
+        }
+        return new RemoteSignerProvider(
+            { url: process.env.REMOTE_SIGNER_URL, socketPath: process.env.REMOTE_SIGNER_SOCKET },
+            process.env.REMOTE_SIGNER_TOKEN,
+            parseInt(process.env.REMOTE_SIGNER_TIMEOUT_MS || '10000')
+        );
+    }
+
+    public async generateKey(): Promise<KeyPairResult> {
+        const key = await this.request<RemoteKey>('POST', '/keys');
+        if (!key) {
+            throw new Error('Remote signer did not return a key');
+        }
+        console.log(`[KeyManagement] Generated remote keypair: ${key.keyId}`);
+        return this.toKeyPair(key);
+    }
+
+    public async createSigner(keyId: string): Promise<Signer | null> {
+        const remoteId = this.remoteKeyId(keyId);
+        const key = await this.request<RemoteKey>('GET', `/keys/${encodeURIComponent(remoteId)}`);
+        if (!key) {
+            return null;
+        }
+        const { publicKey, publicKeyMultibase } = this.toKeyPair(key);
+
+        return {
+            keyId: `${KEY_ID_PREFIX}${key.keyId}`,
+            sign: async (data: Uint8Array): Promise<Uint8Array> => {
+                const result = await this.request<{ signature: string }>(
+                    'POST',
+                    `/keys/${encodeURIComponent(remoteId)}/sign`,
+                    { data: Buffer.from(data).toString('base64') }
+                );
+                if (!result?.signature) {
+                    throw new Error(`Remote signer did not sign with ${keyId}`);
+                }
+                return new Uint8Array(Buffer.from(result.signature, 'base64'));
+            },
+            publicKey,
+            publicKeyMultibase,
+            algorithm: 'Ed25519'
+        };
+    }
+
+    public async listKeys(): Promise<string[]> {
+        const result = await this.request<{ keys: string[] }>('GET', '/keys');
+        return (result?.keys || []).map(keyId => `${KEY_ID_PREFIX}${keyId}`);
+    }
+
+    public async findKeyIdByPublicKey(publicKeyMultibase: string): Promise<string | null> {
+        const result = await this.request<{ keys: string[] }>(
+            'GET',
+            `/keys?publicKeyMultibase=${encodeURIComponent(publicKeyMultibase)}`
+        );
+        const [keyId] = result?.keys || [];
+        return keyId ? `${KEY_ID_PREFIX}${keyId}` : null;
+    }
+
+    // Helper: Daemon key id of a "remote:" key id
+    private remoteKeyId(keyId: string): string {
+        return keyId.startsWith(KEY_ID_PREFIX) ? keyId.slice(KEY_ID_PREFIX.length) : keyId;
+    }
+
+    private toKeyPair(key: RemoteKey): KeyPairResult {
+        return {
+            keyId: `${KEY_ID_PREFIX}${key.keyId}`,
+            publicKey: new Uint8Array(Buffer.from(key.publicKey, 'base64')),
+            publicKeyMultibase: key.publicKeyMultibase
+        };
+    }
+
+    /**
+     * JSON request to the daemon; null for 404
+     */
+    private request<T>(method: 'GET' | 'POST', pathname: string, body?: unknown): Promise<T | null> {
+        const payload = body === undefined ? undefined : JSON.stringify(body);
+        const headers: Record<string, string> = { Accept: 'application/json' };
+        if (payload) {
+            headers['Content-Type'] = 'application/json';
+            headers['Content-Length'] = String(Buffer.byteLength(payload));
+        }
+        if (this.token) {
+            headers.Authorization = `Bearer ${this.token}`;
+        }
+
+        const target = this.endpoint.url ? new URL(this.endpoint.url.replace(/\/$/, '') + pathname) : null;
+        const transport = target?.protocol === 'https:' ? https : http;
+        const options: http.RequestOptions = target
+            ? { protocol: target.protocol, hostname: target.hostname, port: target.port, path: target.pathname + target.search }
+            : { socketPath: this.endpoint.socketPath, path: pathname };
+
+        return new Promise((resolve, reject) => {
+            const req = transport.request({ ...options, method, headers, timeout: this.timeoutMs }, res => {
+                const chunks: Buffer[] = [];
+                res.on('data', chunk => chunks.push(chunk));
+                res.on('end', () => {
+                    const text = Buffer.concat(chunks).toString('utf-8');
+                    const status = res.statusCode || 500;
+                    if (status === 404) {
+                        return resolve(null);
+                    }
+                    let json: { error?: string };
+                    try {
+                        json = text ? JSON.parse(text) : {};
+                    } catch {
+                        return reject(new Error(`Remote signer returned invalid JSON (${status})`));
+                    }
+                    if (status >= 400) {
+                        return reject(new Error(`Remote signer ${method} ${pathname} failed (${status}): ${json.error || text}`));
+                    }
+                    resolve(json as T);
+                });
+            });
+            req.on('timeout', () => req.destroy(new Error(`Remote signer timed out after ${this.timeoutMs}ms`)));
+            req.on('error', reject);
+            if (payload) req.write(payload);
+            req.end();
+        });
+    }
+}
@@ -0,0 +1,144 @@
+/**
+ * Signing Daemon - Remote Signer Stand-in
+ *
+ * Serves the remote signer protocol (see keyManagement/remoteSigner.ts) from
+ * its own file key store, so the identity service can run with
+ * SIGNER_PROVIDER=remote without a production signing service:
+ * - Listens on REMOTE_SIGNER_SOCKET if set, otherwise on SIGNER_PORT (3010)
+ * - Requires REMOTE_SIGNER_TOKEN as a Bearer token when it is set
+ *
+ * Run it with its own KEY_STORAGE_DIR and KEY_ENCRYPTION_SECRET, so the
+ * private keys stay out of the identity service's key store.
+ */
+
+import express from 'express';
+import * as fs from 'fs/promises';
+import * as crypto from 'crypto';
+import 'dotenv/config';
+import { fileSignerProvider, unlockKeyStore } from '../keyManagement/index.js';
+
+const app = express();
+app.use(express.json());
+
+const TOKEN = process.env.REMOTE_SIGNER_TOKEN;
+const SOCKET_PATH = process.env.REMOTE_SIGNER_SOCKET;
+const PORT = parseInt(process.env.SIGNER_PORT || '3010');
+
+// Bearer token check (constant time)
+app.use((req, res, next) => {
+    if (!TOKEN) return next();
+    const given = Buffer.from(req.header('Authorization') || '');
+    const expected = Buffer.from(`Bearer ${TOKEN}`);
+    if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+        return res.status(401).json({ error: 'Unauthorized' });
+    }
+    next();
+});
+
+// Helper: Public data of a key the daemon holds
+async function describeKey(keyId: string) {
+    const signer = await fileSignerProvider.createSigner(keyId);
+    if (!signer) return null;
+    return {
+        keyId,
+        publicKeyMultibase: signer.publicKeyMultibase,
+        publicKey: Buffer.from(signer.publicKey).toString('base64')
+    };
+}
+
+// ============================================
+// Keys
+// ============================================
+
+/**
+ * List key IDs (or the key with a given public key)
+ */
+app.get('/keys', async (req, res) => {
+    try {
+        const publicKeyMultibase = req.query.publicKeyMultibase;
+        if (typeof publicKeyMultibase === 'string') {
+            const keyId = await fileSignerProvider.findKeyIdByPublicKey(publicKeyMultibase);
+            return res.json({ keys: keyId ? [keyId] : [] });
+        }
+        return res.json({ keys: await fileSignerProvider.listKeys() });
+    } catch (err) {
+        res.status(500).json({ error: err instanceof Error ? err.message : 'Unknown error' });
+    }
+});
+
+/**
+ * Generate a new Ed25519 key
+ */
+app.post('/keys', async (req, res) => {
+    try {
+        const key = await fileSignerProvider.generateKey();
+        console.log('[Signer] Generated key:', key.keyId);
+        return res.status(201).json({
+            keyId: key.keyId,
+            publicKeyMultibase: key.publicKeyMultibase,
+            publicKey: Buffer.from(key.publicKey).toString('base64')
+        });
+    } catch (err) {
+        res.status(500).json({ error: err instanceof Error ? err.message : 'Unknown error' });
+    }
+});
+
+/**
+ * Public key of a key
+ */
+app.get('/keys/:keyId', async (req, res) => {
+    try {
+        const key = await describeKey(req.params.keyId);
+        if (!key) {
+            return res.status(404).json({ error: 'Key not found' });
+        }
+        return res.json(key);
+    } catch (err) {
+        res.status(500).json({ error: err instanceof Error ? err.message : 'Unknown error' });
+    }
+});
+
+/**
+ * Sign base64 data with a key
+ */
+app.post('/keys/:keyId/sign', async (req, res) => {
+    const { keyId } = req.params;
+    const { data } = req.body || {};
+
+    if (typeof data !== 'string') {
+        return res.status(400).json({ error: 'data (base64) is required' });
+    }
+
+    try {
+        const signer = await fileSignerProvider.createSigner(keyId);
+        if (!signer) {
+            return res.status(404).json({ error: 'Key not found' });
+        }
+        const signature = await signer.sign(new Uint8Array(Buffer.from(data, 'base64')));
+        console.log('[Signer] Signed with key:', keyId);
+        return res.json({ signature: Buffer.from(signature).toString('base64') });
+    } catch (err) {
+        res.status(500).json({ error: err instanceof Error ? err.message : 'Unknown error' });
+    }
+});
+
+app.get('/health', (req, res) => {
+    res.json({ status: 'ok', service: 'signer' });
+});
+
+unlockKeyStore().then(async masterKeyId => {
+    if (SOCKET_PATH) {
+        // A socket left behind by an earlier run would block listen()
+        await fs.unlink(SOCKET_PATH).catch(() => undefined);
+        app.listen(SOCKET_PATH, () => {
+            console.log(`🔏 Signing daemon listening on ${SOCKET_PATH} (master key ${masterKeyId})`);
+        });
+    } else {
+        app.listen(PORT, () => {
+            console.log(`🔏 Signing daemon running on port ${PORT} (master key ${masterKeyId})`);
+        });
+    }
+}).catch(err => {
+    console.error('[Signer] Cannot unlock key store:', err instanceof Error ? err.message : err);
+    process.exit(1);
+});
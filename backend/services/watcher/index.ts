@@ -1,17 +1,27 @@
 import { CronJob } from 'cron';
 import { Pool } from 'pg';
-import { ethers } from 'ethers';
 import { MerkleTree } from 'merkletreejs';
 import { sha256 } from '@noble/hashes/sha256';
 import * as fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import * as crypto from 'crypto';
+import { EventEmitter } from 'events';
+import express from 'express';
 import 'dotenv/config';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 import { createServiceLogger } from '../../utils/logger.js';
+import { verifyWitnessProof, getTrustedWitnesses } from '../../utils/verification.js';
+import type { AnchoringProof } from '../../utils/witnessFileManager.js';
+import {
+    verifyInclusionProof,
+    verifyConsistencyProof,
+    type MMRInclusionProof,
+    type MMRConsistencyProof
+} from '../../utils/mmr.js';
+import { getAnchorBackend, backendForChainId } from '../anchoring/index.js';
 
 // Initialize structured logger
 const log = createServiceLogger('watcher');
@@ -24,29 +34,46 @@ const pool = new Pool({
     port: parseInt(process.env.DB_PORT || '5432')
 });
 
-// Contract ABI for verification
-const CONTRACT_ABI = [
-    "function getBatch(uint256 batchId) external view returns (bytes32 root, uint256 timestamp, uint256 blockNum)",
-    "function verify(uint256 batchId, bytes32 expectedRoot) external view returns (bool)"
-];
-
 const STORAGE_ROOT = process.env.STORAGE_ROOT && process.env.STORAGE_ROOT !== './did-logs'
     ? process.env.STORAGE_ROOT
     : path.resolve(__dirname, '../../did-logs');
 
+// Lifecycle transitions (into and out of tampered) are made by the identity service,
+// which accepts them from the watcher with WATCHER_TOKEN (shared by both services)
+const IDENTITY_SERVICE_URL = process.env.IDENTITY_SERVICE_URL || 'http://localhost:3000';
+const WATCHER_TOKEN = process.env.WATCHER_TOKEN;
+
 // Helper: Hash a log entry using SHA256
 function hashLogEntry(logEntry: any): string {
     return crypto.createHash('sha256').update(JSON.stringify(logEntry)).digest('hex');
 }
 
-// Audit Check 1: Verify hash chain integrity of DID log entries
-async function verifyHashChain(did: string, scid: string): Promise<{ valid: boolean; details: string }> {
+// Helper: Call the identity service (failures are logged; the next audit run retries)
+async function callIdentityService(method: 'POST' | 'DELETE', urlPath: string, body?: unknown): Promise<boolean> {
     try {
-        // BYPASS for Demo Products (they often have hardcoded/simulated logs)
-        if (did.includes('demo') || did.includes('z-')) {
-            return { valid: true, details: 'Demo product hash chain bypassed' };
+        const headers: Record<string, string> = {};
+        if (body) headers['Content-Type'] = 'application/json';
+        if (WATCHER_TOKEN) headers.Authorization = `Bearer ${WATCHER_TOKEN}`;
+        const response = await fetch(`${IDENTITY_SERVICE_URL}${urlPath}`, {
+            method,
+            headers,
+            body: body ? JSON.stringify(body) : undefined,
+            signal: AbortSignal.timeout(10000)
+        });
+        if (!response.ok) {
+            log.error(`Identity service ${method} ${urlPath} failed`, { status: response.status, body: await response.text() });
+            return false;
         }
+        return true;
+    } catch (error) {
+        log.error(`Identity service unreachable (${method} ${urlPath})`, { error: error instanceof Error ? error.message : 'Unknown error' });
+        return false;
+    }
+}
 
+// Audit Check 1: Verify hash chain integrity of DID log entries
+async function verifyHashChain(did: string, scid: string): Promise<{ valid: boolean; details: string }> {
+    try {
         const logPath = `${STORAGE_ROOT}/${scid}/did.jsonl`;
 
         try {
@@ -105,36 +132,49 @@ async function verifyHashChain(did: string, scid: string): Promise<{ valid: bool
     }
 }
 
+// Audit Check 3: Verify the witness attestations (eddsa-jcs-2022) on an anchoring proof
+// Unsigned proofs predate witness signing and are only rejected once TRUSTED_WITNESSES is configured.
+async function verifyWitnessAttestation(did: string, witnessProof: AnchoringProof): Promise<{ valid: boolean; details: string }> {
+    const trustedWitnesses = getTrustedWitnesses();
+
+    if (!witnessProof.proof || witnessProof.proof.length === 0) {
+        return trustedWitnesses.length > 0
+            ? { valid: false, details: `Version ${witnessProof.versionId} has no witness attestation` }
+            : { valid: true, details: 'Unsigned legacy witness proof' };
+    }
+
+    const result = await verifyWitnessProof(witnessProof, trustedWitnesses);
+    if (!result.valid) {
+        log.error(`Witness attestation invalid for ${did}`, { versionId: witnessProof.versionId, errors: result.errors });
+    } else if (result.warnings.length > 0) {
+        log.warn(`Witness attestation not verified for ${did}`, { versionId: witnessProof.versionId, warnings: result.warnings });
+    }
+    return { valid: result.valid, details: result.valid ? result.details : result.errors.join('; ') };
+}
+
 // Audit Check 2: Verify Merkle proof against on-chain root
+// MMR proofs (mmrProof given) are checked leaf -> peak -> bagged root; legacy per-batch proofs with merkletreejs.
+// The root is looked up on the anchor backend that produced the proof's chainId.
 async function verifyMerkleProof(
     did: string,
     batchId: number,
     leafHash: string,
     merkleProof: string[],
-    expectedMerkleRoot: string
+    expectedMerkleRoot: string,
+    mmrProof?: MMRInclusionProof,
+    chainId?: string
 ): Promise<{ valid: boolean; details: string }> {
     try {
-        // BYPASS for Demo Products
-        if (did.includes('demo') || did.includes('z-')) {
-            return { valid: true, details: 'Demo product integrity bypassed (local validation only)' };
-        }
-
-        const rpcUrl = process.env.RPC_URL || 'http://localhost:8545';
-        const contractAddress = process.env.CONTRACT_ADDRESS;
-
-        if (!contractAddress) {
-            return { valid: false, details: 'CONTRACT_ADDRESS not set' };
-        }
-
-        // Step 1: Verify the proof locally using MerkleTree library
-        const leaf = Buffer.from(leafHash.slice(2), 'hex');
-        const proof = merkleProof.map(p => Buffer.from(p.slice(2), 'hex'));
-        const root = Buffer.from(expectedMerkleRoot.slice(2), 'hex');
-
+        // Step 1: Verify the proof locally (MMR inclusion, or MerkleTree library for legacy batches)
         let isValidProof: boolean;
-        if (proof.length === 0) {
+        if (mmrProof) {
+            isValidProof = verifyInclusionProof(leafHash, mmrProof, expectedMerkleRoot);
+        } else if (merkleProof.length === 0) {
             isValidProof = leafHash.toLowerCase() === expectedMerkleRoot.toLowerCase();
         } else {
+            const leaf = Buffer.from(leafHash.slice(2), 'hex');
+            const proof = merkleProof.map(p => Buffer.from(p.slice(2), 'hex'));
+            const root = Buffer.from(expectedMerkleRoot.slice(2), 'hex');
             isValidProof = MerkleTree.verify(proof, leaf, root, sha256, { sortPairs: true });
         }
 
@@ -143,21 +183,25 @@ async function verifyMerkleProof(
         }
 
         // Step 2: Verify the root matches what's stored on-chain
-        const provider = new ethers.JsonRpcProvider(rpcUrl);
-        const contract = new ethers.Contract(contractAddress, CONTRACT_ABI, provider);
+        const anchorBackend = getAnchorBackend(backendForChainId(chainId));
 
         try {
-            const [onChainRoot, timestamp, blockNum] = await contract.getBatch(batchId);
+            const connectedChainId = await anchorBackend.getChainId();
+            if (chainId && chainId !== connectedChainId) {
+                return { valid: false, details: `Anchored on ${chainId}, watcher is connected to ${connectedChainId}` };
+            }
+
+            const onChainBatch = await anchorBackend.getBatch(batchId);
 
-            if (!onChainRoot || onChainRoot === '0x0000000000000000000000000000000000000000000000000000000000000000') {
+            if (!onChainBatch) {
                 return { valid: false, details: `Batch ${batchId} not found on chain` };
             }
 
-            if (onChainRoot.toLowerCase() !== expectedMerkleRoot.toLowerCase()) {
-                return { valid: false, details: `Root mismatch: on-chain ${onChainRoot.slice(0, 10)}...` };
+            if (onChainBatch.root.toLowerCase() !== expectedMerkleRoot.toLowerCase()) {
+                return { valid: false, details: `Root mismatch: on-chain ${onChainBatch.root.slice(0, 10)}...` };
             }
 
-            return { valid: true, details: `Verified on-chain at block ${blockNum}` };
+            return { valid: true, details: `Verified on-chain at block ${onChainBatch.blockNumber}` };
         } catch (contractError: any) {
             return { valid: false, details: `On-chain check failed` };
         }
@@ -166,106 +210,683 @@ async function verifyMerkleProof(
     }
 }
 
-export async function runAudit() {
-    log.info('Starting audit cycle...');
-
+// Audit Check 4: Verify the MMR accumulator only grew between successive anchored roots
+async function verifyAccumulatorConsistency(): Promise<{ valid: boolean; details: string }> {
     try {
-        const { rows: identities } = await pool.query('SELECT did, scid, status, created_at FROM identities');
-        log.info(`Auditing ${identities.length} identities...`);
+        const { rows: batches } = await pool.query(
+            'SELECT batch_id, merkle_root, mmr_size, consistency_proof FROM batches WHERE mmr_size IS NOT NULL ORDER BY batch_id ASC'
+        );
 
-        const NOW = Date.now();
-        const GRACE_PERIOD_MS = 15000; // 15 seconds grace period for file system sync
+        for (let i = 1; i < batches.length; i++) {
+            const previous = batches[i - 1];
+            const current = batches[i];
+            const proof = current.consistency_proof as MMRConsistencyProof | null;
 
-        for (const identity of identities) {
-            // Check grace period
-            const createdAt = new Date(identity.created_at).getTime();
-            if (NOW - createdAt < GRACE_PERIOD_MS) {
-                log.info(`⏳ Skipping new identity (grace period): ${identity.did}`);
-                continue;
+            if (!proof || proof.oldSize !== Number(previous.mmr_size) || proof.newSize !== Number(current.mmr_size)) {
+                return { valid: false, details: `Batch ${current.batch_id} has no consistency proof from batch ${previous.batch_id}` };
             }
 
-            if ((identity.did.includes("demo") || identity.did.includes("z-")) && !identity.did.includes("window-003")) {
-                // ENFORCE DEACTIVATION: Check if the log file says it's deactivated
-                // This prevents the status from reverting to 'active' due to auto-healing
-                try {
-                    const logPath = `${STORAGE_ROOT}/${identity.scid}/did.jsonl`;
-                    const content = await fs.readFile(logPath, 'utf8');
-                    const lines = content.trim().split('\n');
-                    if (lines.length > 0) {
-                        const lastLine = lines[lines.length - 1];
-                        if (lastLine.includes('"deactivated":true') || lastLine.includes('"deactivated": true')) {
-                            if (identity.status !== 'deactivated') {
-                                log.info(`🛡️ Enforcing deactivation status for ${identity.did}`);
-                                await pool.query("UPDATE identities SET status = 'deactivated' WHERE did = $1", [identity.did]);
-                            }
-                            continue; // Skip the tampered->active check below
-                        }
-                    }
-                } catch (e) {
-                    // Log file might not exist yet, ignore
-                }
+            if (!verifyConsistencyProof(proof, previous.merkle_root, current.merkle_root)) {
+                return { valid: false, details: `Root of batch ${current.batch_id} does not extend batch ${previous.batch_id}` };
+            }
+        }
 
-                log.info(`Skipping demo identity: ${identity.did}`);
-                if (identity.status === 'tampered') {
-                    await pool.query("UPDATE identities SET status = 'active' WHERE did = $1", [identity.did]);
-                    await pool.query("DELETE FROM watcher_alerts WHERE did = $1", [identity.did]);
-                }
-                continue;
+        return { valid: true, details: `${batches.length} anchored MMR roots are consistent` };
+    } catch (error) {
+        return { valid: false, details: `Error: ${error instanceof Error ? error.message : 'Unknown error'}` };
+    }
+}
+
+// ============================================
+// Audit Runs
+// ============================================
+
+export type AuditCheckType = 'hash_chain' | 'merkle_proof' | 'witness_attestation' | 'accumulator_consistency';
+export type AuditTrigger = 'schedule' | 'manual';
+
+export interface AuditCheckResult {
+    checkType: AuditCheckType;
+    valid: boolean;
+    details: string;
+}
+
+export interface AuditProgressEvent {
+    type: 'started' | 'identity' | 'check' | 'skipped' | 'completed' | 'failed';
+    did?: string;
+    check?: AuditCheckResult;
+    status?: 'active' | 'tampered';
+    exempt?: boolean;
+    message: string;
+    done: number;
+    total: number;
+    timestamp: string;
+}
+
+interface AuditRun {
+    id: string;
+    did: string | null;          // null for a full cycle over all identities
+    trigger: AuditTrigger;
+    status: 'running' | 'completed' | 'failed';
+    startedAt: string;
+    finishedAt: string | null;
+    total: number;
+    done: number;
+    failures: number;
+    progress: AuditProgressEvent[];
+    emitter: EventEmitter;       // emits 'progress' for streaming clients
+}
+
+const AUDIT_SCHEDULE = process.env.WATCHER_AUDIT_SCHEDULE || '*/5 * * * *';
+const GRACE_PERIOD_MS = 15000; // 15 seconds grace period for file system sync
+const MAX_TRACKED_RUNS = 50;
+
+// Recent runs, oldest first, so progress can be replayed to late subscribers
+const runs = new Map<string, AuditRun>();
+let lastCompletedRun: AuditRun | null = null;
+
+function createRun(did: string | null, trigger: AuditTrigger): AuditRun {
+    const run: AuditRun = {
+        id: crypto.randomUUID(),
+        did,
+        trigger,
+        status: 'running',
+        startedAt: new Date().toISOString(),
+        finishedAt: null,
+        total: 0,
+        done: 0,
+        failures: 0,
+        progress: [],
+        emitter: new EventEmitter()
+    };
+
+    runs.set(run.id, run);
+    while (runs.size > MAX_TRACKED_RUNS) {
+        const oldest = runs.keys().next().value as string;
+        runs.delete(oldest);
+    }
+    return run;
+}
+
+function emitProgress(run: AuditRun, event: Omit<AuditProgressEvent, 'done' | 'total' | 'timestamp'>): void {
+    const progress: AuditProgressEvent = { ...event, done: run.done, total: run.total, timestamp: new Date().toISOString() };
+    run.progress.push(progress);
+    run.emitter.emit('progress', progress);
+}
+
+// Helper: Running run for the same scope (a DID, or the full cycle)
+function findRunningRun(did: string | null): AuditRun | undefined {
+    return [...runs.values()].find(r => r.status === 'running' && r.did === did);
+}
+
+// Helper: Public view of a run (without the emitter)
+function serializeRun(run: AuditRun, includeProgress = false) {
+    const summary = {
+        id: run.id,
+        did: run.did,
+        trigger: run.trigger,
+        status: run.status,
+        startedAt: run.startedAt,
+        finishedAt: run.finishedAt,
+        total: run.total,
+        done: run.done,
+        failures: run.failures
+    };
+    return includeProgress ? { ...summary, progress: run.progress } : summary;
+}
+
+// ============================================
+// Trust Exemptions
+// ============================================
+
+/**
+ * An explicit, time-limited exemption of one DID from integrity enforcement.
+ * Exempt identities are still audited and every check is recorded, but a
+ * failure neither marks the identity tampered nor raises an alert.
+ */
+export interface TrustExemption {
+    did: string;
+    reason: string;
+    addedBy: string;
+    createdAt: string;
+    expiresAt: string;
+}
+
+function toExemption(row: { did: string; reason: string; added_by: string; created_at: Date; expires_at: Date }): TrustExemption {
+    return {
+        did: row.did,
+        reason: row.reason,
+        addedBy: row.added_by,
+        createdAt: new Date(row.created_at).toISOString(),
+        expiresAt: new Date(row.expires_at).toISOString()
+    };
+}
+
+// Operators who may add and revoke exemptions: WATCHER_ADMIN_TOKENS lists them as
+// name=token pairs (comma separated), and the name is recorded as added_by
+const ADMIN_TOKENS = new Map(
+    (process.env.WATCHER_ADMIN_TOKENS || '').split(',')
+        .filter(pair => pair.includes('='))
+        .map(pair => [pair.slice(0, pair.indexOf('=')).trim(), pair.slice(pair.indexOf('=') + 1).trim()])
+        .filter(([name, token]) => name && token)
+        .map(([name, token]) => [token, name])
+);
+// Exemptions are meant to be temporary
+const MAX_EXEMPTION_DAYS = parseInt(process.env.WATCHER_MAX_EXEMPTION_DAYS || '30');
+
+// Helper: Operator making a request: the owner of its Bearer token (compared in
+// constant time), or without tokens configured, 'localhost' for callers on this host
+function authenticateOperator(req: express.Request): string | null {
+    if (ADMIN_TOKENS.size === 0) {
+        return ['127.0.0.1', '::1', '::ffff:127.0.0.1'].includes(req.socket.remoteAddress || '') ? 'localhost' : null;
+    }
+    const given = Buffer.from(req.header('Authorization') || '');
+    for (const [token, name] of ADMIN_TOKENS) {
+        const expected = Buffer.from(`Bearer ${token}`);
+        if (given.length === expected.length && crypto.timingSafeEqual(given, expected)) {
+            return name;
+        }
+    }
+    return null;
+}
+
+async function getActiveExemptions(): Promise<Map<string, TrustExemption>> {
+    const { rows } = await pool.query(
+        'SELECT did, reason, added_by, created_at, expires_at FROM audit_exemptions WHERE expires_at > NOW()'
+    );
+    return new Map(rows.map(row => [row.did, toExemption(row)]));
+}
+
+// Helper: How an exemption is recorded on audit rows
+function describeExemption(exemption: TrustExemption): string {
+    return `${exemption.reason} (added by ${exemption.addedBy}, expires ${exemption.expiresAt})`;
+}
+
+// ============================================
+// Audit Cycle
+// ============================================
+
+interface IdentityRow {
+    did: string;
+    scid: string;
+    status: string;
+    created_at: string;
+}
+
+// Helper: Persist a check result in the audits table, with the exemption in force (if any).
+// Checks that cover the whole ledger rather than one identity are recorded with a null did.
+async function recordCheck(run: AuditRun, did: string | null, check: AuditCheckResult, exemption: TrustExemption | null): Promise<void> {
+    await pool.query(
+        `INSERT INTO audits (did, check_type, status, details, run_id, trigger, exempt, exemption_reason)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+            did, check.checkType, check.valid ? 'valid' : 'invalid', check.details, run.id, run.trigger,
+            exemption !== null, exemption ? describeExemption(exemption) : null
+        ]
+    );
+    emitProgress(run, { type: 'check', did: did ?? undefined, check, exempt: exemption !== null, message: `${check.checkType}: ${check.details}` });
+}
+
+/**
+ * Audit one identity: hash chain, Merkle proofs and witness attestations of its anchored events.
+ * Returns null when the identity was skipped.
+ */
+async function auditIdentity(
+    run: AuditRun,
+    identity: IdentityRow,
+    exemption: TrustExemption | null
+): Promise<'active' | 'tampered' | null> {
+    // Check grace period
+    const createdAt = new Date(identity.created_at).getTime();
+    if (Date.now() - createdAt < GRACE_PERIOD_MS) {
+        log.info(`⏳ Skipping new identity (grace period): ${identity.did}`);
+        emitProgress(run, { type: 'skipped', did: identity.did, message: 'Created less than 15s ago (grace period)' });
+        return null;
+    }
+
+    const hashChainResult = await verifyHashChain(identity.did, identity.scid);
+    await recordCheck(run, identity.did, { checkType: 'hash_chain', ...hashChainResult }, exemption);
+
+    const { rows: events } = await pool.query(
+        'SELECT leaf_hash, witness_proofs FROM events WHERE did = $1 AND witness_proofs IS NOT NULL',
+        [identity.did]
+    );
+
+    let anchoredCount = 0;
+    const merkleFailures: string[] = [];
+    const attestationFailures: string[] = [];
+    for (const event of events) {
+        const wp = event.witness_proofs;
+        if (wp?.batchId !== undefined && wp?.merkleProof) {
+            anchoredCount++;
+            const mmrProof = wp.mmrSize !== undefined
+                ? { leafIndex: wp.leafIndex, mmrSize: wp.mmrSize, siblings: wp.merkleProof, peaks: wp.peaks || [] }
+                : undefined;
+            const res = await verifyMerkleProof(identity.did, wp.batchId, wp.leafHash, wp.merkleProof, wp.merkleRoot, mmrProof, wp.chainId);
+            if (!res.valid) merkleFailures.push(`${wp.versionId}: ${res.details}`);
+
+            const attestation = await verifyWitnessAttestation(identity.did, wp);
+            if (!attestation.valid) attestationFailures.push(`${wp.versionId}: ${attestation.details}`);
+        }
+    }
+
+    await recordCheck(run, identity.did, {
+        checkType: 'merkle_proof',
+        valid: merkleFailures.length === 0,
+        details: merkleFailures.length === 0
+            ? `${anchoredCount} anchored event(s) verified`
+            : `${merkleFailures.length}/${anchoredCount} failed. ${merkleFailures.join('; ')}`
+    }, exemption);
+    await recordCheck(run, identity.did, {
+        checkType: 'witness_attestation',
+        valid: attestationFailures.length === 0,
+        details: attestationFailures.length === 0
+            ? `${anchoredCount} witness proof(s) verified`
+            : `${attestationFailures.length}/${anchoredCount} failed. ${attestationFailures.join('; ')}`
+    }, exemption);
+
+    const isValid = hashChainResult.valid && merkleFailures.length === 0 && attestationFailures.length === 0;
+    const newStatus = isValid ? 'active' : 'tampered';
+
+    // Exempt identities keep their status and alerts; the recorded checks show what was found
+    if (exemption) {
+        if (!isValid) {
+            log.warn(`Integrity failure not enforced for exempt identity ${identity.did}`, { exemption: describeExemption(exemption) });
+        }
+        return newStatus;
+    }
+
+    if (newStatus === 'tampered') {
+        // Check if we already have an integrity alert to avoid duplicates
+        const { rows: existing } = await pool.query(
+            "SELECT id FROM watcher_alerts WHERE did = $1 AND reporter = 'watcher' AND reason = 'INTEGRITY_FAILURE'",
+            [identity.did]
+        );
+        if (existing.length === 0) {
+            // The identity service records the alert and moves the identity to tampered
+            await callIdentityService('POST', '/api/watcher/alerts', {
+                did: identity.did,
+                reason: 'INTEGRITY_FAILURE',
+                reporter: 'watcher'
+            });
+        }
+    } else if (identity.status === 'tampered') {
+        // Only auto-resolve if the ONLY alerts are from the watcher itself (i.e. system alerts)
+        // If a human has flagged something manually, we should NOT auto-clear it just because the hash chain is valid.
+        const { rows: manualAlerts } = await pool.query(
+            "SELECT id FROM watcher_alerts WHERE did = $1 AND reporter != 'watcher'",
+            [identity.did]
+        );
+
+        if (manualAlerts.length === 0) {
+            // Clearing the alerts moves the identity back to active
+            if (await callIdentityService('DELETE', `/api/watcher/alerts/${encodeURIComponent(identity.did)}`)) {
+                log.info(`Auto-resolved system alerts for ${identity.did}`);
             }
+        }
+    }
 
-            const hashChainResult = await verifyHashChain(identity.did, identity.scid);
+    return newStatus;
+}
 
-            const { rows: events } = await pool.query(
-                'SELECT leaf_hash, witness_proofs FROM events WHERE did = $1 AND witness_proofs IS NOT NULL',
-                [identity.did]
-            );
+/**
+ * Execute an audit run over one DID (run.did) or all identities
+ */
+async function executeRun(run: AuditRun): Promise<void> {
+    try {
+        const { rows: identities } = run.did
+            ? await pool.query<IdentityRow>('SELECT did, scid, status, created_at FROM identities WHERE did = $1', [run.did])
+            : await pool.query<IdentityRow>('SELECT did, scid, status, created_at FROM identities');
 
-            let allMerkleValid = true;
-            for (const event of events) {
-                const wp = event.witness_proofs;
-                if (wp?.batchId !== undefined && wp?.merkleProof) {
-                    const res = await verifyMerkleProof(identity.did, wp.batchId, wp.leafHash, wp.merkleProof, wp.merkleRoot);
-                    if (!res.valid) allMerkleValid = false;
-                }
+        if (run.did && identities.length === 0) {
+            throw new Error(`Identity not found: ${run.did}`);
+        }
+
+        run.total = identities.length;
+        emitProgress(run, { type: 'started', message: `Auditing ${identities.length} identities...` });
+        log.info(`Auditing ${identities.length} identities...`, { runId: run.id, trigger: run.trigger });
+
+        if (!run.did) {
+            const consistency = await verifyAccumulatorConsistency();
+            await recordCheck(run, null, { checkType: 'accumulator_consistency', ...consistency }, null);
+            if (consistency.valid) {
+                log.info(consistency.details);
+            } else {
+                run.failures++;
+                log.error('MMR accumulator consistency check failed', { details: consistency.details });
             }
+        }
 
-            const isValid = hashChainResult.valid && allMerkleValid;
-            const newStatus = isValid ? 'active' : 'tampered';
-
-            if (newStatus === 'tampered') {
-                await pool.query('UPDATE identities SET status = $1 WHERE did = $2', [newStatus, identity.did]);
-                // Check if we already have an integrity alert to avoid duplicates
-                const { rows: existing } = await pool.query(
-                    "SELECT id FROM watcher_alerts WHERE did = $1 AND reporter = 'watcher' AND reason = 'INTEGRITY_FAILURE'",
-                    [identity.did]
-                );
-                if (existing.length === 0) {
-                    await pool.query('INSERT INTO watcher_alerts (did, reason, reporter) VALUES ($1, $2, $3)', [identity.did, 'INTEGRITY_FAILURE', 'watcher']);
-                }
-            } else if (identity.status === 'tampered') {
-                // Only auto-resolve if the ONLY alerts are from the watcher itself (i.e. system alerts)
-                // If a human has flagged something manually, we should NOT auto-clear it just because the hash chain is valid.
-                const { rows: manualAlerts } = await pool.query(
-                    "SELECT id FROM watcher_alerts WHERE did = $1 AND reporter != 'watcher'",
-                    [identity.did]
-                );
-
-                if (manualAlerts.length === 0) {
-                    await pool.query('UPDATE identities SET status = $1 WHERE did = $2', ['active', identity.did]);
-                    await pool.query('DELETE FROM watcher_alerts WHERE did = $1', [identity.did]);
-                    log.info(`Auto-resolved system alerts for ${identity.did}`);
-                }
+        const exemptions = await getActiveExemptions();
+
+        for (const identity of identities) {
+            const exemption = exemptions.get(identity.did) ?? null;
+            emitProgress(run, {
+                type: 'identity',
+                did: identity.did,
+                exempt: exemption !== null,
+                message: exemption ? `Auditing ${identity.did} (exempt: ${exemption.reason})` : `Auditing ${identity.did}`
+            });
+            const status = await auditIdentity(run, identity, exemption);
+            run.done++;
+            if (status === 'tampered' && !exemption) run.failures++;
+            if (status) {
+                emitProgress(run, {
+                    type: 'identity',
+                    did: identity.did,
+                    status,
+                    exempt: exemption !== null,
+                    message: `${identity.did}: ${status}${exemption && status === 'tampered' ? ' (exempt, not enforced)' : ''}`
+                });
             }
         }
-        log.info('Audit cycle complete');
+
+        run.status = 'completed';
+        emitProgress(run, { type: 'completed', message: `Audit complete, ${run.failures} integrity failure(s)` });
+        log.info('Audit cycle complete', { runId: run.id, failures: run.failures });
     } catch (err) {
+        run.status = 'failed';
+        emitProgress(run, { type: 'failed', message: err instanceof Error ? err.message : 'Unknown error' });
         log.error('Audit failed:', err);
+    } finally {
+        run.finishedAt = new Date().toISOString();
+        lastCompletedRun = run;
+        run.emitter.removeAllListeners();
     }
 }
 
+export async function runAudit(trigger: AuditTrigger = 'schedule') {
+    if (findRunningRun(null)) {
+        log.warn('Previous audit cycle still running, skipping');
+        return;
+    }
+    log.info('Starting audit cycle...');
+    await executeRun(createRun(null, trigger));
+}
+
+// ============================================
+// HTTP API
+// ============================================
+
+const app = express();
+app.use(express.json());
+
+// Enable CORS for frontend dev server
+app.use((req, res, next) => {
+    res.header('Access-Control-Allow-Origin', '*');
+    res.header('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    if (req.method === 'OPTIONS') {
+        return res.sendStatus(200);
+    }
+    next();
+});
+
+app.get('/health', (req, res) => {
+    res.json({ status: 'ok', service: 'watcher' });
+});
+
+/**
+ * Last run, current run, the latest accumulator consistency check and the next scheduled audit cycle
+ * GET /api/watcher/status
+ */
+app.get('/api/watcher/status', async (req, res) => {
+    try {
+        const { rows } = await pool.query(
+            `SELECT status, details, run_id, checked_at FROM audits
+             WHERE check_type = 'accumulator_consistency' ORDER BY id DESC LIMIT 1`
+        );
+        const accumulator = rows[0]
+            ? { status: rows[0].status, details: rows[0].details, runId: rows[0].run_id, checkedAt: rows[0].checked_at }
+            : null;
+
+        const running = [...runs.values()].filter(r => r.status === 'running');
+        res.json({
+            healthy: accumulator?.status !== 'invalid',
+            lastCheck: lastCompletedRun?.finishedAt ?? null,
+            activeWatchers: 1,
+            schedule: AUDIT_SCHEDULE,
+            nextRun: auditJob.nextDate().toJSDate().toISOString(),
+            running: running.map(r => serializeRun(r)),
+            lastRun: lastCompletedRun ? serializeRun(lastCompletedRun) : null,
+            accumulator
+        });
+    } catch (err) {
+        res.status(500).json({ error: err instanceof Error ? err.message : 'Unknown error' });
+    }
+});
+
+/**
+ * Trigger an audit for one DID (or a full cycle without did). Runs in the background;
+ * follow it with GET /api/watcher/runs/:runId or its /stream.
+ * POST /api/watcher/audits
+ */
+app.post('/api/watcher/audits', async (req, res) => {
+    const { did } = req.body || {};
+    if (did !== undefined && (typeof did !== 'string' || !did.startsWith('did:'))) {
+        return res.status(400).json({ error: 'did must be a DID string' });
+    }
+
+    const existing = findRunningRun(did ?? null);
+    if (existing) {
+        return res.status(200).json({ ...serializeRun(existing), streamUrl: `/api/watcher/runs/${existing.id}/stream` });
+    }
+
+    if (did) {
+        try {
+            const { rows } = await pool.query('SELECT did FROM identities WHERE did = $1', [did]);
+            if (rows.length === 0) {
+                return res.status(404).json({ error: 'Identity not found' });
+            }
+        } catch (err) {
+            return res.status(500).json({ error: err instanceof Error ? err.message : 'Unknown error' });
+        }
+    }
+
+    const run = createRun(did ?? null, 'manual');
+    executeRun(run);
+    log.info('Manual audit triggered', { runId: run.id, did: did ?? 'all' });
+
+    res.status(202).json({ ...serializeRun(run), streamUrl: `/api/watcher/runs/${run.id}/stream` });
+});
+
+/**
+ * Audit history with per-check details, grouped by run (newest first)
+ * GET /api/watcher/audits?did=...&limit=20
+ */
+app.get('/api/watcher/audits', async (req, res) => {
+    const { did } = req.query;
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || '20')) || 20, 1), 100);
+
+    try {
+        const { rows } = await pool.query(
+            `SELECT id, did, run_id, trigger, check_type, status, details, exempt, exemption_reason, checked_at FROM audits
+             WHERE run_id IN (
+                 SELECT run_id FROM audits WHERE run_id IS NOT NULL AND ($1::text IS NULL OR did = $1)
+                 GROUP BY run_id ORDER BY MAX(checked_at) DESC LIMIT $2
+             ) AND ($1::text IS NULL OR did = $1)
+             ORDER BY id ASC`,
+            [typeof did === 'string' ? did : null, limit]
+        );
+
+        const history = new Map<string, {
+            runId: string;
+            did: string | null;
+            trigger: string;
+            checkedAt: string;
+            status: 'valid' | 'invalid';
+            exempt: boolean;
+            exemptionReason: string | null;
+            checks: { checkType: string; status: string; details: string; checkedAt: string }[];
+        }>();
+
+        for (const row of rows) {
+            const key = `${row.run_id}|${row.did}`;
+            if (!history.has(key)) {
+                history.set(key, {
+                    runId: row.run_id,
+                    did: row.did,
+                    trigger: row.trigger,
+                    checkedAt: row.checked_at,
+                    status: 'valid',
+                    exempt: row.exempt === true,
+                    exemptionReason: row.exemption_reason,
+                    checks: []
+                });
+            }
+            const entry = history.get(key)!;
+            entry.checks.push({ checkType: row.check_type, status: row.status, details: row.details, checkedAt: row.checked_at });
+            if (row.status !== 'valid') entry.status = 'invalid';
+        }
+
+        res.json([...history.values()].reverse());
+    } catch (err) {
+        res.status(500).json({ error: err instanceof Error ? err.message : 'Unknown error' });
+    }
+});
+
+/**
+ * Active trust exemptions (?did= for one DID, ?all=true to include expired ones)
+ * GET /api/watcher/exemptions
+ */
+app.get('/api/watcher/exemptions', async (req, res) => {
+    const { did, all } = req.query;
+
+    try {
+        const { rows } = await pool.query(
+            `SELECT did, reason, added_by, created_at, expires_at FROM audit_exemptions
+             WHERE ($1::text IS NULL OR did = $1) AND ($2 OR expires_at > NOW())
+             ORDER BY expires_at ASC`,
+            [typeof did === 'string' ? did : null, all === 'true']
+        );
+        res.json(rows.map(toExemption));
+    } catch (err) {
+        res.status(500).json({ error: err instanceof Error ? err.message : 'Unknown error' });
+    }
+});
+
+/**
+ * Exempt a DID from integrity enforcement until expiresAt (replaces an existing exemption)
+ * POST /api/watcher/exemptions
+ *
+ * Operators only (see authenticateOperator); the exemption is recorded as
+ * added by the operator and may last at most WATCHER_MAX_EXEMPTION_DAYS.
+ */
+app.post('/api/watcher/exemptions', async (req, res) => {
+    const { did, reason, expiresAt } = req.body || {};
+
+    const addedBy = authenticateOperator(req);
+    if (!addedBy) {
+        return res.status(401).json({ error: 'Unauthorized' });
+    }
+    if (typeof did !== 'string' || !did.startsWith('did:')) {
+        return res.status(400).json({ error: 'did must be a DID string' });
+    }
+    if (typeof reason !== 'string' || reason.trim() === '') {
+        return res.status(400).json({ error: 'reason is required' });
+    }
+    const expires = new Date(expiresAt);
+    if (typeof expiresAt !== 'string' || isNaN(expires.getTime()) || expires.getTime() <= Date.now()) {
+        return res.status(400).json({ error: 'expiresAt must be a future ISO date' });
+    }
+    if (expires.getTime() > Date.now() + MAX_EXEMPTION_DAYS * 24 * 60 * 60 * 1000) {
+        return res.status(400).json({ error: `expiresAt must be at most ${MAX_EXEMPTION_DAYS} days ahead` });
+    }
+
+    try {
+        const { rows: identities } = await pool.query('SELECT did FROM identities WHERE did = $1', [did]);
+        if (identities.length === 0) {
+            return res.status(404).json({ error: 'Identity not found' });
+        }
+
+        const { rows: [row] } = await pool.query(
+            `INSERT INTO audit_exemptions (did, reason, added_by, expires_at) VALUES ($1, $2, $3, $4)
+             ON CONFLICT (did) DO UPDATE SET reason = $2, added_by = $3, expires_at = $4, created_at = NOW()
+             RETURNING did, reason, added_by, created_at, expires_at`,
+            [did, reason.trim(), addedBy, expires]
+        );
+        log.warn('Trust exemption added', { did, reason, addedBy, expiresAt: expires.toISOString() });
+        res.status(201).json(toExemption(row));
+    } catch (err) {
+        res.status(500).json({ error: err instanceof Error ? err.message : 'Unknown error' });
+    }
+});
+
+/**
+ * Revoke the exemption of a DID; it is enforced again from the next audit
+ * DELETE /api/watcher/exemptions/:did
+ */
+app.delete('/api/watcher/exemptions/:did', async (req, res) => {
+    const revokedBy = authenticateOperator(req);
+    if (!revokedBy) {
+        return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    try {
+        const result = await pool.query('DELETE FROM audit_exemptions WHERE did = $1', [req.params.did]);
+        if (result.rowCount === 0) {
+            return res.status(404).json({ error: 'No exemption for this DID' });
+        }
+        log.info('Trust exemption revoked', { did: req.params.did, revokedBy });
+        res.json({ success: true, did: req.params.did });
+    } catch (err) {
+        res.status(500).json({ error: err instanceof Error ? err.message : 'Unknown error' });
+    }
+});
+
+/**
+ * Run summary with its progress so far
+ * GET /api/watcher/runs/:runId
+ */
+app.get('/api/watcher/runs/:runId', (req, res) => {
+    const run = runs.get(req.params.runId);
+    if (!run) {
+        return res.status(404).json({ error: 'Audit run not found' });
+    }
+    res.json(serializeRun(run, true));
+});
+
+/**
+ * Stream the progress of a run as Server-Sent Events (earlier progress is replayed first)
+ * GET /api/watcher/runs/:runId/stream
+ */
+app.get('/api/watcher/runs/:runId/stream', (req, res) => {
+    const run = runs.get(req.params.runId);
+    if (!run) {
+        return res.status(404).json({ error: 'Audit run not found' });
+    }
+
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+    });
+
+    const send = (event: AuditProgressEvent) => {
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+        if (event.type === 'completed' || event.type === 'failed') {
+            res.end();
+        }
+    };
+
+    run.progress.forEach(send);
+    if (run.status !== 'running') {
+        return;
+    }
+
+    run.emitter.on('progress', send);
+    req.on('close', () => run.emitter.off('progress', send));
+});
+
+// ============================================
+// Startup
+// ============================================
+
 log.info('Watcher starting...');
 runAudit();
-const auditJob = new CronJob('*/5 * * * *', runAudit);
+const auditJob = new CronJob(AUDIT_SCHEDULE, () => runAudit());
 auditJob.start();
 
-
+const PORT = process.env.WATCHER_PORT || 3002;
+app.listen(PORT, () => {
+    log.info(`Watcher API running on port ${PORT}`, { schedule: AUDIT_SCHEDULE });
+});
@@ -0,0 +1,271 @@
+/**
+ * Batching Policy Engine
+ *
+ * Decides when the witness anchors a batch, combining:
+ * - Event count (minEvents) and maximum wait of the oldest event (maxWaitMs)
+ * - Priority event types that anchor immediately (deactivations, ownership transfers)
+ * - Current gas price: other batches are deferred while gas is above maxGasPriceGwei,
+ *   for at most maxDeferMs past the normal wait
+ * - A daily gas budget that no batch may exceed
+ *
+ * The decision is a pure function of the policy and a snapshot of the pending
+ * events, so policies can be tested against the SimulatedGasOracle without a chain.
+ *
+ * Configured per deployment with BATCH_POLICY (JSON) or BATCH_POLICY_FILE (path to
+ * a JSON file). BATCH_THRESHOLD and BATCH_MAX_WAIT_MS still set the defaults.
+ */
+
+import * as fs from 'fs';
+
+// ============================================
+// Types
+// ============================================
+
+export interface BatchingPolicy {
+    minEvents: number;                 // Anchor as soon as this many events are pending
+    maxWaitMs: number;                 // ... or once the oldest event waited this long
+    maxBatchSize: number;              // Events per anchored batch
+    priorityEventTypes: string[];      // Event types that anchor immediately
+    maxGasPriceGwei: number | null;    // Defer non-priority batches above this gas price
+    maxDeferMs: number;                // Longest deferral for gas price past maxWaitMs
+    dailyGasBudgetEth: number | null;  // Hard limit on anchoring cost per UTC day
+    estimatedGasPerBatch: number;      // Gas units of one anchor transaction (for the budget)
+}
+
+export type BatchReason = 'priority' | 'threshold' | 'timeout' | 'gas-deadline';
+export type DeferReason = 'empty' | 'waiting' | 'gas-price' | 'budget';
+
+export interface BatchSnapshot {
+    pendingCount: number;
+    priorityCount: number;
+    oldestTimestamp: number | null;    // Unix ms of the oldest pending event
+    now: number;                       // Unix ms
+    gasPriceWei: bigint;
+    spentTodayWei: bigint;             // Anchoring cost so far today
+}
+
+export type BatchDecision =
+    | { anchor: true; reason: BatchReason; details: string; gasPriceGwei: number }
+    | { anchor: false; reason: DeferReason; details: string; gasPriceGwei: number };
+
+/**
+ * Source of the current gas price in wei (anchor backends implement this too)
+ */
+export interface GasOracle {
+    getGasPrice(): Promise<bigint>;
+}
+
+export const DEFAULT_BATCHING_POLICY: BatchingPolicy = {
+    minEvents: 1,
+    maxWaitMs: 30000,
+    maxBatchSize: 100,
+    priorityEventTypes: ['deactivate', 'ownership_transfer'],
+    maxGasPriceGwei: null,
+    maxDeferMs: 6 * 60 * 60 * 1000,
+    dailyGasBudgetEth: null,
+    estimatedGasPerBatch: 100000
+};
+
+// ============================================
+// Helper Functions
+// ============================================
+
+export function gweiToWei(gwei: number): bigint {
+    return BigInt(Math.round(gwei * 1e9));
+}
+
+export function weiToGwei(wei: bigint): number {
+    return Number(wei) / 1e9;
+}
+
+function ethToWei(eth: number): bigint {
+    return gweiToWei(eth * 1e9);
+}
+
+function seconds(ms: number): number {
+    return Math.floor(ms / 1000);
+}
+
+// ============================================
+// Policy Evaluation
+// ============================================
+
+/**
+ * Decide whether to anchor the pending events now, and why
+ */
+export function evaluateBatchPolicy(policy: BatchingPolicy, snapshot: BatchSnapshot): BatchDecision {
+    const gasPriceGwei = weiToGwei(snapshot.gasPriceWei);
+
+    if (snapshot.pendingCount === 0) {
+        return { anchor: false, reason: 'empty', details: 'No unanchored events', gasPriceGwei };
+    }
+
+    const waitMs = snapshot.oldestTimestamp !== null ? Math.max(0, snapshot.now - snapshot.oldestTimestamp) : 0;
+
+    let reason: BatchReason;
+    if (snapshot.priorityCount > 0) {
+        reason = 'priority';
+    } else if (snapshot.pendingCount >= policy.minEvents) {
+        reason = 'threshold';
+    } else if (waitMs >= policy.maxWaitMs) {
+        reason = 'timeout';
+    } else {
+        return {
+            anchor: false,
+            reason: 'waiting',
+            details: `${snapshot.pendingCount}/${policy.minEvents} events, waited ${seconds(waitMs)}s of ${seconds(policy.maxWaitMs)}s`,
+            gasPriceGwei
+        };
+    }
+
+    // The daily budget is a hard limit, also for priority events
+    if (policy.dailyGasBudgetEth !== null) {
+        const estimatedCost = snapshot.gasPriceWei * BigInt(policy.estimatedGasPerBatch);
+        if (snapshot.spentTodayWei + estimatedCost > ethToWei(policy.dailyGasBudgetEth)) {
+            return {
+                anchor: false,
+                reason: 'budget',
+                details: `Daily gas budget of ${policy.dailyGasBudgetEth} ETH would be exceeded`,
+                gasPriceGwei
+            };
+        }
+    }
+
+    // Priority events anchor at any price; others wait for cheaper gas until the deferral deadline
+    if (policy.maxGasPriceGwei !== null && reason !== 'priority' && gasPriceGwei > policy.maxGasPriceGwei) {
+        if (waitMs < policy.maxWaitMs + policy.maxDeferMs) {
+            return {
+                anchor: false,
+                reason: 'gas-price',
+                details: `Gas price ${gasPriceGwei} gwei above ${policy.maxGasPriceGwei} gwei`,
+                gasPriceGwei
+            };
+        }
+        reason = 'gas-deadline';
+    }
+
+    const details = {
+        'priority': `${snapshot.priorityCount} priority event(s) pending`,
+        'threshold': `${snapshot.pendingCount} events reached threshold of ${policy.minEvents}`,
+        'timeout': `Oldest event waited ${seconds(waitMs)}s`,
+        'gas-deadline': `Deferred for gas too long (${seconds(waitMs)}s), anchoring at ${gasPriceGwei} gwei`
+    }[reason];
+
+    return { anchor: true, reason, details, gasPriceGwei };
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+// Helper: Validation of every policy field
+const isCount = (v: unknown) => Number.isInteger(v) && (v as number) >= 1;
+const isDuration = (v: unknown) => typeof v === 'number' && Number.isFinite(v) && v >= 0;
+const isPositiveOrNull = (v: unknown) => v === null || (typeof v === 'number' && Number.isFinite(v) && v > 0);
+
+const POLICY_FIELDS: Record<keyof BatchingPolicy, { valid: (v: unknown) => boolean; expected: string }> = {
+    minEvents: { valid: isCount, expected: 'an integer >= 1' },
+    maxWaitMs: { valid: isDuration, expected: 'a number of ms >= 0' },
+    maxBatchSize: { valid: isCount, expected: 'an integer >= 1' },
+    priorityEventTypes: { valid: v => Array.isArray(v) && v.every(t => typeof t === 'string'), expected: 'an array of event types' },
+    maxGasPriceGwei: { valid: isPositiveOrNull, expected: 'a positive number of gwei or null' },
+    maxDeferMs: { valid: isDuration, expected: 'a number of ms >= 0' },
+    dailyGasBudgetEth: { valid: isPositiveOrNull, expected: 'a positive number of ETH or null' },
+    estimatedGasPerBatch: { valid: isCount, expected: 'an integer >= 1' }
+};
+
+// Helper: Parse a policy given as JSON
+function parsePolicyOverrides(json: string, source: string): Partial<BatchingPolicy> {
+    let overrides: unknown;
+    try {
+        overrides = JSON.parse(json);
+    } catch (error) {
+        throw new Error(`Invalid batching policy: ${source} is not valid JSON (${error instanceof Error ? error.message : error})`);
+    }
+    if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+        throw new Error(`Invalid batching policy: ${source} must be a JSON object`);
+    }
+    const unknown = Object.keys(overrides).filter(key => !(key in POLICY_FIELDS));
+    if (unknown.length > 0) {
+        throw new Error(`Invalid batching policy: unknown field(s) ${unknown.join(', ')} in ${source}`);
+    }
+    return overrides as Partial<BatchingPolicy>;
+}
+
+/**
+ * Load the deployment's batching policy from the environment
+ * Throws if any field (including BATCH_THRESHOLD and BATCH_MAX_WAIT_MS) is invalid.
+ */
+export function loadBatchingPolicy(env: NodeJS.ProcessEnv = process.env): BatchingPolicy {
+    const defaults: BatchingPolicy = {
+        ...DEFAULT_BATCHING_POLICY,
+        minEvents: env.BATCH_THRESHOLD ? Number(env.BATCH_THRESHOLD) : DEFAULT_BATCHING_POLICY.minEvents,
+        maxWaitMs: env.BATCH_MAX_WAIT_MS ? Number(env.BATCH_MAX_WAIT_MS) : DEFAULT_BATCHING_POLICY.maxWaitMs
+    };
+
+    let overrides: Partial<BatchingPolicy> = {};
+    if (env.BATCH_POLICY_FILE) {
+        overrides = parsePolicyOverrides(fs.readFileSync(env.BATCH_POLICY_FILE, 'utf-8'), env.BATCH_POLICY_FILE);
+    } else if (env.BATCH_POLICY) {
+        overrides = parsePolicyOverrides(env.BATCH_POLICY, 'BATCH_POLICY');
+    }
+
+    const policy = { ...defaults, ...overrides };
+
+    const invalid = (Object.keys(POLICY_FIELDS) as Array<keyof BatchingPolicy>)
+        .filter(field => !POLICY_FIELDS[field].valid(policy[field]))
+        .map(field => `${field} must be ${POLICY_FIELDS[field].expected} (got ${JSON.stringify(policy[field])})`);
+    if (invalid.length > 0) {
+        throw new Error(`Invalid batching policy: ${invalid.join('; ')}`);
+    }
+    return policy;
+}
+
+// ============================================
+// Gas Oracles
+// ============================================
+
+/**
+ * Replays a fixed series of gas prices (gwei), one per call, for testing policies
+ */
+export class SimulatedGasOracle implements GasOracle {
+    private calls = 0;
+
+    constructor(private readonly pricesGwei: number[]) {
+        if (pricesGwei.length === 0) {
+            throw new Error('SimulatedGasOracle needs at least one price');
+        }
+    }
+
+    public async getGasPrice(): Promise<bigint> {
+        const price = this.pricesGwei[this.calls % this.pricesGwei.length];
+        this.calls++;
+        return gweiToWei(price);
+    }
+}
+
+/**
+ * Gas oracle for the witness: the anchor backend's own gas price, or a simulated
+ * series with GAS_ORACLE=simulated and SIMULATED_GAS_PRICES_GWEI (comma-separated)
+ */
+export function createGasOracle(backend: GasOracle, env: NodeJS.ProcessEnv = process.env): GasOracle {
+    if (env.GAS_ORACLE === 'simulated') {
+        const prices = (env.SIMULATED_GAS_PRICES_GWEI || '20,35,80,15').split(',').map(p => p.trim());
+        const invalid = prices.filter(p => p === '' || !(Number(p) >= 0) || !Number.isFinite(Number(p)));
+        if (invalid.length > 0) {
+            throw new Error(`Invalid SIMULATED_GAS_PRICES_GWEI: ${invalid.map(p => JSON.stringify(p)).join(', ')} is not a gas price in gwei`);
+        }
+        return new SimulatedGasOracle(prices.map(Number));
+    }
+    return backend;
+}
+
+export const batchingPolicy = {
+    evaluateBatchPolicy,
+    loadBatchingPolicy,
+    createGasOracle,
+    gweiToWei,
+    weiToGwei
+};
+
+export default batchingPolicy;
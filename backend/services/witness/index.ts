@@ -1,11 +1,15 @@
 import { CronJob } from 'cron';
-import { Pool } from 'pg';
-import { ethers } from 'ethers';
+import { Pool, type PoolClient } from 'pg';
 import { MerkleTree } from 'merkletreejs';
 import { sha256 } from '@noble/hashes/sha256';
 import 'dotenv/config';
 import { createServiceLogger } from '../../utils/logger.js';
 import { witnessFileManager, AnchoringProof } from '../../utils/witnessFileManager.js';
+import { createDataIntegrityProof, publicKeyToDidKey, getAttestedData } from '../../utils/dataIntegrity.js';
+import { MerkleMountainRange, leafCountForSize, type MMRConsistencyProof } from '../../utils/mmr.js';
+import { keyManagementService, Signer } from '../keyManagement/index.js';
+import { getAnchorBackend, type AnchorBackend, type AnchorBackendName, type AnchorReceipt } from '../anchoring/index.js';
+import { evaluateBatchPolicy, loadBatchingPolicy, createGasOracle, type GasOracle } from './batchingPolicy.js';
 
 // Initialize structured logger
 const log = createServiceLogger('witness');
@@ -23,14 +27,6 @@ pool.on('error', (err) => {
     log.error('Unexpected error on idle database client', err);
 });
 
-// Contract ABI for the anchor function
-const CONTRACT_ABI = [
-    "function anchor(bytes32 merkleRoot) external returns (uint256 batchId)",
-    "function getBatch(uint256 batchId) external view returns (bytes32 root, uint256 timestamp, uint256 blockNum)",
-    "function batchCount() external view returns (uint256)",
-    "event Anchored(uint256 indexed batchId, bytes32 indexed root, uint256 timestamp, uint256 blockNumber)"
-];
-
 // Helper: Hash function for Merkle tree nodes
 const sha256Buffer = (data: Buffer | string): Buffer => {
     const hash = sha256(typeof data === 'string' ? Buffer.from(data) : data);
@@ -43,6 +39,165 @@ function hexToBuffer(hex: string): Buffer {
     return Buffer.from(cleanHex, 'hex');
 }
 
+// Helper: Load the Ed25519 key this witness uses to sign its attestations (did:key identity)
+let witnessSigner: Signer | null = null;
+
+async function getWitnessSigner(): Promise<Signer> {
+    if (witnessSigner) {
+        return witnessSigner;
+    }
+
+    // A key generated on the fly would give the witness a new did:key on every start
+    const keyId = process.env.WITNESS_KEY_ID;
+    if (!keyId) {
+        throw new Error('WITNESS_KEY_ID is not set (create a witness key with `npm run generate-witness-key`)');
+    }
+
+    const signer = await keyManagementService.createSigner(keyId);
+    if (!signer) {
+        throw new Error(`Witness key ${keyId} not found`);
+    }
+
+    witnessSigner = signer;
+    log.info('Witness signing key loaded', { keyId, witnessDid: publicKeyToDidKey(signer.publicKey) });
+    return signer;
+}
+
+// Helper: Add this witness's attestation to an anchoring proof (idempotent per witness)
+async function attest(proof: AnchoringProof): Promise<AnchoringProof> {
+    const signer = await getWitnessSigner();
+    const witnessDid = publicKeyToDidKey(signer.publicKey);
+    const existing = (proof.proof || []).filter(p => !p.verificationMethod.startsWith(`${witnessDid}#`));
+    const attestation = await createDataIntegrityProof(getAttestedData(proof), signer);
+
+    return { ...proof, proof: [...existing, attestation] };
+}
+
+// Helper: Load the persisted MMR accumulator
+async function loadAccumulator(): Promise<MerkleMountainRange> {
+    const { rows } = await pool.query('SELECT position, hash FROM mmr_nodes ORDER BY position ASC');
+    rows.forEach((row, i) => {
+        if (Number(row.position) !== i) {
+            throw new Error(`MMR node ${i} is missing from mmr_nodes`);
+        }
+    });
+    return new MerkleMountainRange(rows.map(row => row.hash));
+}
+
+// Helper: Persist the nodes appended since `fromPosition` (in the caller's transaction)
+async function persistAccumulator(client: PoolClient, mmr: MerkleMountainRange, fromPosition: number): Promise<void> {
+    const nodes = mmr.getNodes(fromPosition);
+    await client.query(
+        `INSERT INTO mmr_nodes (position, hash)
+         SELECT * FROM unnest($1::int[], $2::text[])
+         ON CONFLICT (position) DO NOTHING`,
+        [nodes.map((_, i) => fromPosition + i), nodes]
+    );
+}
+
+// Helper: Consistency proof from the last anchored MMR root to the accumulator's current root
+// Fails if the accumulator no longer reproduces that root, i.e. anchored history was rewritten.
+async function buildConsistencyProof(mmr: MerkleMountainRange): Promise<MMRConsistencyProof | null> {
+    const { rows } = await pool.query(
+        'SELECT batch_id, merkle_root, mmr_size FROM batches WHERE mmr_size IS NOT NULL ORDER BY batch_id DESC LIMIT 1'
+    );
+    if (rows.length === 0) {
+        return null;
+    }
+
+    const previous = rows[0];
+    const previousSize = Number(previous.mmr_size);
+    if (previousSize > mmr.size || mmr.getRoot(previousSize) !== String(previous.merkle_root).toLowerCase()) {
+        throw new Error(`MMR accumulator does not reproduce the anchored root of batch ${previous.batch_id}`);
+    }
+    return mmr.getConsistencyProof(previousSize);
+}
+
+// Helper: Rebuild the MMR root at a given size from the events' own leaf hashes
+async function rebuildAccumulatorRoot(mmrSize: number): Promise<string | null> {
+    const leafCount = leafCountForSize(mmrSize);
+    const { rows } = await pool.query(
+        `SELECT leaf_hash FROM events
+         WHERE witness_proofs ? 'mmrSize' AND (witness_proofs->>'leafIndex')::int < $1
+         ORDER BY (witness_proofs->>'leafIndex')::int ASC`,
+        [leafCount]
+    );
+
+    if (rows.length !== leafCount) {
+        return null;
+    }
+    const mmr = MerkleMountainRange.fromLeaves(rows.map(row => row.leaf_hash));
+    return mmr.size === mmrSize ? mmr.getRoot() : null;
+}
+
+// Helper: Write the proofs of a finalized batch to the did-witness.json files
+async function syncWitnessFiles(scidGroups: Map<string, AnchoringProof[]>): Promise<void> {
+    log.info('Syncing proofs to did-witness.json files...', { scidCount: scidGroups.size });
+    for (const [scid, proofs] of scidGroups.entries()) {
+        try {
+            await witnessFileManager.addProofs(scid, proofs);
+        } catch (err) {
+            log.error('Failed to write witness file during batch', { scid, error: err });
+            // Continue to next SCID, don't fail the whole batch
+        }
+    }
+}
+
+// Retry policy for failed anchoring: exponential backoff, dead-letter after the last attempt
+const MAX_ANCHOR_ATTEMPTS = parseInt(process.env.ANCHOR_MAX_ATTEMPTS || '8');
+const RETRY_BASE_MS = parseInt(process.env.ANCHOR_RETRY_BASE_MS || '30000');
+const RETRY_MAX_MS = parseInt(process.env.ANCHOR_RETRY_MAX_MS || '3600000');
+
+// Events waiting to be anchored: queued, or failed with their backoff elapsed.
+// Dead-lettered events stay out until they are requeued through the API.
+const READY_TO_ANCHOR = `witness_proofs IS NULL AND anchor_status IN ('queued', 'failed')
+    AND (next_attempt_at IS NULL OR next_attempt_at <= $1)`;
+
+// Helper: Return in-flight events to the queue without counting an attempt
+async function releaseEvents(eventIds: number[]): Promise<void> {
+    await pool.query(
+        `UPDATE events SET anchor_status = 'queued' WHERE id = ANY($1) AND anchor_status = 'in_flight'`,
+        [eventIds]
+    );
+}
+
+// Helper: Record a failed anchoring attempt for the in-flight events
+async function recordAnchoringFailure(eventIds: number[], error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    const { rows } = await pool.query(
+        `UPDATE events SET
+             anchor_attempts = anchor_attempts + 1,
+             last_error = $2,
+             anchor_status = CASE WHEN anchor_attempts + 1 >= $3 THEN 'dead_letter' ELSE 'failed' END,
+             next_attempt_at = CASE WHEN anchor_attempts + 1 >= $3 THEN NULL
+                                    ELSE $4 + LEAST($5 * POWER(2, anchor_attempts), $6)::bigint END
+         WHERE id = ANY($1) AND anchor_status = 'in_flight'
+         RETURNING id, did, anchor_status, anchor_attempts, next_attempt_at`,
+        [eventIds, message, MAX_ANCHOR_ATTEMPTS, Date.now(), RETRY_BASE_MS, RETRY_MAX_MS]
+    );
+
+    const deadLettered = rows.filter(row => row.anchor_status === 'dead_letter');
+    if (deadLettered.length > 0) {
+        log.error('Events dead-lettered after repeated anchoring failures', {
+            eventIds: deadLettered.map(row => row.id),
+            attempts: MAX_ANCHOR_ATTEMPTS,
+            error: message
+        });
+    }
+    if (rows.length > deadLettered.length) {
+        const nextAttempt = Math.min(...rows.filter(row => row.anchor_status === 'failed').map(row => Number(row.next_attempt_at)));
+        log.warn('Anchoring failed, events scheduled for retry', {
+            eventCount: rows.length - deadLettered.length,
+            retryInSec: Math.max(0, Math.floor((nextAttempt - Date.now()) / 1000)),
+            error: message
+        });
+    }
+}
+
+// Batching policy of this deployment (BATCH_POLICY / BATCH_POLICY_FILE)
+const policy = loadBatchingPolicy();
+let gasOracle: GasOracle | null = null;
+
 // Global flag to prevent concurrent batch processing
 let isProcessing = false;
 
@@ -56,169 +211,138 @@ async function processBatch() {
     log.debug('Starting batch processing check');
     isProcessing = true;
 
+    // Events of this batch that are in flight, so a failure can be recorded against them
+    let inFlightIds: number[] = [];
+
     try {
-        // A. Fetch unanchored events (events with NULL witness_proofs)
-        const { rows: events } = await pool.query(`
-      SELECT e.id, e.did, e.event_type, e.leaf_hash, e.version_id 
-      FROM events e
-      WHERE e.witness_proofs IS NULL
-      ORDER BY e.timestamp ASC
-      LIMIT 100
-    `);
-
-        if (events.length === 0) {
+        // A. Snapshot of the events ready to anchor (queued, or failed and due for a retry)
+        const { rows: [pending] } = await pool.query(
+            `SELECT COUNT(*) AS pending_count, MIN(timestamp) AS oldest_ts,
+                    COUNT(*) FILTER (WHERE event_type = ANY($2)) AS priority_count
+             FROM events WHERE ${READY_TO_ANCHOR}`,
+            [Date.now(), policy.priorityEventTypes]
+        );
+
+        if (Number(pending.pending_count) === 0) {
             log.debug('No unanchored events found, skipping batch');
             return;
         }
 
-        // B. Check threshold and timeout
-        const threshold = parseInt(process.env.BATCH_THRESHOLD || '1');
-        const maxWaitMs = parseInt(process.env.BATCH_MAX_WAIT_MS || '30000'); // Default 30 seconds
-
-        // Find oldest unanchored event to check wait time
-        const { rows: oldest } = await pool.query('SELECT MIN(timestamp) as oldest_ts FROM events WHERE witness_proofs IS NULL');
-        
-        // Handle PG BIGINT coming back as string
-        const oldestTsStr = oldest[0]?.oldest_ts;
-        const oldestTs = oldestTsStr ? Number(oldestTsStr) : Date.now();
-        const waitTime = Date.now() - oldestTs;
-
-        if (events.length < threshold && waitTime < maxWaitMs) {
-            log.info('Threshold not met and timeout not reached, skipping batch', {
-                currentCount: events.length,
-                threshold,
-                waitTimeSec: Math.floor(waitTime / 1000),
-                maxWaitSec: Math.floor(maxWaitMs / 1000),
-                remainingSec: Math.max(0, Math.floor((maxWaitMs - waitTime) / 1000))
+        // B. Ask the batching policy whether to anchor now
+        const anchorBackend = getAnchorBackend();
+        gasOracle = gasOracle || createGasOracle(anchorBackend);
+
+        const { rows: [spent] } = await pool.query(
+            `SELECT COALESCE(SUM(gas_cost_wei), 0) AS spent FROM batches WHERE timestamp >= date_trunc('day', NOW())`
+        );
+
+        // Handle PG BIGINT / NUMERIC coming back as strings
+        const decision = evaluateBatchPolicy(policy, {
+            pendingCount: Number(pending.pending_count),
+            priorityCount: Number(pending.priority_count),
+            oldestTimestamp: pending.oldest_ts !== null ? Number(pending.oldest_ts) : null,
+            now: Date.now(),
+            gasPriceWei: await gasOracle.getGasPrice(),
+            spentTodayWei: BigInt(String(spent.spent))
+        });
+
+        if (!decision.anchor) {
+            log.info('Batch deferred by policy', {
+                reason: decision.reason,
+                details: decision.details,
+                gasPriceGwei: decision.gasPriceGwei
             });
             return;
         }
 
+        // Priority events first, so they are never left behind by maxBatchSize
+        const { rows: events } = await pool.query(
+            `SELECT e.id, e.did, e.event_type, e.leaf_hash, e.version_id
+             FROM events e
+             WHERE ${READY_TO_ANCHOR}
+             ORDER BY (e.event_type = ANY($2)) DESC, e.timestamp ASC
+             LIMIT $3`,
+            [Date.now(), policy.priorityEventTypes, policy.maxBatchSize]
+        );
+
+        inFlightIds = events.map(e => e.id);
+        await pool.query(`UPDATE events SET anchor_status = 'in_flight' WHERE id = ANY($1)`, [inFlightIds]);
+
         log.info('Batch triggered!', {
             eventCount: events.length,
-            reason: events.length >= threshold ? 'threshold' : 'timeout',
-            waitTimeSec: Math.floor(waitTime / 1000)
+            reason: decision.reason,
+            details: decision.details,
+            gasPriceGwei: decision.gasPriceGwei
         });
 
-        // B. Build Merkle Tree
+        // B. Append the events to the MMR accumulator
         // Use the leaf_hash directly as the leaf (it's already a SHA256 hash)
         const leaves = events.map(e => {
             if (e.leaf_hash) {
-                return hexToBuffer(e.leaf_hash);
+                return '0x' + hexToBuffer(e.leaf_hash).toString('hex');
             }
             // Fallback for old events without leaf_hash
             const hash = sha256(Buffer.from(e.version_id, 'utf8'));
-            return Buffer.from(hash);
+            return '0x' + Buffer.from(hash).toString('hex');
         });
 
-        const tree = new MerkleTree(leaves, sha256Buffer, { sortPairs: true });
-        const root = tree.getHexRoot();
-
-        log.info('Merkle tree built', { merkleRoot: root, leafCount: leaves.length });
-
-        // C. Anchor to Blockchain
-        const rpcUrl = process.env.RPC_URL || "http://blockchain:8545";
-        const provider = new ethers.JsonRpcProvider(rpcUrl);
-
-        let privateKey = process.env.RELAYER_PRIVATE_KEY;
-        if (!privateKey) {
-            throw new Error('RELAYER_PRIVATE_KEY not set');
-        }
-
-        // Ensure 0x prefix for ethers
-        if (!privateKey.startsWith('0x')) {
-            privateKey = '0x' + privateKey;
-        }
-
-        const wallet = new ethers.Wallet(privateKey, provider);
+        const mmr = await loadAccumulator();
+        const previousSize = mmr.size;
+        const leafIndices = leaves.map(leaf => mmr.append(leaf).leafIndex);
+        const root = mmr.getRoot();
 
-        log.info('Relayer status', {
-            address: wallet.address,
-            eventsFound: events.length,
-            rpc: rpcUrl.split('@')[rpcUrl.split('@').length - 1] // Hide credentials if any
-        });
+        // Prove the new root only extends the previously anchored one
+        const consistencyProof = await buildConsistencyProof(mmr);
 
-        // Check balance
-        const balance = await provider.getBalance(wallet.address);
-        log.info('Balance check', {
-            balance: ethers.formatEther(balance) + ' ETH',
-            network: (await provider.getNetwork()).name
+        log.info('MMR accumulator updated', {
+            merkleRoot: root,
+            leafCount: leaves.length,
+            totalLeaves: mmr.leafCount,
+            mmrSize: mmr.size
         });
 
-        if (balance === 0n && !rpcUrl.includes('localhost') && !rpcUrl.includes('127.0.0.1')) {
-            log.error('CRITICAL: Relayer has 0 ETH on Sepolia. Transactions will fail.', { address: wallet.address });
+        // C. Anchor the root on the configured backend (EVM registry, file ledger, ...)
+        if (!(await anchorBackend.isReady())) {
+            await releaseEvents(inFlightIds);
             return;
         }
+        const chainId = await anchorBackend.getChainId();
 
-        const contractAddress = process.env.CONTRACT_ADDRESS;
-        if (!contractAddress) {
-            throw new Error('CONTRACT_ADDRESS not set');
-        }
-
-        const contract = new ethers.Contract(contractAddress, CONTRACT_ABI, wallet);
-
-        log.info('Anchoring to blockchain', { contractAddress, merkleRoot: root });
+        log.info('Anchoring root', {
+            backend: anchorBackend.name,
+            chainId,
+            eventsFound: events.length,
+            merkleRoot: root
+        });
 
-        // Check if this root was already anchored in the last 1000 blocks
+        // Check if this root was already anchored recently
         // (Handles process restarts or double-broadcasts)
-        const filter = contract.filters.Anchored(null, root);
-        const existingEvents = await contract.queryFilter(filter, -1000);
-
-        let receipt;
-        let contractBatchId: number;
+        let receipt = await anchorBackend.findAnchor(root);
 
-        if (existingEvents.length > 0) {
-            const event = existingEvents[0] as any;
-            contractBatchId = Number(event.args.batchId);
-            const txHash = event.transactionHash;
+        if (receipt) {
             log.info('Merkle root already anchored, recovery mode', {
-                batchId: contractBatchId,
-                txHash
+                batchId: receipt.batchId,
+                txHash: receipt.txHash
             });
-            receipt = await provider.getTransactionReceipt(txHash);
-
-            if (!receipt) {
-                throw new Error(`Could not fetch receipt for existing transaction ${txHash}`);
-            }
         } else {
-            // Normal path: send new transaction
+            // Normal path: anchor a new root
             try {
-                const tx = await contract.anchor(root);
-                log.info('Transaction sent', { txHash: tx.hash });
-                receipt = await tx.wait();
+                receipt = await anchorBackend.anchor(root);
             } catch (txErr: any) {
                 // If it's already known, it means it's in the mempool.
-                // We'll let the next run pick it up via queryFilter above.
+                // We'll let the next run pick it up via findAnchor above.
                 if (txErr.message?.includes('already known')) {
                     log.warn('Transaction already in mempool, skipping to wait for confirmation', { root });
-                    isProcessing = false;
+                    await releaseEvents(inFlightIds);
                     return;
                 }
                 throw txErr;
             }
-
-            // D. Parse the Anchored event to get the REAL batch ID from the contract
-            const iface = new ethers.Interface(CONTRACT_ABI);
-            const anchoredLog = receipt.logs.find((log: any) => {
-                try {
-                    const parsed = iface.parseLog({ topics: log.topics as string[], data: log.data });
-                    return parsed?.name === 'Anchored';
-                } catch {
-                    return false;
-                }
-            });
-
-            if (anchoredLog) {
-                const parsedEvent = iface.parseLog({ topics: anchoredLog.topics as string[], data: anchoredLog.data });
-                contractBatchId = Number(parsedEvent?.args?.batchId ?? 0);
-                log.info('Parsed Anchored event', { batchId: contractBatchId });
-            } else {
-                log.warn('Could not parse Anchored event from receipt');
-                // Fallback to query contract for latest batch count (less reliable)
-                contractBatchId = Number(await contract.batchCount()) - 1;
-            }
         }
 
+        // D. Use the batch ID assigned by the backend
+        const contractBatchId = receipt.batchId;
+
         // Wait, if contractBatchId is undefined here, something is wrong
         if (contractBatchId === undefined || contractBatchId === null) {
             throw new Error('Failed to determine batchId');
@@ -233,81 +357,129 @@ async function processBatch() {
                     reason: 'Batch 0 anchored but DB has existing batches',
                     action: 'Clearing old batch references'
                 });
-                await pool.query("UPDATE events SET witness_proofs = NULL");
+                await pool.query(
+                    `UPDATE events SET witness_proofs = NULL,
+                         anchor_status = CASE WHEN anchor_status = 'in_flight' THEN anchor_status ELSE 'queued' END`
+                );
                 await pool.query('DELETE FROM batches');
             }
         }
 
-        // E. Store Batch in Database using the CONTRACT's batch ID
-        // Use ON CONFLICT to handle potential race conditions
-        await pool.query(
-            `INSERT INTO batches (batch_id, merkle_root, tx_hash, block_number, status, timestamp) 
-             VALUES ($1, $2, $3, $4, 'confirmed', NOW())
-             ON CONFLICT (batch_id) DO UPDATE SET 
-               merkle_root = EXCLUDED.merkle_root,
-               tx_hash = EXCLUDED.tx_hash,
-               block_number = EXCLUDED.block_number,
-               status = EXCLUDED.status`,
-            [contractBatchId, root, receipt.hash, receipt.blockNumber]
-        );
+        // A batch stays 'anchored' until the witness quorum has confirmed it on-chain and
+        // trackConfirmations has seen enough blocks on top of it
+        const quorum = await anchorBackend.getQuorumStatus(contractBatchId);
 
+        // E-F. The accumulator nodes, the batch and the events' proofs are stored in one
+        // transaction: if any of it fails, the retry appends the leaves to the unchanged
+        // accumulator again (and finds the root already anchored).
+        // (The accumulator survives a blockchain reset: it stays append-only.)
         const batchId = contractBatchId;
-        log.info('Batch anchored successfully', {
-            batchId,
-            merkleRoot: root,
-            txHash: receipt.hash,
-            blockNumber: receipt.blockNumber
-        });
-
-        // F. Update events with batch reference AND individual Merkle proofs
         const scidGroups = new Map<string, AnchoringProof[]>();
+        const client = await pool.connect();
+        try {
+            await client.query('BEGIN');
+            await persistAccumulator(client, mmr, previousSize);
+
+            // E. Store Batch in Database using the CONTRACT's batch ID
+            // Use ON CONFLICT to handle potential race conditions
+            await client.query(
+                `INSERT INTO batches (batch_id, merkle_root, tx_hash, block_number, status, confirmations, required_confirmations, finalized, mmr_size, consistency_proof, anchor_backend, chain_id, batch_reason, gas_price_gwei, gas_cost_wei, timestamp) 
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, NOW())
+                 ON CONFLICT (batch_id) DO UPDATE SET 
+                   merkle_root = EXCLUDED.merkle_root,
+                   tx_hash = EXCLUDED.tx_hash,
+                   block_number = EXCLUDED.block_number,
+                   status = EXCLUDED.status,
+                   confirmations = EXCLUDED.confirmations,
+                   required_confirmations = EXCLUDED.required_confirmations,
+                   finalized = EXCLUDED.finalized,
+                   mmr_size = EXCLUDED.mmr_size,
+                   consistency_proof = EXCLUDED.consistency_proof,
+                   anchor_backend = EXCLUDED.anchor_backend,
+                   chain_id = EXCLUDED.chain_id,
+                   batch_reason = EXCLUDED.batch_reason,
+                   gas_price_gwei = EXCLUDED.gas_price_gwei,
+                   gas_cost_wei = EXCLUDED.gas_cost_wei`,
+                [
+                    contractBatchId, root, receipt.txHash, receipt.blockNumber,
+                    'anchored',
+                    quorum.confirmations, quorum.required, quorum.finalized,
+                    mmr.size, consistencyProof ? JSON.stringify(consistencyProof) : null,
+                    anchorBackend.name, chainId,
+                    decision.reason, decision.gasPriceGwei, receipt.gasCostWei?.toString() ?? null
+                ]
+            );
 
-        for (let i = 0; i < events.length; i++) {
-            const event = events[i];
-
-            // Get the Merkle proof for this specific leaf
-            const proof = tree.getProof(leaves[i]);
-            // Reverse the proof hashes to be root-to-leaf (user preference: "first from above")
-            const proofHashes = proof.map(p => '0x' + p.data.toString('hex')).reverse();
-            const leafHash = '0x' + leaves[i].toString('hex');
-
-            // Store complete witness proof data
-            const witnessProofData: AnchoringProof = {
-                versionId: event.version_id,
-                batchId: batchId,
+            log.info('Batch anchored successfully', {
+                batchId,
                 merkleRoot: root,
-                leafHash: leafHash,
-                merkleProof: proofHashes,
-                leafIndex: i,
-                txHash: receipt.hash,
+                mmrSize: mmr.size,
+                backend: anchorBackend.name,
+                chainId,
+                reason: decision.reason,
+                txHash: receipt.txHash,
                 blockNumber: receipt.blockNumber,
-                timestamp: new Date().toISOString()
-            };
+                confirmations: `${quorum.confirmations}/${quorum.required}`,
+                finalized: quorum.finalized
+            });
 
-            await pool.query(
-                `UPDATE events SET witness_proofs = $1::jsonb WHERE id = $2`,
-                [JSON.stringify(witnessProofData), event.id]
-            );
+            // F. Update events with batch reference AND individual Merkle proofs
+            for (let i = 0; i < events.length; i++) {
+                const event = events[i];
+
+                // MMR inclusion proof for this leaf against the anchored root (leaf -> peak, then peaks)
+                const proof = mmr.getProof(leafIndices[i]);
+
+                // Store complete witness proof data, signed by this witness
+                const witnessProofData: AnchoringProof = await attest({
+                    versionId: event.version_id,
+                    batchId: batchId,
+                    merkleRoot: root,
+                    leafHash: leaves[i],
+                    merkleProof: proof.siblings,
+                    leafIndex: proof.leafIndex,
+                    mmrSize: proof.mmrSize,
+                    peaks: proof.peaks,
+                    txHash: receipt.txHash,
+                    blockNumber: receipt.blockNumber,
+                    chainId,
+                    timestamp: new Date().toISOString()
+                });
 
-            // Group for file writing
-            const scid = event.did.split(':').pop() || '';
-            if (scid) {
-                if (!scidGroups.has(scid)) scidGroups.set(scid, []);
-                scidGroups.get(scid)!.push(witnessProofData);
+                await client.query(
+                    `UPDATE events SET witness_proofs = $1::jsonb, anchor_status = 'anchored', next_attempt_at = NULL, last_error = NULL
+                     WHERE id = $2`,
+                    [JSON.stringify(witnessProofData), event.id]
+                );
+
+                // Group for file writing
+                const scid = event.did.split(':').pop() || '';
+                if (scid) {
+                    if (!scidGroups.has(scid)) scidGroups.set(scid, []);
+                    scidGroups.get(scid)!.push(witnessProofData);
+                }
+
+                log.debug('Stored proof for event', { eventId: event.id, leafIndex: proof.leafIndex, totalLeaves: mmr.leafCount });
             }
 
-            log.debug('Stored proof for event', { eventId: event.id, leafIndex: i, totalLeaves: events.length });
+            await client.query('COMMIT');
+        } catch (err) {
+            await client.query('ROLLBACK').catch(() => undefined);
+            throw err;
+        } finally {
+            client.release();
         }
 
         // G. Sync proofs to did-witness.json files
-        log.info('Syncing proofs to did-witness.json files...', { scidCount: scidGroups.size });
-        for (const [scid, proofs] of scidGroups.entries()) {
-            try {
-                await witnessFileManager.addProofs(scid, proofs);
-            } catch (err) {
-                log.error('Failed to write witness file during batch', { scid, error: err });
-                // Continue to next SCID, don't fail the whole batch
-            }
+        // Pending batches are published by confirmPendingBatches once the quorum is reached
+        if (quorum.finalized) {
+            await syncWitnessFiles(scidGroups);
+        } else {
+            log.info('Batch awaiting witness quorum, deferring did-witness.json sync', {
+                batchId,
+                confirmations: quorum.confirmations,
+                required: quorum.required
+            });
         }
 
         log.info('Batch processing completed', {
@@ -318,32 +490,329 @@ async function processBatch() {
 
     } catch (err) {
         log.error('Batch processing failed', { phase: 'processBatch', error: err });
+        if (inFlightIds.length > 0) {
+            await recordAnchoringFailure(inFlightIds, err).catch(recordErr =>
+                log.error('Failed to record anchoring failure', { error: recordErr })
+            );
+        }
     } finally {
         isProcessing = false;
     }
 }
 
-// Immediate run on startup
-log.info('Witness Engine starting', {
-    rpcUrl: process.env.RPC_URL || 'http://blockchain:8545',
-    contractAddress: process.env.CONTRACT_ADDRESS || 'NOT SET',
-    schedule: 'every 10 seconds (testing mode)'
-});
+// Co-sign and finalize batches that are still waiting for the witness quorum
+let isConfirming = false;
+
+async function confirmPendingBatches() {
+    if (isConfirming) {
+        return;
+    }
+    isConfirming = true;
 
-// Run immediately once, then on schedule
-setTimeout(async () => {
     try {
-        log.info('Running initial batch check');
-        await processBatch();
+        const { rows: pending } = await pool.query(
+            'SELECT batch_id, merkle_root, mmr_size, anchor_backend FROM batches WHERE finalized = FALSE ORDER BY batch_id ASC'
+        );
+
+        if (pending.length === 0) {
+            return;
+        }
+
+        for (const batch of pending) {
+            const batchId = Number(batch.batch_id);
+            // Confirm on the backend that anchored the batch (rows from before backends were recorded are EVM)
+            const anchorBackend = getAnchorBackend((batch.anchor_backend || 'evm') as AnchorBackendName);
+            let quorum = await anchorBackend.getQuorumStatus(batchId);
+
+            if (!quorum.finalized && !(await anchorBackend.hasConfirmed(batchId))) {
+                // Rebuild the root from our own view of the events before co-signing it
+                const { rows: batchEvents } = await pool.query(
+                    `SELECT id, leaf_hash, witness_proofs FROM events
+                     WHERE (witness_proofs->>'batchId')::int = $1
+                     ORDER BY (witness_proofs->>'leafIndex')::int ASC`,
+                    [batchId]
+                );
+
+                // MMR batches commit to every leaf so far; legacy batches only to their own tree
+                let localRoot: string | null;
+                if (batch.mmr_size !== null) {
+                    localRoot = await rebuildAccumulatorRoot(Number(batch.mmr_size));
+                } else {
+                    const leaves = batchEvents.map(e => hexToBuffer(e.leaf_hash));
+                    localRoot = leaves.length > 0
+                        ? new MerkleTree(leaves, sha256Buffer, { sortPairs: true }).getHexRoot()
+                        : null;
+                }
+                const onChainRoot = (await anchorBackend.getBatch(batchId))?.root;
+
+                if (!localRoot || localRoot.toLowerCase() !== String(onChainRoot).toLowerCase()) {
+                    log.error('Refusing to confirm batch: on-chain root does not match local events', {
+                        batchId,
+                        onChainRoot,
+                        localRoot
+                    });
+                    continue;
+                }
+
+                await anchorBackend.confirm(batchId, localRoot);
+                log.info('Batch confirmed', { batchId, backend: anchorBackend.name, witness: anchorBackend.account });
+                quorum = await anchorBackend.getQuorumStatus(batchId);
+
+                // Co-signers add their own attestation next to the anchoring witness's
+                for (const event of batchEvents) {
+                    const cosigned = await attest(event.witness_proofs as AnchoringProof);
+                    await pool.query(
+                        `UPDATE events SET witness_proofs = $1::jsonb WHERE id = $2`,
+                        [JSON.stringify(cosigned), event.id]
+                    );
+                }
+            }
+
+            // The quorum can also be reached when a witness is removed, which the registry
+            // does not finalize by itself
+            if (!quorum.finalized && quorum.confirmations >= quorum.required) {
+                await anchorBackend.finalize(batchId);
+                log.info('Batch finalized after witness removal', { batchId, backend: anchorBackend.name });
+                quorum = await anchorBackend.getQuorumStatus(batchId);
+            }
+
+            await pool.query(
+                `UPDATE batches SET confirmations = $1, required_confirmations = $2, finalized = $3
+                 WHERE batch_id = $4`,
+                [quorum.confirmations, quorum.required, quorum.finalized, batchId]
+            );
+
+            if (!quorum.finalized) {
+                log.info('Batch still pending witness quorum', {
+                    batchId,
+                    confirmations: quorum.confirmations,
+                    required: quorum.required
+                });
+                continue;
+            }
+
+            log.info('Batch finalized by witness quorum', { batchId, confirmations: quorum.confirmations });
+
+            // Publish the now-final proofs to the did-witness.json files
+            const { rows: proofRows } = await pool.query(
+                `SELECT did, witness_proofs FROM events WHERE (witness_proofs->>'batchId')::int = $1`,
+                [batchId]
+            );
+
+            const scidGroups = new Map<string, AnchoringProof[]>();
+            for (const row of proofRows) {
+                const scid = row.did.split(':').pop() || '';
+                if (!scid) continue;
+                if (!scidGroups.has(scid)) scidGroups.set(scid, []);
+                scidGroups.get(scid)!.push(row.witness_proofs as AnchoringProof);
+            }
+
+            await syncWitnessFiles(scidGroups);
+        }
     } catch (err) {
-        log.error('Initial batch check failed', err);
+        log.error('Quorum confirmation failed', { phase: 'confirmPendingBatches', error: err });
+    } finally {
+        isConfirming = false;
     }
-}, 5000);
+}
 
-// Schedule: Run every 10 seconds for testing (change to '*/10 * * * *' for production = every 10 min)
-const batchJob = new CronJob('*/10 * * * * *', async () => {
-    await processBatch();
-});
+// Helper: Point the stored proofs of a batch at a new anchor transaction
+// Witness attestations sign versionId/leafHash/merkleRoot only, so they stay valid.
+async function moveBatchProofs(batchId: number, anchor: AnchorReceipt): Promise<void> {
+    const { rows } = await pool.query(
+        `SELECT id, did, witness_proofs FROM events WHERE (witness_proofs->>'batchId')::int = $1`,
+        [batchId]
+    );
+
+    const scids = new Set<string>();
+    for (const row of rows) {
+        const updated: AnchoringProof = {
+            ...(row.witness_proofs as AnchoringProof),
+            batchId: anchor.batchId,
+            txHash: anchor.txHash,
+            blockNumber: anchor.blockNumber
+        };
+        await pool.query(
+            `UPDATE events SET witness_proofs = $1::jsonb WHERE id = $2`,
+            [JSON.stringify(updated), row.id]
+        );
 
-batchJob.start();
-log.info('Witness Engine scheduled', { interval: '10 seconds', firstRunIn: '5 seconds' });
+        const scid = row.did.split(':').pop() || '';
+        if (scid) scids.add(scid);
+    }
+
+    // Only proofs already published to did-witness.json are rewritten; pending ones follow on finalization
+    for (const scid of scids) {
+        try {
+            await witnessFileManager.updateAnchor(scid, batchId, {
+                batchId: anchor.batchId,
+                txHash: anchor.txHash,
+                blockNumber: anchor.blockNumber
+            });
+        } catch (err) {
+            log.error('Failed to update witness file with new anchor', { scid, batchId, error: err });
+        }
+    }
+}
+
+// Helper: Anchor the root of an orphaned batch again and move the batch to the new transaction
+// Throws if the registry gave the new anchor the ID of another stored batch
+async function reanchorOrphanedBatch(
+    batch: { batch_id: number; merkle_root: string; tx_hash: string | null },
+    anchorBackend: AnchorBackend
+): Promise<void> {
+    const oldBatchId = Number(batch.batch_id);
+    log.warn('Anchor transaction orphaned by reorg, re-anchoring root', {
+        batchId: oldBatchId,
+        txHash: batch.tx_hash,
+        merkleRoot: batch.merkle_root
+    });
+
+    // Stays 'orphaned' if anchoring fails below; the next run retries
+    await pool.query(
+        `UPDATE batches SET status = 'orphaned', block_confirmations = 0 WHERE batch_id = $1`,
+        [oldBatchId]
+    );
+
+    // The root may already be back on chain (re-broadcast, or mined again under another batch ID)
+    const receipt = (await anchorBackend.findAnchor(batch.merkle_root)) || (await anchorBackend.anchor(batch.merkle_root));
+    const quorum = await anchorBackend.getQuorumStatus(receipt.batchId);
+
+    // The registry numbers batches itself, so the new ID may already belong to another stored batch
+    // (e.g. one orphaned by the same reorg). Stays 'orphaned' until that is resolved by hand.
+    if (receipt.batchId !== oldBatchId) {
+        const { rows: [clash] } = await pool.query(
+            'SELECT merkle_root, status FROM batches WHERE batch_id = $1',
+            [receipt.batchId]
+        );
+        if (clash) {
+            throw new Error(
+                `Root of batch ${oldBatchId} is now anchored as batch ${receipt.batchId} (tx ${receipt.txHash}), ` +
+                `which is already stored for root ${clash.merkle_root} (${clash.status})`
+            );
+        }
+    }
+
+    // Co-signers' confirmations may have been orphaned too; confirmPendingBatches picks up non-final batches
+    await pool.query(
+        `UPDATE batches SET batch_id = $1, tx_hash = $2, block_number = $3, status = 'anchored', block_confirmations = 0,
+                confirmations = $4, required_confirmations = $5, finalized = $6
+         WHERE batch_id = $7`,
+        [receipt.batchId, receipt.txHash, receipt.blockNumber, quorum.confirmations, quorum.required, quorum.finalized, oldBatchId]
+    );
+    await moveBatchProofs(oldBatchId, receipt);
+
+    log.info('Orphaned batch re-anchored', {
+        previousBatchId: oldBatchId,
+        batchId: receipt.batchId,
+        txHash: receipt.txHash,
+        blockNumber: receipt.blockNumber
+    });
+}
+
+// Track block confirmations of anchored batches and recover from reorgs
+let isTracking = false;
+
+async function trackConfirmations() {
+    if (isTracking) {
+        return;
+    }
+    isTracking = true;
+
+    try {
+        const { rows: unconfirmed } = await pool.query(
+            `SELECT batch_id, merkle_root, tx_hash, block_number, anchor_backend, finalized FROM batches
+             WHERE status <> 'confirmed' ORDER BY batch_id ASC`
+        );
+
+        for (const batch of unconfirmed) {
+            const batchId = Number(batch.batch_id);
+            const anchorBackend = getAnchorBackend((batch.anchor_backend || 'evm') as AnchorBackendName);
+
+            try {
+                const [head, requiredDepth, includedIn, onChain] = await Promise.all([
+                    anchorBackend.getBlockNumber(),
+                    anchorBackend.getConfirmationDepth(),
+                    batch.tx_hash ? anchorBackend.getTransactionBlock(batch.tx_hash) : Promise.resolve(null),
+                    anchorBackend.getBatch(batchId)
+                ]);
+
+                // Transaction dropped, or the registry's batch no longer holds our root
+                if (includedIn === null || !onChain || onChain.root.toLowerCase() !== String(batch.merkle_root).toLowerCase()) {
+                    await reanchorOrphanedBatch(batch, anchorBackend);
+                    continue;
+                }
+
+                // Same transaction, mined again in another block
+                if (includedIn !== Number(batch.block_number)) {
+                    log.warn('Anchor transaction moved to another block', {
+                        batchId,
+                        previousBlock: batch.block_number,
+                        blockNumber: includedIn
+                    });
+                    await pool.query('UPDATE batches SET block_number = $1 WHERE batch_id = $2', [includedIn, batchId]);
+                    await moveBatchProofs(batchId, { batchId, txHash: batch.tx_hash, blockNumber: includedIn });
+                }
+
+                const depth = head - includedIn + 1;
+                const confirmed = depth >= requiredDepth && Boolean(batch.finalized);
+
+                await pool.query(
+                    'UPDATE batches SET block_confirmations = $1, status = $2 WHERE batch_id = $3',
+                    [depth, confirmed ? 'confirmed' : 'anchored', batchId]
+                );
+
+                if (confirmed) {
+                    log.info('Batch confirmed', { batchId, blockConfirmations: depth, requiredDepth });
+                }
+            } catch (err) {
+                log.error('Confirmation tracking failed for batch', { batchId, error: err });
+            }
+        }
+    } catch (err) {
+        log.error('Confirmation tracking failed', { phase: 'trackConfirmations', error: err });
+    } finally {
+        isTracking = false;
+    }
+}
+
+// The witness signs with a stable key: without it the service does not start
+getWitnessSigner().then(() => {
+    // Immediate run on startup
+    log.info('Witness Engine starting', {
+        anchorBackend: process.env.ANCHOR_BACKEND || 'evm',
+        batchingPolicy: policy,
+        rpcUrl: process.env.RPC_URL || 'http://blockchain:8545',
+        contractAddress: process.env.CONTRACT_ADDRESS || 'NOT SET',
+        schedule: 'every 10 seconds (testing mode)'
+    });
+
+    // Run immediately once, then on schedule
+    setTimeout(async () => {
+        try {
+            // Events left in flight by a previous run that stopped mid-batch go back to the queue
+            const { rowCount } = await pool.query(`UPDATE events SET anchor_status = 'queued' WHERE anchor_status = 'in_flight'`);
+            if (rowCount) {
+                log.warn('Requeued events left in flight by a previous run', { eventCount: rowCount });
+            }
+
+            log.info('Running initial batch check');
+            await processBatch();
+        } catch (err) {
+            log.error('Initial batch check failed', err);
+        }
+    }, 5000);
+
+    // Schedule: Run every 10 seconds for testing (change to '*/10 * * * *' for production = every 10 min)
+    const batchJob = new CronJob('*/10 * * * * *', async () => {
+        await processBatch();
+        await confirmPendingBatches();
+        await trackConfirmations();
+    });
+
+    batchJob.start();
+    log.info('Witness Engine scheduled', { interval: '10 seconds', firstRunIn: '5 seconds' });
+}).catch(err => {
+    log.error('Witness Engine cannot start', { error: err instanceof Error ? err.message : err });
+    process.exit(1);
+});
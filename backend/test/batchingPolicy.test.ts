@@ -0,0 +1,154 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    evaluateBatchPolicy,
+    loadBatchingPolicy,
+    createGasOracle,
+    gweiToWei,
+    DEFAULT_BATCHING_POLICY,
+    type BatchingPolicy,
+    type BatchSnapshot
+} from '../services/witness/batchingPolicy.js';
+
+const NOW = Date.UTC(2026, 0, 1, 12);
+
+const policy = (overrides: Partial<BatchingPolicy> = {}): BatchingPolicy => ({
+    ...DEFAULT_BATCHING_POLICY,
+    minEvents: 10,
+    maxWaitMs: 60000,
+    maxDeferMs: 3600000,
+    ...overrides
+});
+
+const snapshot = (overrides: Partial<BatchSnapshot> = {}): BatchSnapshot => ({
+    pendingCount: 1,
+    priorityCount: 0,
+    oldestTimestamp: NOW - 1000,
+    now: NOW,
+    gasPriceWei: gweiToWei(20),
+    spentTodayWei: 0n,
+    ...overrides
+});
+
+describe('evaluateBatchPolicy', () => {
+    it('waits while below the threshold and the maximum wait', () => {
+        const decision = evaluateBatchPolicy(policy(), snapshot());
+        assert.equal(decision.anchor, false);
+        assert.equal(decision.reason, 'waiting');
+    });
+
+    it('anchors on the threshold and on timeout', () => {
+        assert.equal(evaluateBatchPolicy(policy(), snapshot({ pendingCount: 10 })).reason, 'threshold');
+        assert.equal(evaluateBatchPolicy(policy(), snapshot({ oldestTimestamp: NOW - 60000 })).reason, 'timeout');
+    });
+
+    it('anchors priority events at any gas price', () => {
+        const decision = evaluateBatchPolicy(
+            policy({ maxGasPriceGwei: 30 }),
+            snapshot({ priorityCount: 1, gasPriceWei: gweiToWei(500) })
+        );
+        assert.equal(decision.anchor, true);
+        assert.equal(decision.reason, 'priority');
+    });
+
+    it('holds priority events to the daily budget', () => {
+        // 20 gwei * 100000 gas = 0.002 ETH per batch
+        const budget = policy({ dailyGasBudgetEth: 0.01 });
+        assert.equal(evaluateBatchPolicy(budget, snapshot({ priorityCount: 1, spentTodayWei: gweiToWei(0.008e9) })).anchor, true);
+
+        const decision = evaluateBatchPolicy(budget, snapshot({ priorityCount: 1, spentTodayWei: gweiToWei(0.009e9) }));
+        assert.equal(decision.anchor, false);
+        assert.equal(decision.reason, 'budget');
+    });
+
+    it('defers for gas until the deferral deadline, then anchors with gas-deadline', () => {
+        const gas = policy({ maxGasPriceGwei: 30 });
+        const expensive = gweiToWei(80);
+
+        const deferred = evaluateBatchPolicy(gas, snapshot({ oldestTimestamp: NOW - 60000, gasPriceWei: expensive }));
+        assert.equal(deferred.anchor, false);
+        assert.equal(deferred.reason, 'gas-price');
+
+        const deadline = evaluateBatchPolicy(gas, snapshot({ oldestTimestamp: NOW - 60000 - 3600000, gasPriceWei: expensive }));
+        assert.equal(deadline.anchor, true);
+        assert.equal(deadline.reason, 'gas-deadline');
+
+        const cheap = evaluateBatchPolicy(gas, snapshot({ oldestTimestamp: NOW - 60000, gasPriceWei: gweiToWei(25) }));
+        assert.equal(cheap.reason, 'timeout');
+    });
+
+    it('does not anchor without pending events', () => {
+        assert.equal(evaluateBatchPolicy(policy(), snapshot({ pendingCount: 0 })).reason, 'empty');
+    });
+});
+
+describe('loadBatchingPolicy', () => {
+    it('uses the defaults, with BATCH_THRESHOLD and BATCH_MAX_WAIT_MS', () => {
+        assert.deepEqual(loadBatchingPolicy({}), DEFAULT_BATCHING_POLICY);
+        const loaded = loadBatchingPolicy({ BATCH_THRESHOLD: '5', BATCH_MAX_WAIT_MS: '120000' });
+        assert.equal(loaded.minEvents, 5);
+        assert.equal(loaded.maxWaitMs, 120000);
+    });
+
+    it('applies BATCH_POLICY over the defaults', () => {
+        const loaded = loadBatchingPolicy({
+            BATCH_THRESHOLD: '5',
+            BATCH_POLICY: JSON.stringify({ minEvents: 20, maxGasPriceGwei: 30, dailyGasBudgetEth: null })
+        });
+        assert.equal(loaded.minEvents, 20);
+        assert.equal(loaded.maxGasPriceGwei, 30);
+        assert.equal(loaded.maxBatchSize, DEFAULT_BATCHING_POLICY.maxBatchSize);
+    });
+
+    it('rejects invalid fields', () => {
+        const invalid = [
+            { maxGasPriceGwei: '30' },
+            { maxDeferMs: -1 },
+            { minEvents: 0 },
+            { maxBatchSize: 2.5 },
+            { priorityEventTypes: 'deactivate' },
+            { dailyGasBudgetEth: 0 },
+            { estimatedGasPerBatch: 1.5 },
+            { maxWaitMs: null }
+        ];
+        for (const overrides of invalid) {
+            assert.throws(
+                () => loadBatchingPolicy({ BATCH_POLICY: JSON.stringify(overrides) }),
+                new RegExp(`Invalid batching policy: ${Object.keys(overrides)[0]} must be`),
+                JSON.stringify(overrides)
+            );
+        }
+    });
+
+    it('rejects malformed JSON, non-objects, unknown fields and invalid environment values', () => {
+        assert.throws(() => loadBatchingPolicy({ BATCH_POLICY: '{minEvents: 1' }), /not valid JSON/);
+        assert.throws(() => loadBatchingPolicy({ BATCH_POLICY: '[1]' }), /must be a JSON object/);
+        assert.throws(() => loadBatchingPolicy({ BATCH_POLICY: '{"minEvent": 1}' }), /unknown field\(s\) minEvent/);
+        assert.throws(() => loadBatchingPolicy({ BATCH_THRESHOLD: 'ten' }), /minEvents must be/);
+    });
+});
+
+describe('createGasOracle', () => {
+    const backend = { getGasPrice: async () => gweiToWei(1) };
+
+    it('replays SIMULATED_GAS_PRICES_GWEI', async () => {
+        const oracle = createGasOracle(backend, { GAS_ORACLE: 'simulated', SIMULATED_GAS_PRICES_GWEI: '10, 2.5' });
+        assert.equal(await oracle.getGasPrice(), gweiToWei(10));
+        assert.equal(await oracle.getGasPrice(), gweiToWei(2.5));
+        assert.equal(await oracle.getGasPrice(), gweiToWei(10));
+    });
+
+    it('rejects malformed simulated gas prices', () => {
+        for (const prices of ['20,abc', '20,,30', '-5', '12gwei']) {
+            assert.throws(
+                () => createGasOracle(backend, { GAS_ORACLE: 'simulated', SIMULATED_GAS_PRICES_GWEI: prices }),
+                /Invalid SIMULATED_GAS_PRICES_GWEI/,
+                prices
+            );
+        }
+    });
+
+    it('uses the anchor backend otherwise', () => {
+        assert.equal(createGasOracle(backend, {}), backend);
+    });
+});
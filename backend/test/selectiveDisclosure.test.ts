@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as ed from '@noble/ed25519';
+import {
+    canRoleSeeField,
+    getPresentationRole,
+    issueSdJwt,
+    presentSdJwt,
+    verifySdJwt
+} from '../utils/selectiveDisclosure.js';
+
+const DID = 'did:webvh:example.com:zPassport';
+
+// One field per category: basic, materials, manufacturing, operations
+const CLAIMS = { description: 'Triple glazed window', material: 'Oak', batch: 'B-42', productionDate: '2026-01-01' };
+
+/** Presentation as the identity service makes it, for the role it serves the caller */
+async function present(role: string) {
+    const privateKey = ed.utils.randomPrivateKey();
+    const publicKey = await ed.getPublicKeyAsync(privateKey);
+    const sdJwt = presentSdJwt(
+        await issueSdJwt({
+            issuer: DID,
+            kid: `${DID}#key-1`,
+            vct: 'DigitalProductPassport',
+            subject: DID,
+            claims: CLAIMS,
+            signer: { sign: data => ed.signAsync(data, privateKey), publicKey }
+        }),
+        name => canRoleSeeField(role, name)
+    );
+    const result = await verifySdJwt(sdJwt, publicKey);
+    return { ...result, disclosed: Object.keys(CLAIMS).filter(name => name in result.claims) };
+}
+
+describe('getPresentationRole', () => {
+    it('serves an unauthenticated caller the Consumer role, whatever it requests', () => {
+        assert.equal(getPresentationRole(null, 'Manufacturer'), 'Consumer');
+        assert.equal(getPresentationRole(null), 'Consumer');
+    });
+
+    it('serves an authenticated caller its own role, not the requested one', () => {
+        assert.equal(getPresentationRole('Recycler', 'Manufacturer'), 'Recycler');
+        assert.equal(getPresentationRole('Manufacturer'), 'Manufacturer');
+    });
+
+    it('gives an authenticated caller the public view on request', () => {
+        assert.equal(getPresentationRole('Manufacturer', 'Consumer'), 'Consumer');
+    });
+});
+
+describe('role-scoped presentation', () => {
+    it('discloses only consumer fields to an unauthenticated role=Manufacturer request', async () => {
+        const result = await present(getPresentationRole(null, 'Manufacturer'));
+        assert.equal(result.valid, true, result.errors.join('; '));
+        assert.deepEqual(result.disclosed, ['description']);
+        assert.equal(result.withheld, 3);
+    });
+
+    it('discloses the manufacturer fields to an authenticated manufacturer', async () => {
+        const result = await present(getPresentationRole('Manufacturer', 'Manufacturer'));
+        assert.equal(result.valid, true, result.errors.join('; '));
+        assert.deepEqual(result.disclosed, Object.keys(CLAIMS));
+    });
+});
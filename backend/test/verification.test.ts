@@ -0,0 +1,103 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as ed from '@noble/ed25519';
+import verificationUtils, {
+    verifyDIDLog,
+    verifyUpdateThreshold,
+    type LogEntry
+} from '../utils/verification.js';
+
+const DID = 'did:webvh:example.com:zTest';
+
+const keyPair = async () => {
+    const privateKey = ed.utils.randomPrivateKey();
+    const publicKey = await ed.getPublicKeyAsync(privateKey);
+    const publicKeyMultibase = 'z' + Buffer.from([0xed, 0x01, ...publicKey]).toString('base64url');
+    return { privateKey, publicKeyMultibase };
+};
+
+const sign = async (state: object, privateKey: Uint8Array) =>
+    'z' + Buffer.from(await ed.signAsync(new TextEncoder().encode(JSON.stringify(state)), privateKey)).toString('base64url');
+
+const proof = (verificationMethod: string, proofValue: string) => ({
+    type: 'DataIntegrityProof',
+    cryptosuite: 'eddsa-jcs-2022',
+    verificationMethod,
+    proofPurpose: 'authentication',
+    created: '2026-01-01T00:00:00Z',
+    proofValue
+});
+
+type KeyPair = Awaited<ReturnType<typeof keyPair>>;
+
+const controllerMethod = (key: KeyPair) => `did:key:${key.publicKeyMultibase}#${key.publicKeyMultibase}`;
+
+/**
+ * Genesis entry signed by the DID's key (threshold 1, update keys of the owner and one
+ * co-controller), followed by an update carrying the controller proof made by controllerProof
+ */
+async function buildLog(controllerProof: (state: object, coController: KeyPair) => Promise<ReturnType<typeof proof>>): Promise<LogEntry[]> {
+    const owner = await keyPair();
+    const coController = await keyPair();
+
+    const genesisState = {
+        id: DID,
+        verificationMethod: [{ id: '#key-1', type: 'Multikey', controller: DID, publicKeyMultibase: owner.publicKeyMultibase }]
+    };
+    const genesis: LogEntry = {
+        versionId: '1',
+        versionTime: '2026-01-01T00:00:00Z',
+        parameters: { scid: 'zTest', updateKeys: [owner.publicKeyMultibase, coController.publicKeyMultibase] },
+        state: genesisState,
+        proof: [proof(`${DID}#key-1`, await sign(genesisState, owner.privateKey))]
+    };
+
+    const updateState = { ...genesisState, deactivated: true };
+    const update: LogEntry = {
+        versionId: '2',
+        versionTime: '2026-01-02T00:00:00Z',
+        parameters: { prevVersionHash: verificationUtils.hashLogEntry(genesis) },
+        state: updateState,
+        proof: [await controllerProof(updateState, coController)]
+    };
+
+    return [genesis, update];
+}
+
+describe('controller proofs', () => {
+    it('accepts a controller proof by an update key on a threshold-1 log', async () => {
+        const log = await buildLog(async (state, coController) =>
+            proof(controllerMethod(coController), await sign(state, coController.privateKey))
+        );
+
+        const threshold = await verifyUpdateThreshold(log);
+        assert.equal(threshold.valid, true, threshold.errors.join('; '));
+        assert.deepEqual(threshold.verifiedEntries, [1]);
+        const result = await verifyDIDLog(log);
+        assert.equal(result.valid, true, result.errors.join('; '));
+    });
+
+    it('rejects a forged did:key proof on a threshold-1 log', async () => {
+        const log = await buildLog(async (_state, coController) =>
+            proof(controllerMethod(coController), 'zZm9yZ2Vk')
+        );
+
+        const threshold = await verifyUpdateThreshold(log);
+        assert.equal(threshold.valid, false);
+        assert.deepEqual(threshold.verifiedEntries, []);
+        assert.match(threshold.errors.join('; '), /invalid controller signature/);
+        assert.equal((await verifyDIDLog(log)).valid, false);
+    });
+
+    it('rejects a controller proof by a key that is not an update key', async () => {
+        const outsider = await keyPair();
+        const log = await buildLog(async state =>
+            proof(controllerMethod(outsider), await sign(state, outsider.privateKey))
+        );
+
+        const threshold = await verifyUpdateThreshold(log);
+        assert.equal(threshold.valid, false);
+        assert.match(threshold.errors.join('; '), /not an update key/);
+        assert.equal((await verifyDIDLog(log)).valid, false);
+    });
+});
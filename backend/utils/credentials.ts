@@ -0,0 +1,228 @@
+/**
+ * W3C Verifiable Credentials (VC Data Model 2.0)
+ *
+ * Builds, signs and verifies product credentials issued by notified bodies:
+ * - Subject claims are checked against the credential definition of the
+ *   product schema (required properties, types, validation rules)
+ * - validUntil follows the definition's expiryDays
+ * - Secured with an eddsa-jcs-2022 Data Integrity proof by the issuer's did:key
+ *
+ * Uses no Node-only APIs, so the frontend can verify credentials too.
+ */
+
+import {
+    createDataIntegrityProof,
+    verifyDataIntegrityProof,
+    publicKeyToDidKey,
+    type DataIntegrityProof,
+    type ProofSigner
+} from './dataIntegrity.js';
+import type { BitstringStatusListEntry } from './statusList.js';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Credential definition of a product schema (structurally the frontend's
+ * CredentialDefinition, restricted to what issuance needs)
+ */
+export interface CredentialDefinitionLike {
+    type: string;
+    label: string;
+    issuerTypes: string[];
+    expiryDays?: number;
+    properties: Array<{
+        key: string;
+        label: string;
+        type: 'string' | 'number' | 'boolean' | 'date' | 'object' | 'array';
+        required?: boolean;
+        validation?: {
+            min?: number;
+            max?: number;
+            pattern?: string;
+            enum?: unknown[];
+        };
+    }>;
+}
+
+// A type alias (not an interface) so it can be signed as a plain JSON document
+export type VerifiableCredential = {
+    '@context': string[];
+    id: string;
+    type: string[];
+    name?: string;
+    issuer: { id: string; name?: string };
+    validFrom: string;
+    validUntil?: string;
+    credentialSubject: { id: string; [claim: string]: unknown };
+    credentialStatus?: BitstringStatusListEntry | BitstringStatusListEntry[];
+    proof?: DataIntegrityProof;
+};
+
+export interface CredentialVerificationResult {
+    valid: boolean;
+    errors: string[];
+    issuer?: string;
+}
+
+export const VC_V2_CONTEXT = 'https://www.w3.org/ns/credentials/v2';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// Claims Validation
+// ============================================
+
+/**
+ * Check subject claims against a credential definition
+ */
+export function validateClaims(definition: CredentialDefinitionLike, claims: Record<string, unknown>): string[] {
+    const errors: string[] = [];
+
+    for (const prop of definition.properties) {
+        const value = claims[prop.key];
+
+        if (value === undefined || value === null || value === '') {
+            if (prop.required) errors.push(`Missing required claim: ${prop.label}`);
+            continue;
+        }
+
+        const typeOk =
+            prop.type === 'number' ? typeof value === 'number' && !Number.isNaN(value) :
+            prop.type === 'boolean' ? typeof value === 'boolean' :
+            prop.type === 'date' ? typeof value === 'string' && !Number.isNaN(Date.parse(value)) :
+            prop.type === 'array' ? Array.isArray(value) :
+            prop.type === 'object' ? typeof value === 'object' && !Array.isArray(value) :
+            typeof value === 'string';
+        if (!typeOk) {
+            errors.push(`${prop.label} must be of type ${prop.type}`);
+            continue;
+        }
+
+        const rules = prop.validation;
+        if (!rules) continue;
+        if (rules.min !== undefined && typeof value === 'number' && value < rules.min) {
+            errors.push(`${prop.label} must be at least ${rules.min}`);
+        }
+        if (rules.max !== undefined && typeof value === 'number' && value > rules.max) {
+            errors.push(`${prop.label} must be at most ${rules.max}`);
+        }
+        if (rules.pattern && typeof value === 'string' && !new RegExp(rules.pattern).test(value)) {
+            errors.push(`${prop.label} does not match ${rules.pattern}`);
+        }
+        if (rules.enum && !rules.enum.includes(value)) {
+            errors.push(`${prop.label} must be one of: ${rules.enum.join(', ')}`);
+        }
+    }
+
+    return errors;
+}
+
+// ============================================
+// Issuance
+// ============================================
+
+/**
+ * Build an unsigned credential about a product DID.
+ * Only claims defined by the credential definition are included.
+ * credentialStatus entries (see statusList.ts) let the issuer revoke or suspend it later.
+ */
+export function buildCredential(options: {
+    id: string;
+    issuer: { id: string; name?: string };
+    subjectDid: string;
+    definition: CredentialDefinitionLike;
+    claims: Record<string, unknown>;
+    validFrom?: Date;
+    credentialStatus?: BitstringStatusListEntry[];
+}): VerifiableCredential {
+    const { id, issuer, subjectDid, definition, claims, credentialStatus } = options;
+    const validFrom = options.validFrom || new Date();
+
+    const subjectClaims = Object.fromEntries(
+        definition.properties
+            .filter(p => claims[p.key] !== undefined && claims[p.key] !== '')
+            .map(p => [p.key, claims[p.key]])
+    );
+
+    return {
+        '@context': [VC_V2_CONTEXT],
+        id,
+        type: ['VerifiableCredential', definition.type],
+        name: definition.label,
+        issuer,
+        validFrom: validFrom.toISOString(),
+        ...(definition.expiryDays
+            ? { validUntil: new Date(validFrom.getTime() + definition.expiryDays * DAY_MS).toISOString() }
+            : {}),
+        credentialSubject: { id: subjectDid, ...subjectClaims },
+        ...(credentialStatus?.length ? { credentialStatus } : {})
+    };
+}
+
+/**
+ * Secure a credential with the issuer's eddsa-jcs-2022 proof
+ */
+export async function signCredential(credential: VerifiableCredential, signer: ProofSigner): Promise<VerifiableCredential> {
+    const unsigned = { ...credential };
+    delete unsigned.proof;
+    const proof = await createDataIntegrityProof(unsigned, signer);
+    return { ...unsigned, proof };
+}
+
+/**
+ * did:key of an issuer signer (the issuer id of credentials it signs)
+ */
+export function issuerDidForSigner(signer: ProofSigner): string {
+    return publicKeyToDidKey(signer.publicKey);
+}
+
+// ============================================
+// Verification
+// ============================================
+
+/**
+ * Verify a credential's proof, issuer binding and validity period
+ */
+export async function verifyCredential(credential: VerifiableCredential, now: Date = new Date()): Promise<CredentialVerificationResult> {
+    const errors: string[] = [];
+
+    if (!credential['@context']?.includes(VC_V2_CONTEXT)) {
+        errors.push('Not a VC 2.0 credential');
+    }
+    if (!credential.type?.includes('VerifiableCredential')) {
+        errors.push('Missing VerifiableCredential type');
+    }
+
+    const { proof, ...unsigned } = credential;
+    if (!proof) {
+        errors.push('Credential has no proof');
+    } else {
+        const result = await verifyDataIntegrityProof(unsigned, proof);
+        if (!result.valid) {
+            errors.push(result.details);
+        } else if (result.signer !== credential.issuer?.id) {
+            errors.push(`Proof signed by ${result.signer}, not by issuer ${credential.issuer?.id}`);
+        }
+    }
+
+    if (Date.parse(credential.validFrom) > now.getTime()) {
+        errors.push(`Credential is not valid before ${credential.validFrom}`);
+    }
+    if (credential.validUntil && Date.parse(credential.validUntil) < now.getTime()) {
+        errors.push(`Credential expired at ${credential.validUntil}`);
+    }
+
+    return { valid: errors.length === 0, errors, issuer: credential.issuer?.id };
+}
+
+export const credentials = {
+    validateClaims,
+    buildCredential,
+    signCredential,
+    issuerDidForSigner,
+    verifyCredential
+};
+
+export default credentials;
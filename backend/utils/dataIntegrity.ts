@@ -0,0 +1,179 @@
+/**
+ * Data Integrity Utilities
+ *
+ * Creates and verifies W3C Data Integrity proofs using the eddsa-jcs-2022
+ * cryptosuite (JCS canonicalization + Ed25519), as used by did:webvh for
+ * log entry and witness proofs.
+ */
+
+import * as ed from '@noble/ed25519';
+import { sha512 } from '@noble/hashes/sha2.js';
+import {
+    createProof,
+    prepareDataForSigning,
+    multibaseEncode,
+    multibaseDecode,
+    MultibaseEncoding
+} from 'didwebvh-ts';
+
+// Configure ed25519
+ed.etc.sha512Async = (...m) => Promise.resolve(sha512(ed.etc.concatBytes(...m)));
+
+// ============================================
+// Types
+// ============================================
+
+export interface DataIntegrityProof {
+    type: string;
+    cryptosuite: string;
+    verificationMethod: string;
+    created: string;
+    proofPurpose: string;
+    proofValue: string;
+}
+
+/**
+ * Minimal signer needed to create a proof (compatible with keyManagement's Signer)
+ */
+export interface ProofSigner {
+    sign: (data: Uint8Array) => Promise<Uint8Array>;
+    publicKey: Uint8Array;
+}
+
+export interface ProofVerificationResult {
+    valid: boolean;
+    details: string;
+    signer?: string;
+}
+
+// Multicodec prefix for Ed25519 public keys
+const ED25519_MULTICODEC = new Uint8Array([0xed, 0x01]);
+
+// ============================================
+// did:key Helpers
+// ============================================
+
+/**
+ * Encode an Ed25519 public key as a did:key identifier (base58btc multibase)
+ */
+export function publicKeyToDidKey(publicKey: Uint8Array): string {
+    const prefixed = new Uint8Array(ED25519_MULTICODEC.length + publicKey.length);
+    prefixed.set(ED25519_MULTICODEC);
+    prefixed.set(publicKey, ED25519_MULTICODEC.length);
+    return `did:key:${multibaseEncode(prefixed, MultibaseEncoding.BASE58_BTC)}`;
+}
+
+/**
+ * Get the did:key verification method ID for an Ed25519 public key
+ */
+export function didKeyVerificationMethod(publicKey: Uint8Array): string {
+    const didKey = publicKeyToDidKey(publicKey);
+    return `${didKey}#${didKey.slice('did:key:'.length)}`;
+}
+
+/**
+ * Extract the raw Ed25519 public key from a did:key verification method
+ */
+export function didKeyToPublicKey(verificationMethod: string): Uint8Array | null {
+    const did = verificationMethod.split('#')[0];
+    if (!did.startsWith('did:key:z')) {
+        return null;
+    }
+
+    try {
+        const { bytes } = multibaseDecode(did.slice('did:key:'.length));
+        if (bytes[0] !== ED25519_MULTICODEC[0] || bytes[1] !== ED25519_MULTICODEC[1]) {
+            return null;
+        }
+        return bytes.slice(ED25519_MULTICODEC.length);
+    } catch {
+        return null;
+    }
+}
+
+// ============================================
+// Proof Creation & Verification
+// ============================================
+
+/**
+ * Sign a document with an eddsa-jcs-2022 Data Integrity proof
+ */
+export async function createDataIntegrityProof(
+    document: Record<string, unknown>,
+    signer: ProofSigner,
+    verificationMethod: string = didKeyVerificationMethod(signer.publicKey),
+    proofPurpose: string = 'assertionMethod'
+): Promise<DataIntegrityProof> {
+    const proofConfig = { ...createProof(verificationMethod), proofPurpose };
+    const data = await prepareDataForSigning(document, proofConfig);
+    const signature = await signer.sign(data);
+
+    return {
+        ...proofConfig,
+        proofValue: multibaseEncode(signature, MultibaseEncoding.BASE58_BTC)
+    };
+}
+
+/**
+ * Verify an eddsa-jcs-2022 proof over a document.
+ * The public key is taken from the proof's did:key verification method unless given explicitly.
+ */
+export async function verifyDataIntegrityProof(
+    document: Record<string, unknown>,
+    proof: DataIntegrityProof,
+    publicKey?: Uint8Array
+): Promise<ProofVerificationResult> {
+    if (proof.type !== 'DataIntegrityProof' || proof.cryptosuite !== 'eddsa-jcs-2022') {
+        return { valid: false, details: `Unsupported proof type ${proof.type}/${proof.cryptosuite}` };
+    }
+
+    const key = publicKey || didKeyToPublicKey(proof.verificationMethod);
+    if (!key) {
+        return { valid: false, details: `Cannot resolve key for ${proof.verificationMethod}` };
+    }
+
+    try {
+        const { proofValue, ...proofConfig } = proof;
+        const data = await prepareDataForSigning(document, proofConfig);
+        const signature = multibaseDecode(proofValue).bytes;
+        const valid = await ed.verifyAsync(signature, data, key);
+
+        return {
+            valid,
+            details: valid ? 'Proof verified' : 'Invalid proof signature',
+            signer: proof.verificationMethod.split('#')[0]
+        };
+    } catch (error: unknown) {
+        return {
+            valid: false,
+            details: `Proof verification error: ${error instanceof Error ? error.message : 'Unknown error'}`
+        };
+    }
+}
+
+// ============================================
+// Witness Attestations
+// ============================================
+
+/**
+ * The document a witness signs for a log entry: it binds the version to its
+ * leaf and to the anchored Merkle root.
+ */
+export function getAttestedData(proof: { versionId: string; leafHash: string; merkleRoot: string }): Record<string, string> {
+    return {
+        versionId: proof.versionId,
+        leafHash: proof.leafHash,
+        merkleRoot: proof.merkleRoot
+    };
+}
+
+export const dataIntegrity = {
+    createDataIntegrityProof,
+    verifyDataIntegrityProof,
+    publicKeyToDidKey,
+    didKeyVerificationMethod,
+    didKeyToPublicKey,
+    getAttestedData
+};
+
+export default dataIntegrity;
@@ -0,0 +1,148 @@
+/**
+ * did:webvh Version Selection
+ *
+ * Picks the log entry a resolution query asks for and builds its
+ * DID document metadata:
+ * - versionId: that exact entry ("3" or "3-Qm...")
+ * - versionNumber: the entry whose versionId starts with that number
+ * - versionTime: the entry in force at that time (latest versionTime <= it)
+ *
+ * Metadata describes the DID as of the selected version, like the
+ * didwebvh-ts resolver does (deactivated only if it was by then).
+ *
+ * Uses no Node-only APIs, so the frontend can resolve from a fetched log too.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export interface VersionQuery {
+    versionId?: string;
+    versionTime?: string;
+    versionNumber?: number | string;
+}
+
+export interface VersionedLogEntry {
+    versionId: string;
+    versionTime?: string;
+    timestamp?: string;
+    parameters?: {
+        deactivated?: boolean;
+        [key: string]: unknown;
+    };
+}
+
+export interface DIDDocumentMetadata {
+    versionId: string;
+    versionNumber: number;
+    versionTime?: string;
+    created?: string;
+    updated?: string;
+    nextVersionId?: string;
+    nextUpdate?: string;
+    deactivated: boolean;
+}
+
+export type VersionSelection<T extends VersionedLogEntry = VersionedLogEntry> =
+    | { entry: T; index: number; metadata: DIDDocumentMetadata; error?: undefined }
+    | { error: 'invalidOptions' | 'notFound'; message: string };
+
+// ============================================
+// Helper Functions
+// ============================================
+
+/**
+ * Version number of an entry: "3-Qm..." -> 3 (plain "3" as used by older entries)
+ */
+export function getVersionNumber(versionId: string): number {
+    return parseInt(versionId.split('-')[0], 10);
+}
+
+function entryTime(entry: VersionedLogEntry): string | undefined {
+    return entry.versionTime || entry.timestamp;
+}
+
+/**
+ * Check that at most one valid version selector is given
+ */
+export function validateVersionQuery(query: VersionQuery): string | null {
+    const given = [query.versionId, query.versionTime, query.versionNumber]
+        .filter(v => v !== undefined && v !== '');
+
+    if (given.length > 1) {
+        return 'Only one of versionId, versionTime or versionNumber can be given';
+    }
+    if (query.versionNumber !== undefined && query.versionNumber !== '') {
+        const n = Number(query.versionNumber);
+        if (!Number.isInteger(n) || n < 1) {
+            return 'versionNumber must be a positive integer';
+        }
+    }
+    if (query.versionTime && Number.isNaN(Date.parse(query.versionTime))) {
+        return 'versionTime must be an ISO 8601 timestamp';
+    }
+    return null;
+}
+
+// ============================================
+// Selection
+// ============================================
+
+/**
+ * DID document metadata of the entry at index
+ */
+export function buildDocumentMetadata(log: VersionedLogEntry[], index: number): DIDDocumentMetadata {
+    const entry = log[index];
+    const next = log[index + 1];
+
+    return {
+        versionId: entry.versionId,
+        versionNumber: getVersionNumber(entry.versionId),
+        versionTime: entryTime(entry),
+        created: entryTime(log[0]),
+        updated: entryTime(entry),
+        ...(next ? { nextVersionId: next.versionId, nextUpdate: entryTime(next) } : {}),
+        deactivated: log.slice(0, index + 1).some(e => e.parameters?.deactivated === true)
+    };
+}
+
+/**
+ * Select the entry a resolution query refers to (latest if none is given)
+ */
+export function selectVersion<T extends VersionedLogEntry>(log: T[], query: VersionQuery = {}): VersionSelection<T> {
+    const invalid = validateVersionQuery(query);
+    if (invalid) {
+        return { error: 'invalidOptions', message: invalid };
+    }
+    if (log.length === 0) {
+        return { error: 'notFound', message: 'DID log is empty' };
+    }
+
+    let index = log.length - 1;
+
+    if (query.versionId) {
+        index = log.findIndex(e => e.versionId === query.versionId);
+        if (index < 0) {
+            return { error: 'notFound', message: `Version ${query.versionId} not found` };
+        }
+    } else if (query.versionNumber !== undefined && query.versionNumber !== '') {
+        const versionNumber = Number(query.versionNumber);
+        index = log.findIndex(e => getVersionNumber(e.versionId) === versionNumber);
+        if (index < 0) {
+            return { error: 'notFound', message: `Version number ${versionNumber} not found` };
+        }
+    } else if (query.versionTime) {
+        const time = Date.parse(query.versionTime);
+        index = -1;
+        for (let i = 0; i < log.length; i++) {
+            const t = entryTime(log[i]);
+            if (t && Date.parse(t) <= time) index = i;
+        }
+        if (index < 0) {
+            return { error: 'notFound', message: `DID did not exist yet at ${query.versionTime}` };
+        }
+    }
+
+    return { entry: log[index], index, metadata: buildDocumentMetadata(log, index) };
+}
@@ -0,0 +1,177 @@
+/**
+ * DPP Lifecycle State Machine
+ *
+ * The lifecycle states of a product passport and the transitions between
+ * them, enforced by the identity service and mirrored in the UI:
+ * - Terminal states (recycled, deactivated, replaced) have no way out
+ * - tampered is a system state: only integrity checks (watcher alerts) move a
+ *   product into it, and only their resolution moves it back to active
+ *
+ * Uses no Node-only APIs, so the frontend offers the same transitions.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export type LifecycleStatus =
+    | 'created'          // Initial state
+    | 'active'           // Valid, in use
+    | 'in_maintenance'   // Temporarily unavailable
+    | 'deprecated'       // End of active life, pending disposal (was 'end_of_life')
+    | 'recycled'         // Processed/disposed (was 'disposed')
+    | 'deactivated'      // Permanently disabled
+    | 'tampered'         // Integrity check failed (System state, not user-settable)
+    | 'replaced';        // Superseded by a new version
+
+/** Who asks for a transition: a controller of the DID, or the integrity checks */
+export type LifecycleActor = 'user' | 'system';
+
+/** Document supporting a transition (e.g. a recycling certificate), referenced by hash */
+export interface LifecycleAttachment {
+    type: string;      // attachment type required by the product's lifecycle, e.g. RecyclingCertificate
+    name: string;      // file name
+    hash: string;      // SHA-256 of the file (hex)
+}
+
+/** What happens to a component when its parent product is deprecated, recycled or replaced */
+export type LifecycleCascadeAction =
+    | 'transition'  // follows the parent into the same state
+    | 'detach'      // is no longer part of the parent
+    | 'reparent';   // becomes part of another product
+
+export interface LifecycleChildPlan {
+    did: string;
+    action: LifecycleCascadeAction;
+    newParentDid?: string; // product it becomes part of (reparent)
+}
+
+export const LIFECYCLE_STATUSES: LifecycleStatus[] = [
+    'created', 'active', 'in_maintenance', 'deprecated', 'recycled', 'deactivated', 'tampered', 'replaced'
+];
+
+export const ValidTransitions: Record<LifecycleStatus, LifecycleStatus[]> = {
+    created: ['active', 'deactivated'],
+    active: ['in_maintenance', 'deprecated', 'deactivated', 'tampered', 'replaced'],
+    in_maintenance: ['active', 'deprecated', 'deactivated'],
+    deprecated: ['recycled', 'deactivated'],
+    recycled: [], // Terminal
+    deactivated: [], // Terminal
+    tampered: ['active', 'deactivated'], // Can be resolved/reset to active or killed
+    replaced: [] // Terminal
+};
+
+/** Parent states that cannot be entered while components are still in use */
+export const CASCADING_STATUSES: LifecycleStatus[] = ['deprecated', 'recycled', 'replaced'];
+
+// ============================================
+// Transitions
+// ============================================
+
+export function isLifecycleStatus(value: unknown): value is LifecycleStatus {
+    return typeof value === 'string' && (LIFECYCLE_STATUSES as string[]).includes(value);
+}
+
+export function isTerminalStatus(status: LifecycleStatus): boolean {
+    return ValidTransitions[status].length === 0;
+}
+
+/**
+ * Transitions only the system may make: into tampered (from any
+ * non-terminal state) and from tampered back to active
+ */
+export function isSystemTransition(from: LifecycleStatus, to: LifecycleStatus): boolean {
+    return to === 'tampered' || (from === 'tampered' && to === 'active');
+}
+
+/**
+ * Check a lifecycle transition
+ * Returns why it is not allowed, or null if it is
+ */
+export function validateLifecycleTransition(from: LifecycleStatus, to: LifecycleStatus, actor: LifecycleActor): string | null {
+    if (from === to) {
+        return `Product is already ${to}`;
+    }
+    if (isTerminalStatus(from)) {
+        return `${from} is a terminal state`;
+    }
+    if (isSystemTransition(from, to)) {
+        return actor === 'system' ? null : `Only integrity checks can move a product ${to === 'tampered' ? 'into' : 'out of'} tampered`;
+    }
+    if (!ValidTransitions[from].includes(to)) {
+        return `Invalid transition from ${from} to ${to}`;
+    }
+    return null;
+}
+
+/**
+ * States an actor can move a product to from its current state
+ */
+export function getAllowedTransitions(from: LifecycleStatus, actor: LifecycleActor): LifecycleStatus[] {
+    return LIFECYCLE_STATUSES.filter(to => validateLifecycleTransition(from, to, actor) === null);
+}
+
+/**
+ * Check the attachments sent with a transition
+ * Returns what is wrong with them, or null if they are well-formed
+ */
+export function validateLifecycleAttachments(value: unknown): string | null {
+    if (value === undefined) return null;
+    if (!Array.isArray(value)) return 'attachments must be an array';
+    for (const attachment of value) {
+        if (typeof attachment?.type !== 'string' || !attachment.type) return 'Every attachment needs a type';
+        if (typeof attachment.name !== 'string') return `Attachment ${attachment.type} needs a name`;
+        if (typeof attachment.hash !== 'string' || !/^[0-9a-f]{64}$/.test(attachment.hash)) {
+            return `Attachment ${attachment.type} needs a SHA-256 hash (hex)`;
+        }
+    }
+    return null;
+}
+
+/**
+ * Shortest sequence of transitions that brings a product from one state to
+ * another (e.g. active -> deprecated -> recycled), or null if there is none
+ */
+export function getLifecycleTransitionPath(from: LifecycleStatus, to: LifecycleStatus, actor: LifecycleActor): LifecycleStatus[] | null {
+    if (from === to) return [];
+    const previous = new Map<LifecycleStatus, LifecycleStatus>([[from, from]]);
+    const queue: LifecycleStatus[] = [from];
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+        for (const next of getAllowedTransitions(current, actor)) {
+            if (previous.has(next)) continue;
+            previous.set(next, current);
+            if (next === to) {
+                const path: LifecycleStatus[] = [to];
+                while (previous.get(path[0]) !== from) {
+                    path.unshift(previous.get(path[0])!);
+                }
+                return path;
+            }
+            queue.push(next);
+        }
+    }
+    return null;
+}
+
+/**
+ * Check how the components of a product are to be handled
+ * Returns what is wrong with the plans, or null if they are well-formed
+ */
+export function validateLifecycleChildPlans(value: unknown): string | null {
+    if (value === undefined) return null;
+    if (!Array.isArray(value)) return 'children must be an array';
+    const seen = new Set<string>();
+    for (const plan of value) {
+        if (typeof plan?.did !== 'string' || !plan.did) return 'Every child plan needs a did';
+        if (seen.has(plan.did)) return `${plan.did} is planned more than once`;
+        seen.add(plan.did);
+        if (!['transition', 'detach', 'reparent'].includes(plan.action)) {
+            return `Unknown action "${plan.action}" for ${plan.did} (expected transition, detach or reparent)`;
+        }
+        if (plan.action === 'reparent' && (typeof plan.newParentDid !== 'string' || !plan.newParentDid)) {
+            return `${plan.did} needs a newParentDid to be re-parented`;
+        }
+    }
+    return null;
+}
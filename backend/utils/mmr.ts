@@ -0,0 +1,356 @@
+/**
+ * Merkle Mountain Range (MMR) Accumulator
+ *
+ * Append-only accumulator over all witnessed events. Every cycle the witness
+ * appends the new leaves and anchors one root, the "bagged" peaks of the
+ * mountains. Provides:
+ * - Inclusion proofs (leaf -> peak path + peaks)
+ * - Consistency proofs between two anchored sizes (old peaks -> new peaks)
+ *
+ * Positions are 0-based in post-order (leaves 0, 1 -> parent 2, ...).
+ * Parent = sha256(left || right), positional (no pair sorting).
+ * Hashes are 0x-prefixed lowercase hex, like leafHash / merkleRoot elsewhere.
+ *
+ * Uses no Node-only APIs, so the frontend can generate and check proofs too.
+ */
+
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js';
+
+// ============================================
+// Types
+// ============================================
+
+export interface MMRInclusionProof {
+    leafIndex: number;   // Global leaf index in the accumulator
+    mmrSize: number;     // Number of nodes when the root was anchored
+    siblings: string[];  // Leaf -> peak sibling hashes
+    peaks: string[];     // Peaks at mmrSize, left to right
+}
+
+export interface MMRConsistencyProof {
+    oldSize: number;
+    newSize: number;
+    oldPeaks: string[];
+    newPeaks: string[];
+    paths: string[][];   // Per old peak: sibling hashes up to its new peak
+}
+
+export interface MMRHashStep {
+    left: string;
+    right: string;
+    parent: string;
+}
+
+// ============================================
+// Helper Functions
+// ============================================
+
+function normalizeHash(hash: string): string {
+    return '0x' + (hash.startsWith('0x') ? hash.slice(2) : hash).toLowerCase();
+}
+
+function hashPair(left: string, right: string): string {
+    const data = hexToBytes(normalizeHash(left).slice(2) + normalizeHash(right).slice(2));
+    return '0x' + bytesToHex(sha256(data));
+}
+
+function bitLength(n: number): number {
+    return n === 0 ? 0 : Math.floor(Math.log2(n)) + 1;
+}
+
+function isAllOnes(n: number): boolean {
+    return n !== 0 && (n & (n + 1)) === 0;
+}
+
+/**
+ * Height of the node at a position (leaves are 0)
+ */
+export function positionHeight(position: number): number {
+    let p = position + 1;
+    while (!isAllOnes(p)) {
+        // Jump to the same height in the left-hand mountain
+        p -= 2 ** (bitLength(p) - 1) - 1;
+    }
+    return bitLength(p) - 1;
+}
+
+/**
+ * Position of the n-th leaf
+ */
+export function leafIndexToPosition(leafIndex: number): number {
+    let ones = 0;
+    for (let n = leafIndex; n > 0; n &= n - 1) ones++;
+    return 2 * leafIndex - ones;
+}
+
+/**
+ * Positions of the peaks of an MMR with `size` nodes, left to right
+ */
+export function peakPositions(size: number): number[] {
+    const peaks: number[] = [];
+    let offset = 0;
+    let remaining = size;
+
+    while (remaining > 0) {
+        const height = bitLength(remaining + 1) - 1;
+        const treeSize = 2 ** height - 1;
+        peaks.push(offset + treeSize - 1);
+        offset += treeSize;
+        remaining -= treeSize;
+    }
+    return peaks;
+}
+
+/**
+ * Number of leaves in an MMR with `size` nodes
+ */
+export function leafCountForSize(size: number): number {
+    return peakPositions(size).reduce((count, pos) => count + 2 ** positionHeight(pos), 0);
+}
+
+/**
+ * Bag the peaks right to left into the single root that gets anchored
+ */
+export function bagPeaks(peaks: string[]): string {
+    if (peaks.length === 0) {
+        throw new Error('Cannot bag an empty MMR');
+    }
+    let root = normalizeHash(peaks[peaks.length - 1]);
+    for (let i = peaks.length - 2; i >= 0; i--) {
+        root = hashPair(peaks[i], root);
+    }
+    return root;
+}
+
+// Helper: Climb from a node to its peak, recording every hash step
+function climb(position: number, hash: string, siblings: string[], steps: MMRHashStep[]): { position: number; hash: string } {
+    let height = positionHeight(position);
+    let current = normalizeHash(hash);
+
+    for (const sibling of siblings) {
+        const isRightChild = positionHeight(position + 1) > height;
+        const left = isRightChild ? normalizeHash(sibling) : current;
+        const right = isRightChild ? current : normalizeHash(sibling);
+        const parent = hashPair(left, right);
+
+        steps.push({ left, right, parent });
+        position = isRightChild ? position + 1 : position + (2 << height);
+        current = parent;
+        height++;
+    }
+    return { position, hash: current };
+}
+
+// Helper: Bag peaks, recording every hash step
+function bagPeaksWithSteps(peaks: string[], steps: MMRHashStep[]): string {
+    let root = normalizeHash(peaks[peaks.length - 1]);
+    for (let i = peaks.length - 2; i >= 0; i--) {
+        const left = normalizeHash(peaks[i]);
+        const parent = hashPair(left, root);
+        steps.push({ left, right: root, parent });
+        root = parent;
+    }
+    return root;
+}
+
+// ============================================
+// Accumulator
+// ============================================
+
+export class MerkleMountainRange {
+    private nodes: string[];
+
+    /**
+     * @param nodes All node hashes ordered by position (as persisted)
+     */
+    constructor(nodes: string[] = []) {
+        this.nodes = nodes.map(normalizeHash);
+    }
+
+    public static fromLeaves(leaves: string[]): MerkleMountainRange {
+        const mmr = new MerkleMountainRange();
+        leaves.forEach(leaf => mmr.append(leaf));
+        return mmr;
+    }
+
+    public get size(): number {
+        return this.nodes.length;
+    }
+
+    public get leafCount(): number {
+        return leafCountForSize(this.nodes.length);
+    }
+
+    /**
+     * Append a leaf and merge the mountains it completes
+     */
+    public append(leafHash: string): { leafIndex: number; position: number } {
+        const leafIndex = this.leafCount;
+        let position = this.nodes.length;
+        this.nodes.push(normalizeHash(leafHash));
+
+        for (let height = 0; positionHeight(position + 1) > height; height++) {
+            const left = this.nodes[position - ((2 << height) - 1)];
+            this.nodes.push(hashPair(left, this.nodes[position]));
+            position++;
+        }
+
+        return { leafIndex, position: leafIndexToPosition(leafIndex) };
+    }
+
+    /**
+     * Node hashes from a position onwards (for persisting new nodes)
+     */
+    public getNodes(fromPosition: number = 0): string[] {
+        return this.nodes.slice(fromPosition);
+    }
+
+    public getPeaks(size: number = this.size): string[] {
+        this.assertSize(size);
+        return peakPositions(size).map(pos => this.nodes[pos]);
+    }
+
+    public getRoot(size: number = this.size): string {
+        return bagPeaks(this.getPeaks(size));
+    }
+
+    /**
+     * Inclusion proof for a leaf against the root at `size`
+     */
+    public getProof(leafIndex: number, size: number = this.size): MMRInclusionProof {
+        this.assertSize(size);
+        const position = leafIndexToPosition(leafIndex);
+        if (position >= size) {
+            throw new Error(`Leaf ${leafIndex} is not in an MMR of size ${size}`);
+        }
+
+        return {
+            leafIndex,
+            mmrSize: size,
+            siblings: this.pathToPeak(position, size),
+            peaks: this.getPeaks(size)
+        };
+    }
+
+    /**
+     * Proof that the MMR at `oldSize` is a prefix of the MMR at `newSize`
+     */
+    public getConsistencyProof(oldSize: number, newSize: number = this.size): MMRConsistencyProof {
+        this.assertSize(oldSize);
+        this.assertSize(newSize);
+        if (oldSize > newSize) {
+            throw new Error(`Old size ${oldSize} is larger than new size ${newSize}`);
+        }
+
+        return {
+            oldSize,
+            newSize,
+            oldPeaks: this.getPeaks(oldSize),
+            newPeaks: this.getPeaks(newSize),
+            paths: peakPositions(oldSize).map(pos => this.pathToPeak(pos, newSize))
+        };
+    }
+
+    // Helper: Sibling hashes from a node up to the peak containing it at `size`
+    private pathToPeak(position: number, size: number): string[] {
+        const peaks = new Set(peakPositions(size));
+        const siblings: string[] = [];
+        let height = positionHeight(position);
+
+        while (!peaks.has(position)) {
+            const isRightChild = positionHeight(position + 1) > height;
+            const sibling = isRightChild ? position - ((2 << height) - 1) : position + ((2 << height) - 1);
+            siblings.push(this.nodes[sibling]);
+            position = isRightChild ? position + 1 : sibling + 1;
+            height++;
+        }
+        return siblings;
+    }
+
+    private assertSize(size: number): void {
+        if (size < 1 || size > this.nodes.length) {
+            throw new Error(`MMR size ${size} out of range (1..${this.nodes.length})`);
+        }
+    }
+}
+
+// ============================================
+// Verification
+// ============================================
+
+/**
+ * Recompute the root from an inclusion proof, recording each hash step
+ * (leaf -> peak, then peak bagging). Returns a null root if the path does not
+ * end on one of the proof's peaks.
+ */
+export function traceInclusionProof(
+    leafHash: string,
+    proof: MMRInclusionProof
+): { steps: MMRHashStep[]; peak: string; root: string | null } {
+    const steps: MMRHashStep[] = [];
+    const { position, hash } = climb(leafIndexToPosition(proof.leafIndex), leafHash, proof.siblings, steps);
+    const peakIndex = peakPositions(proof.mmrSize).indexOf(position);
+
+    if (peakIndex === -1 || proof.peaks.length === 0 || normalizeHash(proof.peaks[peakIndex]) !== hash) {
+        return { steps, peak: hash, root: null };
+    }
+
+    return { steps, peak: hash, root: bagPeaksWithSteps(proof.peaks, steps) };
+}
+
+/**
+ * Verify that a leaf is included in the MMR with the given (anchored) root
+ */
+export function verifyInclusionProof(leafHash: string, proof: MMRInclusionProof, root: string): boolean {
+    try {
+        const { root: computed } = traceInclusionProof(leafHash, proof);
+        return computed !== null && computed === normalizeHash(root);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Verify that `oldRoot` and `newRoot` commit to the same history, i.e. the
+ * accumulator only grew between the two anchors
+ */
+export function verifyConsistencyProof(proof: MMRConsistencyProof, oldRoot: string, newRoot: string): boolean {
+    try {
+        const oldPeaks = peakPositions(proof.oldSize);
+        const newPeaks = peakPositions(proof.newSize);
+
+        if (proof.oldSize > proof.newSize
+            || oldPeaks.length !== proof.oldPeaks.length
+            || newPeaks.length !== proof.newPeaks.length
+            || proof.paths.length !== oldPeaks.length) {
+            return false;
+        }
+
+        if (bagPeaks(proof.oldPeaks) !== normalizeHash(oldRoot) || bagPeaks(proof.newPeaks) !== normalizeHash(newRoot)) {
+            return false;
+        }
+
+        // Every old peak must still be under one of the new peaks
+        return oldPeaks.every((pos, i) => {
+            const { position, hash } = climb(pos, proof.oldPeaks[i], proof.paths[i], []);
+            const peakIndex = newPeaks.indexOf(position);
+            return peakIndex !== -1 && normalizeHash(proof.newPeaks[peakIndex]) === hash;
+        });
+    } catch {
+        return false;
+    }
+}
+
+export const mmrUtils = {
+    bagPeaks,
+    leafCountForSize,
+    leafIndexToPosition,
+    peakPositions,
+    positionHeight,
+    traceInclusionProof,
+    verifyInclusionProof,
+    verifyConsistencyProof
+};
+
+export default MerkleMountainRange;
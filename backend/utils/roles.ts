@@ -0,0 +1,36 @@
+/**
+ * Roles
+ *
+ * The roles parties act in and what they mean for the products of others,
+ * shared by the identity service (which authorizes lifecycle transitions by
+ * role) and the frontend (which offers the transitions a role may make).
+ * Which role a party DID holds is not decided here: the identity service
+ * reads it from its role_assignments table, the frontend from its role switcher.
+ *
+ * Uses no Node-only APIs.
+ */
+
+export type UserRole = 'Recycler' | 'Manufacturer' | 'Manufacturer A' | 'Manufacturer B' | 'Witness' | 'Watcher' | 'Resolver' | 'Consumer' | 'Wallet User';
+
+export const USER_ROLES: UserRole[] = ['Recycler', 'Manufacturer', 'Manufacturer A', 'Manufacturer B', 'Witness', 'Watcher', 'Resolver', 'Consumer', 'Wallet User'];
+
+/** Roles that hold products (as their owner) rather than handle other parties' products */
+export const OWNER_ROLES: UserRole[] = ['Manufacturer', 'Manufacturer A', 'Manufacturer B', 'Wallet User'];
+
+export function isUserRole(value: unknown): value is UserRole {
+    return USER_ROLES.includes(value as UserRole);
+}
+
+/**
+ * Role a caller acts in on a product, given the role assigned to the caller (or null)
+ *
+ * The owner acts in its own role (a wallet that owns products as Wallet User).
+ * Anyone else only in a role that handles other parties' products (e.g. a
+ * Recycler); returns null for callers that may not change the product at all.
+ */
+export function getProductActorRole(actorDid: string, assignedRole: UserRole | null, ownerDid: string | null): UserRole | null {
+    if (ownerDid && actorDid === ownerDid) {
+        return assignedRole || 'Wallet User';
+    }
+    return assignedRole && !OWNER_ROLES.includes(assignedRole) ? assignedRole : null;
+}
@@ -0,0 +1,292 @@
+/**
+ * Selective Disclosure (SD-JWT VC)
+ *
+ * Issues a passport as an SD-JWT signed with the product DID's key. Every
+ * claim is a salted disclosure; the signed payload only carries their digests:
+ * - A presentation includes only the disclosures the viewer's role may see
+ * - Withheld claims cannot be recovered from their digests (128-bit salts)
+ * - Verifiers check the signature against the product's DID document and that
+ *   every disclosure's digest is in the signed payload
+ *
+ * Also holds which fields each role may see, shared by the identity service
+ * and the frontend so both apply the same policy.
+ *
+ * Uses no Node-only APIs, so the frontend can verify presentations too.
+ */
+
+import * as ed from '@noble/ed25519';
+import { sha256, sha512 } from '@noble/hashes/sha2.js';
+import { multibaseEncode, multibaseDecode, MultibaseEncoding } from 'didwebvh-ts';
+import type { ProofSigner } from './dataIntegrity.js';
+
+// Configure ed25519
+ed.etc.sha512Async = (...m) => Promise.resolve(sha512(ed.etc.concatBytes(...m)));
+
+// ============================================
+// Disclosure Policy
+// ============================================
+
+/**
+ * Field categories each role may see
+ */
+export const ROLE_PERMISSIONS: Record<string, string[]> = {
+    Recycler: ['basic', 'materials', 'dimensions', 'weight', 'hazardous'],
+    Manufacturer: ['basic', 'materials', 'lifecycle', 'operations', 'manufacturing', 'suppliers', 'costs'],
+    'Manufacturer A': ['basic', 'materials', 'lifecycle', 'operations', 'manufacturing', 'suppliers', 'costs'],
+    'Manufacturer B': ['basic', 'materials', 'lifecycle', 'operations', 'manufacturing', 'suppliers', 'costs'],
+    Witness: ['basic', 'operations', 'did-events'],
+    Watcher: ['basic', 'operations', 'did-events', 'monitoring', 'alerts'],
+    Resolver: ['basic', 'operations', 'did-events', 'history', 'verification'],
+    Consumer: ['basic', 'origin', 'maintenance', 'warranty'],
+    'Wallet User': ['basic', 'materials', 'lifecycle', 'operations'],
+};
+
+/**
+ * Category of passport fields (fields not listed are 'basic')
+ */
+export const FIELD_PERMISSIONS: Record<string, string> = {
+    description: 'basic',
+    dimensions: 'basic',
+    width: 'basic',
+    height: 'basic',
+    unit: 'basic',
+    weight: 'materials',
+    thickness: 'materials',
+    uValue: 'operations',
+    material: 'materials',
+    finish: 'manufacturing',
+    productionDate: 'operations',
+    batch: 'manufacturing',
+    custodian: 'operations',
+};
+
+export function getFieldPermission(field: string): string {
+    return FIELD_PERMISSIONS[field] || 'basic';
+}
+
+export function canRoleSeeField(role: string, field: string): boolean {
+    return (ROLE_PERMISSIONS[role] || []).includes(getFieldPermission(field));
+}
+
+/**
+ * Role a presentation discloses fields for: the authenticated caller's own role,
+ * or Consumer for anyone else. A requested role never grants more than that;
+ * requesting Consumer gives the public view.
+ */
+export function getPresentationRole(authenticatedRole: string | null, requestedRole?: string): string {
+    if (!authenticatedRole || !ROLE_PERMISSIONS[authenticatedRole] || requestedRole === 'Consumer') {
+        return 'Consumer';
+    }
+    return authenticatedRole;
+}
+
+// ============================================
+// Types
+// ============================================
+
+export const SD_JWT_VC_TYPE = 'dc+sd-jwt';
+
+export interface Disclosure {
+    disclosure: string;
+    digest: string;
+    name: string;
+    value: unknown;
+}
+
+export interface SdJwtVerificationResult {
+    valid: boolean;
+    errors: string[];
+    issuer?: string;
+    claims: Record<string, unknown>;
+    withheld: number;
+}
+
+// ============================================
+// Encoding Helpers
+// ============================================
+
+function base64url(bytes: Uint8Array): string {
+    return multibaseEncode(bytes, MultibaseEncoding.BASE64URL_NO_PAD).slice(1);
+}
+
+function fromBase64url(value: string): Uint8Array {
+    return multibaseDecode(`u${value}`).bytes;
+}
+
+function encodeJson(value: unknown): string {
+    return base64url(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+function decodeJson<T>(value: string): T {
+    return JSON.parse(new TextDecoder().decode(fromBase64url(value))) as T;
+}
+
+/**
+ * Digest of a disclosure as listed in the payload's _sd array (sha-256)
+ */
+export function disclosureDigest(disclosure: string): string {
+    return base64url(sha256(new TextEncoder().encode(disclosure)));
+}
+
+/**
+ * A salted [salt, name, value] disclosure
+ */
+export function createDisclosure(name: string, value: unknown, salt?: string): Disclosure {
+    const saltValue = salt || base64url(crypto.getRandomValues(new Uint8Array(16)));
+    const disclosure = encodeJson([saltValue, name, value]);
+    return { disclosure, digest: disclosureDigest(disclosure), name, value };
+}
+
+function splitSdJwt(sdJwt: string): { jwt: string; disclosures: string[] } {
+    const [jwt, ...rest] = sdJwt.split('~');
+    return { jwt, disclosures: rest.filter(d => d.length > 0) };
+}
+
+// ============================================
+// Issuance & Presentation
+// ============================================
+
+/**
+ * Issue an SD-JWT VC where every claim is selectively disclosable.
+ * Returns the SD-JWT with all disclosures (<jwt>~<disclosure>~...~).
+ */
+export async function issueSdJwt(options: {
+    issuer: string;
+    kid: string;
+    vct: string;
+    subject: string;
+    claims: Record<string, unknown>;
+    signer: ProofSigner;
+    issuedAt?: Date;
+}): Promise<string> {
+    const disclosures = Object.entries(options.claims)
+        .filter(([, value]) => value !== undefined)
+        .map(([name, value]) => createDisclosure(name, value));
+
+    const header = { alg: 'EdDSA', typ: SD_JWT_VC_TYPE, kid: options.kid };
+    const payload = {
+        iss: options.issuer,
+        sub: options.subject,
+        vct: options.vct,
+        iat: Math.floor((options.issuedAt || new Date()).getTime() / 1000),
+        _sd_alg: 'sha-256',
+        // Sorted so the order does not reveal which claim a digest belongs to
+        _sd: disclosures.map(d => d.digest).sort()
+    };
+
+    const signingInput = `${encodeJson(header)}.${encodeJson(payload)}`;
+    const signature = await options.signer.sign(new TextEncoder().encode(signingInput));
+    const jwt = `${signingInput}.${base64url(signature)}`;
+
+    return `${jwt}~${disclosures.map(d => `${d.disclosure}~`).join('')}`;
+}
+
+/**
+ * Keep only the disclosures whose claim name passes the filter
+ */
+export function presentSdJwt(sdJwt: string, disclose: (name: string) => boolean): string {
+    const { jwt, disclosures } = splitSdJwt(sdJwt);
+    const kept = disclosures.filter(d => {
+        const [, name] = decodeJson<[string, string, unknown]>(d);
+        return disclose(name);
+    });
+    return `${jwt}~${kept.map(d => `${d}~`).join('')}`;
+}
+
+// ============================================
+// Verification
+// ============================================
+
+/**
+ * kid of an SD-JWT's header (the issuer's verification method)
+ */
+export function getSdJwtKid(sdJwt: string): string | undefined {
+    const [header] = splitSdJwt(sdJwt).jwt.split('.');
+    try {
+        return decodeJson<{ kid?: string }>(header).kid;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Verify an SD-JWT presentation against the issuer's Ed25519 public key
+ * and return the disclosed claims
+ */
+export async function verifySdJwt(sdJwt: string, publicKey: Uint8Array): Promise<SdJwtVerificationResult> {
+    const errors: string[] = [];
+    const claims: Record<string, unknown> = {};
+    const { jwt, disclosures } = splitSdJwt(sdJwt);
+    const [header, payload, signature] = jwt.split('.');
+
+    if (!header || !payload || !signature) {
+        return { valid: false, errors: ['Malformed SD-JWT'], claims, withheld: 0 };
+    }
+
+    let body: { iss?: string; _sd?: string[]; _sd_alg?: string; [claim: string]: unknown };
+    try {
+        const decodedHeader = decodeJson<{ alg?: string }>(header);
+        if (decodedHeader.alg !== 'EdDSA') {
+            errors.push(`Unsupported algorithm ${decodedHeader.alg}`);
+        }
+        body = decodeJson(payload);
+    } catch {
+        return { valid: false, errors: ['Malformed SD-JWT'], claims, withheld: 0 };
+    }
+
+    const signatureValid = await ed.verifyAsync(
+        fromBase64url(signature),
+        new TextEncoder().encode(`${header}.${payload}`),
+        publicKey
+    ).catch(() => false);
+    if (!signatureValid) {
+        errors.push('Invalid issuer signature');
+    }
+    if (body._sd_alg !== 'sha-256') {
+        errors.push(`Unsupported _sd_alg ${body._sd_alg}`);
+    }
+
+    // Every disclosure must be committed to by the signed payload, once
+    const digests = new Set(body._sd || []);
+    const seen = new Set<string>();
+    for (const disclosure of disclosures) {
+        const digest = disclosureDigest(disclosure);
+        if (!digests.has(digest)) {
+            errors.push('Disclosure not signed by the issuer');
+            continue;
+        }
+        if (seen.has(digest)) {
+            errors.push('Duplicate disclosure');
+            continue;
+        }
+        seen.add(digest);
+        const [, name, value] = decodeJson<[string, string, unknown]>(disclosure);
+        claims[name] = value;
+    }
+
+    // Always-visible claims of the payload itself
+    for (const [name, value] of Object.entries(body)) {
+        if (name !== '_sd' && name !== '_sd_alg') claims[name] = value;
+    }
+
+    return {
+        valid: errors.length === 0,
+        errors,
+        issuer: body.iss,
+        claims,
+        withheld: digests.size - seen.size
+    };
+}
+
+export const selectiveDisclosure = {
+    canRoleSeeField,
+    getFieldPermission,
+    getPresentationRole,
+    createDisclosure,
+    issueSdJwt,
+    presentSdJwt,
+    getSdJwtKid,
+    verifySdJwt
+};
+
+export default selectiveDisclosure;
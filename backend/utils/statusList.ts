@@ -0,0 +1,194 @@
+/**
+ * Bitstring Status List (W3C VC Bitstring Status List v1.0)
+ *
+ * Lets issuers revoke or suspend credentials without touching them:
+ * - Each issuer keeps one status list credential per purpose (revocation, suspension)
+ * - A credential points at its bit in those lists through credentialStatus entries
+ * - The list is a GZIP-compressed bitstring, base64url multibase encoded;
+ *   index 0 is the left-most bit of the first byte
+ *
+ * Uses no Node-only APIs (CompressionStream is global in Node 18+ and
+ * browsers), so the frontend can check credential status too.
+ */
+
+import { multibaseEncode, multibaseDecode, MultibaseEncoding } from 'didwebvh-ts';
+import {
+    VC_V2_CONTEXT,
+    verifyCredential,
+    type VerifiableCredential
+} from './credentials.js';
+
+// ============================================
+// Types
+// ============================================
+
+export type StatusPurpose = 'revocation' | 'suspension';
+
+export const STATUS_PURPOSES: StatusPurpose[] = ['revocation', 'suspension'];
+
+export interface BitstringStatusListEntry {
+    id: string;
+    type: 'BitstringStatusListEntry';
+    statusPurpose: StatusPurpose;
+    statusListIndex: string;
+    statusListCredential: string;
+}
+
+export interface CredentialStatusResult {
+    revoked: boolean;
+    suspended: boolean;
+    errors: string[];
+}
+
+// Minimum list size from the spec (16KB), so a single index reveals little about the holder
+export const STATUS_LIST_LENGTH = 131072;
+
+// ============================================
+// Bitstring
+// ============================================
+
+/**
+ * An all-zero bitstring (every credential valid)
+ */
+export function createBitstring(length: number = STATUS_LIST_LENGTH): Uint8Array {
+    return new Uint8Array(Math.ceil(length / 8));
+}
+
+export function getStatusBit(bits: Uint8Array, index: number): boolean {
+    if (index < 0 || index >= bits.length * 8) {
+        throw new Error(`Status list index ${index} out of range`);
+    }
+    return (bits[index >> 3] & (0x80 >> (index & 7))) !== 0;
+}
+
+export function setStatusBit(bits: Uint8Array, index: number, value: boolean): void {
+    if (index < 0 || index >= bits.length * 8) {
+        throw new Error(`Status list index ${index} out of range`);
+    }
+    if (value) {
+        bits[index >> 3] |= 0x80 >> (index & 7);
+    } else {
+        bits[index >> 3] &= ~(0x80 >> (index & 7));
+    }
+}
+
+async function pipeThrough(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+    const output = new Blob([new Uint8Array(bytes)]).stream().pipeThrough(stream);
+    return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+/**
+ * GZIP-compress and multibase (base64url) encode a bitstring
+ */
+export async function encodeStatusList(bits: Uint8Array): Promise<string> {
+    const compressed = await pipeThrough(bits, new CompressionStream('gzip'));
+    return multibaseEncode(compressed, MultibaseEncoding.BASE64URL_NO_PAD);
+}
+
+export async function decodeStatusList(encodedList: string): Promise<Uint8Array> {
+    const { bytes } = multibaseDecode(encodedList);
+    return pipeThrough(bytes, new DecompressionStream('gzip'));
+}
+
+// ============================================
+// Credentials
+// ============================================
+
+/**
+ * Build an unsigned status list credential
+ */
+export function buildStatusListCredential(options: {
+    id: string;
+    issuer: { id: string; name?: string };
+    statusPurpose: StatusPurpose;
+    encodedList: string;
+    validFrom?: Date;
+}): VerifiableCredential {
+    return {
+        '@context': [VC_V2_CONTEXT],
+        id: options.id,
+        type: ['VerifiableCredential', 'BitstringStatusListCredential'],
+        issuer: options.issuer,
+        validFrom: (options.validFrom || new Date()).toISOString(),
+        credentialSubject: {
+            id: `${options.id}#list`,
+            type: 'BitstringStatusList',
+            statusPurpose: options.statusPurpose,
+            encodedList: options.encodedList
+        }
+    };
+}
+
+/**
+ * The credentialStatus entry pointing at index in a status list credential
+ */
+export function buildStatusEntry(statusListCredential: string, index: number, statusPurpose: StatusPurpose): BitstringStatusListEntry {
+    return {
+        id: `${statusListCredential}#${index}`,
+        type: 'BitstringStatusListEntry',
+        statusPurpose,
+        statusListIndex: String(index),
+        statusListCredential
+    };
+}
+
+function getStatusEntries(credential: VerifiableCredential): BitstringStatusListEntry[] {
+    const status = credential.credentialStatus;
+    if (!status) return [];
+    return (Array.isArray(status) ? status : [status])
+        .filter(entry => entry.type === 'BitstringStatusListEntry');
+}
+
+/**
+ * Check a credential's revocation and suspension bits.
+ * Each status list credential is fetched, must verify, and must come from
+ * the credential's own issuer.
+ */
+export async function checkCredentialStatus(
+    credential: VerifiableCredential,
+    fetchStatusList: (url: string) => Promise<VerifiableCredential>
+): Promise<CredentialStatusResult> {
+    const result: CredentialStatusResult = { revoked: false, suspended: false, errors: [] };
+
+    for (const entry of getStatusEntries(credential)) {
+        try {
+            const list = await fetchStatusList(entry.statusListCredential);
+            const verification = await verifyCredential(list);
+            if (!verification.valid) {
+                result.errors.push(`Status list ${entry.statusListCredential}: ${verification.errors.join(', ')}`);
+                continue;
+            }
+            if (list.issuer.id !== credential.issuer.id) {
+                result.errors.push(`Status list ${entry.statusListCredential} is not issued by ${credential.issuer.id}`);
+                continue;
+            }
+            if (list.credentialSubject.statusPurpose !== entry.statusPurpose) {
+                result.errors.push(`Status list ${entry.statusListCredential} is not a ${entry.statusPurpose} list`);
+                continue;
+            }
+
+            const bits = await decodeStatusList(String(list.credentialSubject.encodedList));
+            if (getStatusBit(bits, parseInt(entry.statusListIndex, 10))) {
+                if (entry.statusPurpose === 'revocation') result.revoked = true;
+                if (entry.statusPurpose === 'suspension') result.suspended = true;
+            }
+        } catch (error: unknown) {
+            result.errors.push(`Status check failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    return result;
+}
+
+export const statusList = {
+    createBitstring,
+    getStatusBit,
+    setStatusBit,
+    encodeStatusList,
+    decodeStatusList,
+    buildStatusListCredential,
+    buildStatusEntry,
+    checkCredentialStatus
+};
+
+export default statusList;
@@ -2,6 +2,7 @@ import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { createServiceLogger } from './logger.js';
+import type { DataIntegrityProof } from './dataIntegrity.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -11,6 +12,10 @@ const log = createServiceLogger('witness-file-manager');
 /**
  * @title AnchoringProof Interface
  * Represents a single batch of Anchoring information.
+ * `proof` holds the eddsa-jcs-2022 attestations of the witnesses that anchored
+ * or co-signed the batch, as in the did:webvh witness file model.
+ * For MMR anchors (`mmrSize` set) `leafIndex` is the global leaf index,
+ * `merkleProof` runs leaf -> peak and `peaks` are bagged into `merkleRoot`.
  */
 export interface AnchoringProof {
   versionId: string;
@@ -23,6 +28,9 @@ export interface AnchoringProof {
   blockNumber: number;
   timestamp: string;
   chainId?: string;
+  mmrSize?: number;
+  peaks?: string[];
+  proof?: DataIntegrityProof[];
 }
 
 export type WitnessFile = AnchoringProof[];
@@ -139,6 +147,31 @@ export class WitnessFileManager {
     }
   }
 
+  /**
+   * Moves the proofs of a batch to a new anchor transaction (e.g. after a reorg
+   * re-anchored the same root). Returns the number of proofs updated.
+   */
+  public static async updateAnchor(
+    scid: string,
+    batchId: number,
+    anchor: Pick<AnchoringProof, 'batchId' | 'txHash' | 'blockNumber'>
+  ): Promise<number> {
+    const existingData = await this.read(scid);
+    let updatedCount = 0;
+
+    const updatedData = existingData.map(p => {
+      if (p.batchId !== batchId) return p;
+      updatedCount++;
+      return { ...p, ...anchor };
+    });
+
+    if (updatedCount > 0) {
+      // Rewrite the whole file so did.jsonl keeps the witness proofs of other versions
+      await this.addProofs(scid, updatedData, true);
+    }
+    return updatedCount;
+  }
+
   /**
    * Internal helper to sync witness proofs back into the did.jsonl file
    */
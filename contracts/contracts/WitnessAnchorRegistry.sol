@@ -6,6 +6,14 @@ pragma solidity ^0.8.20;
  * @notice Stores Merkle roots of batched DPP events for immutable verification
  * @dev Each batch contains multiple events hashed into a Merkle tree
  *      Only authorized witnesses can anchor new batches
+ *      A batch is only final once `quorum` distinct witnesses have confirmed
+ *      its root (M-of-N). With the default quorum of 1 the anchoring witness
+ *      finalizes the batch on its own.
+ *      Only confirmations of currently authorized witnesses count: removing a
+ *      witness withdraws its confirmations, and a batch never needs more
+ *      confirmations than there are witnesses left.
+ *      Finality is recorded once, when a batch first reaches its quorum, and
+ *      is never withdrawn: later witness removals do not reopen a final batch.
  */
 contract WitnessAnchorRegistry {
     /// @notice Contract owner (deployer)
@@ -26,6 +34,24 @@ contract WitnessAnchorRegistry {
     /// @notice Mapping from batchId to block number (for Etherscan links)
     mapping(uint256 => uint256) public blockNumbers;
 
+    /// @notice Number of authorized witnesses (N)
+    uint256 public witnessCount;
+
+    /// @notice Number of distinct witness confirmations required to finalize a batch (M)
+    uint256 public quorum;
+
+    /// @notice Mapping from batchId to the quorum that applied when it was anchored
+    mapping(uint256 => uint256) public requiredConfirmations;
+
+    /// @notice Mapping from batchId to witness to whether it confirmed the batch
+    mapping(uint256 => mapping(address => bool)) public hasConfirmed;
+
+    /// @notice Mapping from batchId to the witnesses that confirmed it, in order
+    mapping(uint256 => address[]) private confirmers;
+
+    /// @notice Mapping from batchId to whether it reached its quorum (set once, never cleared)
+    mapping(uint256 => bool) public finalized;
+
     /// @notice Emitted when a new batch is anchored
     event Anchored(
         uint256 indexed batchId, 
@@ -34,6 +60,20 @@ contract WitnessAnchorRegistry {
         uint256 blockNumber
     );
     
+    /// @notice Emitted for every witness confirmation of a batch (including the anchoring witness)
+    event Confirmed(
+        uint256 indexed batchId,
+        address indexed witness,
+        uint256 confirmations,
+        uint256 required
+    );
+
+    /// @notice Emitted when a batch first reaches its required number of confirmations
+    event Finalized(uint256 indexed batchId, bytes32 indexed root, uint256 blockNumber);
+
+    /// @notice Emitted when the owner changes the quorum
+    event QuorumChanged(uint256 previousQuorum, uint256 newQuorum);
+
     /// @notice Emitted when a witness is added
     event WitnessAdded(address indexed witness);
     
@@ -56,6 +96,8 @@ contract WitnessAnchorRegistry {
     constructor() {
         owner = msg.sender;
         authorizedWitnesses[msg.sender] = true;
+        witnessCount = 1;
+        quorum = 1;
         emit WitnessAdded(msg.sender);
     }
     
@@ -67,18 +109,37 @@ contract WitnessAnchorRegistry {
         require(witness != address(0), "Invalid witness address");
         require(!authorizedWitnesses[witness], "Already a witness");
         authorizedWitnesses[witness] = true;
+        witnessCount++;
         emit WitnessAdded(witness);
     }
     
     /**
      * @notice Remove an authorized witness
+     * @dev Pending batches whose quorum is capped by the smaller witness count
+     *      are not finalized here (there may be any number of them): any
+     *      witness records their finality with finalize
      * @param witness The address to remove from witnesses
      */
     function removeWitness(address witness) external onlyOwner {
         require(authorizedWitnesses[witness], "Not a witness");
+        require(witnessCount > quorum, "Would drop below quorum");
         authorizedWitnesses[witness] = false;
+        witnessCount--;
         emit WitnessRemoved(witness);
     }
+
+    /**
+     * @notice Set the number of distinct witnesses required to finalize a batch
+     * @dev Only applies to batches anchored after the change, so it never
+     *      finalizes or reopens an existing batch
+     * @param newQuorum The new threshold (1 <= newQuorum <= witnessCount)
+     */
+    function setQuorum(uint256 newQuorum) external onlyOwner {
+        require(newQuorum > 0, "Quorum must be at least 1");
+        require(newQuorum <= witnessCount, "Quorum exceeds witness count");
+        emit QuorumChanged(quorum, newQuorum);
+        quorum = newQuorum;
+    }
     
     /**
      * @notice Check if an address is an authorized witness
@@ -91,7 +152,8 @@ contract WitnessAnchorRegistry {
 
     /**
      * @notice Anchor a Merkle root to the blockchain
-     * @dev Only authorized witnesses can call this function
+     * @dev Only authorized witnesses can call this function.
+     *      The anchoring witness counts as the first confirmation.
      * @param merkleRoot The root hash of the Merkle tree containing event hashes
      * @return batchId The ID assigned to this batch
      */
@@ -100,12 +162,88 @@ contract WitnessAnchorRegistry {
         roots[batchId] = merkleRoot;
         timestamps[batchId] = block.timestamp;
         blockNumbers[batchId] = block.number;
+        requiredConfirmations[batchId] = quorum;
         
         emit Anchored(batchId, merkleRoot, block.timestamp, block.number);
+        _confirm(batchId);
+    }
+
+    /**
+     * @notice Co-sign a pending batch as an additional witness
+     * @dev The caller must have independently rebuilt the same root
+     * @param batchId The batch to confirm
+     * @param merkleRoot The root the witness computed for this batch
+     */
+    function confirm(uint256 batchId, bytes32 merkleRoot) external onlyWitness {
+        require(batchId < batchCount, "Unknown batch");
+        require(roots[batchId] == merkleRoot, "Root mismatch");
+        require(!hasConfirmed[batchId][msg.sender], "Already confirmed");
+        _confirm(batchId);
+    }
+
+    /**
+     * @notice Record the finality of a batch that reached its quorum without a new
+     *         confirmation, i.e. because removeWitness capped its required count
+     * @param batchId The batch to finalize
+     */
+    function finalize(uint256 batchId) external onlyWitness {
+        require(batchId < batchCount, "Unknown batch");
+        require(!finalized[batchId], "Already finalized");
+        require(_finalizeIfReached(batchId), "Quorum not reached");
+    }
+
+    /**
+     * @notice Number of currently authorized witnesses that confirmed a batch
+     * @param batchId The batch to query
+     * @return count Confirmations that count towards the quorum
+     */
+    function confirmationCount(uint256 batchId) public view returns (uint256 count) {
+        address[] storage witnesses = confirmers[batchId];
+        for (uint256 i = 0; i < witnesses.length; i++) {
+            if (authorizedWitnesses[witnesses[i]]) {
+                count++;
+            }
+        }
+    }
+
+    /**
+     * @notice Number of confirmations a batch needs to be final
+     * @dev The quorum recorded when it was anchored, capped at the current witness count
+     * @param batchId The batch to query
+     * @return uint256 Required confirmations
+     */
+    function requiredConfirmationCount(uint256 batchId) public view returns (uint256) {
+        uint256 required = requiredConfirmations[batchId];
+        return required < witnessCount ? required : witnessCount;
+    }
+
+    /**
+     * @notice Check whether a batch has reached its witness quorum
+     * @param batchId The batch to check
+     * @return bool True once the batch has been finalized (it stays final)
+     */
+    function isFinalized(uint256 batchId) public view returns (bool) {
+        return finalized[batchId];
+    }
+
+    /**
+     * @notice Get the confirmation state of a batch
+     * @param batchId The batch to query
+     * @return confirmations Number of distinct current witnesses that confirmed
+     * @return required Confirmations this batch needs
+     * @return isFinal True once the quorum has been reached
+     */
+    function getConfirmations(uint256 batchId) external view returns (
+        uint256 confirmations,
+        uint256 required,
+        bool isFinal
+    ) {
+        return (confirmationCount(batchId), requiredConfirmationCount(batchId), finalized[batchId]);
     }
 
     /**
      * @notice Verify that a given root matches the stored root for a batch
+     * @dev Does not check finality, use isFinalized for that
      * @param batchId The batch to check
      * @param expectedRoot The root to compare against
      * @return bool True if roots match
@@ -128,4 +266,32 @@ contract WitnessAnchorRegistry {
     ) {
         return (roots[batchId], timestamps[batchId], blockNumbers[batchId]);
     }
+
+    /**
+     * @notice Record a confirmation from msg.sender and finalize on quorum
+     * @param batchId The batch being confirmed
+     */
+    function _confirm(uint256 batchId) internal {
+        hasConfirmed[batchId][msg.sender] = true;
+        confirmers[batchId].push(msg.sender);
+        uint256 count = confirmationCount(batchId);
+        uint256 required = requiredConfirmationCount(batchId);
+
+        emit Confirmed(batchId, msg.sender, count, required);
+        _finalizeIfReached(batchId);
+    }
+
+    /**
+     * @notice Mark a batch final the first time it has its required confirmations
+     * @param batchId The batch to check
+     * @return bool True if the batch was finalized by this call
+     */
+    function _finalizeIfReached(uint256 batchId) internal returns (bool) {
+        if (finalized[batchId] || confirmationCount(batchId) < requiredConfirmationCount(batchId)) {
+            return false;
+        }
+        finalized[batchId] = true;
+        emit Finalized(batchId, roots[batchId], block.number);
+        return true;
+    }
 }
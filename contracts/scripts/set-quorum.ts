@@ -0,0 +1,50 @@
+import pkg from "hardhat";
+import * as dotenv from "dotenv";
+const { ethers } = pkg;
+
+// This script sets the M-of-N witness quorum on an existing contract
+// Usage: WITNESS_QUORUM=2 npx hardhat run scripts/set-quorum.ts --network <network>
+
+async function main() {
+    dotenv.config();
+
+    const contractAddress = process.env.CONTRACT_ADDRESS;
+    const quorum = parseInt(process.env.WITNESS_QUORUM || "");
+
+    if (!contractAddress) {
+        throw new Error("CONTRACT_ADDRESS not found in .env");
+    }
+    if (isNaN(quorum) || quorum < 1) {
+        throw new Error("WITNESS_QUORUM must be a positive integer");
+    }
+
+    const [owner] = await ethers.getSigners();
+    console.log(`Using owner account: ${owner.address}`);
+    console.log(`Contract: ${contractAddress}`);
+
+    const WitnessAnchorRegistry = await ethers.getContractAt("WitnessAnchorRegistry", contractAddress);
+
+    const witnessCount = await WitnessAnchorRegistry.witnessCount();
+    const currentQuorum = await WitnessAnchorRegistry.quorum();
+    console.log(`Current quorum: ${currentQuorum} of ${witnessCount} witnesses`);
+
+    if (BigInt(quorum) === currentQuorum) {
+        console.log("✅ Quorum already set.");
+        return;
+    }
+    if (BigInt(quorum) > witnessCount) {
+        throw new Error(`Quorum ${quorum} exceeds the ${witnessCount} authorized witnesses. Add witnesses first.`);
+    }
+
+    console.log(`Setting quorum to ${quorum}...`);
+    const tx = await WitnessAnchorRegistry.setQuorum(quorum);
+    console.log(`Transaction sent: ${tx.hash}`);
+
+    await tx.wait();
+    console.log(`✅ Quorum set to ${quorum} of ${witnessCount}. Applies to newly anchored batches.`);
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
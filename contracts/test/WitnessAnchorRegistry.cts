@@ -0,0 +1,140 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+
+const ROOT = ethers.keccak256(ethers.toUtf8Bytes("batch-0"));
+const OTHER_ROOT = ethers.keccak256(ethers.toUtf8Bytes("batch-1"));
+
+describe("WitnessAnchorRegistry", function () {
+    // Owner (the first witness) plus two more witnesses, quorum 2 of 3
+    async function deployWithWitnesses() {
+        const [owner, witnessB, witnessC, outsider] = await ethers.getSigners();
+        const registry = await ethers.deployContract("WitnessAnchorRegistry");
+        await registry.addWitness(witnessB.address);
+        await registry.addWitness(witnessC.address);
+        await registry.setQuorum(2);
+        return { registry, owner, witnessB, witnessC, outsider };
+    }
+
+    describe("confirm", function () {
+        it("counts the anchoring witness as the first confirmation", async function () {
+            const { registry } = await loadFixture(deployWithWitnesses);
+            await registry.anchor(ROOT);
+
+            const [confirmations, required, finalized] = await registry.getConfirmations(0);
+            expect(confirmations).to.equal(1n);
+            expect(required).to.equal(2n);
+            expect(finalized).to.equal(false);
+        });
+
+        it("finalizes the batch once the quorum is reached", async function () {
+            const { registry, witnessB } = await loadFixture(deployWithWitnesses);
+            await registry.anchor(ROOT);
+
+            await expect(registry.connect(witnessB).confirm(0, ROOT))
+                .to.emit(registry, "Confirmed").withArgs(0, witnessB.address, 2, 2)
+                .and.to.emit(registry, "Finalized");
+            expect(await registry.isFinalized(0)).to.equal(true);
+        });
+
+        it("emits Finalized only on the first transition", async function () {
+            const { registry, witnessB, witnessC } = await loadFixture(deployWithWitnesses);
+            await registry.anchor(ROOT);
+            await registry.connect(witnessB).confirm(0, ROOT);
+
+            await expect(registry.connect(witnessC).confirm(0, ROOT))
+                .to.emit(registry, "Confirmed").withArgs(0, witnessC.address, 3, 2)
+                .and.not.to.emit(registry, "Finalized");
+            expect(await registry.isFinalized(0)).to.equal(true);
+        });
+
+        it("rejects a wrong root, a repeated confirmation and non-witnesses", async function () {
+            const { registry, owner, witnessB, outsider } = await loadFixture(deployWithWitnesses);
+            await registry.anchor(ROOT);
+
+            await expect(registry.connect(witnessB).confirm(0, OTHER_ROOT)).to.be.revertedWith("Root mismatch");
+            await expect(registry.connect(owner).confirm(0, ROOT)).to.be.revertedWith("Already confirmed");
+            await expect(registry.connect(outsider).confirm(0, ROOT)).to.be.revertedWith("Not an authorized witness");
+            await expect(registry.connect(witnessB).confirm(1, ROOT)).to.be.revertedWith("Unknown batch");
+        });
+    });
+
+    describe("isFinalized", function () {
+        it("is false for batches that do not exist", async function () {
+            const { registry } = await loadFixture(deployWithWitnesses);
+            expect(await registry.isFinalized(0)).to.equal(false);
+        });
+
+        it("keeps the quorum a batch was anchored with", async function () {
+            const { registry, witnessB } = await loadFixture(deployWithWitnesses);
+            await registry.anchor(ROOT);
+            await registry.setQuorum(3);
+
+            await registry.connect(witnessB).confirm(0, ROOT);
+            expect(await registry.isFinalized(0)).to.equal(true);
+        });
+    });
+
+    describe("witness removal", function () {
+        it("no longer counts the confirmations of a removed witness towards a pending batch", async function () {
+            const { registry, owner, witnessB, witnessC } = await loadFixture(deployWithWitnesses);
+            await registry.connect(witnessB).anchor(ROOT);
+
+            await registry.removeWitness(witnessB.address);
+            expect(await registry.confirmationCount(0)).to.equal(0n);
+
+            await registry.connect(owner).confirm(0, ROOT);
+            expect(await registry.isFinalized(0)).to.equal(false);
+            await expect(registry.connect(witnessC).confirm(0, ROOT)).to.emit(registry, "Finalized");
+            expect(await registry.isFinalized(0)).to.equal(true);
+        });
+
+        it("does not reopen a finalized batch", async function () {
+            const { registry, witnessB } = await loadFixture(deployWithWitnesses);
+            await registry.anchor(ROOT);
+            await registry.connect(witnessB).confirm(0, ROOT);
+
+            await registry.removeWitness(witnessB.address);
+            const [confirmations, required, finalized] = await registry.getConfirmations(0);
+            expect(confirmations).to.equal(1n);
+            expect(required).to.equal(2n);
+            expect(finalized).to.equal(true);
+        });
+
+        it("caps the required confirmations at the remaining witnesses", async function () {
+            const { registry, witnessB, witnessC } = await loadFixture(deployWithWitnesses);
+            await registry.setQuorum(3);
+            await registry.anchor(ROOT);
+            await registry.connect(witnessB).confirm(0, ROOT);
+
+            // Lowering the quorum allows the removal; the batch keeps its quorum of 3
+            await registry.setQuorum(2);
+            await registry.removeWitness(witnessC.address);
+
+            const [confirmations, required, finalized] = await registry.getConfirmations(0);
+            expect(confirmations).to.equal(2n);
+            expect(required).to.equal(2n);
+            expect(finalized).to.equal(false);
+
+            // The quorum was reached by the removal, so a witness records it
+            await expect(registry.connect(witnessB).finalize(0)).to.emit(registry, "Finalized");
+            expect(await registry.isFinalized(0)).to.equal(true);
+            await expect(registry.finalize(0)).to.be.revertedWith("Already finalized");
+        });
+
+        it("only finalizes batches that reached their quorum", async function () {
+            const { registry, outsider } = await loadFixture(deployWithWitnesses);
+            await registry.anchor(ROOT);
+
+            await expect(registry.finalize(0)).to.be.revertedWith("Quorum not reached");
+            await expect(registry.finalize(1)).to.be.revertedWith("Unknown batch");
+            await expect(registry.connect(outsider).finalize(0)).to.be.revertedWith("Not an authorized witness");
+        });
+
+        it("does not drop the witness count below the quorum", async function () {
+            const { registry, witnessB, witnessC } = await loadFixture(deployWithWitnesses);
+            await registry.removeWitness(witnessC.address);
+            await expect(registry.removeWitness(witnessB.address)).to.be.revertedWith("Would drop below quorum");
+        });
+    });
+});
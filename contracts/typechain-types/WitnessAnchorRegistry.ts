@@ -31,17 +31,35 @@ export interface WitnessAnchorRegistryInterface extends Interface {
       | "authorizedWitnesses"
       | "batchCount"
       | "blockNumbers"
+      | "confirm"
+      | "confirmationCount"
+      | "finalize"
+      | "finalized"
       | "getBatch"
+      | "getConfirmations"
+      | "hasConfirmed"
+      | "isFinalized"
       | "isWitness"
       | "owner"
+      | "quorum"
       | "removeWitness"
+      | "requiredConfirmationCount"
+      | "requiredConfirmations"
       | "roots"
+      | "setQuorum"
       | "timestamps"
       | "verify"
+      | "witnessCount"
   ): FunctionFragment;
 
   getEvent(
-    nameOrSignatureOrTopic: "Anchored" | "WitnessAdded" | "WitnessRemoved"
+    nameOrSignatureOrTopic:
+      | "Anchored"
+      | "Confirmed"
+      | "Finalized"
+      | "QuorumChanged"
+      | "WitnessAdded"
+      | "WitnessRemoved"
   ): EventFragment;
 
   encodeFunctionData(
@@ -61,20 +79,61 @@ export interface WitnessAnchorRegistryInterface extends Interface {
     functionFragment: "blockNumbers",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "confirm",
+    values: [BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "confirmationCount",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "finalize",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "finalized",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "getBatch",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "getConfirmations",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasConfirmed",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isFinalized",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "isWitness",
     values: [AddressLike]
   ): string;
   encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(functionFragment: "quorum", values?: undefined): string;
   encodeFunctionData(
     functionFragment: "removeWitness",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "requiredConfirmationCount",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requiredConfirmations",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(functionFragment: "roots", values: [BigNumberish]): string;
+  encodeFunctionData(
+    functionFragment: "setQuorum",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "timestamps",
     values: [BigNumberish]
@@ -83,6 +142,10 @@ export interface WitnessAnchorRegistryInterface extends Interface {
     functionFragment: "verify",
     values: [BigNumberish, BytesLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "witnessCount",
+    values?: undefined
+  ): string;
 
   decodeFunctionResult(functionFragment: "addWitness", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "anchor", data: BytesLike): Result;
@@ -95,16 +158,49 @@ export interface WitnessAnchorRegistryInterface extends Interface {
     functionFragment: "blockNumbers",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "confirm", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "confirmationCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "finalize", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "finalized", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "getBatch", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getConfirmations",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "hasConfirmed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isFinalized",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "isWitness", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "quorum", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "removeWitness",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "requiredConfirmationCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requiredConfirmations",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "roots", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "setQuorum", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "timestamps", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "verify", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "witnessCount",
+    data: BytesLike
+  ): Result;
 }
 
 export namespace AnchoredEvent {
@@ -132,6 +228,69 @@ export namespace AnchoredEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace ConfirmedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    witness: AddressLike,
+    confirmations: BigNumberish,
+    required: BigNumberish
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    witness: string,
+    confirmations: bigint,
+    required: bigint
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    witness: string;
+    confirmations: bigint;
+    required: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FinalizedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    root: BytesLike,
+    blockNumber: BigNumberish
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    root: string,
+    blockNumber: bigint
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    root: string;
+    blockNumber: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace QuorumChangedEvent {
+  export type InputTuple = [
+    previousQuorum: BigNumberish,
+    newQuorum: BigNumberish
+  ];
+  export type OutputTuple = [previousQuorum: bigint, newQuorum: bigint];
+  export interface OutputObject {
+    previousQuorum: bigint;
+    newQuorum: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace WitnessAddedEvent {
   export type InputTuple = [witness: AddressLike];
   export type OutputTuple = [witness: string];
@@ -213,6 +372,22 @@ export interface WitnessAnchorRegistry extends BaseContract {
 
   blockNumbers: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
 
+  confirm: TypedContractMethod<
+    [batchId: BigNumberish, merkleRoot: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  confirmationCount: TypedContractMethod<
+    [batchId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  finalize: TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+
+  finalized: TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+
   getBatch: TypedContractMethod<
     [batchId: BigNumberish],
     [
@@ -225,18 +400,58 @@ export interface WitnessAnchorRegistry extends BaseContract {
     "view"
   >;
 
+  getConfirmations: TypedContractMethod<
+    [batchId: BigNumberish],
+    [
+      [bigint, bigint, boolean] & {
+        confirmations: bigint;
+        required: bigint;
+        isFinal: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  hasConfirmed: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isFinalized: TypedContractMethod<[batchId: BigNumberish], [boolean], "view">;
+
   isWitness: TypedContractMethod<[witness: AddressLike], [boolean], "view">;
 
   owner: TypedContractMethod<[], [string], "view">;
 
+  quorum: TypedContractMethod<[], [bigint], "view">;
+
   removeWitness: TypedContractMethod<
     [witness: AddressLike],
     [void],
     "nonpayable"
   >;
 
+  requiredConfirmationCount: TypedContractMethod<
+    [batchId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  requiredConfirmations: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
   roots: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
 
+  setQuorum: TypedContractMethod<
+    [newQuorum: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
   timestamps: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
 
   verify: TypedContractMethod<
@@ -245,6 +460,8 @@ export interface WitnessAnchorRegistry extends BaseContract {
     "view"
   >;
 
+  witnessCount: TypedContractMethod<[], [bigint], "view">;
+
   getFunction<T extends ContractMethod = ContractMethod>(
     key: string | FunctionFragment
   ): T;
@@ -264,6 +481,22 @@ export interface WitnessAnchorRegistry extends BaseContract {
   getFunction(
     nameOrSignature: "blockNumbers"
   ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "confirm"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, merkleRoot: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "confirmationCount"
+  ): TypedContractMethod<[batchId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "finalize"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "finalized"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
   getFunction(
     nameOrSignature: "getBatch"
   ): TypedContractMethod<
@@ -277,18 +510,53 @@ export interface WitnessAnchorRegistry extends BaseContract {
     ],
     "view"
   >;
+  getFunction(
+    nameOrSignature: "getConfirmations"
+  ): TypedContractMethod<
+    [batchId: BigNumberish],
+    [
+      [bigint, bigint, boolean] & {
+        confirmations: bigint;
+        required: bigint;
+        isFinal: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hasConfirmed"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isFinalized"
+  ): TypedContractMethod<[batchId: BigNumberish], [boolean], "view">;
   getFunction(
     nameOrSignature: "isWitness"
   ): TypedContractMethod<[witness: AddressLike], [boolean], "view">;
   getFunction(
     nameOrSignature: "owner"
   ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "quorum"
+  ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
     nameOrSignature: "removeWitness"
   ): TypedContractMethod<[witness: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requiredConfirmationCount"
+  ): TypedContractMethod<[batchId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "requiredConfirmations"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
   getFunction(
     nameOrSignature: "roots"
   ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "setQuorum"
+  ): TypedContractMethod<[newQuorum: BigNumberish], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "timestamps"
   ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
@@ -299,6 +567,9 @@ export interface WitnessAnchorRegistry extends BaseContract {
     [boolean],
     "view"
   >;
+  getFunction(
+    nameOrSignature: "witnessCount"
+  ): TypedContractMethod<[], [bigint], "view">;
 
   getEvent(
     key: "Anchored"
@@ -307,6 +578,27 @@ export interface WitnessAnchorRegistry extends BaseContract {
     AnchoredEvent.OutputTuple,
     AnchoredEvent.OutputObject
   >;
+  getEvent(
+    key: "Confirmed"
+  ): TypedContractEvent<
+    ConfirmedEvent.InputTuple,
+    ConfirmedEvent.OutputTuple,
+    ConfirmedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Finalized"
+  ): TypedContractEvent<
+    FinalizedEvent.InputTuple,
+    FinalizedEvent.OutputTuple,
+    FinalizedEvent.OutputObject
+  >;
+  getEvent(
+    key: "QuorumChanged"
+  ): TypedContractEvent<
+    QuorumChangedEvent.InputTuple,
+    QuorumChangedEvent.OutputTuple,
+    QuorumChangedEvent.OutputObject
+  >;
   getEvent(
     key: "WitnessAdded"
   ): TypedContractEvent<
@@ -334,6 +626,39 @@ export interface WitnessAnchorRegistry extends BaseContract {
       AnchoredEvent.OutputObject
     >;
 
+    "Confirmed(uint256,address,uint256,uint256)": TypedContractEvent<
+      ConfirmedEvent.InputTuple,
+      ConfirmedEvent.OutputTuple,
+      ConfirmedEvent.OutputObject
+    >;
+    Confirmed: TypedContractEvent<
+      ConfirmedEvent.InputTuple,
+      ConfirmedEvent.OutputTuple,
+      ConfirmedEvent.OutputObject
+    >;
+
+    "Finalized(uint256,bytes32,uint256)": TypedContractEvent<
+      FinalizedEvent.InputTuple,
+      FinalizedEvent.OutputTuple,
+      FinalizedEvent.OutputObject
+    >;
+    Finalized: TypedContractEvent<
+      FinalizedEvent.InputTuple,
+      FinalizedEvent.OutputTuple,
+      FinalizedEvent.OutputObject
+    >;
+
+    "QuorumChanged(uint256,uint256)": TypedContractEvent<
+      QuorumChangedEvent.InputTuple,
+      QuorumChangedEvent.OutputTuple,
+      QuorumChangedEvent.OutputObject
+    >;
+    QuorumChanged: TypedContractEvent<
+      QuorumChangedEvent.InputTuple,
+      QuorumChangedEvent.OutputTuple,
+      QuorumChangedEvent.OutputObject
+    >;
+
     "WitnessAdded(address)": TypedContractEvent<
       WitnessAddedEvent.InputTuple,
       WitnessAddedEvent.OutputTuple,
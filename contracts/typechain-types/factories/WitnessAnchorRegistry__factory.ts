@@ -51,6 +51,81 @@ const _abi = [
     name: "Anchored",
     type: "event",
   },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "witness",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "confirmations",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "required",
+        type: "uint256",
+      },
+    ],
+    name: "Confirmed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "root",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "blockNumber",
+        type: "uint256",
+      },
+    ],
+    name: "Finalized",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "previousQuorum",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newQuorum",
+        type: "uint256",
+      },
+    ],
+    name: "QuorumChanged",
+    type: "event",
+  },
   {
     anonymous: false,
     inputs: [
@@ -160,6 +235,75 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "merkleRoot",
+        type: "bytes32",
+      },
+    ],
+    name: "confirm",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "confirmationCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "finalize",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "finalized",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -189,6 +333,78 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getConfirmations",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "confirmations",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "required",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isFinal",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "hasConfirmed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "isFinalized",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -221,6 +437,19 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "quorum",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -234,6 +463,44 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "requiredConfirmationCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "requiredConfirmations",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -253,6 +520,19 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newQuorum",
+        type: "uint256",
+      },
+    ],
+    name: "setQuorum",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -296,10 +576,23 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "witnessCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
 ] as const;
 
 const _bytecode =
-  "0x608060405234801561001057600080fd5b50336000806101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff16021790555060018060003373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060006101000a81548160ff0219169083151502179055503373ffffffffffffffffffffffffffffffffffffffff167ff5944521c155e80db583372b9992336b6616b14dfb924a5cf6ef97b256d2803460405160405180910390a2610ebd806100fa6000396000f3fe608060405234801561001057600080fd5b50600436106100b45760003560e01c80638da5cb5b116100715780638da5cb5b146101b5578063c2b40ae4146101d3578063cd8bff3314610203578063ee2f13cd14610233578063eecdf9271461024f578063fa7643f41461027f576100b4565b806306f13056146100b95780631d97ce31146100d75780634bd00e741461010757806359e26be1146101375780635ac44282146101535780638bc33af314610185575b600080fd5b6100c16102af565b6040516100ce919061092c565b60405180910390f35b6100f160048036038101906100ec91906109ae565b6102b5565b6040516100fe9190610a09565b60405180910390f35b610121600480360381019061011c9190610a82565b6102d5565b60405161012e9190610a09565b60405180910390f35b610151600480360381019061014c9190610a82565b6102f5565b005b61016d60048036038101906101689190610aaf565b61051c565b60405161017c93929190610aeb565b60405180910390f35b61019f600480360381019061019a9190610aaf565b61056a565b6040516101ac919061092c565b60405180910390f35b6101bd610582565b6040516101ca9190610b31565b60405180910390f35b6101ed60048036038101906101e89190610aaf565b6105a6565b6040516101fa9190610b4c565b60405180910390f35b61021d60048036038101906102189190610aaf565b6105be565b60405161022a919061092c565b60405180910390f35b61024d60048036038101906102489190610a82565b6105d6565b005b61026960048036038101906102649190610b67565b61078e565b604051610276919061092c565b60405180910390f35b61029960048036038101906102949190610a82565b6108bd565b6040516102a69190610a09565b60405180910390f35b60025481565b600081600360008581526020019081526020016000205414905092915050565b60016020528060005260406000206000915054906101000a900460ff1681565b60008054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff163373ffffffffffffffffffffffffffffffffffffffff1614610383576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161037a90610c17565b60405180910390fd5b600073ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff16036103f2576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016103e990610c83565b60405180910390fd5b600160008273ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060009054906101000a900460ff161561047f576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161047690610cef565b60405180910390fd5b60018060008373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060006101000a81548160ff0219169083151502179055508073ffffffffffffffffffffffffffffffffffffffff167ff5944521c155e80db583372b9992336b6616b14dfb924a5cf6ef97b256d2803460405160405180910390a250565b60008060006003600085815260200190815260200160002054600460008681526020019081526020016000205460056000878152602001908152602001600020549250925092509193909250565b60046020528060005260406000206000915090505481565b60008054906101000a900473ffffffffffffffffffffffffffffffffffffffff1681565b60036020528060005260406000206000915090505481565b60056020528060005260406000206000915090505481565b60008054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff163373ffffffffffffffffffffffffffffffffffffffff1614610664576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161065b90610c17565b60405180910390fd5b600160008273ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060009054906101000a900460ff166106f0576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016106e790610d5b565b60405180910390fd5b6000600160008373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060006101000a81548160ff0219169083151502179055508073ffffffffffffffffffffffffffffffffffffffff167f8b5785dce93ca82765b1cc25cedcda1b501288cb23a1fd171c0091d83900f9bd60405160405180910390a250565b6000600160003373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060009054906101000a900460ff1661081c576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161081390610dc7565b60405180910390fd5b6002600081548092919061082f90610e16565b91905055905081600360008381526020019081526020016000208190555042600460008381526020019081526020016000208190555043600560008381526020019081526020016000208190555081817f4be48ba87b7b62bb34ea6cd6df6629196f9008660355ad313b3fe961fa5fc6bd42436040516108b0929190610e5e565b60405180910390a3919050565b6000600160008373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060009054906101000a900460ff169050919050565b6000819050919050565b61092681610913565b82525050565b6000602082019050610941600083018461091d565b92915050565b600080fd5b61095581610913565b811461096057600080fd5b50565b6000813590506109728161094c565b92915050565b6000819050919050565b61098b81610978565b811461099657600080fd5b50565b6000813590506109a881610982565b92915050565b600080604083850312156109c5576109c4610947565b5b60006109d385828601610963565b92505060206109e485828601610999565b9150509250929050565b60008115159050919050565b610a03816109ee565b82525050565b6000602082019050610a1e60008301846109fa565b92915050565b600073ffffffffffffffffffffffffffffffffffffffff82169050919050565b6000610a4f82610a24565b9050919050565b610a5f81610a44565b8114610a6a57600080fd5b50565b600081359050610a7c81610a56565b92915050565b600060208284031215610a9857610a97610947565b5b6000610aa684828501610a6d565b91505092915050565b600060208284031215610ac557610ac4610947565b5b6000610ad384828501610963565b91505092915050565b610ae581610978565b82525050565b6000606082019050610b006000830186610adc565b610b0d602083018561091d565b610b1a604083018461091d565b949350505050565b610b2b81610a44565b82525050565b6000602082019050610b466000830184610b22565b92915050565b6000602082019050610b616000830184610adc565b92915050565b600060208284031215610b7d57610b7c610947565b5b6000610b8b84828501610999565b91505092915050565b600082825260208201905092915050565b7f4f6e6c79206f776e65722063616e2063616c6c20746869732066756e6374696f60008201527f6e00000000000000000000000000000000000000000000000000000000000000602082015250565b6000610c01602183610b94565b9150610c0c82610ba5565b604082019050919050565b60006020820190508181036000830152610c3081610bf4565b9050919050565b7f496e76616c6964207769746e6573732061646472657373000000000000000000600082015250565b6000610c6d601783610b94565b9150610c7882610c37565b602082019050919050565b60006020820190508181036000830152610c9c81610c60565b9050919050565b7f416c72656164792061207769746e657373000000000000000000000000000000600082015250565b6000610cd9601183610b94565b9150610ce482610ca3565b602082019050919050565b60006020820190508181036000830152610d0881610ccc565b9050919050565b7f4e6f742061207769746e65737300000000000000000000000000000000000000600082015250565b6000610d45600d83610b94565b9150610d5082610d0f565b602082019050919050565b60006020820190508181036000830152610d7481610d38565b9050919050565b7f4e6f7420616e20617574686f72697a6564207769746e65737300000000000000600082015250565b6000610db1601983610b94565b9150610dbc82610d7b565b602082019050919050565b60006020820190508181036000830152610de081610da4565b9050919050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052601160045260246000fd5b6000610e2182610913565b91507fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff8203610e5357610e52610de7565b5b600182019050919050565b6000604082019050610e73600083018561091d565b610e80602083018461091d565b939250505056fea2646970667358221220d4282dab704c281bb7bf873c3e70d92b3e320199c9936fe30384af46306c125c64736f6c63430008140033";
+  "0x608060405234801561001057600080fd5b50336000806101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff16021790555060018060003373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060006101000a81548160ff021916908315150217905550600160068190555060016007819055503373ffffffffffffffffffffffffffffffffffffffff167ff5944521c155e80db583372b9992336b6616b14dfb924a5cf6ef97b256d2803460405160405180910390a2611ecb8061010a6000396000f3fe608060405234801561001057600080fd5b50600436106101585760003560e01c806375aa85c1116100c3578063c1ba4e591161007c578063c1ba4e591461043d578063c2b40ae414610459578063cd8bff3314610489578063ee2f13cd146104b9578063eecdf927146104d5578063fa7643f41461050557610158565b806375aa85c11461035357806375e81469146103715780638bc33af31461038d5780638da5cb5b146103bd578063aa375c49146103db578063b5dc40c31461040b57610158565b806333727c4d1161011557806333727c4d146102455780634bd00e74146102755780634ddaced2146102a55780635531e08d146102d557806359e26be1146103055780635ac442821461032157610158565b806305261aea1461015d57806306f130561461017957806308aff933146101975780630fb1ada4146101c75780631703a018146101f75780631d97ce3114610215575b600080fd5b6101776004803603810190610172919061152d565b610535565b005b6101816106b1565b60405161018e9190611569565b60405180910390f35b6101b160048036038101906101ac91906115e2565b6106b7565b6040516101be919061163d565b60405180910390f35b6101e160048036038101906101dc919061152d565b6106e6565b6040516101ee9190611569565b60405180910390f35b6101ff6106fe565b60405161020c9190611569565b60405180910390f35b61022f600480360381019061022a919061168e565b610704565b60405161023c919061163d565b60405180910390f35b61025f600480360381019061025a919061152d565b610724565b60405161026c919061163d565b60405180910390f35b61028f600480360381019061028a91906116ce565b61074e565b60405161029c919061163d565b60405180910390f35b6102bf60048036038101906102ba919061152d565b61076e565b6040516102cc919061163d565b60405180910390f35b6102ef60048036038101906102ea919061152d565b61078e565b6040516102fc9190611569565b60405180910390f35b61031f600480360381019061031a91906116ce565b61086d565b005b61033b6004803603810190610336919061152d565b610aac565b60405161034a9392919061170a565b60405180910390f35b61035b610afa565b6040516103689190611569565b60405180910390f35b61038b6004803603810190610386919061168e565b610b00565b005b6103a760048036038101906103a2919061152d565b610cd0565b6040516103b49190611569565b60405180910390f35b6103c5610ce8565b6040516103d29190611750565b60405180910390f35b6103f560048036038101906103f0919061152d565b610d0c565b6040516104029190611569565b60405180910390f35b6104256004803603810190610420919061152d565b610d40565b6040516104349392919061176b565b60405180910390f35b6104576004803603810190610452919061152d565b610d85565b005b610473600480360381019061046e919061152d565b610ee0565b60405161048091906117a2565b60405180910390f35b6104a3600480360381019061049e919061152d565b610ef8565b6040516104b09190611569565b60405180910390f35b6104d360048036038101906104ce91906116ce565b610f10565b005b6104ef60048036038101906104ea91906117bd565b611126565b6040516104fc9190611569565b60405180910390f35b61051f600480360381019061051a91906116ce565b611278565b60405161052c919061163d565b60405180910390f35b600160003373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060009054906101000a900460ff166105c1576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016105b890611847565b60405180910390fd5b6002548110610605576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016105fc906118b3565b60405180910390fd5b600b600082815260200190815260200160002060009054906101000a900460ff1615610666576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161065d9061191f565b60405180910390fd5b61066f816112ce565b6106ae576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016106a59061198b565b60405180910390fd5b50565b60025481565b60096020528160005260406000206020528060005260406000206000915091509054906101000a900460ff1681565b60086020528060005260406000206000915090505481565b60075481565b600081600360008581526020019081526020016000205414905092915050565b6000600b600083815260200190815260200160002060009054906101000a900460ff169050919050565b60016020528060005260406000206000915054906101000a900460ff1681565b600b6020528060005260406000206000915054906101000a900460ff1681565b600080600a6000848152602001908152602001600020905060005b818054905081101561086657600160008383815481106107cc576107cb6119ab565b5b9060005260206000200160009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060009054906101000a900460ff161561085357828061084f90611a09565b9350505b808061085e90611a09565b9150506107a9565b5050919050565b60008054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff163373ffffffffffffffffffffffffffffffffffffffff16146108fb576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016108f290611ac3565b60405180910390fd5b600073ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff160361096a576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161096190611b2f565b60405180910390fd5b600160008273ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060009054906101000a900460ff16156109f7576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016109ee90611b9b565b60405180910390fd5b60018060008373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060006101000a81548160ff02191690831515021790555060066000815480929190610a6190611a09565b91905055508073ffffffffffffffffffffffffffffffffffffffff167ff5944521c155e80db583372b9992336b6616b14dfb924a5cf6ef97b256d2803460405160405180910390a250565b60008060006003600085815260200190815260200160002054600460008681526020019081526020016000205460056000878152602001908152602001600020549250925092509193909250565b60065481565b600160003373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060009054906101000a900460ff16610b8c576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610b8390611847565b60405180910390fd5b6002548210610bd0576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610bc7906118b3565b60405180910390fd5b80600360008481526020019081526020016000205414610c25576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610c1c90611c07565b60405180910390fd5b6009600083815260200190815260200160002060003373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060009054906101000a900460ff1615610cc3576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610cba90611c73565b60405180910390fd5b610ccc8261139b565b5050565b60046020528060005260406000206000915090505481565b60008054906101000a900473ffffffffffffffffffffffffffffffffffffffff1681565b600080600860008481526020019081526020016000205490506006548110610d3657600654610d38565b805b915050919050565b6000806000610d4e8461078e565b610d5785610d0c565b600b600087815260200190815260200160002060009054906101000a900460ff169250925092509193909250565b60008054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff163373ffffffffffffffffffffffffffffffffffffffff1614610e13576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610e0a90611ac3565b60405180910390fd5b60008111610e56576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610e4d90611cdf565b60405180910390fd5b600654811115610e9b576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610e9290611d4b565b60405180910390fd5b7f97ccdd7e3274866766bf80480c4eb200486c5e8490deead0b4c65ae07ab6167a60075482604051610ece929190611d6b565b60405180910390a18060078190555050565b60036020528060005260406000206000915090505481565b60056020528060005260406000206000915090505481565b60008054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff163373ffffffffffffffffffffffffffffffffffffffff1614610f9e576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610f9590611ac3565b60405180910390fd5b600160008273ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060009054906101000a900460ff1661102a576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161102190611de0565b60405180910390fd5b60075460065411611070576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161106790611e4c565b60405180910390fd5b6000600160008373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060006101000a81548160ff021916908315150217905550600660008154809291906110db90611e6c565b91905055508073ffffffffffffffffffffffffffffffffffffffff167f8b5785dce93ca82765b1cc25cedcda1b501288cb23a1fd171c0091d83900f9bd60405160405180910390a250565b6000600160003373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060009054906101000a900460ff166111b4576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016111ab90611847565b60405180910390fd5b600260008154809291906111c790611a09565b919050559050816003600083815260200190815260200160002081905550426004600083815260200190815260200160002081905550436005600083815260200190815260200160002081905550600754600860008381526020019081526020016000208190555081817f4be48ba87b7b62bb34ea6cd6df6629196f9008660355ad313b3fe961fa5fc6bd4243604051611262929190611d6b565b60405180910390a36112738161139b565b919050565b6000600160008373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060009054906101000a900460ff169050919050565b6000600b600083815260200190815260200160002060009054906101000a900460ff168061130b575061130082610d0c565b6113098361078e565b105b156113195760009050611396565b6001600b600084815260200190815260200160002060006101000a81548160ff0219169083151502179055506003600083815260200190815260200160002054827f3b6510986b9400ed82432b23bb2d6f398f26bd2415f095ac6199f126ede90f63436040516113899190611569565b60405180910390a3600190505b919050565b60016009600083815260200190815260200160002060003373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060006101000a81548160ff021916908315150217905550600a6000828152602001908152602001600020339080600181540180825580915050600190039060005260206000200160009091909190916101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff16021790555060006114838261078e565b9050600061149083610d0c565b90503373ffffffffffffffffffffffffffffffffffffffff16837f6f4c4b5913d2decf2887f2f4bc05466663a124acde199ae06129b10f2e2525a384846040516114db929190611d6b565b60405180910390a36114ec836112ce565b50505050565b600080fd5b6000819050919050565b61150a816114f7565b811461151557600080fd5b50565b60008135905061152781611501565b92915050565b600060208284031215611543576115426114f2565b5b600061155184828501611518565b91505092915050565b611563816114f7565b82525050565b600060208201905061157e600083018461155a565b92915050565b600073ffffffffffffffffffffffffffffffffffffffff82169050919050565b60006115af82611584565b9050919050565b6115bf816115a4565b81146115ca57600080fd5b50565b6000813590506115dc816115b6565b92915050565b600080604083850312156115f9576115f86114f2565b5b600061160785828601611518565b9250506020611618858286016115cd565b9150509250929050565b60008115159050919050565b61163781611622565b82525050565b6000602082019050611652600083018461162e565b92915050565b6000819050919050565b61166b81611658565b811461167657600080fd5b50565b60008135905061168881611662565b92915050565b600080604083850312156116a5576116a46114f2565b5b60006116b385828601611518565b92505060206116c485828601611679565b9150509250929050565b6000602082840312156116e4576116e36114f2565b5b60006116f2848285016115cd565b91505092915050565b61170481611658565b82525050565b600060608201905061171f60008301866116fb565b61172c602083018561155a565b611739604083018461155a565b949350505050565b61174a816115a4565b82525050565b60006020820190506117656000830184611741565b92915050565b6000606082019050611780600083018661155a565b61178d602083018561155a565b61179a604083018461162e565b949350505050565b60006020820190506117b760008301846116fb565b92915050565b6000602082840312156117d3576117d26114f2565b5b60006117e184828501611679565b91505092915050565b600082825260208201905092915050565b7f4e6f7420616e20617574686f72697a6564207769746e65737300000000000000600082015250565b60006118316019836117ea565b915061183c826117fb565b602082019050919050565b6000602082019050818103600083015261186081611824565b9050919050565b7f556e6b6e6f776e20626174636800000000000000000000000000000000000000600082015250565b600061189d600d836117ea565b91506118a882611867565b602082019050919050565b600060208201905081810360008301526118cc81611890565b9050919050565b7f416c72656164792066696e616c697a6564000000000000000000000000000000600082015250565b60006119096011836117ea565b9150611914826118d3565b602082019050919050565b60006020820190508181036000830152611938816118fc565b9050919050565b7f51756f72756d206e6f7420726561636865640000000000000000000000000000600082015250565b60006119756012836117ea565b91506119808261193f565b602082019050919050565b600060208201905081810360008301526119a481611968565b9050919050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052603260045260246000fd5b7f4e487b7100000000000000000000000000000000000000000000000000000000600052601160045260246000fd5b6000611a14826114f7565b91507fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff8203611a4657611a456119da565b5b600182019050919050565b7f4f6e6c79206f776e65722063616e2063616c6c20746869732066756e6374696f60008201527f6e00000000000000000000000000000000000000000000000000000000000000602082015250565b6000611aad6021836117ea565b9150611ab882611a51565b604082019050919050565b60006020820190508181036000830152611adc81611aa0565b9050919050565b7f496e76616c6964207769746e6573732061646472657373000000000000000000600082015250565b6000611b196017836117ea565b9150611b2482611ae3565b602082019050919050565b60006020820190508181036000830152611b4881611b0c565b9050919050565b7f416c72656164792061207769746e657373000000000000000000000000000000600082015250565b6000611b856011836117ea565b9150611b9082611b4f565b602082019050919050565b60006020820190508181036000830152611bb481611b78565b9050919050565b7f526f6f74206d69736d6174636800000000000000000000000000000000000000600082015250565b6000611bf1600d836117ea565b9150611bfc82611bbb565b602082019050919050565b60006020820190508181036000830152611c2081611be4565b9050919050565b7f416c726561647920636f6e6669726d6564000000000000000000000000000000600082015250565b6000611c5d6011836117ea565b9150611c6882611c27565b602082019050919050565b60006020820190508181036000830152611c8c81611c50565b9050919050565b7f51756f72756d206d757374206265206174206c65617374203100000000000000600082015250565b6000611cc96019836117ea565b9150611cd482611c93565b602082019050919050565b60006020820190508181036000830152611cf881611cbc565b9050919050565b7f51756f72756d2065786365656473207769746e65737320636f756e7400000000600082015250565b6000611d35601c836117ea565b9150611d4082611cff565b602082019050919050565b60006020820190508181036000830152611d6481611d28565b9050919050565b6000604082019050611d80600083018561155a565b611d8d602083018461155a565b9392505050565b7f4e6f742061207769746e65737300000000000000000000000000000000000000600082015250565b6000611dca600d836117ea565b9150611dd582611d94565b602082019050919050565b60006020820190508181036000830152611df981611dbd565b9050919050565b7f576f756c642064726f702062656c6f772071756f72756d000000000000000000600082015250565b6000611e366017836117ea565b9150611e4182611e00565b602082019050919050565b60006020820190508181036000830152611e6581611e29565b9050919050565b6000611e77826114f7565b915060008203611e8a57611e896119da565b5b60018203905091905056fea264697066735822122088b7f55906122f9726b5badea8ff1184e85d0ef4db0419d5eba192ff8263fea564736f6c63430008140033";
 
 type WitnessAnchorRegistryConstructorParams =
   | [signer?: Signer]
@@ -1,5 +1,6 @@
 #!/bin/sh
+# Through the gateway (the services are not published); API_URL=http://localhost:3000 for a dev identity service
 curl -s -X POST \
   -H "Content-Type: application/json" \
   -d '{"type":"window","model":"W-1200","metadata":{}}' \
-  http://localhost:3000/api/products/create
+  "${API_URL:-http://localhost:8080}/api/products/create"
@@ -1,17 +1,24 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useRole, roleDIDs, type UserRole } from '../lib/utils/roleContext';
 import { useWallet } from '../lib/utils/WalletContext';
 import { transferOwnership, rotateKey, getDIDOperationsHistory, getPendingAndRejectedOperations, deactivateDID, updateDIDViaBackend } from '../lib/operations/didOperationsLocal';
 import { performTransferOwnership, performRotateKey, performDeactivateDID, performUpdateDID } from '../lib/operations/didOperationsMetaMask';
 import type { DPP, WitnessAttestation } from '../lib/data/localData';
-import { Key, ArrowRightLeft, ChevronDown, ChevronUp, Clock, XCircle, CheckCircle, Shield, Power, FileEdit, AlertTriangle, ExternalLink } from 'lucide-react';
+import { Key, ArrowRightLeft, ChevronDown, ChevronUp, Clock, XCircle, CheckCircle, Shield, Power, FileEdit, AlertTriangle, ExternalLink, Users, PenLine } from 'lucide-react';
 import { etherscanTxUrl } from '../lib/api/config';
+import { identityApi, type PendingUpdatesResponse } from '../lib/api/client';
+import { LifecycleStatusLabels, type LifecycleStatus } from '../lib/types/lifecycle';
 
 interface DIDOperationsPanelProps {
   dpp: DPP;
   onUpdate: () => void;
 }
 
+// Role name of a known role DID (controllers are shown by role where possible)
+function roleNameForDID(did: string | null): UserRole | undefined {
+  return (Object.keys(roleDIDs) as UserRole[]).find(role => roleDIDs[role] === did);
+}
+
 export default function DIDOperationsPanel({ dpp, onUpdate }: DIDOperationsPanelProps) {
   const { currentRole, currentRoleDID } = useRole();
   const { signer, address } = useWallet();
@@ -44,6 +51,7 @@ export default function DIDOperationsPanel({ dpp, onUpdate }: DIDOperationsPanel
   const [message, setMessage] = useState<{ type: 'success' | 'error' | 'info'; text: string } | null>(null);
   const [expandedItems, setExpandedItems] = useState<Set<number>>(new Set());
   const [operationLoading, setOperationLoading] = useState<string | null>(null);
+  const [multiController, setMultiController] = useState<PendingUpdatesResponse | null>(null);
 
   // Check if current user is the owner
   const isOwner = currentRoleDID === dpp.owner;
@@ -91,6 +99,23 @@ export default function DIDOperationsPanel({ dpp, onUpdate }: DIDOperationsPanel
     return () => clearInterval(interval);
   }, [dpp.id]);
 
+  // Load controllers and pending updates of a multi-controller DID
+  const loadPendingUpdates = useCallback(async () => {
+    try {
+      const result = await identityApi.getPendingUpdates(dpp.did);
+      setMultiController(result.threshold > 1 ? result : null);
+    } catch {
+      // Backend offline or DID only known locally: single-controller view
+      setMultiController(null);
+    }
+  }, [dpp.did]);
+
+  useEffect(() => {
+    loadPendingUpdates();
+    const interval = setInterval(loadPendingUpdates, 10000);
+    return () => clearInterval(interval);
+  }, [loadPendingUpdates]);
+
   // Poll for status changes on current pending operation
   useEffect(() => {
     if (!currentPendingOp) return;
@@ -379,7 +404,13 @@ export default function DIDOperationsPanel({ dpp, onUpdate }: DIDOperationsPanel
     setOperationLoading(null);
 
     if (result.success) {
-      setMessage({ type: 'success', text: `✅ DID updated successfully${result.versionId ? ` (v${result.versionId})` : ''}` });
+      setMessage({
+        type: 'success',
+        text: 'pending' in result && result.pending
+          ? `📝 ${result.message}`
+          : `✅ DID updated successfully${result.versionId ? ` (v${result.versionId})` : ''}`
+      });
+      loadPendingUpdates();
       setShowUpdateModal(false);
       setUpdateType('service');
       setSelectedServiceType('ProductPassport');
@@ -434,7 +465,11 @@ export default function DIDOperationsPanel({ dpp, onUpdate }: DIDOperationsPanel
     }
 
     if (result.success) {
-      setMessage({ type: 'success', text: '✅ DID has been permanently deactivated' });
+      setMessage({
+        type: 'success',
+        text: 'pending' in result && result.pending ? `📝 ${result.message}` : '✅ DID has been permanently deactivated'
+      });
+      loadPendingUpdates();
       setShowDeactivateModal(false);
       setDeactivateReason('');
 
@@ -449,6 +484,26 @@ export default function DIDOperationsPanel({ dpp, onUpdate }: DIDOperationsPanel
     }
   };
 
+  const handleSignPendingUpdate = async (id: number) => {
+    setOperationLoading(`sign-${id}`);
+    try {
+      const result = await identityApi.signPendingUpdate(dpp.did, id, { controller: currentRoleDID });
+      if (result.status === 'applied') {
+        setMessage({ type: 'success', text: `✅ Threshold reached: update applied${result.versionId ? ` (v${result.versionId})` : ''}` });
+        onUpdate();
+      } else {
+        const { signatures, threshold } = result.pendingUpdate;
+        setMessage({ type: 'success', text: `✍️ Signed: ${signatures.length} of ${threshold} signatures collected` });
+      }
+    } catch (err) {
+      console.error('[DID Operations] Sign pending update error:', err);
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Signing failed' });
+    } finally {
+      setOperationLoading(null);
+    }
+    await loadPendingUpdates();
+  };
+
   const toggleExpanded = (index: number) => {
     const newExpanded = new Set(expandedItems);
     if (newExpanded.has(index)) {
@@ -676,6 +731,86 @@ export default function DIDOperationsPanel({ dpp, onUpdate }: DIDOperationsPanel
         </div>
       )}
 
+      {/* Multi-controller DID: pending updates and who has signed them */}
+      {multiController && (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 overflow-hidden transition-colors">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+            <h3 className="text-lg font-bold text-gray-800 dark:text-white flex items-center gap-2">
+              <Users className="w-5 h-5 text-purple-600 dark:text-purple-400" />
+              Controller Signatures
+            </h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              Updates need {multiController.threshold} of {multiController.controllers.length} controller signatures
+            </p>
+          </div>
+
+          <div className="p-6 space-y-4">
+            {multiController.pendingUpdates.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No updates waiting for signatures</p>
+            ) : multiController.pendingUpdates.map(update => {
+              const signedKeys = new Set(update.signatures.map(sig => sig.publicKeyMultibase));
+              const canSign = multiController.controllers.some(c =>
+                c.did === currentRoleDID && c.serverHeld && !signedKeys.has(c.publicKeyMultibase)
+              );
+
+              return (
+                <div key={update.id} className="border border-purple-200 dark:border-purple-800 bg-purple-50 dark:bg-purple-900/20 rounded-lg p-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <h4 className="font-bold text-gray-900 dark:text-white">
+                        {update.updates.deactivated
+                          ? 'Deactivation'
+                          : update.updates.lifecycle
+                            ? `Move to ${LifecycleStatusLabels[(update.updates.lifecycle as { status: LifecycleStatus }).status]}`
+                            : 'Document update'} #{update.id}
+                      </h4>
+                      <p className="text-xs text-gray-600 dark:text-gray-400 mt-0.5">
+                        Proposed by {roleNameForDID(update.proposedBy) || update.proposedBy} · based on v{update.baseVersionId} · {new Date(update.createdAt).toLocaleString()}
+                      </p>
+                    </div>
+                    <span className="px-2.5 py-1 rounded-full text-xs font-bold bg-purple-100 dark:bg-purple-900/50 text-purple-700 dark:text-purple-300 whitespace-nowrap">
+                      {update.signatures.length} of {update.threshold} signatures
+                    </span>
+                  </div>
+
+                  <ul className="mt-3 space-y-1.5">
+                    {multiController.controllers.map(c => {
+                      const signature = update.signatures.find(sig => sig.publicKeyMultibase === c.publicKeyMultibase);
+                      return (
+                        <li key={c.publicKeyMultibase} className="flex items-center gap-2 text-sm">
+                          {signature
+                            ? <CheckCircle size={16} className="text-green-600 dark:text-green-400 flex-shrink-0" />
+                            : <Clock size={16} className="text-gray-400 flex-shrink-0" />}
+                          <span className="text-gray-800 dark:text-gray-200">{roleNameForDID(c.did) || c.did}</span>
+                          <span className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                            {signature ? `signed ${new Date(signature.signedAt).toLocaleString()}` : 'not signed yet'}
+                          </span>
+                        </li>
+                      );
+                    })}
+                  </ul>
+
+                  {canSign && (
+                    <button
+                      onClick={() => handleSignPendingUpdate(update.id)}
+                      disabled={operationLoading === `sign-${update.id}`}
+                      className="mt-4 flex items-center justify-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors font-medium disabled:opacity-50"
+                    >
+                      {operationLoading === `sign-${update.id}` ? (
+                        <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                      ) : (
+                        <PenLine size={18} />
+                      )}
+                      Sign as {currentRole}
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Message Display */}
       {message && (
         <div className={`p-4 rounded-xl flex items-center gap-3 ${message.type === 'success'
@@ -1,18 +1,63 @@
 import { useState } from 'react';
 import { createLifecycleEvent } from '../lib/operations/lifecycleHelpers';
+import { LifecycleManager } from '../lib/operations/lifecycleManager';
+import { LifecycleStatus, LifecycleStatusLabels, type LifecycleAttachment } from '../lib/types/lifecycle';
+import { useRole } from '../lib/utils/roleContext';
+import { LifecycleStatusBadge } from './shared/LifecycleStatusBadge';
+import { LifecycleAttachmentFields } from './shared/LifecycleAttachmentFields';
+import type { DPP } from '../lib/data/localData';
 
 type LifecycleControlsProps = {
-  dppId: string;
-  did: string;
+  dpp: DPP;
   onEventCreated?: () => void;
+  onStatusChanged?: () => void;
 };
 
-export function LifecycleControls({ dppId, did, onEventCreated }: LifecycleControlsProps) {
+export function LifecycleControls({ dpp, onEventCreated, onStatusChanged }: LifecycleControlsProps) {
+  const dppId = dpp.id;
+  const did = dpp.did;
   const [showEventForm, setShowEventForm] = useState(false);
   const [eventType, setEventType] = useState<'assembly' | 'installation' | 'maintenance' | 'disposal'>('maintenance');
   const [eventDetails, setEventDetails] = useState('');
   const [loading, setLoading] = useState(false);
 
+  // Status changes offered by the product's own lifecycle to the current role
+  const { currentRoleDID } = useRole();
+  const transitions = LifecycleManager.getAvailableTransitions(dpp, currentRoleDID);
+  const [targetStatus, setTargetStatus] = useState<LifecycleStatus | ''>('');
+  const [statusReason, setStatusReason] = useState('');
+  const [attachments, setAttachments] = useState<LifecycleAttachment[]>([]);
+  const requiredAttachments = transitions.find(t => t.to === targetStatus)?.requiredAttachments || [];
+  const missingAttachments = requiredAttachments.some(required => !attachments.some(a => a.type === required.type));
+
+  const handleStatusChange = async () => {
+    if (!targetStatus) return;
+
+    setLoading(true);
+    try {
+      const result = await LifecycleManager.transitionLifecycle(
+        dppId,
+        targetStatus,
+        currentRoleDID,
+        statusReason || `Manual transition to ${LifecycleStatusLabels[targetStatus]}`,
+        { attachments }
+      );
+      if (!result.success) {
+        alert(result.message);
+        return;
+      }
+      setTargetStatus('');
+      setStatusReason('');
+      setAttachments([]);
+      onStatusChanged?.();
+    } catch (error) {
+      console.error('Failed to change status:', error);
+      alert('Error changing status');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleCreateEvent = async () => {
     if (!eventDetails.trim()) {
       alert('Please enter event details');
@@ -44,6 +89,53 @@ export function LifecycleControls({ dppId, did, onEventCreated }: LifecycleContr
 
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4 mb-4 transition-colors">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="font-medium text-gray-700 dark:text-gray-300">Status</h4>
+        <LifecycleStatusBadge status={dpp.lifecycle_status} />
+      </div>
+
+      {transitions.length > 0 && (
+        <div className="space-y-3 mb-4 pb-4 border-b border-gray-200 dark:border-gray-700">
+          <select
+            value={targetStatus}
+            onChange={(e) => {
+              setTargetStatus(e.target.value as LifecycleStatus | '');
+              setAttachments([]);
+            }}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-gray-600 text-gray-900 dark:text-white"
+          >
+            <option value="">Change status to...</option>
+            {transitions.map(t => (
+              <option key={t.to} value={t.to}>{LifecycleStatusLabels[t.to]}</option>
+            ))}
+          </select>
+
+          {targetStatus && (
+            <>
+              <textarea
+                value={statusReason}
+                onChange={(e) => setStatusReason(e.target.value)}
+                placeholder="Reason for change..."
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-gray-600 text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-400"
+                rows={2}
+              />
+              <LifecycleAttachmentFields
+                definitions={requiredAttachments}
+                attachments={attachments}
+                onChange={setAttachments}
+              />
+              <button
+                onClick={handleStatusChange}
+                disabled={loading || missingAttachments}
+                className="w-full px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400 dark:disabled:bg-gray-600 disabled:cursor-not-allowed"
+              >
+                {loading ? 'Updating...' : `Change to ${LifecycleStatusLabels[targetStatus]}`}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
       <div className="flex items-center justify-between mb-2">
         <h4 className="font-medium text-gray-700 dark:text-gray-300">Add New Event</h4>
         <button
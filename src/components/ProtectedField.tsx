@@ -1,5 +1,6 @@
 import { useRole } from '../lib/utils/roleContext';
 import { EyeOff } from 'lucide-react';
+import { FIELD_PERMISSIONS } from '../../backend/utils/selectiveDisclosure';
 
 interface FieldProps {
   field: string;
@@ -133,20 +134,9 @@ function formatValueForDisplay(key: string, value: any): string {
 export function ProtectedMetadata({ metadata, fieldMapping = {} }: MetadataProps) {
   const { canSeeField, currentRole } = useRole();
 
-  // Define which metadata fields require which permissions
+  // Which metadata fields require which permissions (shared with the identity service)
   const defaultMapping: Record<string, string> = {
-    description: 'basic',
-    dimensions: 'basic',
-    width: 'basic',
-    height: 'basic',
-    unit: 'basic',
-    weight: 'materials',
-    thickness: 'materials',
-    uValue: 'operations',
-    material: 'materials',
-    finish: 'manufacturing',
-    productionDate: 'operations',
-    batch: 'manufacturing',
+    ...FIELD_PERMISSIONS,
     ...fieldMapping,
   };
 
@@ -15,7 +15,8 @@ import {
   Network,
   AlertCircle,
   Fingerprint,
-  Link2
+  Link2,
+  Award
 } from 'lucide-react';
 import { hybridDataStore, getRecentBlockchainAnchors, getBlockchainVerification } from '../lib/data/hybridDataStore';
 import { etherscanTxUrl, etherscanBlockUrl } from '../lib/api/config';
@@ -23,6 +24,7 @@ import { useRole } from '../lib/utils/roleContext';
 import { useUI } from '../lib/utils/UIContext';
 import { verifyHashChain, type HashChainEntry } from '../lib/utils/merkle';
 import { verifyProtocolFiles } from '../lib/operations/didResolverLocal';
+import { verifyProductCredentials, type CredentialCheck } from '../lib/utils/verificationLocal';
 import type { WitnessAttestation, WatcherAlert, AnchoringEvent } from '../lib/data/localData';
 
 interface TrustValidationTabProps {
@@ -35,6 +37,7 @@ interface VerificationState {
   hashChain: VerificationStatus;
   witnesses: VerificationStatus;
   blockchain: VerificationStatus;
+  certifications: VerificationStatus;
   regulatory: VerificationStatus;
   trustScore: number;
   details: {
@@ -289,12 +292,14 @@ export default function TrustValidationTab({ did }: TrustValidationTabProps) {
   const [expandedSection, setExpandedSection] = useState<string | null>(null);
   const [expandedWitness, setExpandedWitness] = useState<string | null>(null);
   const [isVerifying, setIsVerifying] = useState(false);
+  const [credentialChecks, setCredentialChecks] = useState<CredentialCheck[]>([]);
 
   // Cryptographic Verification State
   const [verification, setVerification] = useState<VerificationState>({
     hashChain: 'pending',
     witnesses: 'pending',
     blockchain: 'pending',
+    certifications: 'pending',
     regulatory: 'pending',
     trustScore: 0,
     details: {
@@ -371,6 +376,7 @@ export default function TrustValidationTab({ did }: TrustValidationTabProps) {
       hashChain: 'checking',
       witnesses: 'checking',
       blockchain: 'checking',
+      certifications: 'checking',
       regulatory: 'checking',
     }));
 
@@ -458,8 +464,17 @@ export default function TrustValidationTab({ did }: TrustValidationTabProps) {
 
     await new Promise(r => setTimeout(r, 200));
 
-    // 4. Regulatory Compliance
-    const regulatoryValid = hashChainValid && witnessValid && blockchainVerified;
+    // 4. Certifications: revoked, suspended or expired credentials fail
+    const checks = await verifyProductCredentials(did);
+    const certificationsValid = checks.every(c => c.status === 'valid');
+    setCredentialChecks(checks);
+    setVerification(prev => ({
+      ...prev,
+      certifications: checks.length === 0 ? 'pending' : certificationsValid ? 'valid' : 'invalid',
+    }));
+
+    // 5. Regulatory Compliance
+    const regulatoryValid = hashChainValid && witnessValid && blockchainVerified && certificationsValid;
     setVerification(prev => ({
       ...prev,
       regulatory: regulatoryValid ? 'valid' : (hashChainValid || witnessValid ? 'pending' : 'pending'),
@@ -681,6 +696,39 @@ export default function TrustValidationTab({ did }: TrustValidationTabProps) {
           )}
         </CollapsibleSection>
 
+        {/* Certifications Section */}
+        <CollapsibleSection
+          icon={Award}
+          title="Certifications"
+          subtitle="Issued credentials and their revocation status"
+          badge={<StatusBadge status={verification.certifications} />}
+          expanded={expandedSection === 'certifications'}
+          onToggle={() => toggleSection('certifications')}
+          iconColor="text-amber-600 dark:text-amber-400"
+        >
+          {credentialChecks.length === 0 ? (
+            <div className="text-center py-8">
+              <Award className="w-10 h-10 text-gray-300 dark:text-gray-600 mx-auto mb-2" />
+              <p className="text-sm text-gray-500 dark:text-gray-400">No certifications have been issued for this product</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {credentialChecks.map(({ credential, status, errors }) => (
+                <VerificationCheck
+                  key={credential.id}
+                  icon={Award}
+                  label={credential.name || credential.type[credential.type.length - 1]}
+                  description={`Issued by ${credential.issuer.name || credential.issuer.id}`}
+                  status={status === 'valid' ? 'valid' : 'invalid'}
+                  details={status === 'valid'
+                    ? (credential.validUntil ? `Valid until ${new Date(credential.validUntil).toLocaleDateString()}` : 'No expiry')
+                    : status === 'invalid' ? errors[0] : `Credential ${status}`}
+                />
+              ))}
+            </div>
+          )}
+        </CollapsibleSection>
+
         {/* Watcher Alerts Section */}
         <CollapsibleSection
           icon={Eye}
@@ -83,7 +83,8 @@ export default function WitnessFileView({ did }: WitnessFileViewProps) {
             >
               did:webvh v1.0 Witness Specification
             </a>. 
-            It contains Merkle proofs used by watchers to verify that each DID version is immutably recorded on the blockchain.
+            It contains Merkle proofs used by watchers to verify that each DID version is immutably recorded on the blockchain,
+            each signed by the witness (eddsa-jcs-2022) over the version, its leaf hash and the anchored Merkle root.
           </p>
         </div>
       </div>
@@ -11,10 +11,18 @@ import {
   Share2,
   ExternalLink,
   Package,
-  Download
+  Download,
+  XCircle,
+  AlertTriangle
 } from 'lucide-react';
 import enhancedDB from '../../lib/data/hybridDataStore';
 import type { DPP } from '../../lib/data/localData';
+import {
+  verifyProductCredentials,
+  verifyPassportPresentation,
+  type CredentialCheck,
+  type PresentationCheck
+} from '../../lib/utils/verificationLocal';
 
 interface ConsumerViewProps {
   did?: string;
@@ -25,6 +33,9 @@ export default function ConsumerView({ did, onNavigate }: ConsumerViewProps) {
   const [product, setProduct] = useState<DPP | null>(null);
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<'story' | 'maintenance' | 'warranty'>('story');
+  const [certifications, setCertifications] = useState<CredentialCheck[]>([]);
+  // Passport fields as disclosed to consumers by the manufacturer's signed presentation
+  const [passport, setPassport] = useState<PresentationCheck | null>(null);
 
   useEffect(() => {
     if (did) {
@@ -34,6 +45,17 @@ export default function ConsumerView({ did, onNavigate }: ConsumerViewProps) {
     }
   }, [did]);
 
+  const productDid = product?.did;
+  useEffect(() => {
+    if (productDid) {
+      verifyProductCredentials(productDid).then(setCertifications);
+      verifyPassportPresentation(productDid, 'Consumer').then(setPassport);
+    } else {
+      setCertifications([]);
+      setPassport(null);
+    }
+  }, [productDid]);
+
   async function loadProduct(productDid: string) {
     setLoading(true);
     try {
@@ -81,6 +103,15 @@ export default function ConsumerView({ did, onNavigate }: ConsumerViewProps) {
     );
   }
 
+  const failedCertifications = certifications.filter(c => c.status !== 'valid');
+
+  // Prefer the verified presentation; withheld fields are simply absent from it
+  const model = passport ? String(passport.claims.model ?? product.model) : product.model;
+  const productType = passport ? passport.claims.productType : product.metadata?.productType;
+  const producedAt = passport
+    ? (passport.claims.productionDate as string | undefined)
+    : product.created_at;
+
   return (
     <div className="min-h-screen bg-blue-50 dark:bg-gray-900 pt-16 transition-colors">
       {/* Hero Section - Mobile First */}
@@ -88,16 +119,28 @@ export default function ConsumerView({ did, onNavigate }: ConsumerViewProps) {
         <div className="max-w-lg mx-auto px-6 py-8">
           {/* Trust Badge */}
           <div className="flex items-center gap-2 mb-4">
-            <div className="flex items-center gap-1.5 bg-white/20 backdrop-blur-sm rounded-full px-3 py-1.5">
-              <Shield className="w-4 h-4 text-green-300" />
-              <span className="text-sm font-medium">Verified Product</span>
-            </div>
+            {passport && !passport.valid ? (
+              <div className="flex items-center gap-1.5 bg-red-500/30 backdrop-blur-sm rounded-full px-3 py-1.5">
+                <AlertTriangle className="w-4 h-4 text-red-200" />
+                <span className="text-sm font-medium">Passport signature invalid</span>
+              </div>
+            ) : failedCertifications.length > 0 ? (
+              <div className="flex items-center gap-1.5 bg-red-500/30 backdrop-blur-sm rounded-full px-3 py-1.5">
+                <AlertTriangle className="w-4 h-4 text-red-200" />
+                <span className="text-sm font-medium">Certification {failedCertifications[0].status}</span>
+              </div>
+            ) : (
+              <div className="flex items-center gap-1.5 bg-white/20 backdrop-blur-sm rounded-full px-3 py-1.5">
+                <Shield className="w-4 h-4 text-green-300" />
+                <span className="text-sm font-medium">Verified Product</span>
+              </div>
+            )}
           </div>
 
           {/* Product Name */}
-          <h1 className="text-3xl font-bold mb-2">{product.model}</h1>
+          <h1 className="text-3xl font-bold mb-2">{model}</h1>
           <p className="text-blue-200 mb-6">
-            {(product.metadata?.productType as string) || 'Premium Window'}
+            {(productType as string) || 'Premium Window'}
           </p>
 
           {/* Quick Stats */}
@@ -115,10 +158,12 @@ export default function ConsumerView({ did, onNavigate }: ConsumerViewProps) {
                 <span className="text-sm text-blue-200">Produced</span>
               </div>
               <p className="text-xl font-bold">
-                {new Date(product.created_at).toLocaleDateString('en-US', {
-                  month: 'short',
-                  year: 'numeric'
-                })}
+                {producedAt
+                  ? new Date(producedAt).toLocaleDateString('en-US', {
+                    month: 'short',
+                    year: 'numeric'
+                  })
+                  : 'Private'}
               </p>
             </div>
           </div>
@@ -166,13 +211,15 @@ export default function ConsumerView({ did, onNavigate }: ConsumerViewProps) {
                       </div>
                       <div className="pb-4">
                         <p className="font-medium text-gray-900 dark:text-white">Manufactured</p>
-                        <p className="text-sm text-gray-500">
-                          {new Date(product.created_at).toLocaleDateString('en-US', {
-                            day: 'numeric',
-                            month: 'long',
-                            year: 'numeric'
-                          })}
-                        </p>
+                        {producedAt && (
+                          <p className="text-sm text-gray-500">
+                            {new Date(producedAt).toLocaleDateString('en-US', {
+                              day: 'numeric',
+                              month: 'long',
+                              year: 'numeric'
+                            })}
+                          </p>
+                        )}
                         <p className="text-sm text-gray-600 mt-1">
                           Expertly crafted in the Netherlands
                         </p>
@@ -202,9 +249,29 @@ export default function ConsumerView({ did, onNavigate }: ConsumerViewProps) {
                       </div>
                       <div>
                         <p className="font-medium text-gray-900 dark:text-white">Certified</p>
-                        <p className="text-sm text-gray-600">
-                          CE marking and KOMO quality mark
-                        </p>
+                        {certifications.length === 0 ? (
+                          <p className="text-sm text-gray-600">
+                            CE marking and KOMO quality mark
+                          </p>
+                        ) : (
+                          <div className="space-y-1 mt-1">
+                            {certifications.map(({ credential, status }) => (
+                              <div key={credential.id} className="flex items-center gap-2 text-sm">
+                                {status === 'valid' ? (
+                                  <CheckCircle className="w-4 h-4 text-green-600" />
+                                ) : (
+                                  <XCircle className="w-4 h-4 text-red-600" />
+                                )}
+                                <span className={status === 'valid' ? 'text-gray-600' : 'text-red-600 line-through'}>
+                                  {credential.name || credential.type[credential.type.length - 1]}
+                                </span>
+                                {status !== 'valid' && (
+                                  <span className="text-xs font-semibold text-red-600 uppercase">{status}</span>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -270,7 +337,7 @@ export default function ConsumerView({ did, onNavigate }: ConsumerViewProps) {
                 <button
                   onClick={() => {
                     const manualContent = `
-# Maintenance Manual - ${product.model}
+# Maintenance Manual - ${model}
 
 ## Regular Cleaning
 Clean the frame monthly with a damp cloth and mild soap.
@@ -290,7 +357,7 @@ Product DID: ${product.did}
                     const url = URL.createObjectURL(blob);
                     const a = document.createElement('a');
                     a.href = url;
-                    a.download = `maintenance-manual-${product.model.replace(/\s+/g, '-')}.txt`;
+                    a.download = `maintenance-manual-${model.replace(/\s+/g, '-')}.txt`;
                     a.click();
                     URL.revokeObjectURL(url);
                   }}
@@ -332,9 +399,9 @@ Product DID: ${product.did}
 
                 <button
                   onClick={() => {
-                    const subject = encodeURIComponent(`Warranty Claim - ${product.model}`);
+                    const subject = encodeURIComponent(`Warranty Claim - ${model}`);
                     const body = encodeURIComponent(`
-Product: ${product.model}
+Product: ${model}
 DID: ${product.did}
 Warranty valid until: ${new Date(new Date(product.created_at).getTime() + 10 * 365 * 24 * 60 * 60 * 1000).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
 
@@ -361,8 +428,8 @@ Please describe your issue:
               const shareUrl = `${window.location.origin}/product/${product.did}`;
               if (navigator.share) {
                 navigator.share({
-                  title: product.model,
-                  text: `Check out this verified product: ${product.model}`,
+                  title: model,
+                  text: `Check out this verified product: ${model}`,
                   url: shareUrl
                 });
               } else {
@@ -389,6 +456,11 @@ Please describe your issue:
           <p className="text-xs text-gray-400">
             Verified by Digital Product Passport
           </p>
+          {passport?.valid && passport.withheld > 0 && (
+            <p className="text-xs text-gray-400 mt-1">
+              {passport.withheld} private field{passport.withheld !== 1 ? 's' : ''} withheld by the manufacturer
+            </p>
+          )}
           <p className="text-xs text-gray-400 font-mono mt-1">
             {product.did.slice(0, 30)}...
           </p>
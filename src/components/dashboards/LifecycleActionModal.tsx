@@ -1,8 +1,15 @@
 import { useState } from 'react';
 import { X, AlertTriangle, ArrowRight } from 'lucide-react';
 import { LifecycleManager } from '../../lib/operations/lifecycleManager';
-import { LifecycleStatus, LifecycleStatusLabels, ValidTransitions } from '../../lib/types/lifecycle';
+import {
+    LifecycleStatus,
+    LifecycleStatusLabels,
+    type LifecycleAttachment,
+    type LifecycleCascadeAction,
+    type LifecycleChildPlan
+} from '../../lib/types/lifecycle';
 import { LifecycleStatusBadge } from '../shared/LifecycleStatusBadge';
+import { LifecycleAttachmentFields } from '../shared/LifecycleAttachmentFields';
 import type { DPP } from '../../lib/data/localData';
 
 interface LifecycleActionModalProps {
@@ -18,11 +25,29 @@ export function LifecycleActionModal({ isOpen, onClose, dpp, onUpdate, currentUs
     const [reason, setReason] = useState('');
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [attachments, setAttachments] = useState<LifecycleAttachment[]>([]);
+    // Components in use that move, detach or re-parent with the product
+    const [childPlans, setChildPlans] = useState<Array<LifecycleChildPlan & { model: string }>>([]);
 
     if (!isOpen) return null;
 
     const currentStatus = (dpp.lifecycle_status || 'created') as LifecycleStatus;
-    const validOptions = ValidTransitions[currentStatus] || [];
+    // Transitions of the product's own lifecycle that the current user can trigger
+    const transitions = LifecycleManager.getAvailableTransitions(dpp, currentUserDid);
+    const validOptions = transitions.map(t => t.to);
+    const requiredAttachments = transitions.find(t => t.to === selectedStatus)?.requiredAttachments || [];
+    const missingAttachments = requiredAttachments.some(required => !attachments.some(a => a.type === required.type));
+    const incompleteChildPlans = childPlans.some(plan => plan.action === 'reparent' && !plan.newParentDid?.trim());
+
+    const selectStatus = (status: LifecycleStatus | null) => {
+        setSelectedStatus(status);
+        setAttachments([]);
+        setChildPlans([]);
+    };
+
+    const updateChildPlan = (did: string, changes: Partial<LifecycleChildPlan>) => {
+        setChildPlans(plans => plans.map(plan => plan.did === did ? { ...plan, ...changes } : plan));
+    };
 
     const handleTransition = async () => {
         if (!selectedStatus) return;
@@ -35,7 +60,17 @@ export function LifecycleActionModal({ isOpen, onClose, dpp, onUpdate, currentUs
                 dpp.id,
                 selectedStatus,
                 currentUserDid,
-                reason || `Manual transition to ${LifecycleStatusLabels[selectedStatus]}`
+                reason || `Manual transition to ${LifecycleStatusLabels[selectedStatus]}`,
+                {
+                    attachments,
+                    children: childPlans.length > 0
+                        ? childPlans.map(({ did, action, newParentDid }) => ({
+                            did,
+                            action,
+                            ...(action === 'reparent' ? { newParentDid: newParentDid?.trim() } : {})
+                        }))
+                        : undefined
+                }
             );
 
             if (result.success) {
@@ -43,7 +78,15 @@ export function LifecycleActionModal({ isOpen, onClose, dpp, onUpdate, currentUs
                 onClose();
             } else {
                 if (result.requiredActions?.type === 'handle_children') {
-                    setError('This action requires handling sub-components (Cascade logic coming soon). For now, operation blocked.');
+                    // Ask what happens to the components (they follow the product unless chosen otherwise)
+                    const children: DPP[] = result.requiredActions.children;
+                    setChildPlans(plans => [
+                        ...plans,
+                        ...children
+                            .filter(child => !plans.some(plan => plan.did === child.did))
+                            .map(child => ({ did: child.did, model: child.model, action: 'transition' as const }))
+                    ]);
+                    setError(`${result.message} Choose below what happens to each component.`);
                 } else {
                     setError(result.message);
                 }
@@ -82,13 +125,13 @@ export function LifecycleActionModal({ isOpen, onClose, dpp, onUpdate, currentUs
                         <div className="space-y-3">
                             <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Available Transitions</label>
                             {validOptions.length === 0 ? (
-                                <p className="text-sm text-gray-500 italic">No further transitions available from this state.</p>
+                                <p className="text-sm text-gray-500 italic">No further transitions available to your role from this state.</p>
                             ) : (
                                 <div className="grid grid-cols-1 gap-2">
                                     {validOptions.map(option => (
                                         <button
                                             key={option}
-                                            onClick={() => setSelectedStatus(option)}
+                                            onClick={() => selectStatus(option)}
                                             className="flex items-center justify-between p-3 text-left border rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors group"
                                         >
                                             <div className="flex items-center gap-3">
@@ -107,7 +150,7 @@ export function LifecycleActionModal({ isOpen, onClose, dpp, onUpdate, currentUs
                         /* Confirmation View */
                         <div className="space-y-4 animate-in fade-in slide-in-from-right-4 duration-200">
                             <div className="flex items-center gap-2 text-sm text-gray-500">
-                                <button onClick={() => setSelectedStatus(null)} className="hover:underline">Select different status</button>
+                                <button onClick={() => selectStatus(null)} className="hover:underline">Select different status</button>
                                 <span>&gt;</span>
                                 <span className="font-medium text-gray-900 dark:text-white">Confirm Change</span>
                             </div>
@@ -130,6 +173,46 @@ export function LifecycleActionModal({ isOpen, onClose, dpp, onUpdate, currentUs
                                 />
                             </div>
 
+                            <LifecycleAttachmentFields
+                                definitions={requiredAttachments}
+                                attachments={attachments}
+                                onChange={setAttachments}
+                            />
+
+                            {childPlans.length > 0 && (
+                                <div className="space-y-2">
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Components</label>
+                                    {childPlans.map(plan => (
+                                        <div key={plan.did} className="p-3 rounded-lg border border-gray-200 dark:border-gray-600 space-y-2">
+                                            <div className="flex items-center justify-between gap-2">
+                                                <div className="min-w-0">
+                                                    <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{plan.model}</p>
+                                                    <p className="text-xs font-mono text-gray-500 dark:text-gray-400 truncate">{plan.did}</p>
+                                                </div>
+                                                <select
+                                                    value={plan.action}
+                                                    onChange={e => updateChildPlan(plan.did, { action: e.target.value as LifecycleCascadeAction })}
+                                                    className="text-sm p-1.5 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                                                >
+                                                    <option value="transition">{LifecycleStatusLabels[selectedStatus]} as well</option>
+                                                    <option value="detach">Detach</option>
+                                                    <option value="reparent">Move to other product</option>
+                                                </select>
+                                            </div>
+                                            {plan.action === 'reparent' && (
+                                                <input
+                                                    type="text"
+                                                    value={plan.newParentDid || ''}
+                                                    onChange={e => updateChildPlan(plan.did, { newParentDid: e.target.value })}
+                                                    placeholder="DID of the product it becomes part of"
+                                                    className="w-full p-2 text-xs font-mono rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                                                />
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+
                             {selectedStatus === 'recycled' && (
                                 <div className="flex items-start gap-3 p-3 bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200 text-xs rounded-lg border border-yellow-200 dark:border-yellow-800">
                                     <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
@@ -157,7 +240,7 @@ export function LifecycleActionModal({ isOpen, onClose, dpp, onUpdate, currentUs
                     {selectedStatus && (
                         <button
                             onClick={handleTransition}
-                            disabled={isSubmitting || !reason.trim()}
+                            disabled={isSubmitting || !reason.trim() || missingAttachments || incompleteChildPlans}
                             className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg shadow-sm flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
                         >
                             {isSubmitting ? 'Updating...' : 'Confirm Update'}
@@ -11,10 +11,12 @@ import {
   ChevronRight,
   Filter,
   Check,
-  Trash2
+  Trash2,
+  FileSpreadsheet
 } from 'lucide-react';
 import enhancedDB from '../../lib/data/hybridDataStore';
 import { DPPCard } from '../dpp/DPPCard';
+import BulkUpload from '../dpp/BulkUpload';
 import type { DPP } from '../../lib/data/localData';
 import { useRole } from '../../lib/utils/roleContext';
 
@@ -41,6 +43,7 @@ export default function ManufacturerDashboard({ onNavigate, onBack, onCreateDPP,
   // Filter states
   const [selectedTypes, setSelectedTypes] = useState<string[]>([]);
   const [selectedStatuses, setSelectedStatuses] = useState<string[]>([]);
+  const [showBulkUpload, setShowBulkUpload] = useState(false);
 
   const loadData = useCallback(async () => {
     setLoading(true);
@@ -157,6 +160,13 @@ export default function ManufacturerDashboard({ onNavigate, onBack, onCreateDPP,
               </div>
             </div>
             <div className="flex items-center gap-3">
+              <button
+                onClick={() => setShowBulkUpload(true)}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors shadow-sm"
+              >
+                <FileSpreadsheet className="w-4 h-4" />
+                <span>Bulk Upload</span>
+              </button>
               {onCreateDPP && (
                 <button
                   onClick={onCreateDPP}
@@ -363,6 +373,17 @@ export default function ManufacturerDashboard({ onNavigate, onBack, onCreateDPP,
           </div>
         </div>
       </div>
+
+      {showBulkUpload && (
+        <BulkUpload
+          ownerDid={currentRoleDID}
+          onClose={() => setShowBulkUpload(false)}
+          onComplete={() => {
+            setShowBulkUpload(false);
+            loadData();
+          }}
+        />
+      )}
     </div>
   );
 }
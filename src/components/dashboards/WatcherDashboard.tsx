@@ -1,9 +1,9 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import {
   Activity, CheckCircle, Shield, Eye,
   Package, FileText, GitBranch,
   Search, LayoutDashboard, Database, Flag, FlagOff,
-  ShieldCheck, AlertTriangle, RefreshCw,
+  ShieldCheck, ShieldAlert, AlertTriangle, RefreshCw,
   ExternalLink, Power
 } from 'lucide-react';
 import enhancedDB from '../../lib/data/hybridDataStore';
@@ -11,7 +11,7 @@ import { getDIDOperationsHistory } from '../../lib/operations/didOperationsLocal
 import { hashOperation } from '../../lib/utils/merkleTree';
 import { useRole } from '../../lib/utils/roleContext';
 import { DPP } from '../../lib/data/localData';
-import { api } from '../../lib/api';
+import { api, type AuditHistoryEntry, type AuditProgressEvent, type TrustExemption } from '../../lib/api';
 import { type WatcherAlert } from '../../lib/data/localData';
 
 import MerkleTreeVisualizer from '../visualizations/MerkleTreeVisualizer';
@@ -167,7 +167,16 @@ export default function WatcherDashboard() {
     details: ''
   });
 
+  // Server-side audits by the watcher service ("verify now")
+  const [auditHistory, setAuditHistory] = useState<AuditHistoryEntry[]>([]);
+  const [auditProgress, setAuditProgress] = useState<AuditProgressEvent | null>(null);
+  const [isAuditRunning, setIsAuditRunning] = useState(false);
+  const [nextScheduledAudit, setNextScheduledAudit] = useState<string | null>(null);
+  const [exemptions, setExemptions] = useState<TrustExemption[]>([]);
+  const closeAuditStream = useRef<(() => void) | null>(null);
+
   const selectedDPP = monitoredDPPs.find(d => d.id === selectedDPPId);
+  const selectedExemption = selectedDPP ? exemptions.find(e => e.did === selectedDPP.did) : undefined;
 
   const handleReset = async () => {
     setIsRefreshing(true);
@@ -237,6 +246,19 @@ export default function WatcherDashboard() {
     }
   }, [selectedDPPId, lastRefresh]);
 
+  // Watcher audit history of the selected DPP; an audit stream of the previous DPP is closed
+  useEffect(() => {
+    closeAuditStream.current?.();
+    closeAuditStream.current = null;
+    setIsAuditRunning(false);
+    setAuditProgress(null);
+    setAuditHistory([]);
+    if (selectedDPP?.did) {
+      loadServerAudits(selectedDPP.did);
+    }
+    return () => closeAuditStream.current?.();
+  }, [selectedDPP?.did]);
+
   // Reset session state when switching DPPs to prevent state leakage
   useEffect(() => {
     setSelectedOperationIndex(null);
@@ -361,6 +383,12 @@ export default function WatcherDashboard() {
       } catch (alertErr) {
         console.warn('Failed to load alerts, continuing with empty list:', alertErr);
       }
+
+      try {
+        setExemptions(await api.watcher.getExemptions());
+      } catch (exemptionErr) {
+        console.warn('Failed to load trust exemptions:', exemptionErr);
+      }
     } catch (err) {
       console.error('Failed to load monitoring data:', err);
     }
@@ -447,6 +475,62 @@ export default function WatcherDashboard() {
     }
   }
 
+  async function loadServerAudits(did: string) {
+    try {
+      const [history, status] = await Promise.all([
+        api.watcher.getAuditHistory(did, 5),
+        api.watcher.getStatus()
+      ]);
+      setAuditHistory(history);
+      setNextScheduledAudit(status.nextRun);
+    } catch (e) {
+      console.warn('[WatcherDashboard] Watcher API unavailable:', e);
+    }
+  }
+
+  async function handleVerifyNow() {
+    if (!selectedDPP) return;
+    const did = selectedDPP.did;
+
+    setIsAuditRunning(true);
+    setAuditProgress(null);
+    try {
+      const run = await api.watcher.triggerAudit(did);
+      closeAuditStream.current = api.watcher.streamRun(run.id, async (event) => {
+        setAuditProgress(event);
+        if (event.type === 'completed' || event.type === 'failed') {
+          setIsAuditRunning(false);
+          closeAuditStream.current = null;
+          await loadServerAudits(did);
+          await loadMonitoringData();
+        }
+      });
+    } catch (e) {
+      console.error('[WatcherDashboard] Failed to start audit:', e);
+      setAuditProgress({
+        type: 'failed',
+        message: e instanceof Error ? e.message : 'Watcher service unreachable',
+        done: 0,
+        total: 0,
+        timestamp: new Date().toISOString()
+      });
+      setIsAuditRunning(false);
+    }
+  }
+
+  async function handleRevokeExemption() {
+    if (!selectedExemption) return;
+    if (!confirm(`Revoke the trust exemption of ${selectedExemption.did}? Integrity failures will be enforced from the next audit.`)) return;
+
+    try {
+      await api.watcher.removeExemption(selectedExemption.did);
+      setExemptions(prev => prev.filter(e => e.did !== selectedExemption.did));
+    } catch (e) {
+      console.error('[WatcherDashboard] Failed to revoke exemption:', e);
+      alert('Failed to revoke the exemption.');
+    }
+  }
+
   async function handleResolveAlerts() {
     if (!selectedDPP) return;
 
@@ -621,7 +705,14 @@ export default function WatcherDashboard() {
                         <Flag className="w-4 h-4 text-red-600 fill-red-600 animate-bounce" />
                       )}
                     </div>
-                    <div className="text-[10px] uppercase font-mono text-gray-500 dark:text-gray-400">{dpp.scid}</div>
+                    <div className="text-[10px] uppercase font-mono text-gray-500 dark:text-gray-400 flex items-center gap-1.5">
+                      {dpp.scid}
+                      {exemptions.some(e => e.did === dpp.did) && (
+                        <span className="px-1 rounded bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400 font-sans font-bold" title="Trust exemption: audit failures are not enforced">
+                          EXEMPT
+                        </span>
+                      )}
+                    </div>
                   </div>
                 </div>
                 {dpp.integrityScore < 90 && (
@@ -664,6 +755,20 @@ export default function WatcherDashboard() {
                         {selectedDPP.integrityScore < 90 ? 'STATUS: REJECTED / TAMPERED' : (selectedDPP.lifecycle_status === 'deactivated' ? 'STATUS: DEACTIVATED' : 'STATUS: ACTIVE (CERTIFIED)')}
                       </span>
                     </h1>
+                    {selectedExemption && (
+                      <div className="flex items-center gap-2 mt-2 px-3 py-1.5 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg text-xs text-amber-800 dark:text-amber-300">
+                        <ShieldAlert className="w-4 h-4 shrink-0" />
+                        <span>
+                          <span className="font-bold">Trust exemption:</span> {selectedExemption.reason} · added by {selectedExemption.addedBy} · expires {new Date(selectedExemption.expiresAt).toLocaleDateString()}
+                        </span>
+                        <button
+                          onClick={handleRevokeExemption}
+                          className="ml-2 text-[10px] font-bold uppercase hover:underline"
+                        >
+                          Revoke
+                        </button>
+                      </div>
+                    )}
                     <div className="flex items-center gap-4 mt-1">
                       <p className="text-gray-500 text-xs font-mono">{selectedDPP.did}</p>
                       {alerts.filter(a =>
@@ -793,6 +898,49 @@ export default function WatcherDashboard() {
                             The watcher service continuously verifies the hash-chain integrity and DLT anchors for all events in this product's lifecycle.
                             Select an individual event below to inspect its specific Merkle proof and DLT signature.
                           </p>
+
+                          {(auditProgress || auditHistory.length > 0) && (
+                            <div className="mt-3 space-y-1">
+                              {auditProgress && (
+                                <div className={`text-xs font-medium ${auditProgress.type === 'failed' ? 'text-red-600' : 'text-blue-900 dark:text-blue-300'}`}>
+                                  {isAuditRunning ? 'Running: ' : ''}{auditProgress.message}
+                                </div>
+                              )}
+                              {!isAuditRunning && auditHistory[0] && (
+                                <>
+                                  <div className="text-[10px] text-blue-800/70 dark:text-blue-400/70 uppercase font-bold">
+                                    Last watcher audit ({auditHistory[0].trigger}) · {new Date(auditHistory[0].checkedAt).toLocaleString()}
+                                    {auditHistory[0].exempt && ' · exempt, failures not enforced'}
+                                  </div>
+                                  {auditHistory[0].checks.map(check => (
+                                    <div key={check.checkType} className="flex items-start gap-2 text-xs">
+                                      {check.status === 'valid'
+                                        ? <CheckCircle className="w-3.5 h-3.5 text-green-500 shrink-0 mt-0.5" />
+                                        : <AlertTriangle className="w-3.5 h-3.5 text-red-500 shrink-0 mt-0.5" />}
+                                      <span className="text-gray-700 dark:text-gray-300">
+                                        <span className="font-mono">{check.checkType}</span>: {check.details}
+                                      </span>
+                                    </div>
+                                  ))}
+                                </>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                        <div className="flex flex-col items-end gap-1 shrink-0">
+                          <button
+                            onClick={handleVerifyNow}
+                            disabled={isAuditRunning}
+                            className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-xs font-medium rounded-lg transition-colors disabled:opacity-50"
+                          >
+                            <RefreshCw className={`w-3.5 h-3.5 ${isAuditRunning ? 'animate-spin' : ''}`} />
+                            Verify now
+                          </button>
+                          {nextScheduledAudit && (
+                            <span className="text-[10px] text-blue-800/60 dark:text-blue-400/60">
+                              Next cycle {new Date(nextScheduledAudit).toLocaleTimeString()}
+                            </span>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -8,7 +8,7 @@ import {
 import enhancedDB from '../../lib/data/hybridDataStore';
 import { useRole } from '../../lib/utils/roleContext';
 import { getDIDOperationsHistory } from '../../lib/operations/didOperationsLocal';
-import { backendAPI, type BackendBatch } from '../../lib/api/backendAPI';
+import { backendAPI, type BackendBatch, type AnchorQueue } from '../../lib/api/backendAPI';
 import { etherscanTxUrl, etherscanBlockUrl } from '../../lib/api/config';
 import MerkleTreeVisualizer from '../visualizations/MerkleTreeVisualizer';
 
@@ -40,13 +40,15 @@ export default function WitnessDashboard() {
   const { currentRoleDID } = useRole();
   const [assets, setAssets] = useState<MonitoredAsset[]>([]);
   const [selectedAssetId, setSelectedAssetId] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'ledger' | 'anchors'>('ledger');
+  const [activeTab, setActiveTab] = useState<'ledger' | 'anchors' | 'queue'>('ledger');
   const [events, setEvents] = useState<EvidenceEvent[]>([]);
   const [batches, setBatches] = useState<BackendBatch[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showMerkleModal, setShowMerkleModal] = useState(false);
   const [selectedProof, setSelectedProof] = useState<any | null>(null);
+  const [anchorQueue, setAnchorQueue] = useState<AnchorQueue | null>(null);
+  const [requeueing, setRequeueing] = useState(false);
   
   // Modal for manual verification/approval (keeping legacy logic for compatibility)
   const [showConfirmModal, setShowConfirmModal] = useState(false);
@@ -61,6 +63,14 @@ export default function WitnessDashboard() {
     return () => clearInterval(interval);
   }, []);
 
+  // Anchoring queue is global (not per asset), only poll it while its tab is open
+  useEffect(() => {
+    if (activeTab !== 'queue') return;
+    loadAnchorQueue();
+    const interval = setInterval(loadAnchorQueue, 10000);
+    return () => clearInterval(interval);
+  }, [activeTab]);
+
   // Set initial selection only if none exists
   useEffect(() => {
     if (!selectedAssetId && assets.length > 0) {
@@ -123,6 +133,7 @@ export default function WitnessDashboard() {
             'ownership_change': 'Transfer Ownership',
             'key_rotation': 'Key Rotation',
             'rotate': 'Key Rotation',
+            'did_migration': 'Domain Migration',
             'certification': 'Certification',
             'deactivate': 'Deactivated',
             'deactivation': 'Deactivated'
@@ -169,6 +180,23 @@ export default function WitnessDashboard() {
     }
   }
 
+  async function loadAnchorQueue() {
+    setAnchorQueue(await backendAPI.getAnchorQueue());
+  }
+
+  const handleRequeue = async (eventIds?: number[]) => {
+    setRequeueing(true);
+    try {
+      await backendAPI.requeueEvents(eventIds);
+      await loadAnchorQueue();
+    } catch (err) {
+      console.error('Failed to requeue events:', err);
+      alert('Requeue failed. Is the identity service reachable?');
+    } finally {
+      setRequeueing(false);
+    }
+  };
+
   const handleRecovery = async () => {
     if (!selectedAssetId) return;
     setIsRefreshing(true);
@@ -333,6 +361,27 @@ export default function WitnessDashboard() {
                     <div className="absolute bottom-0 left-0 w-full h-1 bg-blue-600 rounded-t-full" />
                   )}
                 </button>
+                <button
+                  onClick={() => setActiveTab('queue')}
+                  className={`pb-4 px-2 text-sm font-bold transition-all relative ${
+                    activeTab === 'queue' 
+                      ? 'text-blue-600 dark:text-blue-400' 
+                      : 'text-gray-400 hover:text-gray-600'
+                  }`}
+                >
+                  <div className="flex items-center gap-2">
+                    <Zap className="w-4 h-4" />
+                    Anchoring Queue
+                    {anchorQueue && anchorQueue.counts.dead_letter > 0 && (
+                      <span className="px-1.5 py-0.5 rounded-full bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400 text-[10px]">
+                        {anchorQueue.counts.dead_letter}
+                      </span>
+                    )}
+                  </div>
+                  {activeTab === 'queue' && (
+                    <div className="absolute bottom-0 left-0 w-full h-1 bg-blue-600 rounded-t-full" />
+                  )}
+                </button>
               </div>
             </div>
 
@@ -425,7 +474,7 @@ export default function WitnessDashboard() {
                     ))}
                   </div>
                 </div>
-              ) : (
+              ) : activeTab === 'anchors' ? (
                 /* 3. De "Blockchain Anchor Room" */
                 <div className="max-w-5xl mx-auto space-y-6">
                   <div className="grid grid-cols-3 gap-6 mb-8">
@@ -474,6 +523,11 @@ export default function WitnessDashboard() {
                             <td className="px-6 py-4">
                               <div className="font-bold text-gray-900 dark:text-white">Batch #{batch.batch_id}</div>
                               <div className="text-xs text-gray-500">{new Date(batch.timestamp || Date.now()).toLocaleString()}</div>
+                              {batch.batch_reason && (
+                                <div className="text-[10px] text-gray-400 mt-1" title={batch.gas_price_gwei != null ? `Gas price: ${batch.gas_price_gwei} gwei` : undefined}>
+                                  Trigger: {batch.batch_reason}
+                                </div>
+                              )}
                             </td>
                             <td className="px-6 py-4">
                               <div className="text-sm font-medium text-gray-900 dark:text-white">
@@ -504,10 +558,115 @@ export default function WitnessDashboard() {
                               <div className="text-[10px] text-gray-400 mt-1">Block: {batch.block_number}</div>
                             </td>
                             <td className="px-6 py-4">
-                              <span className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-bold bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400">
-                                <div className="w-1.5 h-1.5 bg-green-500 rounded-full" />
+                              <span className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-bold ${
+                                batch.status === 'confirmed'
+                                  ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400'
+                                  : batch.status === 'orphaned'
+                                    ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400'
+                                    : 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400'
+                              }`}>
+                                <div className={`w-1.5 h-1.5 rounded-full ${
+                                  batch.status === 'confirmed' ? 'bg-green-500' : batch.status === 'orphaned' ? 'bg-red-500' : 'bg-amber-500'
+                                }`} />
                                 {batch.status.toUpperCase()}
                               </span>
+                              {batch.block_confirmations !== undefined && batch.status !== 'orphaned' && (
+                                <div className="text-[10px] text-gray-400 mt-1">{batch.block_confirmations} block confirmation(s)</div>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              ) : (
+                /* 4. Anchoring Queue: failed and dead-lettered events */
+                <div className="max-w-5xl mx-auto space-y-6">
+                  <div className="grid grid-cols-4 gap-6">
+                    {([
+                      ['queued', 'Queued', 'text-gray-900 dark:text-white'],
+                      ['in_flight', 'In Flight', 'text-blue-600 dark:text-blue-400'],
+                      ['failed', 'Retrying', 'text-amber-500'],
+                      ['dead_letter', 'Dead Letter', 'text-red-600 dark:text-red-400']
+                    ] as const).map(([key, label, color]) => (
+                      <div key={key} className="bg-white dark:bg-gray-800 p-6 rounded-2xl border border-gray-200 dark:border-gray-700 shadow-sm text-center">
+                        <div className="text-sm text-gray-500 mb-1">{label}</div>
+                        <div className={`text-4xl font-bold ${color}`}>{anchorQueue?.counts[key] ?? '-'}</div>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 shadow-sm overflow-hidden">
+                    <div className="p-4 border-b border-gray-100 dark:border-gray-700 flex justify-between items-center">
+                      <div className="text-sm font-bold text-gray-900 dark:text-white">Failed Anchoring Attempts</div>
+                      <button
+                        onClick={() => handleRequeue()}
+                        disabled={requeueing || !anchorQueue || anchorQueue.events.length === 0}
+                        className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-xs font-medium transition-all disabled:opacity-50"
+                      >
+                        <RefreshCw className={`w-3.5 h-3.5 ${requeueing ? 'animate-spin' : ''}`} />
+                        Requeue All
+                      </button>
+                    </div>
+                    <table className="w-full text-left">
+                      <thead className="bg-gray-50 dark:bg-gray-900/50 border-b border-gray-100 dark:border-gray-700">
+                        <tr>
+                          <th className="px-6 py-4 text-xs font-bold text-gray-400 uppercase tracking-widest">Event</th>
+                          <th className="px-6 py-4 text-xs font-bold text-gray-400 uppercase tracking-widest">State</th>
+                          <th className="px-6 py-4 text-xs font-bold text-gray-400 uppercase tracking-widest">Attempts</th>
+                          <th className="px-6 py-4 text-xs font-bold text-gray-400 uppercase tracking-widest">Last Error</th>
+                          <th className="px-6 py-4"></th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-50 dark:divide-gray-700">
+                        {!anchorQueue || anchorQueue.events.length === 0 ? (
+                          <tr>
+                            <td colSpan={5} className="px-6 py-12 text-center">
+                              <div className="flex flex-col items-center gap-2 text-gray-400">
+                                <CheckCircle className="w-8 h-8 opacity-20" />
+                                <p className="text-sm">{anchorQueue ? 'No failed anchoring attempts.' : 'Anchoring queue unavailable.'}</p>
+                              </div>
+                            </td>
+                          </tr>
+                        ) : anchorQueue.events.map(ev => (
+                          <tr key={ev.id} className="hover:bg-gray-50/50 dark:hover:bg-gray-700/30 transition-colors">
+                            <td className="px-6 py-4">
+                              <div className="font-bold text-gray-900 dark:text-white capitalize">{ev.event_type.replace(/_/g, ' ')}</div>
+                              <div className="text-[10px] font-mono text-gray-400 truncate max-w-[220px]" title={ev.did}>{ev.did}</div>
+                            </td>
+                            <td className="px-6 py-4">
+                              {ev.anchor_status === 'dead_letter' ? (
+                                <span className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-bold bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400">
+                                  <XCircle className="w-3 h-3" />
+                                  DEAD LETTER
+                                </span>
+                              ) : (
+                                <span className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-bold bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400">
+                                  <Clock className="w-3 h-3" />
+                                  RETRYING
+                                </span>
+                              )}
+                              {ev.anchor_status === 'failed' && ev.next_attempt_at && (
+                                <div className="text-[10px] text-gray-400 mt-1">
+                                  Next attempt: {new Date(Number(ev.next_attempt_at)).toLocaleTimeString()}
+                                </div>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 text-sm font-mono text-gray-600 dark:text-gray-400">{ev.anchor_attempts}</td>
+                            <td className="px-6 py-4">
+                              <div className="text-xs text-gray-600 dark:text-gray-400 max-w-[260px] truncate" title={ev.last_error || undefined}>
+                                {ev.last_error || '-'}
+                              </div>
+                            </td>
+                            <td className="px-6 py-4 text-right">
+                              <button
+                                onClick={() => handleRequeue([ev.id])}
+                                disabled={requeueing}
+                                className="text-xs text-blue-600 dark:text-blue-400 hover:underline font-medium disabled:opacity-50"
+                              >
+                                Requeue
+                              </button>
                             </td>
                           </tr>
                         ))}
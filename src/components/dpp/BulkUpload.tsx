@@ -0,0 +1,370 @@
+import { useMemo, useState } from 'react';
+import { X, Upload, FileSpreadsheet, AlertTriangle, CheckCircle, Download, ArrowLeft, Loader2 } from 'lucide-react';
+import { identityApi, type ProductImportReport } from '../../lib/api/client';
+import { PRODUCT_SCHEMAS, getSchemaForType, type ProductTypeSchema } from '../../lib/schemas/productSchema';
+import {
+  guessColumnMapping,
+  mapSheetToImportItems,
+  buildImportResultSheet,
+  type ColumnTarget
+} from '../../lib/operations/bulkOperations';
+import { readSpreadsheet, downloadFile, type SheetData } from '../../lib/utils/spreadsheet';
+import enhancedDB from '../../lib/data/hybridDataStore';
+
+type Step = 'upload' | 'map' | 'preview' | 'registering' | 'done';
+
+const PREVIEW_ROWS = 200;
+
+/**
+ * Register products in bulk from a CSV or XLSX file (e.g. an ERP export):
+ * map the columns onto the product schema, preview validation errors, then
+ * let the identity service create all DIDs and download which row got which DID.
+ */
+export default function BulkUpload({ onClose, onComplete, ownerDid }: {
+  onClose: () => void;
+  onComplete: () => void;
+  ownerDid: string;
+}) {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<SheetData | null>(null);
+  const [productType, setProductType] = useState('window');
+  const [mapping, setMapping] = useState<ColumnTarget[]>([]);
+  const [report, setReport] = useState<ProductImportReport | null>(null);
+  const [progress, setProgress] = useState({ done: 0, total: 0, storing: false });
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const schema = getSchemaForType(productType);
+  const schemas = Object.values(PRODUCT_SCHEMAS);
+
+  // Properties of the selected type and of the types named in a product type column
+  const properties = useMemo(() => {
+    const typeColumn = mapping.indexOf('productType');
+    const found = new Map<string, ProductTypeSchema>(schema ? [[schema.id, schema]] : []);
+    for (const cells of typeColumn >= 0 ? sheet?.rows || [] : []) {
+      const rowSchema = getSchemaForType(cells[typeColumn]);
+      if (rowSchema) found.set(rowSchema.id, rowSchema);
+    }
+    const all = [...found.values()].flatMap(s => s.properties);
+    return all.filter((p, i) => all.findIndex(q => q.key === p.key) === i);
+  }, [schema, sheet, mapping]);
+
+  const items = useMemo(
+    () => (sheet ? mapSheetToImportItems(sheet, mapping, { productType, ownerDid }) : []),
+    [sheet, mapping, productType, ownerDid]
+  );
+
+  // Required fields no column is mapped onto
+  const unmapped = [
+    ...(mapping.includes('model') ? [] : ['Model']),
+    ...(schema?.properties || [])
+      .filter(p => p.required && !mapping.includes(`property:${p.key}`))
+      .map(p => p.label),
+  ];
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    try {
+      const data = await readSpreadsheet(file);
+      if (data.rows.length === 0) {
+        throw new Error(`${file.name} has no rows below its header`);
+      }
+      setFileName(file.name);
+      setSheet(data);
+      setMapping(guessColumnMapping(data.headers, schema ? [schema] : []));
+      setStep('map');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the file');
+    }
+  };
+
+  const changeProductType = (type: string) => {
+    setProductType(type);
+    const next = getSchemaForType(type);
+    if (sheet) setMapping(guessColumnMapping(sheet.headers, next ? [next] : []));
+  };
+
+  const setColumnTarget = (column: number, target: ColumnTarget) => {
+    setMapping(prev => prev.map((t, i) => (i === column ? target : t)));
+  };
+
+  const handleValidate = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      setReport(await identityApi.importProducts({ items, dryRun: true }));
+      setStep('preview');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Validation failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRegister = async () => {
+    setError(null);
+    setStep('registering');
+    try {
+      const started = await identityApi.importProducts({ items, background: true });
+      if (!started.valid || !started.job) {
+        setReport(started);
+        setStep('preview');
+        return;
+      }
+
+      const jobId = started.job.id;
+      setProgress({ done: 0, total: started.job.total, storing: false });
+      identityApi.streamImport(jobId, async event => {
+        setProgress({ done: event.done, total: event.total, storing: event.type === 'storing' });
+        if (event.type === 'completed') {
+          const job = await identityApi.getImportJob(jobId);
+          setReport({ ...started, rows: job.rows || started.rows, relationships: job.relationships });
+          await enhancedDB.clearAll();
+          setStep('done');
+        } else if (event.type === 'failed') {
+          setError(`Registration failed, no products were created: ${event.message || 'Unknown error'}`);
+          setStep('preview');
+        }
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Registration failed');
+      setStep('preview');
+    }
+  };
+
+  const downloadResults = () => {
+    if (!sheet || !report) return;
+    const base = fileName.replace(/\.[^.]+$/, '');
+    downloadFile(buildImportResultSheet(sheet, report), `${base}-${step === 'done' ? 'dids' : 'validation'}.csv`);
+  };
+
+  const reportedRows = report?.rows.filter(r => r.errors.length > 0 || r.warnings.length > 0) || [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl max-w-4xl w-full max-h-[90vh] flex flex-col shadow-2xl border border-gray-200 dark:border-gray-700">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-100 dark:border-gray-700">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900 dark:text-white flex items-center gap-2">
+              <FileSpreadsheet className="w-5 h-5 text-blue-600" />
+              Bulk Product Registration
+            </h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {fileName ? `${fileName} · ${sheet?.rows.length} rows` : 'Upload a CSV or XLSX export'}
+            </p>
+          </div>
+          <button onClick={onClose} disabled={step === 'registering'} className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 disabled:opacity-50">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {error && (
+            <div className="flex items-start gap-2 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {step === 'upload' && (
+            <label className="flex flex-col items-center justify-center gap-3 p-10 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-xl cursor-pointer hover:border-blue-400 transition-colors">
+              <Upload className="w-10 h-10 text-gray-400" />
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Choose a CSV or XLSX file</span>
+              <span className="text-xs text-gray-500 dark:text-gray-400">One product per row, column names in the first row</span>
+              <input
+                type="file"
+                accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                onChange={e => handleFile(e.target.files?.[0])}
+                className="hidden"
+              />
+            </label>
+          )}
+
+          {step === 'map' && sheet && (
+            <>
+              <div className="flex items-center gap-3">
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Product type</label>
+                <select
+                  value={productType}
+                  onChange={e => changeProductType(e.target.value)}
+                  className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                >
+                  {schemas.map(s => (
+                    <option key={s.id} value={s.id}>{s.name}</option>
+                  ))}
+                </select>
+                <span className="text-xs text-gray-500 dark:text-gray-400">(rows with a product type column use their own)</span>
+              </div>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                    <th className="py-2 pr-4 font-medium">Column</th>
+                    <th className="py-2 pr-4 font-medium">First row</th>
+                    <th className="py-2 font-medium">Maps to</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sheet.headers.map((header, i) => (
+                    <tr key={i} className="border-b border-gray-100 dark:border-gray-700">
+                      <td className="py-2 pr-4 font-medium text-gray-900 dark:text-white">{header}</td>
+                      <td className="py-2 pr-4 text-gray-500 dark:text-gray-400 truncate max-w-[12rem]">{sheet.rows[0][i]}</td>
+                      <td className="py-2">
+                        <select
+                          value={mapping[i]}
+                          onChange={e => setColumnTarget(i, e.target.value as ColumnTarget)}
+                          className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                        >
+                          <option value="">Ignore</option>
+                          <option value="model">Model</option>
+                          <option value="ref">Reference (serial number)</option>
+                          <option value="parent">Parent (reference or DID)</option>
+                          <option value="productType">Product type</option>
+                          {properties.map(p => (
+                            <option key={p.key} value={`property:${p.key}`}>
+                              {p.label}{p.required ? ' *' : ''}{p.type === 'object' ? ' (part)' : ''}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {unmapped.length > 0 && (
+                <p className="text-sm text-amber-600 dark:text-amber-400">
+                  No column for: {unmapped.join(', ')}. Rows without them will fail validation.
+                </p>
+              )}
+            </>
+          )}
+
+          {step === 'preview' && report && (
+            <>
+              <div className={`flex items-center gap-2 p-3 rounded-lg text-sm ${report.valid
+                ? 'bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300'
+                : 'bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300'}`}
+              >
+                {report.valid ? <CheckCircle className="w-4 h-4" /> : <AlertTriangle className="w-4 h-4" />}
+                {report.valid
+                  ? `All ${report.summary.total} rows are valid: ${report.summary.create} products and ${report.summary.relationships} component links will be created.`
+                  : `${report.summary.invalid} of ${report.summary.total} rows have errors. Fix them in the file or the mapping; nothing is created until all rows are valid.`}
+              </div>
+
+              {reportedRows.length > 0 && (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                      <th className="py-2 pr-4 font-medium">Row</th>
+                      <th className="py-2 pr-4 font-medium">Reference</th>
+                      <th className="py-2 font-medium">Errors and warnings</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {reportedRows.slice(0, PREVIEW_ROWS).map(row => (
+                      <tr key={row.row} className="border-b border-gray-100 dark:border-gray-700 align-top">
+                        <td className="py-2 pr-4 text-gray-900 dark:text-white">{sheet?.rowNumbers[row.row]}</td>
+                        <td className="py-2 pr-4 text-gray-600 dark:text-gray-300">{row.ref}</td>
+                        <td className="py-2">
+                          {row.errors.length > 0 && <div className="text-red-600 dark:text-red-400">{row.errors.join('; ')}</div>}
+                          {row.warnings.length > 0 && <div className="text-amber-600 dark:text-amber-400">{row.warnings.join('; ')}</div>}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {reportedRows.length > PREVIEW_ROWS && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Showing the first {PREVIEW_ROWS} rows with errors or warnings; download the validation sheet for all of them.
+                </p>
+              )}
+            </>
+          )}
+
+          {step === 'registering' && (
+            <div className="py-8 space-y-3 text-center">
+              <Loader2 className="w-8 h-8 text-blue-600 animate-spin mx-auto" />
+              <p className="text-sm text-gray-700 dark:text-gray-300">
+                {progress.storing
+                  ? 'Storing products and relationships...'
+                  : `Creating DIDs: ${progress.done} of ${progress.total}`}
+              </p>
+              <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-blue-600 transition-all"
+                  style={{ width: `${progress.total ? Math.round((progress.done / progress.total) * 100) : 0}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          {step === 'done' && report && (
+            <div className="flex items-center gap-2 p-3 rounded-lg bg-green-50 dark:bg-green-900/20 text-sm text-green-700 dark:text-green-300">
+              <CheckCircle className="w-4 h-4" />
+              Registered {report.summary.create} products
+              {report.summary.relationships > 0 && ` with ${report.summary.relationships} component links`}.
+              Download the result sheet to see the DID of every row.
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-gray-100 dark:border-gray-700 flex justify-between gap-3">
+          <div>
+            {(step === 'map' || step === 'preview') && (
+              <button
+                onClick={() => setStep(step === 'map' ? 'upload' : 'map')}
+                className="flex items-center gap-1 px-4 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 hover:text-gray-800 dark:hover:text-white"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                Back
+              </button>
+            )}
+          </div>
+          <div className="flex gap-3">
+            {(step === 'preview' || step === 'done') && (
+              <button
+                onClick={downloadResults}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+              >
+                <Download className="w-4 h-4" />
+                {step === 'done' ? 'Result Sheet' : 'Validation Sheet'}
+              </button>
+            )}
+            {step === 'map' && (
+              <button
+                onClick={handleValidate}
+                disabled={isBusy}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg disabled:opacity-50"
+              >
+                {isBusy ? 'Validating...' : 'Validate'}
+              </button>
+            )}
+            {step === 'preview' && (
+              <button
+                onClick={handleRegister}
+                disabled={!report?.valid || report.summary.create === 0}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Register {report?.summary.create ?? 0} Products
+              </button>
+            )}
+            {step === 'done' && (
+              <button
+                onClick={onComplete}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg"
+              >
+                Done
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
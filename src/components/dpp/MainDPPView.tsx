@@ -1733,6 +1733,7 @@ export default function MainDPPView({ did, onBack, onNavigate, backLabel }: {
           onClose={() => setShowCertifyModal(false)}
           onCertify={handleCertify}
           loading={opLoading}
+          credentialDefinitions={getSchemaForType(data.dpp.metadata?.productType || data.dpp.model)?.credentials}
         />
       )}
 
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { Award, ShieldCheck, ClipboardCheck, X } from 'lucide-react';
+import type { CredentialDefinition, PropertyDefinition } from '../../lib/schemas/productSchema';
 
 interface CertifyProductModalProps {
   onClose: () => void;
@@ -8,27 +9,79 @@ interface CertifyProductModalProps {
     certificateType: string;
     notes: string;
     status: string;
+    credential?: {
+      definition: CredentialDefinition;
+      claims: Record<string, unknown>;
+      issuerType: string;
+    };
   }) => Promise<void>;
   loading?: boolean;
+  // Credential definitions of the product type; selecting one issues a Verifiable Credential
+  credentialDefinitions?: CredentialDefinition[];
+}
+
+const inputClassName = 'w-full px-4 py-3 rounded-xl border-2 border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 focus:border-amber-500 dark:focus:border-amber-500 outline-none transition-all dark:text-white';
+
+// Convert a form value to the claim type of the credential definition
+function toClaim(prop: PropertyDefinition, value: string | boolean): unknown {
+  if (prop.type === 'boolean') return value === true;
+  if (value === '') return undefined;
+  if (prop.type === 'number') return Number(value);
+  if (prop.type === 'object' || prop.type === 'array') return JSON.parse(value as string);
+  return value;
 }
 
 export default function CertifyProductModal({ 
   onClose, 
   onCertify,
-  loading = false
+  loading = false,
+  credentialDefinitions = []
 }: CertifyProductModalProps) {
   const [inspector, setInspector] = useState('');
-  const [certificateType, setCertificateType] = useState('Safety Inspection');
+  const [certificateType, setCertificateType] = useState(credentialDefinitions[0]?.type || 'Safety Inspection');
   const [notes, setNotes] = useState('');
   const [status, setStatus] = useState('certified');
+  const [issuerType, setIssuerType] = useState(credentialDefinitions[0]?.issuerTypes[0] || '');
+  const [claimValues, setClaimValues] = useState<Record<string, string | boolean>>({});
+  const [claimError, setClaimError] = useState<string | null>(null);
+
+  const definition = credentialDefinitions.find(d => d.type === certificateType);
+  const expiryDate = definition?.expiryDays
+    ? new Date(Date.now() + definition.expiryDays * 24 * 60 * 60 * 1000).toLocaleDateString()
+    : null;
+
+  const handleTypeChange = (type: string) => {
+    setCertificateType(type);
+    setIssuerType(credentialDefinitions.find(d => d.type === type)?.issuerTypes[0] || '');
+    setClaimValues({});
+    setClaimError(null);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    let credential;
+    if (definition) {
+      const claims: Record<string, unknown> = {};
+      for (const prop of definition.properties) {
+        try {
+          const claim = toClaim(prop, claimValues[prop.key] ?? '');
+          if (claim !== undefined) claims[prop.key] = claim;
+        } catch {
+          setClaimError(`${prop.label} must be valid JSON`);
+          return;
+        }
+      }
+      credential = { definition, claims, issuerType };
+    }
+
+    setClaimError(null);
     await onCertify({
       inspector,
-      certificateType,
+      certificateType: definition?.label || certificateType,
       notes,
-      status
+      status,
+      credential
     });
   };
 
@@ -53,7 +106,7 @@ export default function CertifyProductModal({
             Record an official inspection or certification in the digital passport. This action adds an immutable proof to the history.
           </p>
 
-          <div className="space-y-6">
+          <div className="space-y-6 max-h-[55vh] overflow-y-auto pr-1">
             <div>
               <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2 uppercase tracking-wider">
                 Inspection Body / Inspector
@@ -74,16 +127,100 @@ export default function CertifyProductModal({
               </label>
               <select
                 value={certificateType}
-                onChange={(e) => setCertificateType(e.target.value)}
-                className="w-full px-4 py-3 rounded-xl border-2 border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 focus:border-amber-500 dark:focus:border-amber-500 outline-none transition-all dark:text-white"
+                onChange={(e) => handleTypeChange(e.target.value)}
+                className={inputClassName}
               >
-                <option value="Safety Inspection">Safety Inspection</option>
-                <option value="Quality Standard">Quality Standard (ISO)</option>
-                <option value="Sustainability Certificate">Sustainability Certificate</option>
-                <option value="Maintenance Check">Maintenance Check</option>
+                {credentialDefinitions.length > 0 && (
+                  <optgroup label="Verifiable Credentials">
+                    {credentialDefinitions.map(d => (
+                      <option key={d.type} value={d.type}>{d.label}</option>
+                    ))}
+                  </optgroup>
+                )}
+                <optgroup label="Inspection Records">
+                  <option value="Safety Inspection">Safety Inspection</option>
+                  <option value="Quality Standard">Quality Standard (ISO)</option>
+                  <option value="Sustainability Certificate">Sustainability Certificate</option>
+                  <option value="Maintenance Check">Maintenance Check</option>
+                </optgroup>
               </select>
+              {definition && (
+                <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                  Issued as a signed W3C Verifiable Credential
+                  {expiryDate ? `, valid until ${expiryDate}` : ''}.
+                </p>
+              )}
             </div>
 
+            {definition && (
+              <>
+                <div>
+                  <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2 uppercase tracking-wider">
+                    Issuer Type
+                  </label>
+                  <select
+                    value={issuerType}
+                    onChange={(e) => setIssuerType(e.target.value)}
+                    className={inputClassName}
+                  >
+                    {definition.issuerTypes.map(t => (
+                      <option key={t} value={t}>{t}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {definition.properties.map(prop => (
+                  <div key={prop.key}>
+                    <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2 uppercase tracking-wider">
+                      {prop.label}{prop.unit ? ` (${prop.unit})` : ''}
+                    </label>
+                    {prop.type === 'boolean' ? (
+                      <input
+                        type="checkbox"
+                        checked={claimValues[prop.key] === true}
+                        onChange={(e) => setClaimValues({ ...claimValues, [prop.key]: e.target.checked })}
+                        className="w-5 h-5 accent-amber-500"
+                      />
+                    ) : prop.validation?.enum ? (
+                      <select
+                        value={String(claimValues[prop.key] ?? '')}
+                        onChange={(e) => setClaimValues({ ...claimValues, [prop.key]: e.target.value })}
+                        className={inputClassName}
+                        required={prop.required}
+                      >
+                        <option value="">Select...</option>
+                        {prop.validation.enum.map(option => (
+                          <option key={String(option)} value={String(option)}>{String(option)}</option>
+                        ))}
+                      </select>
+                    ) : prop.type === 'object' || prop.type === 'array' ? (
+                      <textarea
+                        value={String(claimValues[prop.key] ?? '')}
+                        onChange={(e) => setClaimValues({ ...claimValues, [prop.key]: e.target.value })}
+                        placeholder={prop.type === 'array' ? '["..."]' : '{ "...": "..." }'}
+                        rows={3}
+                        className={`${inputClassName} font-mono text-sm resize-none`}
+                        required={prop.required}
+                      />
+                    ) : (
+                      <input
+                        type={prop.type === 'number' ? 'number' : prop.type === 'date' ? 'date' : 'text'}
+                        value={String(claimValues[prop.key] ?? '')}
+                        onChange={(e) => setClaimValues({ ...claimValues, [prop.key]: e.target.value })}
+                        min={prop.validation?.min}
+                        max={prop.validation?.max}
+                        pattern={prop.validation?.pattern}
+                        step={prop.type === 'number' ? 'any' : undefined}
+                        placeholder={prop.description}
+                        className={inputClassName}
+                        required={prop.required}
+                      />
+                    )}
+                  </div>
+                ))}
+              </>
+            )}
+
             <div>
               <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2 uppercase tracking-wider">
                 New Product Status
@@ -129,6 +266,10 @@ export default function CertifyProductModal({
             </div>
           </div>
 
+          {claimError && (
+            <p className="mt-6 text-sm text-red-600 dark:text-red-400">{claimError}</p>
+          )}
+
           <div className="mt-10 flex gap-4">
             <button
               type="button"
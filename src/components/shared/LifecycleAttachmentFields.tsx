@@ -0,0 +1,63 @@
+import { CheckCircle, Paperclip } from 'lucide-react';
+import type { LifecycleAttachment } from '../../lib/types/lifecycle';
+import type { LifecycleAttachmentDefinition } from '../../lib/schemas/productSchema';
+
+interface LifecycleAttachmentFieldsProps {
+    definitions: LifecycleAttachmentDefinition[];
+    attachments: LifecycleAttachment[];
+    onChange: (attachments: LifecycleAttachment[]) => void;
+}
+
+// Helper: Reference a file by its SHA-256 hash (the file itself stays with the user)
+async function hashFile(file: File): Promise<string> {
+    const hashBuffer = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    return Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * File inputs for the attachments a lifecycle transition requires
+ */
+export function LifecycleAttachmentFields({ definitions, attachments, onChange }: LifecycleAttachmentFieldsProps) {
+    if (definitions.length === 0) return null;
+
+    const handleFile = async (definition: LifecycleAttachmentDefinition, file: File | undefined) => {
+        const others = attachments.filter(a => a.type !== definition.type);
+        if (!file) {
+            onChange(others);
+            return;
+        }
+        onChange([...others, { type: definition.type, name: file.name, hash: await hashFile(file) }]);
+    };
+
+    return (
+        <div className="space-y-3">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Required Attachments</label>
+            {definitions.map(definition => {
+                const attached = attachments.find(a => a.type === definition.type);
+                return (
+                    <div key={definition.type} className="p-3 rounded-lg border border-gray-200 dark:border-gray-600">
+                        <div className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-white">
+                            {attached
+                                ? <CheckCircle className="w-4 h-4 text-green-500" />
+                                : <Paperclip className="w-4 h-4 text-gray-400" />}
+                            {definition.label}
+                        </div>
+                        {definition.description && (
+                            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{definition.description}</p>
+                        )}
+                        <input
+                            type="file"
+                            onChange={e => handleFile(definition, e.target.files?.[0])}
+                            className="mt-2 block w-full text-xs text-gray-600 dark:text-gray-300"
+                        />
+                        {attached && (
+                            <p className="text-xs font-mono text-gray-500 dark:text-gray-400 mt-1 truncate">
+                                SHA-256 {attached.hash}
+                            </p>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
@@ -29,6 +29,9 @@ export interface BackendBatch {
     tx_hash: string;
     block_number: number;
     status: string;
+    block_confirmations?: number;
+    batch_reason?: string | null;
+    gas_price_gwei?: string | null;
     timestamp: string;
 }
 
@@ -41,6 +44,25 @@ export interface BackendAudit {
     checked_at: string;
 }
 
+export type AnchorStatus = 'queued' | 'in_flight' | 'anchored' | 'failed' | 'dead_letter';
+
+export interface AnchorQueueEvent {
+    id: number;
+    did: string;
+    event_type: string;
+    version_id: string;
+    anchor_status: AnchorStatus;
+    anchor_attempts: number;
+    next_attempt_at: number | null;
+    last_error: string | null;
+    timestamp: number;
+}
+
+export interface AnchorQueue {
+    counts: Record<'queued' | 'in_flight' | 'failed' | 'dead_letter', number>;
+    events: AnchorQueueEvent[];
+}
+
 export interface WatcherAlert {
     id: number;
     did: string;
@@ -130,6 +152,22 @@ class BackendAPI {
         }
     }
 
+    // Anchoring queue (failed / dead-lettered events)
+    async getAnchorQueue(): Promise<AnchorQueue | null> {
+        try {
+            return await this.fetch<AnchorQueue>('/api/witness/queue');
+        } catch {
+            return null;
+        }
+    }
+
+    async requeueEvents(eventIds?: number[]): Promise<{ requeued: number; eventIds: number[] }> {
+        return this.fetch('/api/witness/queue/requeue', {
+            method: 'POST',
+            body: JSON.stringify(eventIds ? { eventIds } : {}),
+        });
+    }
+
     // Watcher Service APIs
     async getAuditsByDID(did: string): Promise<BackendAudit[]> {
         try {
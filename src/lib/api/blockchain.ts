@@ -2,11 +2,14 @@
  * Blockchain Client
  * 
  * Direct blockchain interaction for verification purposes.
- * Uses ethers.js to query the WitnessAnchorRegistry contract.
+ * Reads the anchor backend the witness uses (VITE_ANCHOR_BACKEND):
+ * - evm: ethers.js queries the WitnessAnchorRegistry contract over RPC
+ * - file-ledger / memory: read through the identity service's /anchors API
  */
 
 import { ethers } from 'ethers';
 import { API_CONFIG, etherscanTxUrl, etherscanBlockUrl } from './config';
+import { witnessApi } from './client';
 
 // WitnessAnchorRegistry ABI (minimal for read operations)
 const CONTRACT_ABI = [
@@ -16,6 +19,8 @@ const CONTRACT_ABI = [
   "function blockNumbers(uint256 batchId) external view returns (uint256)",
   "function verify(uint256 batchId, bytes32 expectedRoot) external view returns (bool)",
   "function getBatch(uint256 batchId) external view returns (bytes32 root, uint256 timestamp, uint256 blockNum)",
+  "function getConfirmations(uint256 batchId) external view returns (uint256 confirmations, uint256 required, bool finalized)",
+  "function isFinalized(uint256 batchId) external view returns (bool)",
   "event Anchored(uint256 indexed batchId, bytes32 indexed root, uint256 timestamp, uint256 blockNumber)"
 ];
 
@@ -24,20 +29,55 @@ export interface BatchInfo {
   merkleRoot: string;
   timestamp: number;
   blockNumber: number;
+  confirmations: number;
+  requiredConfirmations: number;
+  finalized: boolean;
   etherscanTxUrl?: string | null;
   etherscanBlockUrl: string | null;
 }
 
 export interface VerificationResult {
   verified: boolean;
+  /** On-chain root matches, regardless of whether the witness quorum has been reached */
+  rootMatches: boolean;
+  /** Pending batches are anchored but not yet confirmed by enough witnesses */
+  status: 'finalized' | 'pending' | 'mismatch' | 'unavailable';
   batchId: number;
   onChainRoot: string;
   expectedRoot: string;
   blockNumber: number;
+  confirmations: number;
+  requiredConfirmations: number;
   timestamp: Date;
   etherscanBlockUrl: string | null;
 }
 
+interface AnchoredEvent {
+  batchId: number;
+  root: string;
+  timestamp: number;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+interface QuorumInfo {
+  confirmations: number;
+  requiredConfirmations: number;
+  finalized: boolean;
+}
+
+/**
+ * Read side of an anchor backend
+ */
+interface AnchorReader {
+  getBlockNumber(): Promise<number>;
+  getChainId(): Promise<number | null>;
+  getBatchCount(): Promise<number>;
+  getBatch(batchId: number): Promise<{ root: string; timestamp: number; blockNumber: number }>;
+  getQuorumStatus(batchId: number): Promise<QuorumInfo>;
+  getAnchoredEvents(fromBlock: number): Promise<AnchoredEvent[]>;
+}
+
 let provider: ethers.JsonRpcProvider | null = null;
 let contract: ethers.Contract | null = null;
 let isBlockchainReachable = true;
@@ -94,11 +134,11 @@ async function checkReachability(): Promise<boolean> {
   }
 
   try {
-    const p = getProvider();
+    const reader = getReader();
     // Use a tiny timeout for the reachability check to fail fast for CORS
     // Wrap in try/catch to ensure we don't leak "Uncaught" errors to console
     const result = await Promise.race([
-      p.getBlockNumber().catch(err => {
+      reader.getBlockNumber().catch(err => {
         // Specifically catch CORS/Network errors here so they don't reach the global handler
         if (err.message.includes('CORS') || err.message.includes('network') || err.code === 'NETWORK_ERROR') {
           return null; // Signals failure but not an "uncaught error"
@@ -125,6 +165,108 @@ async function checkReachability(): Promise<boolean> {
   }
 }
 
+/**
+ * A call that reverted without revert data, as calls to a function the registry lacks do
+ */
+function isMissingFunction(err: unknown): boolean {
+  return ethers.isError(err, 'CALL_EXCEPTION') && (!err.data || err.data === '0x');
+}
+
+/**
+ * EVM registry, read directly over RPC.
+ * Registries deployed before quorum support are single-witness, so their batches are final on anchor.
+ */
+const evmReader: AnchorReader = {
+  getBlockNumber: () => getProvider().getBlockNumber(),
+
+  async getChainId() {
+    return Number((await getProvider().getNetwork()).chainId);
+  },
+
+  async getBatchCount() {
+    return Number(await getContract().batchCount());
+  },
+
+  async getBatch(batchId) {
+    const [root, timestamp, blockNum] = await getContract().getBatch(batchId);
+    return { root, timestamp: Number(timestamp), blockNumber: Number(blockNum) };
+  },
+
+  async getQuorumStatus(batchId) {
+    try {
+      const [confirmations, required, finalized] = await getContract().getConfirmations(batchId);
+      return {
+        confirmations: Number(confirmations),
+        requiredConfirmations: Number(required),
+        finalized: Boolean(finalized),
+      };
+    } catch (err) {
+      // Only a registry without getConfirmations is treated as final, never an unknown status
+      if (!isMissingFunction(err)) {
+        throw err;
+      }
+      return { confirmations: 1, requiredConfirmations: 1, finalized: true };
+    }
+  },
+
+  async getAnchoredEvents(fromBlock) {
+    const contract = getContract();
+    const events = await contract.queryFilter(contract.filters.Anchored(), fromBlock);
+
+    return events.map(event => {
+      const log = event as ethers.Log & { args: [bigint, string, bigint, bigint] };
+      return {
+        batchId: Number(log.args[0]),
+        root: log.args[1],
+        timestamp: Number(log.args[2]),
+        blockNumber: Number(log.args[3]),
+        transactionHash: log.transactionHash,
+      };
+    });
+  },
+};
+
+/**
+ * Non-EVM backends (file ledger, in-memory chain), read through the identity service
+ */
+const serviceReader: AnchorReader = {
+  async getBlockNumber() {
+    return (await witnessApi.getAnchorStatus()).blockNumber;
+  },
+
+  // Ledger chain ids are not numeric EIP-155 ids
+  getChainId: async () => null,
+
+  async getBatchCount() {
+    return (await witnessApi.getAnchorStatus()).batchCount;
+  },
+
+  async getBatch(batchId) {
+    const { root, timestamp, blockNumber } = await witnessApi.getAnchor(batchId);
+    return { root, timestamp, blockNumber };
+  },
+
+  async getQuorumStatus(batchId) {
+    const { quorum } = await witnessApi.getAnchor(batchId);
+    return {
+      confirmations: quorum.confirmations,
+      requiredConfirmations: quorum.required,
+      finalized: quorum.finalized,
+    };
+  },
+
+  async getAnchoredEvents(fromBlock) {
+    const anchors = await witnessApi.getAnchors(fromBlock);
+    return anchors.map(({ txHash, ...anchor }) => ({ ...anchor, transactionHash: txHash }));
+  },
+};
+
+const isEvmBackend = API_CONFIG.BLOCKCHAIN.ANCHOR_BACKEND === 'evm';
+
+function getReader(): AnchorReader {
+  return isEvmBackend ? evmReader : serviceReader;
+}
+
 /**
  * Get the total number of batches anchored
  */
@@ -137,9 +279,7 @@ export async function getBatchCount(): Promise<number> {
   if (!(await checkReachability())) return 0;
 
   try {
-    const contract = getContract();
-    const count = await contract.batchCount();
-    cachedBatchCount = Number(count);
+    cachedBatchCount = await getReader().getBatchCount();
     lastBatchCountFetch = now;
     return cachedBatchCount;
   } catch (e) {
@@ -161,18 +301,21 @@ export async function getBatch(batchId: number): Promise<BatchInfo> {
   }
 
   try {
-    const contract = getContract();
-    const [root, timestamp, blockNum] = await contract.getBatch(batchId);
+    const reader = getReader();
+    const { root, timestamp, blockNumber } = await reader.getBatch(batchId);
+    const quorum = await reader.getQuorumStatus(batchId);
     
     const info: BatchInfo = {
       batchId,
       merkleRoot: root,
-      timestamp: Number(timestamp),
-      blockNumber: Number(blockNum),
-      etherscanBlockUrl: etherscanBlockUrl(Number(blockNum)),
+      timestamp,
+      blockNumber,
+      ...quorum,
+      etherscanBlockUrl: isEvmBackend ? etherscanBlockUrl(blockNumber) : null,
     };
 
-    if (root && root !== '0x' + '0'.repeat(64)) {
+    // Only cache final batches, pending ones can still gain confirmations
+    if (root && root !== '0x' + '0'.repeat(64) && info.finalized) {
       batchCache.set(batchId, info);
     }
 
@@ -192,10 +335,14 @@ export async function verifyOnChain(
 ): Promise<VerificationResult> {
   const defaultResult: VerificationResult = {
     verified: false,
+    rootMatches: false,
+    status: 'unavailable',
     batchId,
     onChainRoot: '0x',
     expectedRoot,
     blockNumber: 0,
+    confirmations: 0,
+    requiredConfirmations: 0,
     timestamp: new Date(),
     etherscanBlockUrl: null,
   };
@@ -206,15 +353,20 @@ export async function verifyOnChain(
     // Use cached getBatch to avoid redundant RPC calls
     const batch = await getBatch(batchId);
     
-    // Verification is simple comparison of roots
-    const verified = batch.merkleRoot === expectedRoot;
+    // The root must match AND the batch must have reached its witness quorum
+    const rootMatches = batch.merkleRoot === expectedRoot;
+    const status = !rootMatches ? 'mismatch' : batch.finalized ? 'finalized' : 'pending';
     
     return {
-      verified,
+      verified: rootMatches && batch.finalized,
+      rootMatches,
+      status,
       batchId,
       onChainRoot: batch.merkleRoot,
       expectedRoot,
       blockNumber: batch.blockNumber,
+      confirmations: batch.confirmations,
+      requiredConfirmations: batch.requiredConfirmations,
       timestamp: new Date(batch.timestamp * 1000),
       etherscanBlockUrl: batch.etherscanBlockUrl,
     };
@@ -246,7 +398,7 @@ export async function getRecentBatches(count: number = 10): Promise<BatchInfo[]>
 }
 
 /**
- * Get Anchored events from the contract
+ * Get Anchored events from the anchor backend
  */
 export async function getAnchoredEvents(fromBlock: number = 0): Promise<Array<{
   batchId: number;
@@ -264,22 +416,12 @@ export async function getAnchoredEvents(fromBlock: number = 0): Promise<Array<{
   if (!(await checkReachability())) return [];
 
   try {
-    const contract = getContract();
+    const events = await getReader().getAnchoredEvents(fromBlock);
     
-    const filter = contract.filters.Anchored();
-    const events = await contract.queryFilter(filter, fromBlock);
-    
-    const results = events.map(event => {
-      const log = event as ethers.Log & { args: [bigint, string, bigint, bigint] };
-      return {
-        batchId: Number(log.args[0]),
-        root: log.args[1],
-        timestamp: Number(log.args[2]),
-        blockNumber: Number(log.args[3]),
-        transactionHash: log.transactionHash,
-        etherscanTxUrl: etherscanTxUrl(log.transactionHash),
-      };
-    });
+    const results = events.map(event => ({
+      ...event,
+      etherscanTxUrl: isEvmBackend ? etherscanTxUrl(event.transactionHash) : null,
+    }));
 
     cachedAnchors = results;
     lastAnchorFetch = now;
@@ -300,16 +442,16 @@ export async function checkBlockchainHealth(): Promise<{
   error?: string;
 }> {
   try {
-    const provider = getProvider();
-    const [blockNumber, network] = await Promise.all([
-      provider.getBlockNumber(),
-      provider.getNetwork(),
+    const reader = getReader();
+    const [blockNumber, chainId] = await Promise.all([
+      reader.getBlockNumber(),
+      reader.getChainId(),
     ]);
     
     return {
       connected: true,
       blockNumber,
-      chainId: Number(network.chainId),
+      chainId,
     };
   } catch (e: any) {
     return {
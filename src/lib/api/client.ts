@@ -6,6 +6,11 @@
  */
 
 import { apiUrl, API_CONFIG } from './config';
+import type { WitnessDataIntegrityProof, VerificationBundle } from '../../types/witness';
+import type { MMRConsistencyProof } from '../../../backend/utils/mmr';
+import type { VerifiableCredential as W3CVerifiableCredential, CredentialDefinitionLike } from '../../../backend/utils/credentials';
+
+export type { W3CVerifiableCredential };
 
 // Types matching backend database schema
 export interface Identity {
@@ -41,6 +46,9 @@ export interface AnchoringProof {
   txHash: string;
   blockNumber: number;
   timestamp: string;
+  mmrSize?: number;
+  peaks?: string[];
+  proof?: WitnessDataIntegrityProof[];
 }
 
 export interface Batch {
@@ -48,19 +56,114 @@ export interface Batch {
   merkle_root: string;
   tx_hash: string | null;
   block_number: number | null;
-  status: 'pending' | 'anchored' | 'confirmed';
+  status: 'pending' | 'anchored' | 'confirmed' | 'orphaned';
+  block_confirmations: number;
+  confirmations: number;
+  required_confirmations: number;
+  finalized: boolean;
+  mmr_size: number | null;
+  anchor_backend: string | null;
+  chain_id: string | null;
+  batch_reason: 'priority' | 'threshold' | 'timeout' | 'gas-deadline' | null;
+  gas_price_gwei: string | null;   // NUMERIC, returned as a string
+  gas_cost_wei: string | null;
   timestamp: string;
 }
 
+export interface ConsistencyProofResponse {
+  batchId: number;
+  merkleRoot: string;
+  previousBatchId: number | null;
+  previousRoot: string | null;
+  proof: MMRConsistencyProof;
+}
+
+export interface AnchorBackendStatus {
+  backend: string;
+  chainId: string;
+  blockNumber: number;
+  batchCount: number;
+}
+
+export interface AnchorRecord {
+  batchId: number;
+  root: string;
+  timestamp: number;
+  blockNumber: number;
+  txHash: string;
+}
+
+export interface AnchoredBatchResponse extends Omit<AnchorRecord, 'txHash'> {
+  quorum: { confirmations: number; required: number; finalized: boolean };
+}
+
 export interface Audit {
   id: number;
-  did: string;
-  check_type: 'hash_chain' | 'merkle_proof';
+  did: string | null;
+  check_type: 'hash_chain' | 'merkle_proof' | 'witness_attestation' | 'accumulator_consistency';
   status: 'valid' | 'invalid';
   details: string;
+  exempt?: boolean;
+  exemption_reason?: string | null;
   checked_at: string;
 }
 
+export interface AuditHistoryEntry {
+  runId: string;
+  did: string | null;
+  trigger: 'schedule' | 'manual';
+  checkedAt: string;
+  status: 'valid' | 'invalid';
+  exempt: boolean;
+  exemptionReason: string | null;
+  checks: Array<{ checkType: Audit['check_type']; status: Audit['status']; details: string; checkedAt: string }>;
+}
+
+export interface AuditProgressEvent {
+  type: 'started' | 'identity' | 'check' | 'skipped' | 'completed' | 'failed';
+  did?: string;
+  check?: { checkType: Audit['check_type']; valid: boolean; details: string };
+  status?: 'active' | 'tampered';
+  exempt?: boolean;
+  message: string;
+  done: number;
+  total: number;
+  timestamp: string;
+}
+
+export interface AuditRun {
+  id: string;
+  did: string | null;
+  trigger: 'schedule' | 'manual';
+  status: 'running' | 'completed' | 'failed';
+  startedAt: string;
+  finishedAt: string | null;
+  total: number;
+  done: number;
+  failures: number;
+  progress?: AuditProgressEvent[];
+  streamUrl?: string;
+}
+
+export interface TrustExemption {
+  did: string;
+  reason: string;
+  addedBy: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface WatcherStatus {
+  healthy: boolean;
+  lastCheck: string | null;
+  activeWatchers: number;
+  schedule: string;
+  nextRun: string;
+  running: AuditRun[];
+  lastRun: AuditRun | null;
+  accumulator: { status: Audit['status']; details: string; runId: string | null; checkedAt: string } | null;
+}
+
 // API Response types
 export interface CreateProductResponse {
   did: string;
@@ -69,6 +172,101 @@ export interface CreateProductResponse {
   versionId: string;
 }
 
+// Product import: one row per item of the file, validated before anything is created
+export interface ProductImportItem {
+  ref?: string;           // reference within the file, or a registered DID
+  type: 'main' | 'component';
+  model: string;
+  metadata: Record<string, unknown>;
+  parent?: string;        // ref of another item, or a registered DID
+  ownerDid?: string;
+}
+
+export interface ProductImportRow {
+  row: number;
+  ref: string;
+  action: 'create' | 'exists';
+  productType: string | null;
+  model: string | null;
+  parent: string | null;
+  parentSource: 'file' | 'registered' | null;
+  errors: string[];
+  warnings: string[];     // reported, but do not stop the import
+  did?: string;
+}
+
+export interface ProductImportProgressEvent {
+  type: 'started' | 'created' | 'storing' | 'completed' | 'failed';
+  row?: number;
+  ref?: string;
+  did?: string;
+  message?: string;
+  done: number;
+  total: number;
+  timestamp: string;
+}
+
+// Import running in the background (large files)
+export interface ProductImportJob {
+  id: string;
+  status: 'running' | 'completed' | 'failed';
+  startedAt: string;
+  finishedAt: string | null;
+  total: number;
+  done: number;
+  error: string | null;
+  streamUrl?: string;
+  rows?: ProductImportRow[];
+  relationships?: Array<{ parent_did: string; child_did: string }>;
+}
+
+export interface ProductImportReport {
+  dryRun: boolean;
+  valid: boolean;
+  summary: { total: number; create: number; exists: number; relationships: number; invalid: number };
+  rows: ProductImportRow[];
+  relationships?: Array<{ parent_did: string; child_did: string }>;
+  job?: ProductImportJob;
+}
+
+// Role-scoped passport presentation (SD-JWT VC with only the role's disclosures)
+export interface PassportPresentation {
+  role: string;
+  format: string;
+  presentation: Record<string, unknown>;
+  sdJwt: string;
+  disclosed: string[];
+  withheld: number;
+}
+
+// Multi-controller DIDs: updates collecting signatures until the threshold is met
+export interface DIDController {
+  did: string;
+  publicKeyMultibase: string;
+  serverHeld: boolean;
+}
+
+export interface PendingUpdate {
+  id: number;
+  did: string;
+  baseVersionId: string;
+  updates: Record<string, unknown>;
+  document: Record<string, unknown>;
+  threshold: number;
+  signatures: Array<{ publicKeyMultibase: string; controller: string; signedAt: string }>;
+  status: 'pending' | 'applied' | 'superseded';
+  proposedBy: string | null;
+  appliedVersionId: string | null;
+  createdAt: string;
+}
+
+export interface PendingUpdatesResponse {
+  did: string;
+  threshold: number;
+  controllers: DIDController[];
+  pendingUpdates: PendingUpdate[];
+}
+
 export interface ApiError {
   error: string;
   details?: string;
@@ -77,9 +275,10 @@ export interface ApiError {
 // HTTP helper with error handling
 async function fetchApi<T>(
   endpoint: string,
-  options: RequestInit = {}
+  options: RequestInit = {},
+  baseUrl?: string
 ): Promise<T> {
-  const url = apiUrl(endpoint);
+  const url = baseUrl ? `${baseUrl}${endpoint}` : apiUrl(endpoint);
 
   const response = await fetch(url, {
     ...options,
@@ -113,6 +312,9 @@ export const identityApi = {
     metadata?: Record<string, unknown>;
     ownerDid?: string;
     requestedDid?: string;
+    portable?: boolean;
+    coControllers?: Array<{ did: string; publicKeyMultibase?: string }>;
+    updateThreshold?: number;
   }): Promise<CreateProductResponse> {
     return fetchApi<CreateProductResponse>(API_CONFIG.IDENTITY.CREATE, {
       method: 'POST',
@@ -120,6 +322,59 @@ export const identityApi = {
     });
   },
 
+  /**
+   * Import products: all of them are created, or none (dry run, or a row has errors).
+   * A rejected import (422) still returns its per-row report. With background,
+   * the products are created by a job (report.job) after validation.
+   */
+  async importProducts(data: {
+    items: ProductImportItem[];
+    dryRun?: boolean;
+    background?: boolean;
+  }): Promise<ProductImportReport> {
+    const response = await fetch(apiUrl(API_CONFIG.IDENTITY.IMPORT), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    });
+
+    if (!response.ok && response.status !== 422) {
+      const error: ApiError = await response.json().catch(() => ({
+        error: `HTTP ${response.status}: ${response.statusText}`
+      }));
+      throw new Error(error.error || 'API request failed');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Get an import job with its rows (and their DIDs once it completed)
+   */
+  async getImportJob(jobId: string): Promise<ProductImportJob> {
+    return fetchApi<ProductImportJob>(`${API_CONFIG.IDENTITY.IMPORT}/${jobId}`);
+  },
+
+  /**
+   * Stream the progress of an import job. Returns a function that closes the stream.
+   */
+  streamImport(jobId: string, onProgress: (event: ProductImportProgressEvent) => void): () => void {
+    const source = new EventSource(apiUrl(`${API_CONFIG.IDENTITY.IMPORT}/${jobId}/stream`));
+    const types: ProductImportProgressEvent['type'][] = ['started', 'created', 'storing', 'completed', 'failed'];
+
+    types.forEach(type => source.addEventListener(type, (e) => {
+      const event = JSON.parse((e as MessageEvent).data) as ProductImportProgressEvent;
+      onProgress(event);
+      if (event.type === 'completed' || event.type === 'failed') {
+        source.close();
+      }
+    }));
+    // The server closes the stream when the job ends; don't let EventSource reconnect
+    source.onerror = () => source.close();
+
+    return () => source.close();
+  },
+
   /**
    * Get identity by SCID
    */
@@ -185,6 +440,20 @@ export const identityApi = {
     });
   },
 
+  /**
+   * Move a portable DID to another domain (keeps the SCID, old DID goes into alsoKnownAs)
+   */
+  async migrateDID(did: string, data: {
+    newDomain: string;
+    keyId?: string;
+    reason?: string;
+  }): Promise<{ status: string; did: string; previousDid: string; alsoKnownAs: string[]; versionId: string }> {
+    return fetchApi(`${API_CONFIG.IDENTITY.MIGRATE}/${encodeURIComponent(did)}/migrate`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
   /**
    * Update DID document data
    */
@@ -212,6 +481,88 @@ export const identityApi = {
     });
   },
 
+  /**
+   * Pending updates of a multi-controller DID, with its controllers and threshold
+   */
+  async getPendingUpdates(did: string): Promise<PendingUpdatesResponse> {
+    return fetchApi<PendingUpdatesResponse>(`${API_CONFIG.IDENTITY.PENDING_UPDATES}/${encodeURIComponent(did)}/pending-updates`);
+  },
+
+  /**
+   * Sign a pending update as a controller (with its key held by the identity
+   * service, or with a signature made elsewhere)
+   */
+  async signPendingUpdate(did: string, id: number, data:
+    | { controller: string }
+    | { publicKeyMultibase: string; proofValue: string }
+  ): Promise<{ did: string; status: 'pending' | 'applied'; versionId?: string; pendingUpdate: PendingUpdate }> {
+    return fetchApi(`${API_CONFIG.IDENTITY.PENDING_UPDATES}/${encodeURIComponent(did)}/pending-updates/${id}/sign`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  /**
+   * Issue a W3C VC 2.0 credential about a product (as a notified body)
+   */
+  async issueCredential(did: string, data: {
+    definition: CredentialDefinitionLike;
+    claims: Record<string, unknown>;
+    issuerType: string;
+    issuerName?: string;
+  }): Promise<{ credential: W3CVerifiableCredential; serviceEndpoint: string; versionId: string; status: string }> {
+    return fetchApi(`${API_CONFIG.IDENTITY.CREDENTIALS}/${encodeURIComponent(did)}/credentials`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  /**
+   * Credentials issued about a product
+   */
+  async getCredentials(did: string): Promise<W3CVerifiableCredential[]> {
+    return fetchApi<W3CVerifiableCredential[]>(`${API_CONFIG.IDENTITY.CREDENTIALS}/${encodeURIComponent(did)}/credentials`);
+  },
+
+  /**
+   * Passport presentation disclosing only what the role may see
+   */
+  async getPresentation(did: string, role: string): Promise<PassportPresentation> {
+    return fetchApi<PassportPresentation>(
+      `${API_CONFIG.IDENTITY.PRESENTATION}/${encodeURIComponent(did)}/presentation?role=${encodeURIComponent(role)}`
+    );
+  },
+
+  /**
+   * Revoke, suspend or reinstate an issued credential
+   */
+  async setCredentialStatus(
+    credentialId: string,
+    status: 'active' | 'suspended' | 'revoked',
+    reason?: string
+  ): Promise<{ id: string; did: string; status: string; previousStatus: string; reason: string | null }> {
+    return fetchApi(`${API_CONFIG.IDENTITY.CREDENTIAL_STATUS}/${encodeURIComponent(credentialId)}/status`, {
+      method: 'POST',
+      body: JSON.stringify({ status, reason }),
+    });
+  },
+
+  /**
+   * Fetch a status list credential (the statusListCredential of a credentialStatus entry).
+   * Lists are served by the identity service, so the list id is fetched through the API base.
+   */
+  async getStatusListCredential(statusListCredential: string): Promise<W3CVerifiableCredential> {
+    const listId = statusListCredential.split('/').pop() || '';
+    return fetchApi<W3CVerifiableCredential>(`${API_CONFIG.IDENTITY.STATUS_LISTS}/${encodeURIComponent(listId)}`);
+  },
+
+  /**
+   * Export the signed offline verification bundle for a DID
+   */
+  async exportVerificationBundle(did: string): Promise<VerificationBundle> {
+    return fetchApi<VerificationBundle>(`${API_CONFIG.IDENTITY.BUNDLE}/${encodeURIComponent(did)}/bundle`);
+  },
+
   /**
    * Create a relationship between two DIDs
    */
@@ -266,6 +617,34 @@ export const witnessApi = {
     return fetchApi<Batch[]>(API_CONFIG.WITNESS.BATCHES);
   },
 
+  /**
+   * Get the MMR consistency proof linking a batch root to the previous anchored root
+   */
+  async getConsistencyProof(batchId: number): Promise<ConsistencyProofResponse> {
+    return fetchApi<ConsistencyProofResponse>(`${API_CONFIG.WITNESS.CONSISTENCY}/${batchId}/consistency`);
+  },
+
+  /**
+   * Get the status of the configured anchor backend
+   */
+  async getAnchorStatus(): Promise<AnchorBackendStatus> {
+    return fetchApi<AnchorBackendStatus>(`${API_CONFIG.WITNESS.ANCHORS}/status`);
+  },
+
+  /**
+   * Get the roots anchored on the configured backend
+   */
+  async getAnchors(fromBlock: number = 0): Promise<AnchorRecord[]> {
+    return fetchApi<AnchorRecord[]>(`${API_CONFIG.WITNESS.ANCHORS}?fromBlock=${fromBlock}`);
+  },
+
+  /**
+   * Get an anchored root and its witness quorum state
+   */
+  async getAnchor(batchId: number): Promise<AnchoredBatchResponse> {
+    return fetchApi<AnchoredBatchResponse>(`${API_CONFIG.WITNESS.ANCHORS}/${batchId}`);
+  },
+
   /**
    * Get Merkle proof for an event
    */
@@ -293,24 +672,86 @@ export const watcherApi = {
   },
 
   /**
-   * Get watcher status
+   * Get watcher status: last run, running audits and next scheduled cycle
    */
-  async getStatus(): Promise<{
-    healthy: boolean;
-    lastCheck: string;
-    activeWatchers: number;
-  }> {
-    return fetchApi(API_CONFIG.WATCHER.STATUS);
+  async getStatus(): Promise<WatcherStatus> {
+    return fetchApi<WatcherStatus>(API_CONFIG.WATCHER.STATUS, {}, API_CONFIG.WATCHER_BASE_URL);
   },
 
   /**
-   * Trigger manual audit for a DID
+   * Trigger an audit for a DID (runs in the background, follow it with streamRun)
    */
-  async triggerAudit(did: string): Promise<Audit> {
-    return fetchApi(`${API_CONFIG.WATCHER.AUDITS}/trigger`, {
+  async triggerAudit(did: string): Promise<AuditRun> {
+    return fetchApi<AuditRun>(API_CONFIG.WATCHER.HISTORY, {
       method: 'POST',
       body: JSON.stringify({ did }),
-    });
+    }, API_CONFIG.WATCHER_BASE_URL);
+  },
+
+  /**
+   * Get audit history of a DID with per-check details, newest run first
+   */
+  async getAuditHistory(did: string, limit = 20): Promise<AuditHistoryEntry[]> {
+    return fetchApi<AuditHistoryEntry[]>(
+      `${API_CONFIG.WATCHER.HISTORY}?did=${encodeURIComponent(did)}&limit=${limit}`,
+      {},
+      API_CONFIG.WATCHER_BASE_URL
+    );
+  },
+
+  /**
+   * Get an audit run with its progress so far
+   */
+  async getRun(runId: string): Promise<AuditRun> {
+    return fetchApi<AuditRun>(`${API_CONFIG.WATCHER.RUNS}/${runId}`, {}, API_CONFIG.WATCHER_BASE_URL);
+  },
+
+  /**
+   * Stream the progress of an audit run. Returns a function that closes the stream.
+   */
+  streamRun(runId: string, onProgress: (event: AuditProgressEvent) => void): () => void {
+    const source = new EventSource(`${API_CONFIG.WATCHER_BASE_URL}${API_CONFIG.WATCHER.RUNS}/${runId}/stream`);
+    const types: AuditProgressEvent['type'][] = ['started', 'identity', 'check', 'skipped', 'completed', 'failed'];
+
+    types.forEach(type => source.addEventListener(type, (e) => {
+      const event = JSON.parse((e as MessageEvent).data) as AuditProgressEvent;
+      onProgress(event);
+      if (event.type === 'completed' || event.type === 'failed') {
+        source.close();
+      }
+    }));
+    // The server closes the stream when the run ends; don't let EventSource reconnect
+    source.onerror = () => source.close();
+
+    return () => source.close();
+  },
+
+  /**
+   * Get active trust exemptions (DIDs whose audit failures are not enforced)
+   */
+  async getExemptions(did?: string): Promise<TrustExemption[]> {
+    const params = did ? `?did=${encodeURIComponent(did)}` : '';
+    return fetchApi<TrustExemption[]>(`${API_CONFIG.WATCHER.EXEMPTIONS}${params}`, {}, API_CONFIG.WATCHER_BASE_URL);
+  },
+
+  /**
+   * Exempt a DID from integrity enforcement until expiresAt
+   * (the watcher records the authenticated operator as addedBy)
+   */
+  async addExemption(data: { did: string; reason: string; expiresAt: string }): Promise<TrustExemption> {
+    return fetchApi<TrustExemption>(API_CONFIG.WATCHER.EXEMPTIONS, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }, API_CONFIG.WATCHER_BASE_URL);
+  },
+
+  /**
+   * Revoke the trust exemption of a DID
+   */
+  async removeExemption(did: string): Promise<{ success: boolean; did: string }> {
+    return fetchApi(`${API_CONFIG.WATCHER.EXEMPTIONS}/${encodeURIComponent(did)}`, {
+      method: 'DELETE',
+    }, API_CONFIG.WATCHER_BASE_URL);
   },
 
   /**
@@ -13,17 +13,28 @@ export const API_CONFIG = {
   // Backend API base URL - use localhost:3000 in dev, /api in production
   BASE_URL: IS_LOCAL_DEV ? 'http://localhost:3000/api' : '/api',
 
+  // Watcher API runs in its own service (port 3002 in dev, routed by Caddy in production)
+  WATCHER_BASE_URL: import.meta.env.VITE_WATCHER_URL || (IS_LOCAL_DEV ? 'http://localhost:3002/api' : '/api'),
+
   // Identity Service endpoints
   IDENTITY: {
     CREATE: '/products/create',
+    IMPORT: '/products/import',
     GET: '/identity', // + /:scid
     LIST: '/identities',
     EVENTS: '/events',
     RELATIONSHIPS: '/relationships',
     TRANSFER: '/did', // + /:did/transfer
     ROTATE: '/did', // + /:did/rotate
+    MIGRATE: '/did', // + /:did/migrate
+    CREDENTIALS: '/did', // + /:did/credentials
+    CREDENTIAL_STATUS: '/credentials', // + /:id/status
+    PRESENTATION: '/did', // + /:did/presentation?role=
+    STATUS_LISTS: '/status-lists', // + /:listId
     UPDATE: '/did', // + /:did/update
     DEACTIVATE: '/did', // + /:did/deactivate
+    PENDING_UPDATES: '/did', // + /:did/pending-updates, /:did/pending-updates/:id/sign
+    BUNDLE: '/did', // + /:did/bundle
   },
 
   // Witness Service endpoints  
@@ -31,6 +42,8 @@ export const API_CONFIG = {
     ATTEST: '/witness/attest',
     BATCHES: '/batches',
     PROOF: '/witness/proof', // + /:eventId
+    CONSISTENCY: '/batches', // + /:batchId/consistency
+    ANCHORS: '/anchors', // + /status, /:batchId
   },
 
   // Watcher Service endpoints
@@ -38,6 +51,9 @@ export const API_CONFIG = {
     AUDITS: '/audits',
     ALERTS: '/watcher/alerts',
     STATUS: '/watcher/status',
+    HISTORY: '/watcher/audits', // ?did=, POST to trigger
+    RUNS: '/watcher/runs', // + /:runId, /:runId/stream
+    EXEMPTIONS: '/watcher/exemptions', // + /:did
   },
 
   // Blockchain configuration
@@ -53,6 +69,8 @@ export const API_CONFIG = {
     EXPLORER_URL: import.meta.env.VITE_EXPLORER_URL || 'https://sepolia.etherscan.io',
     CONTRACT_ADDRESS: import.meta.env.VITE_CONTRACT_ADDRESS || '0x5FbDB2315678afecb367f032d93F642f64180aa3',
     IS_LOCAL: import.meta.env.VITE_USE_LOCAL_CHAIN === 'true',
+    // Anchor backend the witness uses: 'evm' is read directly over RPC, others via the API
+    ANCHOR_BACKEND: import.meta.env.VITE_ANCHOR_BACKEND || 'evm',
   },
 };
 
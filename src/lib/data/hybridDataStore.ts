@@ -12,7 +12,7 @@ import { api, blockchainClient, etherscanBlockUrl } from '../api';
 import { API_CONFIG } from '../api/config';
 import type { DIDEvent, Batch, Audit } from '../api/client';
 import { localDB } from './localData';
-import type { DPP, AnchoringEvent, WitnessAttestation, WatcherAlert } from './localData';
+import type { DPP, AnchoringEvent, WitnessAttestation, WatcherAlert, VerifiableCredential } from './localData';
 
 // Mode configuration
 let useBackendApi = true;
@@ -265,6 +265,9 @@ export async function getAllBatches(): Promise<Batch[]> {
  */
 export async function getBlockchainVerification(batchId: number, expectedRoot: string): Promise<{
   verified: boolean;
+  finalized: boolean;
+  confirmations: number;
+  requiredConfirmations: number;
   onChainRoot: string;
   blockNumber: number;
   etherscanUrl: string;
@@ -273,6 +276,9 @@ export async function getBlockchainVerification(batchId: number, expectedRoot: s
     const result = await blockchainClient.verifyOnChain(batchId, expectedRoot);
     return {
       verified: result.verified,
+      finalized: result.status === 'finalized',
+      confirmations: result.confirmations,
+      requiredConfirmations: result.requiredConfirmations,
       onChainRoot: result.onChainRoot ? String(result.onChainRoot) : '',
       blockNumber: result.blockNumber,
       etherscanUrl: result.etherscanBlockUrl || '',
@@ -438,7 +444,7 @@ export async function getAuditsByDID(did: string): Promise<Audit[]> {
  */
 export async function getWatcherStatus(): Promise<{
   healthy: boolean;
-  lastCheck: string;
+  lastCheck: string | null;
   activeWatchers: number;
 }> {
   if (useBackendApi && backendAvailable) {
@@ -506,6 +512,14 @@ export async function getCredentialsByDPPId(dppId: string): Promise<any[]> {
   return enhancedDB.getCredentialsByDPPId(dppId);
 }
 
+/**
+ * Store an issued credential for a DPP
+ */
+export async function insertCredential(cred: Omit<VerifiableCredential, 'id' | 'created_at'>): Promise<VerifiableCredential> {
+  const { enhancedDB } = await import('./enhancedDataStore');
+  return enhancedDB.insertCredential(cred);
+}
+
 /**
  * Update an alert
  */
@@ -1098,6 +1112,7 @@ export const hybridDataStore = {
   updateAttestation,
   getAlertsByDID,
   getCredentialsByDPPId,
+  insertCredential,
 
   // Watcher
   getAuditsByDID,
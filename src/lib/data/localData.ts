@@ -53,6 +53,9 @@ export type AnchoringEvent = {
   metadata: Record<string, unknown>;
 };
 
+// 'revoked' and 'suspended' follow the issuer's Bitstring Status Lists
+export type CredentialVerificationStatus = 'valid' | 'invalid' | 'expired' | 'suspended' | 'revoked';
+
 export type VerifiableCredential = {
   id: string;
   dpp_id: string;
@@ -62,7 +65,7 @@ export type VerifiableCredential = {
   credential_data: Record<string, unknown>;
   issued_date: string;
   expiry_date: string | null;
-  verification_status: string;
+  verification_status: CredentialVerificationStatus;
   created_at: string;
 };
 
@@ -3,7 +3,9 @@
  */
 
 import enhancedDB from '../data/hybridDataStore';
-import { PRODUCT_SCHEMAS } from '../schemas/productSchema';
+import { identityApi, type ProductImportItem, type ProductImportReport } from '../api/client';
+import { PRODUCT_SCHEMAS, getSchemaForType, type ProductTypeSchema, type PropertyDefinition } from '../schemas/productSchema';
+import { toCSV, type SheetData } from '../utils/spreadsheet';
 import { 
   generateWitnessAttestations, 
   generateAnchoringEvents,
@@ -334,73 +336,208 @@ export async function exportHierarchyToJSON(rootDid: string): Promise<string> {
 }
 
 /**
- * Import DPPs from JSON
+ * Import DPPs from JSON (the format of exportDPPsToJSON)
+ *
+ * The identity service validates every product against its schema and
+ * resolves parent references within the file, then creates all DIDs and
+ * relationships or none. With dryRun it only reports what would happen.
  */
-export async function importDPPsFromJSON(jsonData: string): Promise<{ success: number; errors: string[] }> {
-  const errors: string[] = [];
-  let success = 0;
-  
-  try {
-    const data = JSON.parse(jsonData);
-    const items = Array.isArray(data) ? data : [data];
-    
-    for (const item of items) {
-      try {
-        if (item.dpp) {
-          const { id, created_at, updated_at, ...dppData } = item.dpp;
-          await enhancedDB.insertDPP(dppData);
-        }
-        
-        if (item.didDocument) {
-          const { id, created_at, updated_at, ...didData } = item.didDocument;
-          await enhancedDB.insertDIDDocument(didData);
-        }
-        
-        if (item.relationships) {
-          for (const rel of item.relationships) {
-            const { id, created_at, updated_at, ...relData } = rel;
-            await enhancedDB.insertRelationship(relData);
-          }
-        }
-        
-        if (item.credentials) {
-          for (const cred of item.credentials) {
-            const { id, created_at, ...credData } = cred;
-            await enhancedDB.insertCredential(credData);
-          }
-        }
-        
-        if (item.attestations) {
-          for (const att of item.attestations) {
-            const { id, timestamp, created_at, ...attData } = att;
-            await enhancedDB.insertAttestation(attData);
-          }
-        }
-        
-        if (item.anchoringEvents) {
-          for (const event of item.anchoringEvents) {
-            const { id, timestamp, ...eventData } = event;
-            await enhancedDB.insertAnchoringEvent(eventData);
-          }
-        }
-        
-        if (item.specifications) {
-          for (const spec of item.specifications) {
-            const { id, created_at, updated_at, ...specData } = spec;
-            await enhancedDB.insertSpecification(specData);
-          }
-        }
-        
-        success++;
-      } catch (error) {
-        errors.push(`Failed to import item: ${error}`);
+export async function importDPPsFromJSON(
+  jsonData: string,
+  options: { dryRun?: boolean } = {}
+): Promise<ProductImportReport> {
+  const data = JSON.parse(jsonData);
+  const entries: any[] = Array.isArray(data) ? data : [data];
+
+  // Exports list relationships under the parent; the import names the parent on the child
+  const parentOf = new Map<string, string>();
+  for (const entry of entries) {
+    for (const rel of entry.relationships || []) {
+      if (rel.relationship_type === 'component') {
+        parentOf.set(rel.child_did, rel.parent_did);
       }
     }
-  } catch (error) {
-    errors.push(`JSON parse error: ${error}`);
   }
-  
-  return { success, errors };
+
+  const items: ProductImportItem[] = entries.map(entry => {
+    const dpp = entry.dpp || entry;
+    return {
+      ref: dpp.did,
+      type: dpp.type,
+      model: dpp.model,
+      metadata: dpp.metadata,
+      parent: dpp.parent_did || parentOf.get(dpp.did) || undefined,
+      ownerDid: dpp.owner || undefined,
+    };
+  });
+
+  const report = await identityApi.importProducts({ items, dryRun: options.dryRun });
+  if (report.valid && !report.dryRun) {
+    await enhancedDB.clearAll();
+  }
+  return report;
+}
+
+/**
+ * Where a spreadsheet column goes: a product field, or a property of the
+ * product schema ('property:<key>'; several columns can fill one object property)
+ */
+export type ColumnTarget = '' | 'ref' | 'model' | 'parent' | 'productType' | `property:${string}`;
+
+const FIELD_HEADERS: Record<Exclude<ColumnTarget, '' | `property:${string}`>, string[]> = {
+  ref: ['ref', 'reference', 'serial', 'serialnumber', 'serialno', 'itemnumber', 'itemno', 'articlenumber'],
+  model: ['model', 'modelname', 'productname', 'name'],
+  parent: ['parent', 'parentref', 'parentdid', 'partof', 'assembly'],
+  productType: ['producttype', 'type', 'category'],
+};
+
+// Helper: Compare headers ignoring case, spaces, punctuation and units ("Weight (kg)" -> "weight")
+function normalizeHeader(header: string): string {
+  return header.replace(/\(.*?\)|\[.*?\]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Suggest a target for every column from its header
+ */
+export function guessColumnMapping(headers: string[], schemas: ProductTypeSchema[]): ColumnTarget[] {
+  const properties = schemas.flatMap(schema => schema.properties);
+  const used = new Set<ColumnTarget>();
+
+  return headers.map(header => {
+    const name = normalizeHeader(header);
+    const field = (Object.keys(FIELD_HEADERS) as Array<keyof typeof FIELD_HEADERS>)
+      .find(f => FIELD_HEADERS[f].includes(name));
+    if (field && !used.has(field)) {
+      used.add(field);
+      return field;
+    }
+
+    const property = properties.find(p => name === normalizeHeader(p.key) || name === normalizeHeader(p.label)) ||
+      properties.find(p => p.type === 'object' && name.startsWith(normalizeHeader(p.key)));
+    if (property) {
+      const target: ColumnTarget = `property:${property.key}`;
+      if (property.type === 'object' || !used.has(target)) {
+        used.add(target);
+        return target;
+      }
+    }
+    return '';
+  });
+}
+
+// Helper: Key a column contributes to an object property ("Dimensions Width (mm)" -> width)
+function objectKey(header: string, property: PropertyDefinition): string {
+  const words = header.replace(/\(.*?\)|\[.*?\]/g, '').trim().split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const prefix = [property.key, property.label].map(normalizeHeader);
+  while (words.length > 1 && prefix.some(p => p.startsWith(words[0].toLowerCase()))) {
+    words.shift();
+  }
+  return words.map((w, i) => (i === 0 ? w.toLowerCase() : w[0].toUpperCase() + w.slice(1).toLowerCase())).join('');
+}
+
+// Helper: Number written with a decimal point or comma, or null
+function parseNumber(text: string): number | null {
+  return /^-?\d+([.,]\d+)?$/.test(text) ? Number(text.replace(',', '.')) : null;
+}
+
+/**
+ * Typed value of a cell for a schema property
+ * Cells that cannot be converted are kept as text, so validation reports them.
+ */
+function convertCell(text: string, property: PropertyDefinition): unknown {
+  switch (property.type) {
+    case 'number':
+      return parseNumber(text) ?? text;
+    case 'boolean':
+      if (/^(true|yes|y|1|x)$/i.test(text)) return true;
+      if (/^(false|no|n|0)$/i.test(text)) return false;
+      return text;
+    case 'date': {
+      // Spreadsheets store dates as days since 1899-12-30
+      const serial = parseNumber(text);
+      const date = serial !== null && serial < 100000
+        ? new Date(Date.UTC(1899, 11, 30) + serial * 86400000)
+        : new Date(text);
+      return isNaN(date.getTime()) ? text : date.toISOString();
+    }
+    case 'array':
+      if (text.startsWith('[')) {
+        try { return JSON.parse(text); } catch { return text; }
+      }
+      return text.split(/[;|]/).map(v => v.trim()).filter(Boolean);
+    case 'object':
+      try { return JSON.parse(text); } catch { return text; }
+    default:
+      return text;
+  }
+}
+
+/**
+ * Turn spreadsheet rows into import items
+ *
+ * Each row is a product of productType, or of the type in its productType
+ * column. Rows without a ref column are referenced as row-<sheet row>.
+ */
+export function mapSheetToImportItems(
+  sheet: SheetData,
+  mapping: ColumnTarget[],
+  options: { productType: string; ownerDid?: string }
+): ProductImportItem[] {
+  const column = (target: ColumnTarget) => mapping.indexOf(target);
+
+  return sheet.rows.map((cells, index) => {
+    const typeCell = column('productType') >= 0 ? cells[column('productType')] : '';
+    const schema = getSchemaForType(typeCell || options.productType);
+    const metadata: Record<string, unknown> = { productType: schema?.id || typeCell || options.productType };
+
+    for (const property of schema?.properties || []) {
+      const columns = mapping
+        .map((target, i) => (target === `property:${property.key}` && cells[i] !== '' ? i : -1))
+        .filter(i => i >= 0);
+      if (columns.length === 0) continue;
+
+      if (property.type === 'object' && (columns.length > 1 || !cells[columns[0]].startsWith('{'))) {
+        metadata[property.key] = Object.fromEntries(columns.map(i => {
+          const value = parseNumber(cells[i]);
+          return [objectKey(sheet.headers[i], property), value ?? cells[i]];
+        }));
+      } else {
+        metadata[property.key] = convertCell(cells[columns[0]], property);
+      }
+    }
+
+    const cell = (target: ColumnTarget) => (column(target) >= 0 ? cells[column(target)] : '');
+    return {
+      ref: cell('ref') || `row-${sheet.rowNumbers[index]}`,
+      type: schema?.category === 'main' ? 'main' : 'component',
+      model: cell('model'),
+      metadata,
+      parent: cell('parent') || undefined,
+      ownerDid: options.ownerDid,
+    };
+  });
+}
+
+/**
+ * Result sheet of an import: the uploaded rows with their status and DID
+ */
+export function buildImportResultSheet(sheet: SheetData, report: ProductImportReport): string {
+  const rows = sheet.rows.map((cells, index) => {
+    const row = report.rows[index];
+    const status = row?.did ? 'created'
+      : row?.action === 'exists' ? 'exists'
+      : row?.errors.length ? 'invalid'
+      : 'not created';
+    return [
+      sheet.rowNumbers[index],
+      status,
+      row?.did || (row?.action === 'exists' ? row.ref : ''),
+      row?.errors.join('; ') || '',
+      row?.warnings.join('; ') || '',
+      ...cells,
+    ];
+  });
+  return toCSV([['Row', 'Status', 'DID', 'Errors', 'Warnings', ...sheet.headers], ...rows]);
 }
 
 let isGenerating = false;
@@ -1,7 +1,17 @@
 import enhancedDB from '../data/hybridDataStore';
 import { localDB } from '../data/localData';
 import { hashOperation } from '../utils/merkleTree';
-import { LifecycleStatus } from '../types/lifecycle';
+import {
+  LifecycleStatus,
+  LifecycleStatusLabels,
+  validateLifecycleTransition,
+  type LifecycleAttachment,
+  type LifecycleChildPlan
+} from '../types/lifecycle';
+import { identityApi } from '../api/client';
+import { getProductActorRole } from '../../../backend/utils/roles';
+import { getRoleForDID } from '../utils/roleDids';
+import type { CredentialDefinition } from '../schemas/productSchema';
 
 /**
  * Transfer ownership of a DPP
@@ -407,7 +417,7 @@ export async function deactivateDID(
   dppId: string,
   ownerDID: string,
   reason: string = 'Manual deactivation by owner'
-): Promise<{ success: boolean; message: string }> {
+): Promise<{ success: boolean; message: string; pending?: boolean }> {
   try {
     // Get the DPP
     const dpp = await enhancedDB.getDPPById(dppId);
@@ -441,6 +451,21 @@ export async function deactivateDID(
       });
       clearTimeout(timeoutId);
 
+      // Multi-controller DID: the deactivation waits for the other controllers
+      if (response.status === 202) {
+        return {
+          success: true,
+          message: 'Deactivation proposed: waiting for the other controllers to sign',
+          pending: true
+        };
+      }
+
+      // The lifecycle state machine does not allow it (e.g. the product is recycled)
+      if (response.status === 409) {
+        const errorData = await response.json().catch(() => ({}));
+        return { success: false, message: errorData.error || 'Deactivation not allowed in the current lifecycle state' };
+      }
+
       if (response.ok) {
         const result = await response.json();
         console.log('[DID Operations] Backend DID deactivation successful:', result);
@@ -509,7 +534,7 @@ export async function updateDIDViaBackend(
     serviceEndpoints?: Array<{ id: string; type: string; serviceEndpoint: string }>;
     description?: string;
   }
-): Promise<{ success: boolean; message: string; versionId?: string }> {
+): Promise<{ success: boolean; message: string; versionId?: string; pending?: boolean }> {
   try {
     // Get the DPP
     const dpp = await enhancedDB.getDPPById(dppId);
@@ -548,6 +573,15 @@ export async function updateDIDViaBackend(
       });
       clearTimeout(timeoutId);
 
+      // Multi-controller DID: the update waits for the other controllers
+      if (response.status === 202) {
+        return {
+          success: true,
+          message: 'Update proposed: waiting for the other controllers to sign',
+          pending: true
+        };
+      }
+
       if (response.ok) {
         const result = await response.json();
         console.log('[DID Operations] Backend DID update successful:', result);
@@ -577,8 +611,132 @@ export async function updateDIDViaBackend(
   }
 }
 
+/**
+ * Move a product to another lifecycle state via the backend state machine
+ * The transition is recorded as a signed DID log entry; illegal transitions are rejected.
+ * Which roles may trigger it is decided by the product's lifecycle (see LifecycleManager).
+ * Components in use are handled as planned in children, in the same backend operation.
+ */
+export async function transitionLifecycleViaBackend(
+  dppId: string,
+  actorDID: string,
+  status: LifecycleStatus,
+  reason: string,
+  attachments: LifecycleAttachment[] = [],
+  children?: LifecycleChildPlan[]
+): Promise<{
+  success: boolean;
+  message: string;
+  versionId?: string;
+  requiredActions?: { type: 'handle_children'; children: Array<{ did: string; status: LifecycleStatus }> };
+}> {
+  try {
+    // Get the DPP
+    const dpp = await enhancedDB.getDPPById(dppId);
+    if (!dpp) {
+      return { success: false, message: 'DPP not found' };
+    }
+
+    // Try to call backend API, which enforces the lifecycle state machine
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), 2000); // 2 second timeout
+
+      const response = await fetch(`http://localhost:3000/api/did/${encodeURIComponent(dpp.did)}/lifecycle`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          keyId: 'default-key', // Backend will handle key lookup
+          status,
+          actorDid: actorDID, // The backend checks the owner / role against the product's lifecycle
+          reason,
+          attachments,
+          children
+        }),
+        signal: controller.signal
+      });
+      clearTimeout(timeoutId);
+
+      // Multi-controller DID: the transition waits for the other controllers
+      if (response.status === 202) {
+        return {
+          success: true,
+          message: `Transition to ${LifecycleStatusLabels[status]} proposed: waiting for the other controllers to sign`
+        };
+      }
+
+      // Rejected by the service (not the owner, missing attachments, illegal transition, ...)
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        console.warn('[DID Operations] Backend lifecycle transition failed:', response.status, errorData);
+        return {
+          success: false,
+          message: errorData.error || `Transition to ${status} not allowed`,
+          requiredActions: errorData.requiredActions
+        };
+      }
+
+      const result = await response.json();
+      console.log('[DID Operations] Backend lifecycle transition successful:', result);
+
+      await enhancedDB.updateDPP(dppId, { lifecycle_status: status });
+      await localDB.updateDPP(dppId, { lifecycle_status: status });
+
+      // Components that followed the product
+      for (const child of (result.children || []) as Array<{ did: string; action: string }>) {
+        const childDPP = child.action === 'transition' ? await enhancedDB.getDPPByDID(child.did) : null;
+        if (childDPP) {
+          await enhancedDB.updateDPP(childDPP.id, { lifecycle_status: status });
+          await localDB.updateDPP(childDPP.id, { lifecycle_status: status });
+        }
+      }
+
+      return {
+        success: true,
+        message: `Status updated to ${LifecycleStatusLabels[status]}`,
+        versionId: result.versionId
+      };
+    } catch {
+      console.log('[DID Operations] Backend connection error, using local fallback');
+    }
+
+    // Fallback: Local status update for demo (same owner check and state machine)
+    if (!getProductActorRole(actorDID, getRoleForDID(actorDID), dpp.owner)) {
+      return { success: false, message: 'Only the owner can change the lifecycle of this product' };
+    }
+    const invalidTransition = validateLifecycleTransition((dpp.lifecycle_status || 'created') as LifecycleStatus, status, 'user');
+    if (invalidTransition) {
+      return { success: false, message: invalidTransition };
+    }
+    if (children?.some(child => child.action !== 'transition')) {
+      return { success: false, message: 'Detaching or re-parenting components needs the identity service' };
+    }
+    await enhancedDB.updateDPP(dppId, { lifecycle_status: status });
+    await localDB.updateDPP(dppId, { lifecycle_status: status });
+    for (const child of children || []) {
+      const childDPP = await enhancedDB.getDPPByDID(child.did);
+      if (childDPP) {
+        await enhancedDB.updateDPP(childDPP.id, { lifecycle_status: status });
+        await localDB.updateDPP(childDPP.id, { lifecycle_status: status });
+      }
+    }
+
+    return {
+      success: true,
+      message: `Status updated to ${LifecycleStatusLabels[status]} (local fallback)`
+    };
+  } catch (error) {
+    console.error('Error changing lifecycle status:', error);
+    return { success: false, message: 'Failed to change lifecycle status' };
+  }
+}
+
 /**
  * Certify a product (Add a certification attestation)
+ *
+ * With a credential definition from the product schema, the inspector
+ * (notified body) issues a signed W3C Verifiable Credential that is linked
+ * from the product's DID document.
  */
 export async function certifyProduct(
   dppId: string,
@@ -588,40 +746,73 @@ export async function certifyProduct(
     certificateType: string;
     notes: string;
     status: LifecycleStatus;
+    credential?: {
+      definition: CredentialDefinition;
+      claims: Record<string, unknown>;
+      issuerType: string;
+    };
   }
 ): Promise<{ success: boolean; message: string }> {
   try {
     const dpp = await enhancedDB.getDPPById(dppId);
     if (!dpp) return { success: false, message: 'Product not found' };
 
+    let credentialId: string | undefined;
+    if (certificationData.credential) {
+      // Issue the credential; this also anchors it (the DID document links to it)
+      try {
+        const { credential } = await identityApi.issueCredential(dpp.did, {
+          definition: certificationData.credential.definition,
+          claims: certificationData.credential.claims,
+          issuerType: certificationData.credential.issuerType,
+          issuerName: certificationData.inspector
+        });
+
+        await enhancedDB.insertCredential({
+          dpp_id: dppId,
+          credential_id: credential.id,
+          issuer: credential.issuer.name || credential.issuer.id,
+          credential_type: certificationData.credential.definition.type,
+          credential_data: credential,
+          issued_date: credential.validFrom,
+          expiry_date: credential.validUntil || null,
+          verification_status: 'valid'
+        });
+        credentialId = credential.id;
+      } catch (issueError) {
+        const reason = issueError instanceof Error ? issueError.message : 'Unknown error';
+        return { success: false, message: `Credential issuance failed: ${reason}` };
+      }
+    } else {
+      // Try to anchor this certification on the blockchain via the DID Update endpoint
+      try {
+        const response = await fetch(`http://localhost:3000/api/did/${encodeURIComponent(dpp.did)}/update`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            keyId: 'default-key',
+            updates: {
+              document: {
+                description: `Certification: ${certificationData.certificateType} by ${certificationData.inspector}. Notes: ${certificationData.notes}`
+              }
+            }
+          })
+        });
+
+        if (response.ok) {
+          console.log('[DID Operations] Certification successfully anchored via backend');
+        }
+      } catch (backendError) {
+        console.log('[DID Operations] Backend not available for certification anchoring, using local only');
+      }
+    }
+
     // Update the lifecycle status if specified
     if (certificationData.status) {
       await enhancedDB.updateDPP(dppId, { lifecycle_status: certificationData.status });
       await localDB.updateDPP(dppId, { lifecycle_status: certificationData.status });
     }
 
-    // Try to anchor this certification on the blockchain via the DID Update endpoint
-    try {
-      const response = await fetch(`http://localhost:3000/api/did/${encodeURIComponent(dpp.did)}/update`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          keyId: 'default-key',
-          updates: {
-            document: {
-              description: `Certification: ${certificationData.certificateType} by ${certificationData.inspector}. Notes: ${certificationData.notes}`
-            }
-          }
-        })
-      });
-
-      if (response.ok) {
-        console.log('[DID Operations] Certification successfully anchored via backend');
-      }
-    } catch (backendError) {
-      console.log('[DID Operations] Backend not available for certification anchoring, using local only');
-    }
-
     // Create an attestation for this certification
     const attestation = {
       dpp_id: dppId,
@@ -636,6 +827,7 @@ export async function certifyProduct(
         notes: certificationData.notes,
         result: 'Certified / Approved',
         organization: 'Independent Inspection Bureau',
+        ...(credentialId ? { credentialId } : {}),
       },
       signature: `cert-mock-${Date.now()}`,
       approval_status: 'approved' as const,
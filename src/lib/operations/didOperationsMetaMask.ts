@@ -1,6 +1,8 @@
 import { ethers } from 'ethers';
 import { hybridDataStore as enhancedDB } from '../data/hybridDataStore';
 import { localDB } from '../data/localData';
+import { identityApi } from '../api/client';
+import type { CredentialDefinition } from '../schemas/productSchema';
 
 /**
  * DID Operations utilizing MetaMask for signing
@@ -332,6 +334,11 @@ export function prepareCertifyProduct(
         certificateType: string;
         notes: string;
         status?: string;
+        credential?: {
+            definition: CredentialDefinition;
+            claims: Record<string, unknown>;
+            issuerType: string;
+        };
     }
 ): PreparedOperation {
     const payload = {
@@ -345,6 +352,35 @@ export function prepareCertifyProduct(
         description: `Certify product: ${certificationData.certificateType}`,
         payload: payload,
         execute: async (signature: string, timestamp: string) => {
+            let credentialId: string | undefined;
+            if (certificationData.credential) {
+                const dpp = await enhancedDB.getDPPById(dppId);
+                if (!dpp) return { success: false, message: 'Product not found' };
+
+                try {
+                    const { credential } = await identityApi.issueCredential(dpp.did, {
+                        definition: certificationData.credential.definition,
+                        claims: certificationData.credential.claims,
+                        issuerType: certificationData.credential.issuerType,
+                        issuerName: certificationData.inspector
+                    });
+                    await enhancedDB.insertCredential({
+                        dpp_id: dppId,
+                        credential_id: credential.id,
+                        issuer: credential.issuer.name || credential.issuer.id,
+                        credential_type: certificationData.credential.definition.type,
+                        credential_data: credential,
+                        issued_date: credential.validFrom,
+                        expiry_date: credential.validUntil || null,
+                        verification_status: 'valid'
+                    });
+                    credentialId = credential.id;
+                } catch (issueError) {
+                    const reason = issueError instanceof Error ? issueError.message : 'Unknown error';
+                    return { success: false, message: `Credential issuance failed: ${reason}` };
+                }
+            }
+
             if (certificationData.status) {
                 await enhancedDB.updateDPP(dppId, { lifecycle_status: certificationData.status });
             }
@@ -360,6 +396,7 @@ export function prepareCertifyProduct(
                     notes: certificationData.notes,
                     result: 'Certified / Approved',
                     organization: 'External Certifier (Wallet)',
+                    ...(credentialId ? { credentialId } : {}),
                     timestamp: timestamp
                 },
                 signature: signature,
@@ -530,6 +567,11 @@ export async function performCertifyProduct(
         certificateType: string;
         notes: string;
         status?: string;
+        credential?: {
+            definition: CredentialDefinition;
+            claims: Record<string, unknown>;
+            issuerType: string;
+        };
     },
     onSigned?: () => void
 ) {
@@ -8,10 +8,13 @@
  * - Resolve DID via backend /api/did/:did/resolve
  * - Parse DID components
  * - Verification status display
- * - Historical version support
+ * - Historical version support (versionId, versionNumber, versionTime),
+ *   also straight from did.jsonl when the backend is unavailable
+ * - Following portable DIDs that moved to another domain
  */
 
 import { localDB, type DIDDocument } from '../data/localData';
+import { selectVersion, type DIDDocumentMetadata } from '../../../backend/utils/didVersions';
 
 // Backend API base URL
 const API_BASE = 'http://localhost:3000';
@@ -23,17 +26,21 @@ const API_BASE = 'http://localhost:3000';
 export interface ResolvedDID {
   did: string;
   document: DIDDocument | any;
-  metadata: {
-    versionId?: string;
-    versionTime?: string;
+  metadata: Partial<DIDDocumentMetadata> & {
     verified?: boolean;
-    created?: string;
-    updated?: string;
+    movedFrom?: string; // Requested DID, when the DID has since moved domain
   };
   verified: boolean;
   log?: any[];
 }
 
+// Resolved document, or the log entry holding it in `state`
+interface MigratableDocument {
+  id?: string;
+  alsoKnownAs?: string[];
+  state?: MigratableDocument;
+}
+
 export interface ParsedDID {
   method: string;
   domain: string;
@@ -75,14 +82,18 @@ export async function resolveDID(
   options?: {
     versionId?: string;
     versionTime?: string;
+    versionNumber?: number;
     includeLog?: boolean;
   }
 ): Promise<ResolvedDID | null> {
+  const isVersioned = !!(options?.versionId || options?.versionTime || options?.versionNumber !== undefined);
+
   // Try backend API first
   try {
     const params = new URLSearchParams();
     if (options?.versionId) params.set('versionId', options.versionId);
     if (options?.versionTime) params.set('versionTime', options.versionTime);
+    if (options?.versionNumber !== undefined) params.set('versionNumber', String(options.versionNumber));
 
     const queryString = params.toString();
     const url = `${API_BASE}/api/did/${encodeURIComponent(did)}/resolve${queryString ? '?' + queryString : ''}`;
@@ -94,6 +105,8 @@ export async function resolveDID(
 
     if (response.ok) {
       const result = await response.json();
+      const document = result.document ?? result.didDocument;
+      const metadata = result.metadata ?? result.didDocumentMetadata ?? {};
 
       // Optionally fetch log
       let log: any[] | undefined;
@@ -102,15 +115,38 @@ export async function resolveDID(
         log = fetchedLog ?? undefined;
       }
 
+      // Follow a domain migration: the log (same SCID) names the new location
+      const currentId = (document?.state ?? document)?.id;
+      if (currentId && currentId !== did && isWebVHDID(currentId)) {
+        const movedTo = getMigratedDID(did, document);
+        if (!movedTo) {
+          console.warn(`[Resolver] ${did} resolved to ${currentId} without a valid migration link`);
+        }
+        return {
+          did: movedTo ?? currentId,
+          document,
+          metadata: { ...metadata, movedFrom: did },
+          verified: movedTo !== null && (result.verified ?? false),
+          log
+        };
+      }
+
       return {
-        did: result.did,
-        document: result.document,
-        metadata: result.metadata || {},
-        verified: result.verified ?? false,
+        did: result.did ?? did,
+        document,
+        metadata,
+        verified: result.verified ?? metadata.verified ?? false,
         log
       };
     }
 
+    // The version does not exist or the query is invalid: no fallback can do better
+    if (isVersioned && (response.status === 400 || response.status === 404)) {
+      const error = await response.json().catch(() => null);
+      console.warn('[Resolver] Version not resolvable:', error?.didResolutionMetadata?.message ?? response.status);
+      return null;
+    }
+
     // If 404, try local fallback
     if (response.status === 404) {
       console.log('[Resolver] DID not found in backend, trying local storage');
@@ -121,6 +157,11 @@ export async function resolveDID(
     console.warn('[Resolver] Backend unavailable, using local fallback:', error);
   }
 
+  // Historical versions need the log: resolve from did.jsonl directly
+  if (isVersioned) {
+    return resolveFromLogFile(did, options);
+  }
+
   // Local fallback for demo data
   const localDoc = localDB.getDIDDocumentByDID(did);
   if (localDoc) {
@@ -138,6 +179,39 @@ export async function resolveDID(
   return null;
 }
 
+/**
+ * Resolve a version from the published did.jsonl (unverified)
+ */
+async function resolveFromLogFile(
+  did: string,
+  options?: { versionId?: string; versionTime?: string; versionNumber?: number; includeLog?: boolean }
+): Promise<ResolvedDID | null> {
+  try {
+    const response = await fetch(didToHttpsUrl(did));
+    if (!response.ok) return null;
+
+    const text = await response.text();
+    const log = text.trim().split('\n').filter(l => l.trim()).map(l => JSON.parse(l));
+    const selection = selectVersion(log, options);
+
+    if (selection.error) {
+      console.warn('[Resolver] Version not resolvable:', selection.message);
+      return null;
+    }
+
+    return {
+      did,
+      document: selection.entry.state ?? selection.entry.didDocument,
+      metadata: { ...selection.metadata, verified: false },
+      verified: false,
+      log: options?.includeLog ? log : undefined
+    };
+  } catch (error) {
+    console.warn('[Resolver] Could not resolve from did.jsonl:', error);
+    return null;
+  }
+}
+
 /**
  * Verify a DID - calls backend verification endpoint
  */
@@ -392,6 +466,21 @@ export function extractSCID(did: string): string {
   return parsed.scid;
 }
 
+/**
+ * New DID of a portable DID that moved domain, or null.
+ * A move is only accepted if the SCID is unchanged and the new document
+ * lists the old DID in alsoKnownAs.
+ */
+export function getMigratedDID(did: string, document: MigratableDocument | null | undefined): string | null {
+  const state = document?.state ?? document;
+  const currentId: string | undefined = state?.id;
+
+  if (!currentId || currentId === did || !isWebVHDID(currentId)) return null;
+  if (extractSCID(currentId) !== extractSCID(did)) return null;
+
+  return (state?.alsoKnownAs || []).includes(did) ? currentId : null;
+}
+
 // ============================================
 // DID Operations (calls backend)
 // ============================================
@@ -467,6 +556,7 @@ export default {
   didToWitnessUrl,
   isWebVHDID,
   extractSCID,
+  getMigratedDID,
   updateDID,
   deactivateDID
 };
@@ -1,5 +1,6 @@
 import { localDB } from '../data/localData';
 import type { DPP } from '../data/localData';
+import { API_CONFIG, apiUrl } from '../api/config';
 
 export async function getDPPWithRelations(did: string) {
   const dpp = await localDB.getDPPByDID(did);
@@ -152,6 +153,8 @@ export function generateQRCodeData(did: string) {
   return {
     did,
     url: `https://example.com/dpp/${encodeURIComponent(did)}`,
+    // Role-scoped, signed passport data for consumers scanning the code
+    presentation: apiUrl(`${API_CONFIG.IDENTITY.PRESENTATION}/${encodeURIComponent(did)}/presentation?role=Consumer`),
     type: 'DPP',
   };
 }
@@ -1,7 +1,22 @@
 import enhancedDB from '../data/hybridDataStore';
-import { localDB } from '../data/localData';
-import { LifecycleStatus, ValidTransitions, LifecycleStatusLabels } from '../types/lifecycle';
-import { certifyProduct, deactivateDID, updateDIDViaBackend } from './didOperationsLocal';
+import { localDB, type DPP } from '../data/localData';
+import {
+    LifecycleStatus,
+    validateLifecycleTransition,
+    isTerminalStatus,
+    CASCADING_STATUSES,
+    type LifecycleAttachment,
+    type LifecycleChildPlan
+} from '../types/lifecycle';
+import {
+    getLifecycleForDPP,
+    getLifecycleTransitions,
+    validateLifecycleForProduct,
+    type LifecycleTransitionDefinition
+} from '../schemas/productSchema';
+import { getProductActorRole } from '../../../backend/utils/roles';
+import { getRoleForDID } from '../utils/roleDids';
+import { certifyProduct, deactivateDID, transitionLifecycleViaBackend } from './didOperationsLocal';
 
 /**
  * Result of a transition attempt
@@ -21,24 +36,28 @@ export interface TransitionResult {
  */
 export const LifecycleManager = {
     /**
-     * Check if a transition is valid according to the state machine
+     * Check if a user may make a transition (same state machine as the identity service)
      */
     validateTransition(currentStatus: LifecycleStatus | string, newStatus: LifecycleStatus): boolean {
         const current = (currentStatus || 'created') as LifecycleStatus;
+        return validateLifecycleTransition(current, newStatus, 'user') === null;
+    },
 
-        // Allow any transition TO 'tampered' (system state)
-        if (newStatus === 'tampered') return true;
-
-        // Allow fixing 'tampered' back to 'active'
-        if (current === 'tampered' && newStatus === 'active') return true;
-
-        const allowed = ValidTransitions[current] || [];
-        return allowed.includes(newStatus);
+    /**
+     * Transitions a party can trigger on a DPP, per its product's lifecycle
+     * (the owner in its role, anyone else only where the lifecycle names their role)
+     */
+    getAvailableTransitions(dpp: DPP, actorDid: string): LifecycleTransitionDefinition[] {
+        const current = (dpp.lifecycle_status || 'created') as LifecycleStatus;
+        const role = getProductActorRole(actorDid, getRoleForDID(actorDid), dpp.owner);
+        return role ? getLifecycleTransitions(getLifecycleForDPP(dpp), current, role, actorDid === dpp.owner) : [];
     },
 
     /**
      * Execute a lifecycle transition
      * Handles both the state update and any necessary backend/blockchain operations
+     * The actor's role (see getProductActorRole) and meta.attachments are checked
+     * against the product's lifecycle, as the identity service does again
      */
     async transitionLifecycle(
         dppId: string,
@@ -50,27 +69,41 @@ export const LifecycleManager = {
         const dpp = await enhancedDB.getDPPById(dppId);
         if (!dpp) return { success: false, message: 'DPP not found' };
 
-        // 1. Validate Transition
-        if (!this.validateTransition(dpp.lifecycle_status, newStatus)) {
-            return {
-                success: false,
-                message: `Invalid transition from ${dpp.lifecycle_status} to ${newStatus}`
-            };
+        // 1. Validate Transition against the product's lifecycle
+        // (the identity service enforces the same rules again)
+        const attachments: LifecycleAttachment[] = meta.attachments || [];
+        const role = getProductActorRole(actorDid, getRoleForDID(actorDid), dpp.owner);
+        if (!role) {
+            return { success: false, message: 'Only the owner can change the lifecycle of this product' };
+        }
+        const violation = validateLifecycleForProduct(
+            getLifecycleForDPP(dpp),
+            (dpp.lifecycle_status || 'created') as LifecycleStatus,
+            newStatus,
+            role,
+            attachments,
+            actorDid === dpp.owner
+        );
+        if (violation) {
+            return { success: false, message: violation.message };
         }
 
         // 2. Check Dependencies (e.g., Parent is Recycled -> Children must be handled)
-        if (newStatus === 'recycled' || newStatus === 'deprecated') {
+        // meta.children plans what happens to each component in use (see LifecycleChildPlan)
+        const childPlans: LifecycleChildPlan[] | undefined = meta.children;
+        if (CASCADING_STATUSES.includes(newStatus)) {
             const children = await enhancedDB.getRelationshipsByParent(dpp.did);
-            // Filter for active children only
+            // Filter for children still in use that have no plan yet
             const activeChildren = [];
             for (const rel of children) {
                 const childDPP = await enhancedDB.getDPPByDID(rel.child_did);
-                if (childDPP && childDPP.lifecycle_status === 'active') {
+                if (childDPP && !isTerminalStatus((childDPP.lifecycle_status || 'created') as LifecycleStatus) &&
+                    !childPlans?.some(plan => plan.did === childDPP.did)) {
                     activeChildren.push(childDPP);
                 }
             }
 
-            if (activeChildren.length > 0 && !meta.forceCascade) {
+            if (activeChildren.length > 0) {
                 return {
                     success: false,
                     message: 'Active components found. Please decide how to handle them.',
@@ -98,8 +131,7 @@ export const LifecycleManager = {
                         });
                     } else {
                         // Just a status update
-                        await this.forceUpdateStatus(dppId, 'active');
-                        result = { success: true, message: 'Status updated to Active' };
+                        result = await transitionLifecycleViaBackend(dppId, actorDid, 'active', reason, attachments);
                     }
                     break;
 
@@ -110,20 +142,25 @@ export const LifecycleManager = {
                 case 'recycled':
                 case 'deprecated':
                 case 'in_maintenance':
-                    // Generic status update anchored as a generic DID update
-                    // We use the 'updateDIDViaBackend' to anchor custom metadata
-                    await updateDIDViaBackend(dppId, actorDid, {
-                        description: `Status changed to ${LifecycleStatusLabels[newStatus]}. Reason: ${reason}`
-                    });
-                    await this.forceUpdateStatus(dppId, newStatus);
-                    result = { success: true, message: `Status updated to ${LifecycleStatusLabels[newStatus]}` };
-                    break;
-
-                case 'tampered':
-                    // System only
-                    await this.forceUpdateStatus(dppId, 'tampered');
-                    result = { success: true, message: 'Marked as TAMPERED' };
+                case 'replaced': {
+                    // Signed lifecycle entry in the DID log (with the components, in one operation)
+                    const backendResult = await transitionLifecycleViaBackend(dppId, actorDid, newStatus, reason, attachments, childPlans);
+                    if (backendResult.requiredActions) {
+                        // The identity service knows of components not handled here
+                        const children = [];
+                        for (const child of backendResult.requiredActions.children) {
+                            const childDPP = await enhancedDB.getDPPByDID(child.did);
+                            if (childDPP) children.push(childDPP);
+                        }
+                        return {
+                            success: false,
+                            message: backendResult.message,
+                            requiredActions: { type: 'handle_children', children }
+                        };
+                    }
+                    result = backendResult;
                     break;
+                }
 
                 default:
                     return { success: false, message: `Handler for ${newStatus} not implemented` };
@@ -10,6 +10,14 @@
 import { sha256 } from '@noble/hashes/sha2.js';
 import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js';
 import { type AnchoringProof } from '../../types/witness';
+import {
+  MerkleMountainRange,
+  traceInclusionProof,
+  verifyInclusionProof,
+  verifyConsistencyProof,
+  type MMRHashStep,
+  type MMRInclusionProof,
+} from '../../../backend/utils/mmr';
 
 export interface DIDOperation {
   id: string;
@@ -394,16 +402,84 @@ export interface VerificationResult {
   isValid: boolean;
 }
 
+/**
+ * Whether an anchoring proof comes from the MMR accumulator (vs. a legacy per-batch tree)
+ */
+export function isMMRProof(proof: AnchoringProof): proof is AnchoringProof & { mmrSize: number } {
+  return typeof proof.mmrSize === 'number';
+}
+
+/**
+ * Hash steps on this leaf's path for an MMR proof: leaf -> peak, then through
+ * the peak bagging (the bag of the peaks to the right acts as one sibling).
+ */
+function getMMRPathSteps(proof: AnchoringProof & { mmrSize: number }): { steps: MMRHashStep[]; root: string | null } {
+  const { steps, root } = traceInclusionProof(proof.leafHash, {
+    leafIndex: proof.leafIndex,
+    mmrSize: proof.mmrSize,
+    siblings: proof.merkleProof || [],
+    peaks: proof.peaks || [],
+  });
+
+  let current = '0x' + proof.leafHash.replace('0x', '').toLowerCase();
+  const pathSteps = steps.filter(step => {
+    if (step.left !== current && step.right !== current) return false;
+    current = step.parent;
+    return true;
+  });
+
+  return { steps: pathSteps, root };
+}
+
+/**
+ * Build an MMR inclusion proof for a leaf, e.g. to check a witness proof locally
+ */
+export function getMMRProof(
+  leafHashes: string[],
+  leafIndex: number,
+  mmrSize?: number
+): MMRInclusionProof & { root: string } {
+  const mmr = MerkleMountainRange.fromLeaves(leafHashes);
+  const size = mmrSize ?? mmr.size;
+  return { ...mmr.getProof(leafIndex, size), root: mmr.getRoot(size) };
+}
+
+export { verifyInclusionProof as verifyMMRProof, verifyConsistencyProof as verifyMMRConsistency };
+
 /**
  * Reconstructs the vertical proof path from a witness anchoring proof.
  * This is what the Watcher actually uses to verify an operation.
  */
-export function buildProofPath(proof: any): ProofPathStructure {
+export function buildProofPath(proof: AnchoringProof): ProofPathStructure {
   const levels: ProofPathLevel[] = [];
+
+  if (isMMRProof(proof)) {
+    const { steps, root } = getMMRPathSteps(proof);
+    let current = '0x' + proof.leafHash.replace('0x', '').toLowerCase();
+    steps.forEach((step, i) => {
+      const isLeftChild = step.left === current;
+      levels.push({
+        depth: i,
+        currentHash: current,
+        siblingHash: isLeftChild ? step.right : step.left,
+        isLeftChild,
+        parentHash: step.parent
+      });
+      current = step.parent;
+    });
+
+    return {
+      levels,
+      leafHash: '0x' + proof.leafHash.replace('0x', '').toLowerCase(),
+      merkleRoot: '0x' + proof.merkleRoot.replace('0x', '').toLowerCase(),
+      isValid: root !== null && root === '0x' + proof.merkleRoot.replace('0x', '').toLowerCase(),
+      totalLevels: levels.length
+    };
+  }
   
-  // Normalize proof data (handle both AnchoringProof and WitnessProof types)
-  let merkleProof = proof.merkleProof || proof.siblings || [];
-  const leafHash = (proof.leafHash || proof.hash || '0x' + '0'.repeat(64)).replace('0x', '');
+  // Normalize proof data
+  let merkleProof = proof.merkleProof || [];
+  const leafHash = (proof.leafHash || '0x' + '0'.repeat(64)).replace('0x', '');
   const merkleRoot = (proof.merkleRoot || '').replace('0x', '');
   
   // Detect if the proof is root-to-leaf (user preference) or leaf-to-root (standard)
@@ -486,12 +562,34 @@ export function buildProofPath(proof: any): ProofPathStructure {
 /**
  * Generates a step-by-step verification trace for the animation.
  */
-export function verifyProofPath(proof: any): VerificationResult {
+export function verifyProofPath(proof: AnchoringProof): VerificationResult {
   const steps: VerificationStep[] = [];
+
+  if (isMMRProof(proof)) {
+    const { steps: mmrSteps, root } = getMMRPathSteps(proof);
+    const peakSteps = (proof.merkleProof || []).length;
+    mmrSteps.forEach((step, i) => steps.push({
+      level: i,
+      leftInput: step.left,
+      rightInput: step.right,
+      output: step.parent,
+      description: i < peakSteps
+        ? `Step ${i + 1}: Hash up the mountain towards its peak`
+        : `Step ${i + 1}: Bag peak with neighbouring peaks`
+    }));
+
+    const expectedRoot = '0x' + proof.merkleRoot.replace('0x', '').toLowerCase();
+    return {
+      steps,
+      computedRoot: root || (mmrSteps.length > 0 ? mmrSteps[mmrSteps.length - 1].parent : proof.leafHash),
+      expectedRoot,
+      isValid: root !== null && root === expectedRoot
+    };
+  }
   
   // Normalize proof data
-  let merkleProof = proof.merkleProof || proof.siblings || [];
-  const leafHash = (proof.leafHash || proof.hash || '0x' + '0'.repeat(64)).replace('0x', '');
+  let merkleProof = proof.merkleProof || [];
+  const leafHash = (proof.leafHash || '0x' + '0'.repeat(64)).replace('0x', '');
   const merkleRoot = (proof.merkleRoot || '').replace('0x', '');
 
   // Detect and handle root-to-leaf proofs
@@ -1,7 +1,10 @@
 ﻿import { createContext, useContext, useState, ReactNode, useMemo, useEffect } from 'react';
 import { useWallet } from './WalletContext';
+import { ROLE_PERMISSIONS } from '../../../backend/utils/selectiveDisclosure';
+import type { UserRole } from '../../../backend/utils/roles';
+import { ROLE_DIDS } from './roleDids';
 
-export type UserRole = 'Recycler' | 'Manufacturer' | 'Manufacturer A' | 'Manufacturer B' | 'Witness' | 'Watcher' | 'Resolver' | 'Consumer' | 'Wallet User';
+export type { UserRole };
 
 interface RoleContextType {
   currentRole: UserRole;
@@ -14,30 +17,7 @@ interface RoleContextType {
 const RoleContext = createContext<RoleContextType | undefined>(undefined);
 
 // Define DID for each role - exported for use in transfer ownership
-export const roleDIDs: Record<UserRole, string> = {
-  Recycler: 'did:webvh:example.com:roles:recycler-001',
-  Manufacturer: 'did:webvh:example.com:organizations:window-manufacturer',
-  'Manufacturer A': 'did:webvh:glass-solutions.com:organizations:manufacturer',
-  'Manufacturer B': 'did:webvh:frame-masters.com:organizations:manufacturer',
-  Witness: 'did:webvh:example.com:witnesses:witness-node-001',
-  Watcher: 'did:webvh:example.com:watchers:watcher-node-001',
-  Resolver: 'did:webvh:example.com:resolvers:resolver-node-001',
-  Consumer: 'did:webvh:example.com:consumers:public-user',
-  'Wallet User': 'did:pkh:unknown',
-};
-
-// Define what each role can see
-const rolePermissions: Record<UserRole, string[]> = {
-  Recycler: ['basic', 'materials', 'dimensions', 'weight', 'hazardous'],
-  Manufacturer: ['basic', 'materials', 'lifecycle', 'operations', 'manufacturing', 'suppliers', 'costs'],
-  'Manufacturer A': ['basic', 'materials', 'lifecycle', 'operations', 'manufacturing', 'suppliers', 'costs'],
-  'Manufacturer B': ['basic', 'materials', 'lifecycle', 'operations', 'manufacturing', 'suppliers', 'costs'],
-  Witness: ['basic', 'operations', 'did-events'],
-  Watcher: ['basic', 'operations', 'did-events', 'monitoring', 'alerts'],
-  Resolver: ['basic', 'operations', 'did-events', 'history', 'verification'],
-  Consumer: ['basic', 'origin', 'maintenance', 'warranty'],
-  'Wallet User': ['basic', 'materials', 'lifecycle', 'operations'],
-};
+export const roleDIDs = ROLE_DIDS;
 
 export function RoleProvider({ children }: { children: ReactNode }) {
   const { isConnected, address } = useWallet();
@@ -66,7 +46,8 @@ export function RoleProvider({ children }: { children: ReactNode }) {
         setSelectedRole(role);
       },
       canSeeField: (field: string): boolean => {
-        const permissions = rolePermissions[currentRole];
+        // Same policy the identity service applies to Verifiable Presentations
+        const permissions = ROLE_PERMISSIONS[currentRole];
         return permissions && permissions.includes(field);
       },
       isWalletLocked: isWalletCurrentlyConnected
@@ -0,0 +1,26 @@
+/**
+ * DIDs of the parties in the demo ecosystem, one per role the role switcher
+ * offers. The identity service assigns them the same roles in its
+ * role_assignments table (backend/db/seed.sql).
+ */
+
+import type { UserRole } from '../../../backend/utils/roles';
+
+export const ROLE_DIDS: Record<UserRole, string> = {
+  Recycler: 'did:webvh:example.com:roles:recycler-001',
+  Manufacturer: 'did:webvh:example.com:organizations:window-manufacturer',
+  'Manufacturer A': 'did:webvh:glass-solutions.com:organizations:manufacturer',
+  'Manufacturer B': 'did:webvh:frame-masters.com:organizations:manufacturer',
+  Witness: 'did:webvh:example.com:witnesses:witness-node-001',
+  Watcher: 'did:webvh:example.com:watchers:watcher-node-001',
+  Resolver: 'did:webvh:example.com:resolvers:resolver-node-001',
+  Consumer: 'did:webvh:example.com:consumers:public-user',
+  'Wallet User': 'did:pkh:unknown',
+};
+
+/**
+ * Role of one of the demo parties, or null
+ */
+export function getRoleForDID(did: string): UserRole | null {
+  return (Object.keys(ROLE_DIDS) as UserRole[]).find(role => ROLE_DIDS[role] === did) || null;
+}
@@ -0,0 +1,242 @@
+/**
+ * Spreadsheet Utilities
+ *
+ * Reads CSV and XLSX files (e.g. ERP exports) into rows of cell text and
+ * writes CSV. XLSX files are ZIP archives of XML parts, read with the
+ * browser's DecompressionStream and DOMParser.
+ */
+
+export interface SheetData {
+  headers: string[];
+  rows: string[][]; // data rows, as long as headers
+  rowNumbers: number[]; // row of the sheet each data row comes from (1-based)
+}
+
+// ============================================
+// CSV
+// ============================================
+
+// Helper: Delimiter of a CSV file (ERP exports often use ; or tabs)
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, d) => (firstLine.split(d).length > firstLine.split(best).length ? d : best), ',');
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted cells may contain delimiters, quotes and line breaks)
+ */
+export function parseCSV(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text; // byte order mark
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Write rows as CSV
+ */
+export function toCSV(rows: Array<Array<string | number | null | undefined>>): string {
+  const escape = (value: string | number | null | undefined) => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return rows.map(row => row.map(escape).join(',')).join('\r\n');
+}
+
+// ============================================
+// XLSX
+// ============================================
+
+// Helper: Files of a ZIP archive by name (stored or deflated entries)
+async function readZip(buffer: ArrayBuffer): Promise<Map<string, Uint8Array>> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  // End of central directory record (followed by a comment of up to 64 KiB)
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Not an XLSX file (no ZIP directory found)');
+  }
+
+  const files = new Map<string, Uint8Array>();
+  const entries = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+
+  for (let e = 0; e < entries; e++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) {
+      throw new Error('Corrupt XLSX file (bad ZIP directory entry)');
+    }
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // The local header has its own name and extra field lengths
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      files.set(name, data);
+    } else if (method === 8) {
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      files.set(name, new Uint8Array(await new Response(stream).arrayBuffer()));
+    }
+  }
+  return files;
+}
+
+// Helper: Zero-based column of a cell reference (e.g. AB12 -> 27)
+function columnIndex(cellRef: string): number {
+  const letters = cellRef.replace(/[0-9]/g, '');
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * Read the first worksheet of an XLSX file
+ * Numbers (including dates, which Excel stores as day serials) are returned as written in the file.
+ */
+export async function parseXLSX(buffer: ArrayBuffer): Promise<string[][]> {
+  const files = await readZip(buffer);
+  const decoder = new TextDecoder();
+  const xml = (name: string) => {
+    const data = files.get(name);
+    return data ? new DOMParser().parseFromString(decoder.decode(data), 'application/xml') : null;
+  };
+
+  // First sheet of the workbook, through the workbook relationships
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const firstSheet = xml('xl/workbook.xml')?.getElementsByTagName('sheet')[0];
+  const relId = firstSheet?.getAttribute('r:id');
+  const rel = Array.from(xml('xl/_rels/workbook.xml.rels')?.getElementsByTagName('Relationship') || [])
+    .find(r => r.getAttribute('Id') === relId);
+  if (rel) {
+    const target = rel.getAttribute('Target') || '';
+    sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  }
+
+  const sharedStrings = Array.from(xml('xl/sharedStrings.xml')?.getElementsByTagName('si') || [])
+    .map(si => Array.from(si.getElementsByTagName('t')).map(t => t.textContent || '').join(''));
+
+  const sheet = xml(sheetPath);
+  if (!sheet) {
+    throw new Error('XLSX file has no worksheet');
+  }
+
+  const rows: string[][] = [];
+  for (const rowEl of Array.from(sheet.getElementsByTagName('row'))) {
+    const rowNumber = Number(rowEl.getAttribute('r')) || rows.length + 1;
+    const row: string[] = [];
+    Array.from(rowEl.getElementsByTagName('c')).forEach((c, position) => {
+      const ref = c.getAttribute('r');
+      const col = ref ? columnIndex(ref) : position;
+      const type = c.getAttribute('t');
+      const value = c.getElementsByTagName('v')[0]?.textContent ?? '';
+      let text: string;
+      if (type === 's') {
+        text = sharedStrings[Number(value)] ?? '';
+      } else if (type === 'inlineStr') {
+        text = Array.from(c.getElementsByTagName('t')).map(t => t.textContent || '').join('');
+      } else if (type === 'b') {
+        text = value === '1' ? 'TRUE' : 'FALSE';
+      } else {
+        text = value;
+      }
+      while (row.length < col) row.push('');
+      row[col] = text;
+    });
+    // Keep blank rows in place so row numbers match the sheet
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// ============================================
+// Files
+// ============================================
+
+/**
+ * Read a CSV or XLSX file: the first non-empty row holds the column names
+ */
+export async function readSpreadsheet(file: File): Promise<SheetData> {
+  const isXLSX = /\.xlsx$/i.test(file.name);
+  const cells = isXLSX ? await parseXLSX(await file.arrayBuffer()) : parseCSV(await file.text());
+
+  const isBlank = (row: string[]) => row.every(cell => cell.trim() === '');
+  const headerIndex = cells.findIndex(row => !isBlank(row));
+  if (headerIndex < 0) {
+    throw new Error(`${file.name} is empty`);
+  }
+
+  const headers = cells[headerIndex].map((h, i) => h.trim() || `Column ${i + 1}`);
+  const rows: string[][] = [];
+  const rowNumbers: number[] = [];
+  cells.forEach((row, index) => {
+    if (index <= headerIndex || isBlank(row)) return;
+    rows.push(headers.map((_, i) => (row[i] ?? '').trim()));
+    rowNumbers.push(index + 1);
+  });
+
+  return { headers, rows, rowNumbers };
+}
+
+/**
+ * Offer text as a file download
+ */
+export function downloadFile(content: string, filename: string, type = 'text/csv;charset=utf-8'): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -1,5 +1,24 @@
 import hybridDataStore from '../data/hybridDataStore';
-import type { DPP } from '../data/localData';
+import type { DPP, CredentialVerificationStatus } from '../data/localData';
+import { identityApi, type W3CVerifiableCredential } from '../api/client';
+import type { VerificationBundle } from '../../types/witness';
+import { hashWitnessEntry, verifyProofPath } from './merkleTree';
+import {
+  verifyHashChain,
+  verifyProof,
+  verifySCID,
+  verifyWitnessProof,
+  verifyUpdateThreshold,
+  getControllerProofKey,
+  getActiveUpdatePolicy,
+  verificationUtils,
+  type LogEntry,
+} from '../../../backend/utils/verification';
+import { verifyDataIntegrityProof } from '../../../backend/utils/dataIntegrity';
+import { verifyCredential } from '../../../backend/utils/credentials';
+import { checkCredentialStatus } from '../../../backend/utils/statusList';
+import { verifySdJwt, getSdJwtKid } from '../../../backend/utils/selectiveDisclosure';
+import { resolveDID } from '../operations/didResolverLocal';
 
 export async function verifyDPPIntegrity(dpp: DPP): Promise<{
   valid: boolean;
@@ -173,3 +192,262 @@ export async function calculateTrustScore(dppId: string): Promise<{
     },
   };
 }
+
+export interface BundleVerificationResult {
+  valid: boolean;
+  checks: {
+    bundleSignature: boolean;
+    scid: boolean;
+    hashChain: boolean;
+    logSignatures: boolean;
+    merkleProofs: boolean;
+    trustedRoots: boolean;
+    witnessSignatures: boolean;
+  };
+  errors: string[];
+  warnings: string[];
+}
+
+const normalizeHash = (hash: string) => hash.toLowerCase().replace(/^0x/, '');
+
+/**
+ * Verify an exported verification bundle fully offline.
+ *
+ * Nothing is fetched from the backend or the chain: the caller supplies the
+ * Merkle roots it trusts (e.g. read from the WitnessAnchorRegistry contract
+ * beforehand) and, optionally, the witness did:keys it trusts.
+ */
+export async function verifyVerificationBundle(
+  bundle: VerificationBundle,
+  trustedRoots: string[],
+  trustedWitnesses: string[] = []
+): Promise<BundleVerificationResult> {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const checks = {
+    bundleSignature: false,
+    scid: false,
+    hashChain: false,
+    logSignatures: false,
+    merkleProofs: false,
+    trustedRoots: false,
+    witnessSignatures: false,
+  };
+
+  const log: LogEntry[] = [];
+  (bundle.files?.['did.jsonl'] || '').split(/\r?\n/).forEach((line, index) => {
+    if (line.trim().length === 0) return;
+    try {
+      log.push(JSON.parse(line));
+    } catch (error) {
+      errors.push(`did.jsonl line ${index + 1}: ${error instanceof Error ? error.message : 'invalid JSON'}`);
+    }
+  });
+
+  // Without every entry the hash chain and the signatures cannot be checked
+  if (errors.length > 0) {
+    return { valid: false, checks, errors, warnings };
+  }
+  if (log.length === 0) {
+    return { valid: false, checks, errors: ['Bundle contains no DID log entries'], warnings };
+  }
+
+  // 1. Bundle signature - made with the key of the latest log entry
+  const latestDoc = log[log.length - 1].state || log[log.length - 1].didDocument;
+  const currentKey = latestDoc?.verificationMethod?.[0]?.publicKeyMultibase;
+  const publicKey = currentKey ? verificationUtils.decodeMultibaseKey(currentKey) : null;
+  const { proof, ...unsignedBundle } = bundle;
+
+  if (!proof) {
+    errors.push('Bundle is not signed');
+  } else if (!publicKey) {
+    errors.push('Cannot determine the current DID key to check the bundle signature');
+  } else {
+    const signatureResult = await verifyDataIntegrityProof({ ...unsignedBundle }, proof, publicKey);
+    checks.bundleSignature = signatureResult.valid;
+    if (!signatureResult.valid) {
+      errors.push(`Bundle signature: ${signatureResult.details}`);
+    }
+  }
+
+  // 2. DID log: SCID, hash chain and entry signatures
+  const scidResult = await verifySCID(bundle.scid, log[0]);
+  checks.scid = scidResult.valid;
+  warnings.push(...scidResult.warnings);
+
+  const chainResult = await verifyHashChain(log);
+  checks.hashChain = chainResult.valid;
+  errors.push(...chainResult.errors);
+  warnings.push(...chainResult.warnings);
+
+  // Controller proofs are verified against the update keys in force at their entry, at any threshold
+  const thresholdResult = await verifyUpdateThreshold(log);
+  checks.logSignatures = thresholdResult.valid;
+  errors.push(...thresholdResult.errors);
+
+  for (let i = 0; i < log.length; i++) {
+    // Each entry is authorized by the update keys in force before it (the first entry by its own)
+    const { updateKeys } = getActiveUpdatePolicy(log.slice(0, Math.max(1, i)));
+    const verified = thresholdResult.verifiedEntries.includes(i);
+    const proofs = (log[i].proof || []).filter(p => !(verified && getControllerProofKey(p)));
+    if (verified && proofs.length === 0) {
+      continue;
+    }
+    if (proofs.length === 0) {
+      checks.logSignatures = false;
+      errors.push(`Entry ${i} has no proof`);
+      continue;
+    }
+    if (updateKeys.length === 0) {
+      checks.logSignatures = false;
+      errors.push(`Entry ${i}: the log declares no update keys to check the signature against`);
+      continue;
+    }
+
+    for (const proof of proofs) {
+      const entry = { ...log[i], proof: [proof] };
+      let proofResult = await verifyProof(entry, updateKeys[0]);
+      for (const key of updateKeys.slice(1)) {
+        if (proofResult.valid) break;
+        proofResult = await verifyProof(entry, key);
+      }
+      if (!proofResult.valid) {
+        checks.logSignatures = false;
+        errors.push(`Entry ${i}: not signed by an active update key (${proofResult.details})`);
+      }
+    }
+  }
+
+  // 3. Witness file: leaf hashes, Merkle paths, trusted roots and attestations
+  const witnessProofs = bundle.files?.['did-witness.json'] || [];
+  const roots = new Set(trustedRoots.map(normalizeHash));
+
+  if (witnessProofs.length === 0) {
+    warnings.push('Bundle contains no anchoring proofs');
+  } else {
+    checks.merkleProofs = true;
+    checks.trustedRoots = true;
+    checks.witnessSignatures = true;
+  }
+
+  for (const witnessProof of witnessProofs) {
+    const version = witnessProof.versionId;
+    const entry = log.find(e => e.versionId === version);
+
+    if (!entry) {
+      checks.merkleProofs = false;
+      errors.push(`Version ${version}: anchored but missing from did.jsonl`);
+    } else if (normalizeHash(hashWitnessEntry(entry)) !== normalizeHash(witnessProof.leafHash)) {
+      checks.merkleProofs = false;
+      errors.push(`Version ${version}: log entry does not match anchored leaf hash`);
+    }
+
+    if (!verifyProofPath(witnessProof).isValid) {
+      checks.merkleProofs = false;
+      errors.push(`Version ${version}: Merkle proof does not lead to root of batch ${witnessProof.batchId}`);
+    }
+
+    if (!roots.has(normalizeHash(witnessProof.merkleRoot))) {
+      checks.trustedRoots = false;
+      errors.push(`Version ${version}: root of batch ${witnessProof.batchId} is not in the trusted root list`);
+    }
+
+    const batch = bundle.batches?.find(b => b.batchId === witnessProof.batchId);
+    if (!batch) {
+      warnings.push(`Batch ${witnessProof.batchId} is not listed in the bundle`);
+    } else {
+      if (normalizeHash(batch.merkleRoot) !== normalizeHash(witnessProof.merkleRoot)
+        || (batch.blockNumber !== null && batch.blockNumber !== witnessProof.blockNumber)) {
+        checks.trustedRoots = false;
+        errors.push(`Batch ${batch.batchId}: root or block number differs from did-witness.json`);
+      }
+      if (!batch.finalized) {
+        warnings.push(`Batch ${batch.batchId} has not reached its witness quorum`);
+      }
+    }
+
+    if ((witnessProof.proof?.length || 0) > 0 || trustedWitnesses.length > 0) {
+      const attestation = await verifyWitnessProof(witnessProof, trustedWitnesses);
+      if (!attestation.valid) {
+        checks.witnessSignatures = false;
+        errors.push(...attestation.errors);
+      }
+      warnings.push(...attestation.warnings);
+    } else {
+      warnings.push(`Witness proof for version ${version} is not signed by a witness`);
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    checks,
+    errors,
+    warnings,
+  };
+}
+
+export interface CredentialCheck {
+  credential: W3CVerifiableCredential;
+  status: CredentialVerificationStatus;
+  errors: string[];
+}
+
+/**
+ * Verify the credentials issued about a product: proof, validity period and
+ * the issuer's revocation/suspension status lists.
+ */
+export async function verifyProductCredentials(did: string): Promise<CredentialCheck[]> {
+  let credentials: W3CVerifiableCredential[];
+  try {
+    credentials = await identityApi.getCredentials(did);
+  } catch {
+    return [];
+  }
+
+  return Promise.all(credentials.map(async (credential): Promise<CredentialCheck> => {
+    const result = await verifyCredential(credential);
+    const statusResult = await checkCredentialStatus(credential, url => identityApi.getStatusListCredential(url));
+    const errors = [...result.errors, ...statusResult.errors];
+
+    let status: CredentialVerificationStatus = 'valid';
+    if (statusResult.revoked) status = 'revoked';
+    else if (statusResult.suspended) status = 'suspended';
+    else if (credential.validUntil && Date.parse(credential.validUntil) < Date.now()) status = 'expired';
+    else if (errors.length > 0) status = 'invalid';
+
+    return { credential, status, errors };
+  }));
+}
+
+export interface PresentationCheck {
+  valid: boolean;
+  errors: string[];
+  claims: Record<string, unknown>;
+  withheld: number;
+}
+
+/**
+ * Fetch the role-scoped passport presentation and verify it against the
+ * product's DID document. Returns null when the backend cannot provide one.
+ */
+export async function verifyPassportPresentation(did: string, role: string): Promise<PresentationCheck | null> {
+  let sdJwt: string;
+  try {
+    sdJwt = (await identityApi.getPresentation(did, role)).sdJwt;
+  } catch {
+    return null;
+  }
+
+  const resolved = await resolveDID(did);
+  const kid = getSdJwtKid(sdJwt) || '';
+  const methods: Array<{ id?: string; publicKeyMultibase?: string }> = resolved?.document?.verificationMethod || [];
+  const method = methods.find(m => m.id && kid.endsWith(`#${m.id.split('#').pop()}`)) || methods[0];
+  const publicKey = method?.publicKeyMultibase ? verificationUtils.decodeMultibaseKey(method.publicKeyMultibase) : null;
+  if (!publicKey) {
+    return { valid: false, errors: [`Cannot resolve issuer key ${kid}`], claims: {}, withheld: 0 };
+  }
+
+  const result = await verifySdJwt(sdJwt, publicKey);
+  return { valid: result.valid, errors: result.errors, claims: result.claims, withheld: result.withheld };
+}
+
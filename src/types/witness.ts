@@ -14,6 +14,22 @@ export interface AnchoringProof {
   blockNumber: number;      // Block where anchored
   timestamp: string;        // ISO timestamp
   chainId?: string;         // Optional: for multi-chain
+  mmrSize?: number;         // MMR anchors only: accumulator size (leafIndex is global, merkleProof runs leaf -> peak)
+  peaks?: string[];         // MMR anchors only: peaks bagged into merkleRoot
+  proof?: WitnessDataIntegrityProof[]; // Witness signatures over versionId + leafHash + merkleRoot
+}
+
+/**
+ * @title WitnessDataIntegrityProof Interface
+ * @description eddsa-jcs-2022 Data Integrity proof signed by a witness's did:key
+ */
+export interface WitnessDataIntegrityProof {
+  type: 'DataIntegrityProof';
+  cryptosuite: 'eddsa-jcs-2022';
+  verificationMethod: string; // did:key:z6Mk...#z6Mk...
+  created: string;
+  proofPurpose: string;
+  proofValue: string;
 }
 
 /**
@@ -21,3 +37,36 @@ export interface AnchoringProof {
  * @description Represents the structure of did-witness.json
  */
 export type WitnessFile = AnchoringProof[];
+
+/**
+ * @title VerificationBundle Interface
+ * @description Signed archive exported by the identity service (GET /api/did/:did/bundle)
+ * that lets a DPP be verified offline against a list of trusted on-chain roots.
+ */
+export interface VerificationBundle {
+  type: 'DPPVerificationBundle';
+  version: string;
+  did: string;
+  scid: string;
+  exportedAt: string;
+  files: {
+    'did.jsonl': string;              // Raw DID log
+    'did-witness.json': WitnessFile;  // Anchoring proofs incl. Merkle paths
+  };
+  batches: BundleBatch[];
+  declarationOfPerformance: Record<string, unknown> | null;
+  proof: WitnessDataIntegrityProof;   // Signed by the DID's current key
+}
+
+/**
+ * @title BundleBatch Interface
+ * @description Anchored batch root referenced by a verification bundle
+ */
+export interface BundleBatch {
+  batchId: number;
+  merkleRoot: string;
+  txHash: string | null;
+  blockNumber: number | null;
+  finalized: boolean;
+  chainId?: string | null;   // Anchor backend chain (eip155:<id>, ledger:<id>, ...)
+}
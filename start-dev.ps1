@@ -117,7 +117,7 @@ if (-not $SkipDatabase) {
 
         # Cleanup stale blockchain data (crucial for local dev restarts)
         Write-Host "      Cleaning stale blockchain data..." -ForegroundColor Gray
-        podman exec -i dpp-postgres psql -U dpp_admin -d dpp_db -c "TRUNCATE batches CASCADE; UPDATE events SET witness_proofs = NULL;" 2>$null
+        podman exec -i dpp-postgres psql -U dpp_admin -d dpp_db -c "TRUNCATE batches, mmr_nodes CASCADE; UPDATE events SET witness_proofs = NULL, anchor_status = 'queued', anchor_attempts = 0, next_attempt_at = NULL, last_error = NULL;" 2>$null
         
         # Generate demo did.jsonl files for Watcher verification
         Write-Host "      Generating demo DID log files..." -ForegroundColor Gray
@@ -216,7 +216,7 @@ Write-Host "      Starting in new window..." -ForegroundColor Gray
 
 $backendPath = Join-Path $ProjectRoot "backend"
 # Explicitly pass env variables to ensure child process picks up .env settings (RPC, Contract, Key, Batching)
-$proc = Start-Process powershell -ArgumentList "-NoExit", "-Command", "Set-Location '$backendPath'; `$env:DB_HOST='localhost'; `$env:RPC_URL='$($env:RPC_URL)'; `$env:CONTRACT_ADDRESS='$($env:CONTRACT_ADDRESS)'; `$env:RELAYER_PRIVATE_KEY='$($env:RELAYER_PRIVATE_KEY)'; `$env:BATCH_THRESHOLD='$($env:BATCH_THRESHOLD)'; `$env:BATCH_MAX_WAIT_MS='$($env:BATCH_MAX_WAIT_MS)'; Write-Host 'Witness Service' -ForegroundColor Cyan; npm run dev:witness" -WindowStyle Normal -PassThru
+$proc = Start-Process powershell -ArgumentList "-NoExit", "-Command", "Set-Location '$backendPath'; `$env:DB_HOST='localhost'; `$env:RPC_URL='$($env:RPC_URL)'; `$env:CONTRACT_ADDRESS='$($env:CONTRACT_ADDRESS)'; `$env:RELAYER_PRIVATE_KEY='$($env:RELAYER_PRIVATE_KEY)'; `$env:BATCH_THRESHOLD='$($env:BATCH_THRESHOLD)'; `$env:BATCH_MAX_WAIT_MS='$($env:BATCH_MAX_WAIT_MS)'; `$env:WITNESS_KEY_ID='$($env:WITNESS_KEY_ID)'; Write-Host 'Witness Service' -ForegroundColor Cyan; npm run dev:witness" -WindowStyle Normal -PassThru
 Add-Content -Path $PidFile -Value "witness:$($proc.Id)"
 Write-Host "      > Started (batching enabled)" -ForegroundColor Green
 
@@ -16,6 +16,12 @@ export default defineConfig({
         changeOrigin: true,
         secure: false,
       },
+      // W3C DID Resolution endpoint of the identity service
+      '/1.0/identifiers': {
+        target: 'http://localhost:3000',
+        changeOrigin: true,
+        secure: false,
+      },
       // Proxy DID well-known files to identity service
       '/.well-known': {
         target: 'http://localhost:3000',